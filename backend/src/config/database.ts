@@ -1,7 +1,13 @@
 import pg from 'pg';
 import { config } from './env.js';
 
-const { Pool } = pg;
+const { Pool, types } = pg;
+
+// Return DATE columns as plain YYYY-MM-DD strings instead of local-time Date objects
+types.setTypeParser(types.builtins.DATE, (value: string) => value);
+
+// Return NUMERIC columns (fractional day balances) as numbers instead of strings
+types.setTypeParser(types.builtins.NUMERIC, (value: string) => parseFloat(value));
 
 // Create a connection pool
 export const pool = new Pool({
@@ -29,6 +35,34 @@ export async function testConnection(): Promise<boolean> {
   }
 }
 
+// Run a query through a cursor, yielding its rows in batches so large results (e.g. exports)
+// are never held in memory at once
+export async function* queryInBatches<T>(text: string, values: unknown[] = [], batchSize = 500): AsyncGenerator<T[]> {
+  const client = await pool.connect();
+  let committed = false;
+
+  try {
+    await client.query('BEGIN');
+    await client.query(`DECLARE batch_cursor NO SCROLL CURSOR FOR ${text}`, values);
+    for (;;) {
+      const result = await client.query<T & pg.QueryResultRow>(`FETCH ${batchSize} FROM batch_cursor`);
+      if (result.rows.length > 0) {
+        yield result.rows;
+      }
+      if (result.rows.length < batchSize) break;
+    }
+    await client.query('COMMIT');
+    committed = true;
+  } finally {
+    // Also reached when the consumer stops early, e.g. because the client went away
+    try {
+      if (!committed) await client.query('ROLLBACK');
+    } finally {
+      client.release();
+    }
+  }
+}
+
 // Graceful shutdown
 export async function closePool(): Promise<void> {
   await pool.end();
@@ -13,6 +13,21 @@ const envSchema = z.object({
   JWT_SECRET: z.string().min(32),
   JWT_EXPIRES_IN: z.string().default('24h'),
   CORS_ORIGIN: z.string().default('http://localhost:5173'),
+  PUBLIC_API_URL: z.string().default('http://localhost:3000'),
+  WORKDAY_HOURS: z.string().default('8'),
+  ACCRUAL_JOB_INTERVAL_MINUTES: z.string().default('60'),
+  ATTACHMENT_DIR: z.string().default('uploads'),
+  ATTACHMENT_MAX_MB: z.string().default('10'),
+  ATTACHMENT_TYPES: z.string().default('application/pdf,image/jpeg,image/png'),
+  APP_URL: z.string().default('http://localhost:5173'),
+  SMTP_HOST: z.string().default('localhost'),
+  SMTP_PORT: z.string().default('1025'),
+  SMTP_SECURE: z.enum(['true', 'false']).default('false'),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+  MAIL_FROM: z.string().default('Vacation Portal <no-reply@vacation-portal.local>'),
+  NOTIFICATION_JOB_INTERVAL_SECONDS: z.string().default('30'),
+  NOTIFICATION_MAX_ATTEMPTS: z.string().default('6'),
 });
 
 // Parse and validate environment variables
@@ -37,6 +52,31 @@ function loadConfig() {
       cors: {
         origin: env.CORS_ORIGIN,
       },
+      publicApiUrl: env.PUBLIC_API_URL.replace(/\/+$/, ''),
+      workday: {
+        hours: parseFloat(env.WORKDAY_HOURS),
+      },
+      accrual: {
+        jobIntervalMinutes: parseInt(env.ACCRUAL_JOB_INTERVAL_MINUTES, 10),
+      },
+      attachments: {
+        dir: env.ATTACHMENT_DIR,
+        maxBytes: Math.round(parseFloat(env.ATTACHMENT_MAX_MB) * 1024 * 1024),
+        types: env.ATTACHMENT_TYPES.split(',').map((type) => type.trim().toLowerCase()).filter(Boolean),
+      },
+      appUrl: env.APP_URL.replace(/\/+$/, ''),
+      smtp: {
+        host: env.SMTP_HOST,
+        port: parseInt(env.SMTP_PORT, 10),
+        secure: env.SMTP_SECURE === 'true',
+        user: env.SMTP_USER || null,
+        password: env.SMTP_PASSWORD || '',
+        from: env.MAIL_FROM,
+      },
+      notifications: {
+        jobIntervalSeconds: parseInt(env.NOTIFICATION_JOB_INTERVAL_SECONDS, 10),
+        maxAttempts: parseInt(env.NOTIFICATION_MAX_ATTEMPTS, 10),
+      },
     };
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -0,0 +1,146 @@
+import { AccrualRepository } from '../repositories/accrualRepository.js';
+import { LeaveTypeRepository } from '../repositories/leaveTypeRepository.js';
+import { AccrualService } from '../services/accrualService.js';
+import {
+  createAccrualPolicySchema,
+  updateAccrualPolicySchema,
+  runAccrualsSchema,
+} from '../utils/validation.js';
+import {
+  sendSuccess,
+  sendCreated,
+  sendError,
+  parseBody,
+  type Request,
+  type Response,
+} from '../utils/http.js';
+
+const accrualRepo = new AccrualRepository();
+const leaveTypeRepo = new LeaveTypeRepository();
+const accrualService = new AccrualService();
+
+/**
+ * GET /api/accruals/policies
+ * List accrual policies (Manager only)
+ */
+export async function getAllPolicies(_req: Request, res: Response): Promise<void> {
+  try {
+    const policies = await accrualRepo.findAllPolicies();
+    sendSuccess(res, policies);
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * POST /api/accruals/policies
+ * Create an accrual policy (Manager only)
+ */
+export async function createPolicy(req: Request, res: Response): Promise<void> {
+  try {
+    const body = await parseBody(req);
+    const validatedData = createAccrualPolicySchema.parse(body);
+
+    const leaveType = await leaveTypeRepo.findById(validatedData.leave_type_id);
+    if (!leaveType || !leaveType.tracks_balance) {
+      sendError(res, 400, 'Accruals can only be set up for balance-tracked leave types');
+      return;
+    }
+
+    const policy = await accrualRepo.createPolicy(validatedData);
+    sendCreated(res, policy, 'Accrual policy created successfully');
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
+
+/**
+ * PUT /api/accruals/policies/:id
+ * Update an accrual policy (Manager only)
+ */
+export async function updatePolicy(req: Request, res: Response): Promise<void> {
+  try {
+    const id = parseInt(req.params?.id || '', 10);
+    if (isNaN(id)) {
+      sendError(res, 400, 'Invalid accrual policy ID');
+      return;
+    }
+
+    const body = await parseBody(req);
+    const validatedData = updateAccrualPolicySchema.parse(body);
+
+    const policy = await accrualRepo.updatePolicy(id, validatedData);
+    if (!policy) {
+      sendError(res, 404, 'Accrual policy not found');
+      return;
+    }
+
+    sendSuccess(res, policy, 'Accrual policy updated successfully');
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
+
+/**
+ * GET /api/accruals/preview
+ * Preview the accruals a run would post, without posting them (supports ?as_of=2025-06-30)
+ */
+export async function previewAccruals(req: Request, res: Response): Promise<void> {
+  try {
+    const { as_of } = runAccrualsSchema.parse(req.query || {});
+    const summary = await accrualService.preview(as_of);
+    sendSuccess(res, summary);
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
+
+/**
+ * POST /api/accruals/run
+ * Post every due accrual now (Manager only). Periods already posted are skipped.
+ */
+export async function runAccruals(req: Request, res: Response): Promise<void> {
+  try {
+    const body = await parseBody(req);
+    const { as_of } = runAccrualsSchema.parse(body);
+    const summary = await accrualService.run(as_of);
+    sendSuccess(res, summary, `Posted ${summary.entries.length} accruals`);
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
+
+/**
+ * GET /api/accruals/postings
+ * List posted accruals, newest first (supports ?user_id=2)
+ */
+export async function getPostings(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.query?.user_id ? parseInt(req.query.user_id, 10) : undefined;
+    if (userId !== undefined && isNaN(userId)) {
+      sendError(res, 400, 'Invalid user ID');
+      return;
+    }
+
+    const postings = await accrualRepo.findPostings({ userId });
+    sendSuccess(res, postings);
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
@@ -0,0 +1,146 @@
+import { ApprovalChainRepository } from '../repositories/approvalChainRepository.js';
+import { LeaveTypeRepository } from '../repositories/leaveTypeRepository.js';
+import { UserRepository } from '../repositories/userRepository.js';
+import {
+  createApprovalChainSchema,
+  updateApprovalChainSchema,
+  type ApprovalChainStepInput,
+} from '../utils/validation.js';
+import {
+  sendSuccess,
+  sendCreated,
+  sendError,
+  parseBody,
+  type Request,
+  type Response,
+} from '../utils/http.js';
+
+const approvalRepo = new ApprovalChainRepository();
+const leaveTypeRepo = new LeaveTypeRepository();
+const userRepo = new UserRepository();
+
+/**
+ * Check a chain's leave type and approvers, returning why they are invalid (null if they are fine)
+ */
+async function checkChain(data: {
+  leave_type_id?: number | null;
+  steps?: ApprovalChainStepInput[];
+}): Promise<string | null> {
+  if (data.leave_type_id) {
+    const leaveType = await leaveTypeRepo.findById(data.leave_type_id);
+    if (!leaveType) {
+      return 'Invalid leave type';
+    }
+  }
+
+  for (const step of data.steps ?? []) {
+    if (step.approver_kind === 'user' && step.approver_id) {
+      const approver = await userRepo.findById(step.approver_id);
+      if (!approver || approver.role !== 'manager') {
+        return 'Approvers must be managers';
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * GET /api/approval-chains
+ * List approval chains with their steps (Manager only)
+ */
+export async function getAllChains(_req: Request, res: Response): Promise<void> {
+  try {
+    const chains = await approvalRepo.findAll();
+    sendSuccess(res, chains);
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * POST /api/approval-chains
+ * Create an approval chain (Manager only)
+ */
+export async function createChain(req: Request, res: Response): Promise<void> {
+  try {
+    const body = await parseBody(req);
+    const validatedData = createApprovalChainSchema.parse(body);
+
+    const chainError = await checkChain(validatedData);
+    if (chainError) {
+      sendError(res, 400, chainError);
+      return;
+    }
+
+    const chain = await approvalRepo.create(validatedData);
+    sendCreated(res, chain, 'Approval chain created successfully');
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
+
+/**
+ * PUT /api/approval-chains/:id
+ * Update an approval chain; requests already submitted keep their steps (Manager only)
+ */
+export async function updateChain(req: Request, res: Response): Promise<void> {
+  try {
+    const id = parseInt(req.params?.id || '', 10);
+    if (isNaN(id)) {
+      sendError(res, 400, 'Invalid approval chain ID');
+      return;
+    }
+
+    const body = await parseBody(req);
+    const validatedData = updateApprovalChainSchema.parse(body);
+
+    const chainError = await checkChain(validatedData);
+    if (chainError) {
+      sendError(res, 400, chainError);
+      return;
+    }
+
+    const chain = await approvalRepo.update(id, validatedData);
+    if (!chain) {
+      sendError(res, 404, 'Approval chain not found');
+      return;
+    }
+
+    sendSuccess(res, chain, 'Approval chain updated successfully');
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
+
+/**
+ * DELETE /api/approval-chains/:id
+ * Delete an approval chain (Manager only)
+ */
+export async function deleteChain(req: Request, res: Response): Promise<void> {
+  try {
+    const id = parseInt(req.params?.id || '', 10);
+    if (isNaN(id)) {
+      sendError(res, 400, 'Invalid approval chain ID');
+      return;
+    }
+
+    const deleted = await approvalRepo.delete(id);
+    if (!deleted) {
+      sendError(res, 404, 'Approval chain not found');
+      return;
+    }
+
+    sendSuccess(res, null, 'Approval chain deleted successfully');
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
@@ -0,0 +1,162 @@
+import { ApprovalRuleRepository } from '../repositories/approvalRuleRepository.js';
+import { LeaveTypeRepository } from '../repositories/leaveTypeRepository.js';
+import { UserRepository } from '../repositories/userRepository.js';
+import { createApprovalRuleSchema, updateApprovalRuleSchema } from '../utils/validation.js';
+import type { ApprovalRuleAction } from '../types/index.js';
+import {
+  sendSuccess,
+  sendCreated,
+  sendError,
+  parseBody,
+  type Request,
+  type Response,
+} from '../utils/http.js';
+
+const ruleRepo = new ApprovalRuleRepository();
+const leaveTypeRepo = new LeaveTypeRepository();
+const userRepo = new UserRepository();
+
+/**
+ * Check a rule's action, route target and leave type, returning why they are invalid (null if they are fine)
+ */
+async function checkRule(data: {
+  action: ApprovalRuleAction;
+  route_to_id: number | null;
+  leave_type_id?: number | null;
+}): Promise<string | null> {
+  if ((data.action === 'route') !== (data.route_to_id !== null)) {
+    return 'Routing rules need a route_to_id, auto-approval rules must not have one';
+  }
+
+  if (data.route_to_id !== null) {
+    const approver = await userRepo.findById(data.route_to_id);
+    if (!approver || approver.role !== 'manager') {
+      return 'Requests can only be routed to managers';
+    }
+  }
+
+  if (data.leave_type_id) {
+    const leaveType = await leaveTypeRepo.findById(data.leave_type_id);
+    if (!leaveType) {
+      return 'Invalid leave type';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * GET /api/approval-rules
+ * List approval rules in the order they are checked (Manager only)
+ */
+export async function getAllRules(_req: Request, res: Response): Promise<void> {
+  try {
+    const rules = await ruleRepo.findAll();
+    sendSuccess(res, rules);
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * POST /api/approval-rules
+ * Create an approval rule (Manager only)
+ */
+export async function createRule(req: Request, res: Response): Promise<void> {
+  try {
+    const body = await parseBody(req);
+    const validatedData = createApprovalRuleSchema.parse(body);
+
+    const ruleError = await checkRule(validatedData);
+    if (ruleError) {
+      sendError(res, 400, ruleError);
+      return;
+    }
+
+    const rule = await ruleRepo.create(validatedData);
+    sendCreated(res, rule, 'Approval rule created successfully');
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
+
+/**
+ * PUT /api/approval-rules/:id
+ * Update an approval rule (Manager only)
+ */
+export async function updateRule(req: Request, res: Response): Promise<void> {
+  try {
+    const id = parseInt(req.params?.id || '', 10);
+    if (isNaN(id)) {
+      sendError(res, 400, 'Invalid approval rule ID');
+      return;
+    }
+
+    const body = await parseBody(req);
+    const validatedData = updateApprovalRuleSchema.parse(body);
+
+    const existing = await ruleRepo.findById(id);
+    if (!existing) {
+      sendError(res, 404, 'Approval rule not found');
+      return;
+    }
+
+    // Switching to auto-approval drops the route target unless a new one is given
+    const action = validatedData.action ?? existing.action;
+    const routeToId =
+      validatedData.route_to_id !== undefined
+        ? validatedData.route_to_id
+        : action === 'auto_approve' ? null : existing.route_to_id;
+    const ruleError = await checkRule({
+      action,
+      route_to_id: routeToId,
+      leave_type_id: validatedData.leave_type_id,
+    });
+    if (ruleError) {
+      sendError(res, 400, ruleError);
+      return;
+    }
+
+    const rule = await ruleRepo.update(id, { ...validatedData, route_to_id: routeToId });
+    if (!rule) {
+      sendError(res, 404, 'Approval rule not found');
+      return;
+    }
+
+    sendSuccess(res, rule, 'Approval rule updated successfully');
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
+
+/**
+ * DELETE /api/approval-rules/:id
+ * Delete an approval rule; requests it fired for keep its name (Manager only)
+ */
+export async function deleteRule(req: Request, res: Response): Promise<void> {
+  try {
+    const id = parseInt(req.params?.id || '', 10);
+    if (isNaN(id)) {
+      sendError(res, 400, 'Invalid approval rule ID');
+      return;
+    }
+
+    const deleted = await ruleRepo.delete(id);
+    if (!deleted) {
+      sendError(res, 404, 'Approval rule not found');
+      return;
+    }
+
+    sendSuccess(res, null, 'Approval rule deleted successfully');
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
@@ -0,0 +1,37 @@
+import { AuditLogRepository } from '../repositories/auditLogRepository.js';
+import { auditQuerySchema } from '../utils/validation.js';
+import { sendSuccess, sendError, type Request, type Response } from '../utils/http.js';
+
+const auditLogRepo = new AuditLogRepository();
+
+/**
+ * GET /api/audit
+ * Page through the audit log, newest first, filtered by actor, subject, entity, action and
+ * date range (Manager only)
+ */
+export async function getAuditLog(req: Request, res: Response): Promise<void> {
+  try {
+    const query = auditQuerySchema.parse(req.query || {});
+    const { entries, total } = await auditLogRepo.findWithFilters(
+      {
+        actorId: query.actor_id,
+        subjectId: query.subject_id,
+        entityType: query.entity_type,
+        entityId: query.entity_id,
+        action: query.action,
+        from: query.from,
+        to: query.to,
+      },
+      query.page_size,
+      (query.page - 1) * query.page_size
+    );
+
+    sendSuccess(res, { entries, total, page: query.page, page_size: query.page_size });
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
@@ -33,6 +33,7 @@ export async function login(req: Request, res: Response): Promise<void> {
       userId: user.id,
       email: user.email,
       role: user.role,
+      isSuperAdmin: user.is_super_admin,
     });
 
     // Remove password hash from response
@@ -0,0 +1,157 @@
+import { BlackoutRepository } from '../repositories/blackoutRepository.js';
+import { TeamRepository } from '../repositories/teamRepository.js';
+import { UserRepository } from '../repositories/userRepository.js';
+import { createBlackoutSchema, updateBlackoutSchema } from '../utils/validation.js';
+import {
+  sendSuccess,
+  sendCreated,
+  sendError,
+  parseBody,
+  type Request,
+  type Response,
+} from '../utils/http.js';
+
+const blackoutRepo = new BlackoutRepository();
+const teamRepo = new TeamRepository();
+const userRepo = new UserRepository();
+
+/**
+ * Check a blackout's team and extra approver, returning why they are invalid (null if they are fine)
+ */
+async function checkBlackout(data: { team_id?: number | null; approver_id?: number | null }): Promise<string | null> {
+  if (data.team_id) {
+    const team = await teamRepo.findById(data.team_id);
+    if (!team) {
+      return 'Team not found';
+    }
+  }
+
+  if (data.approver_id) {
+    const approver = await userRepo.findById(data.approver_id);
+    if (!approver || approver.role !== 'manager') {
+      return 'Approvers must be managers';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * GET /api/blackouts
+ * List blackout periods; employees only see the company-wide ones and their team's
+ */
+export async function getAllBlackouts(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const blackouts = await blackoutRepo.findAll(req.user.role === 'manager' ? undefined : req.user.userId);
+    sendSuccess(res, blackouts);
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * POST /api/blackouts
+ * Create a blackout period (Manager only)
+ */
+export async function createBlackout(req: Request, res: Response): Promise<void> {
+  try {
+    const body = await parseBody(req);
+    const validatedData = createBlackoutSchema.parse(body);
+
+    const blackoutError = await checkBlackout(validatedData);
+    if (blackoutError) {
+      sendError(res, 400, blackoutError);
+      return;
+    }
+
+    const blackout = await blackoutRepo.create(validatedData);
+    sendCreated(res, blackout, 'Blackout period created successfully');
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
+
+/**
+ * PUT /api/blackouts/:id
+ * Update a blackout period (Manager only)
+ */
+export async function updateBlackout(req: Request, res: Response): Promise<void> {
+  try {
+    const id = parseInt(req.params?.id || '', 10);
+    if (isNaN(id)) {
+      sendError(res, 400, 'Invalid blackout period ID');
+      return;
+    }
+
+    const body = await parseBody(req);
+    const validatedData = updateBlackoutSchema.parse(body);
+
+    const existing = await blackoutRepo.findById(id);
+    if (!existing) {
+      sendError(res, 404, 'Blackout period not found');
+      return;
+    }
+
+    if ((validatedData.ends_on ?? existing.ends_on) < (validatedData.starts_on ?? existing.starts_on)) {
+      sendError(res, 400, 'End date must be on or after start date');
+      return;
+    }
+
+    const blackoutError = await checkBlackout(validatedData);
+    if (blackoutError) {
+      sendError(res, 400, blackoutError);
+      return;
+    }
+
+    // Blocking periods have no extra approver
+    const blackout = await blackoutRepo.update(
+      id,
+      validatedData.mode === 'block' ? { ...validatedData, approver_id: null } : validatedData
+    );
+    if (!blackout) {
+      sendError(res, 404, 'Blackout period not found');
+      return;
+    }
+
+    sendSuccess(res, blackout, 'Blackout period updated successfully');
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
+
+/**
+ * DELETE /api/blackouts/:id
+ * Delete a blackout period (Manager only)
+ */
+export async function deleteBlackout(req: Request, res: Response): Promise<void> {
+  try {
+    const id = parseInt(req.params?.id || '', 10);
+    if (isNaN(id)) {
+      sendError(res, 400, 'Invalid blackout period ID');
+      return;
+    }
+
+    const deleted = await blackoutRepo.delete(id);
+    if (!deleted) {
+      sendError(res, 404, 'Blackout period not found');
+      return;
+    }
+
+    sendSuccess(res, null, 'Blackout period deleted successfully');
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
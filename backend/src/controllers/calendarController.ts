@@ -0,0 +1,63 @@
+import { TeamRepository } from '../repositories/teamRepository.js';
+import { UserRepository } from '../repositories/userRepository.js';
+import { CalendarService } from '../services/calendarService.js';
+import { calendarQuerySchema } from '../utils/validation.js';
+import { daysBetween } from '../utils/workingDays.js';
+import { sendSuccess, sendError, type Request, type Response } from '../utils/http.js';
+
+const teamRepo = new TeamRepository();
+const userRepo = new UserRepository();
+const calendarService = new CalendarService();
+
+// Longest date range the calendar covers, in days
+const MAX_CALENDAR_DAYS = 92;
+
+/**
+ * GET /api/calendar
+ * Day-by-day absences for a date range; managers can pick a team (everyone by default),
+ * employees always see their own team
+ */
+export async function getCalendar(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const query = calendarQuerySchema.parse(req.query || {});
+    if (daysBetween(query.from, query.to) + 1 > MAX_CALENDAR_DAYS) {
+      sendError(res, 400, `The calendar covers at most ${MAX_CALENDAR_DAYS} days`);
+      return;
+    }
+
+    let filter: { teamId?: number; userId?: number };
+    if (req.user.role === 'manager') {
+      if (query.team !== undefined && !(await teamRepo.findById(query.team))) {
+        sendError(res, 404, 'Team not found');
+        return;
+      }
+      filter = { teamId: query.team };
+    } else {
+      const user = await userRepo.findById(req.user.userId);
+      if (!user) {
+        sendError(res, 404, 'User not found');
+        return;
+      }
+      if (query.team !== undefined && query.team !== user.team_id) {
+        sendError(res, 403, 'Access denied');
+        return;
+      }
+      // Employees without a team only see themselves
+      filter = user.team_id ? { teamId: user.team_id } : { userId: user.id };
+    }
+
+    const calendar = await calendarService.build(query.from, query.to, filter, query.include_pending);
+    sendSuccess(res, calendar);
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
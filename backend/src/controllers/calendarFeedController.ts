@@ -0,0 +1,214 @@
+import { config } from '../config/env.js';
+import { CalendarFeedRepository } from '../repositories/calendarFeedRepository.js';
+import { TeamRepository } from '../repositories/teamRepository.js';
+import { UserRepository } from '../repositories/userRepository.js';
+import { VacationRequestRepository } from '../repositories/vacationRequestRepository.js';
+import { buildICalendar, type ICalendarEvent } from '../utils/ical.js';
+import { createCalendarFeedSchema } from '../utils/validation.js';
+import { formatDate } from '../utils/workingDays.js';
+import {
+  sendSuccess,
+  sendCreated,
+  sendError,
+  sendFile,
+  parseBody,
+  type Request,
+  type Response,
+} from '../utils/http.js';
+import type { CalendarFeed, CalendarFeedEvent } from '../types/index.js';
+
+const feedRepo = new CalendarFeedRepository();
+const teamRepo = new TeamRepository();
+const userRepo = new UserRepository();
+const requestRepo = new VacationRequestRepository();
+
+const PERIOD_LABELS = { am: 'morning', pm: 'afternoon' };
+
+// How far back a feed lists leave, in days
+const FEED_HISTORY_DAYS = 365;
+
+/**
+ * A feed as shown to its owner, with the URL calendar clients subscribe to
+ */
+function withUrl(feed: CalendarFeed): CalendarFeed & { url: string } {
+  return { ...feed, url: `${config.publicApiUrl}/api/feeds/${feed.token}.ics` };
+}
+
+/**
+ * Turn approved leave into a calendar event, named after the person in team feeds
+ */
+function toEvent(entry: CalendarFeedEvent, withName: boolean): ICalendarEvent {
+  const period = entry.duration_type === 'half_day' && entry.half_day_period
+    ? ` (${PERIOD_LABELS[entry.half_day_period]})`
+    : '';
+  return {
+    uid: `request-${entry.request_id}@vacation-portal`,
+    summary: `${withName ? `${entry.user_name}: ` : ''}${entry.leave_type_name}${period}`,
+    start_date: entry.start_date,
+    end_date: entry.end_date,
+    start_time: entry.duration_type === 'hours' ? entry.start_time : null,
+    end_time: entry.duration_type === 'hours' ? entry.end_time : null,
+    last_modified: entry.updated_at,
+  };
+}
+
+/**
+ * Find one of the current user's feeds, sending the error if it is missing or someone else's
+ */
+async function findOwnFeed(req: Request, res: Response): Promise<CalendarFeed | null> {
+  const id = parseInt(req.params?.id || '', 10);
+  if (isNaN(id)) {
+    sendError(res, 400, 'Invalid calendar feed ID');
+    return null;
+  }
+
+  const feed = await feedRepo.findById(id);
+  if (!feed || feed.owner_id !== req.user?.userId) {
+    sendError(res, 404, 'Calendar feed not found');
+    return null;
+  }
+  return feed;
+}
+
+/**
+ * GET /api/calendar-feeds
+ * List the current user's calendar feeds with their subscription URLs
+ */
+export async function getCalendarFeeds(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const feeds = await feedRepo.findByOwner(req.user.userId);
+    sendSuccess(res, feeds.map(withUrl));
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * POST /api/calendar-feeds
+ * Create a feed of the current user's own leave or of a team's; employees can only subscribe
+ * to their own team
+ */
+export async function createCalendarFeed(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const body = await parseBody(req);
+    const validatedData = createCalendarFeedSchema.parse(body);
+
+    let teamId: number | null = null;
+    if (validatedData.scope === 'team') {
+      const user = await userRepo.findById(req.user.userId);
+      teamId = validatedData.team_id ?? user?.team_id ?? null;
+      if (teamId === null) {
+        sendError(res, 400, 'You are not in a team');
+        return;
+      }
+      if (req.user.role !== 'manager' && teamId !== user?.team_id) {
+        sendError(res, 403, 'Access denied');
+        return;
+      }
+      if (!(await teamRepo.findById(teamId))) {
+        sendError(res, 404, 'Team not found');
+        return;
+      }
+    }
+
+    const feed = await feedRepo.create(req.user.userId, validatedData.scope, teamId);
+    sendCreated(res, withUrl(feed), 'Calendar feed created successfully');
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else if (error instanceof Error && 'code' in error && error.code === '23505') {
+      sendError(res, 409, 'You already have this calendar feed');
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
+
+/**
+ * POST /api/calendar-feeds/:id/rotate
+ * Give one of the current user's feeds a new URL; the old one stops working
+ */
+export async function rotateCalendarFeed(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const feed = await findOwnFeed(req, res);
+    if (!feed) return;
+
+    const rotated = await feedRepo.rotate(feed.id);
+    if (!rotated) {
+      sendError(res, 404, 'Calendar feed not found');
+      return;
+    }
+
+    sendSuccess(res, withUrl(rotated), 'Calendar feed URL changed successfully');
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * DELETE /api/calendar-feeds/:id
+ * Revoke one of the current user's feeds
+ */
+export async function deleteCalendarFeed(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const feed = await findOwnFeed(req, res);
+    if (!feed) return;
+
+    await feedRepo.delete(feed.id);
+    sendSuccess(res, null, 'Calendar feed revoked successfully');
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * GET /api/feeds/:token.ics
+ * iCalendar feed of approved leave; the secret token in the URL stands in for authentication,
+ * since calendar clients cannot log in
+ */
+export async function getFeed(req: Request, res: Response): Promise<void> {
+  try {
+    const token = (req.params?.file || '').replace(/\.ics$/, '');
+    const feed = token ? await feedRepo.findByToken(token) : null;
+    const owner = feed ? await userRepo.findById(feed.owner_id) : null;
+    // Employees who moved team lose the feed of their old one
+    if (!feed || !owner || (feed.scope === 'team' && owner.role !== 'manager' && owner.team_id !== feed.team_id)) {
+      sendError(res, 404, 'Calendar feed not found');
+      return;
+    }
+
+    const since = new Date();
+    since.setUTCDate(since.getUTCDate() - FEED_HISTORY_DAYS);
+    const isTeamFeed = feed.team_id !== null;
+    const entries = await requestRepo.findFeedEvents(
+      feed.team_id !== null ? { teamId: feed.team_id } : { userId: owner.id },
+      formatDate(since)
+    );
+
+    const name = isTeamFeed ? `${feed.team_name} absences` : `${owner.name} leave`;
+    const calendar = buildICalendar(name, entries.map((entry) => toEvent(entry, isTeamFeed)));
+    sendFile(res, 'text/calendar; charset=utf-8', `${isTeamFeed ? 'team' : 'my'}-leave.ics`, calendar);
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
@@ -0,0 +1,79 @@
+import { Readable } from 'stream';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AuthPayload } from '../types/index.js';
+import type { Request, Response } from '../utils/http.js';
+
+const mocks = vi.hoisted(() => ({
+  approvalRepo: { reviewsPendingRequestsOf: vi.fn() },
+  delegationRepo: { create: vi.fn() },
+  userRepo: { findById: vi.fn() },
+}));
+
+vi.mock('../repositories/approvalChainRepository.js', () => ({
+  ApprovalChainRepository: vi.fn(() => mocks.approvalRepo),
+}));
+vi.mock('../repositories/delegationRepository.js', () => ({
+  DelegationRepository: vi.fn(() => mocks.delegationRepo),
+}));
+vi.mock('../repositories/userRepository.js', () => ({ UserRepository: vi.fn(() => mocks.userRepo) }));
+
+const { createDelegation } = await import('./delegationController.js');
+
+const MANAGER: AuthPayload = { userId: 1, email: 'manager@company.com', role: 'manager', isSuperAdmin: false };
+
+const DELEGATION = { delegate_id: 5, starts_on: '2099-07-01', ends_on: '2099-07-14' };
+
+/**
+ * Create a delegation as the manager and return the status and body the handler answered with
+ */
+async function create(body: unknown): Promise<{ status: number; body: { success: boolean; error?: string } }> {
+  const req = Object.assign(Readable.from([JSON.stringify(body)]), { headers: {}, user: MANAGER }) as unknown as Request;
+  let status = 0;
+  let content = '';
+  const res = {
+    writeHead: (statusCode: number) => {
+      status = statusCode;
+    },
+    end: (text: string) => {
+      content = text;
+    },
+  } as unknown as Response;
+
+  await createDelegation(req, res);
+  return { status, body: JSON.parse(content) };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.userRepo.findById.mockResolvedValue({ id: 5, name: 'Jane Doe', manager_id: 3 });
+  mocks.approvalRepo.reviewsPendingRequestsOf.mockResolvedValue(false);
+  mocks.delegationRepo.create.mockResolvedValue({ id: 1, delegator_id: 1, delegate_id: 5 });
+});
+
+describe('createDelegation', () => {
+  it('delegates to a manager who does not report to the delegator', async () => {
+    const { status } = await create(DELEGATION);
+
+    expect(status).toBe(201);
+    expect(mocks.approvalRepo.reviewsPendingRequestsOf).toHaveBeenCalledWith(1, 5);
+  });
+
+  it('refuses to delegate to a direct report', async () => {
+    mocks.userRepo.findById.mockResolvedValue({ id: 5, name: 'Jane Doe', manager_id: MANAGER.userId });
+
+    const { status, body } = await create(DELEGATION);
+
+    expect(status).toBe(400);
+    expect(body.error).toBe('You cannot delegate to someone whose leave you approve');
+    expect(mocks.delegationRepo.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses to delegate to someone with a request waiting on the delegator', async () => {
+    mocks.approvalRepo.reviewsPendingRequestsOf.mockResolvedValue(true);
+
+    const { status } = await create(DELEGATION);
+
+    expect(status).toBe(400);
+    expect(mocks.delegationRepo.create).not.toHaveBeenCalled();
+  });
+});
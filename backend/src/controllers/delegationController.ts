@@ -0,0 +1,121 @@
+import { ApprovalChainRepository } from '../repositories/approvalChainRepository.js';
+import { DelegationRepository } from '../repositories/delegationRepository.js';
+import { UserRepository } from '../repositories/userRepository.js';
+import { createDelegationSchema } from '../utils/validation.js';
+import { formatDate } from '../utils/workingDays.js';
+import {
+  sendSuccess,
+  sendCreated,
+  sendError,
+  parseBody,
+  type Request,
+  type Response,
+} from '../utils/http.js';
+
+const approvalRepo = new ApprovalChainRepository();
+const delegationRepo = new DelegationRepository();
+const userRepo = new UserRepository();
+
+/**
+ * GET /api/delegations
+ * List current and upcoming delegations the user gave or received (super-admins see everyone's)
+ */
+export async function getDelegations(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const delegations = await delegationRepo.findCurrent(
+      formatDate(new Date()),
+      req.user.isSuperAdmin ? undefined : req.user.userId
+    );
+    sendSuccess(res, delegations);
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * POST /api/delegations
+ * Delegate the current manager's approvals to another user for a date range (Manager only)
+ */
+export async function createDelegation(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const body = await parseBody(req);
+    const validatedData = createDelegationSchema.parse(body);
+
+    if (validatedData.delegate_id === req.user.userId) {
+      sendError(res, 400, 'You cannot delegate to yourself');
+      return;
+    }
+    if (validatedData.ends_on < formatDate(new Date())) {
+      sendError(res, 400, 'The delegation must not end in the past');
+      return;
+    }
+
+    const delegate = await userRepo.findById(validatedData.delegate_id);
+    if (!delegate) {
+      sendError(res, 400, 'Delegate not found');
+      return;
+    }
+    // A delegate could otherwise sign off their own leave on the delegator's behalf
+    if (
+      delegate.manager_id === req.user.userId ||
+      (await approvalRepo.reviewsPendingRequestsOf(req.user.userId, delegate.id))
+    ) {
+      sendError(res, 400, 'You cannot delegate to someone whose leave you approve');
+      return;
+    }
+
+    const delegation = await delegationRepo.create(req.user.userId, validatedData);
+    sendCreated(res, delegation, `Approvals delegated to ${delegate.name}`);
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
+
+/**
+ * DELETE /api/delegations/:id
+ * Revoke a delegation (the delegating manager or a super-admin)
+ */
+export async function deleteDelegation(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const id = parseInt(req.params?.id || '', 10);
+    if (isNaN(id)) {
+      sendError(res, 400, 'Invalid delegation ID');
+      return;
+    }
+
+    const delegation = await delegationRepo.findById(id);
+    if (!delegation) {
+      sendError(res, 404, 'Delegation not found');
+      return;
+    }
+
+    if (delegation.delegator_id !== req.user.userId && !req.user.isSuperAdmin) {
+      sendError(res, 403, 'Only the delegating manager can revoke a delegation');
+      return;
+    }
+
+    await delegationRepo.delete(id);
+    sendSuccess(res, null, 'Delegation revoked');
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
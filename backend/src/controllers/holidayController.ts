@@ -0,0 +1,148 @@
+import { HolidayRepository } from '../repositories/holidayRepository.js';
+import { parseICalendarHolidays } from '../utils/ical.js';
+import { createHolidaySchema, updateHolidaySchema, importHolidaysSchema } from '../utils/validation.js';
+import {
+  sendSuccess,
+  sendCreated,
+  sendError,
+  parseBody,
+  type Request,
+  type Response,
+} from '../utils/http.js';
+
+const holidayRepo = new HolidayRepository();
+
+/**
+ * GET /api/holidays
+ * List public holidays (supports filtering: ?country=GR&region=Attica&year=2025)
+ */
+export async function getAllHolidays(req: Request, res: Response): Promise<void> {
+  try {
+    const year = req.query?.year ? parseInt(req.query.year, 10) : undefined;
+    if (year !== undefined && isNaN(year)) {
+      sendError(res, 400, 'Invalid year');
+      return;
+    }
+
+    const holidays = await holidayRepo.findAll({
+      countryCode: req.query?.country || undefined,
+      region: req.query?.region || undefined,
+      year,
+    });
+    sendSuccess(res, holidays);
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * POST /api/holidays
+ * Create a public holiday (Manager only)
+ */
+export async function createHoliday(req: Request, res: Response): Promise<void> {
+  try {
+    const body = await parseBody(req);
+    const validatedData = createHolidaySchema.parse(body);
+
+    const holiday = await holidayRepo.create(validatedData);
+    sendCreated(res, holiday, 'Holiday created successfully');
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else if (error instanceof Error && 'code' in error && error.code === '23505') {
+      sendError(res, 409, 'A holiday already exists on this date for this country and region');
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
+
+/**
+ * PUT /api/holidays/:id
+ * Update a public holiday (Manager only)
+ */
+export async function updateHoliday(req: Request, res: Response): Promise<void> {
+  try {
+    const id = parseInt(req.params?.id || '', 10);
+    if (isNaN(id)) {
+      sendError(res, 400, 'Invalid holiday ID');
+      return;
+    }
+
+    const body = await parseBody(req);
+    const validatedData = updateHolidaySchema.parse(body);
+
+    const holiday = await holidayRepo.update(id, validatedData);
+    if (!holiday) {
+      sendError(res, 404, 'Holiday not found');
+      return;
+    }
+
+    sendSuccess(res, holiday, 'Holiday updated successfully');
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else if (error instanceof Error && 'code' in error && error.code === '23505') {
+      sendError(res, 409, 'A holiday already exists on this date for this country and region');
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
+
+/**
+ * DELETE /api/holidays/:id
+ * Delete a public holiday (Manager only)
+ */
+export async function deleteHoliday(req: Request, res: Response): Promise<void> {
+  try {
+    const id = parseInt(req.params?.id || '', 10);
+    if (isNaN(id)) {
+      sendError(res, 400, 'Invalid holiday ID');
+      return;
+    }
+
+    const deleted = await holidayRepo.delete(id);
+    if (!deleted) {
+      sendError(res, 404, 'Holiday not found');
+      return;
+    }
+
+    sendSuccess(res, null, 'Holiday deleted successfully');
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * POST /api/holidays/import
+ * Import holidays from the contents of an uploaded iCalendar (.ics) file (Manager only)
+ */
+export async function importHolidays(req: Request, res: Response): Promise<void> {
+  try {
+    const body = await parseBody(req);
+    const validatedData = importHolidaysSchema.parse(body);
+
+    const parsed = parseICalendarHolidays(validatedData.content);
+    if (parsed.length === 0) {
+      sendError(res, 400, 'No events found in the calendar file');
+      return;
+    }
+
+    const result = await holidayRepo.createMany(
+      parsed.map((holiday) => ({
+        ...holiday,
+        country_code: validatedData.country_code,
+        region: validatedData.region,
+      }))
+    );
+
+    sendCreated(res, result, `Imported ${result.imported} holidays (${result.skipped} already existed)`);
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { LeaveTypeRepository } from '../repositories/leaveTypeRepository.js';
+import { createLeaveTypeSchema, updateLeaveTypeSchema } from '../utils/validation.js';
+import {
+  sendSuccess,
+  sendCreated,
+  sendError,
+  parseBody,
+  type Request,
+  type Response,
+} from '../utils/http.js';
+
+const leaveTypeRepo = new LeaveTypeRepository();
+
+/**
+ * GET /api/leave-types
+ * List leave types (employees only see active ones)
+ */
+export async function getAllLeaveTypes(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const leaveTypes = await leaveTypeRepo.findAll(req.user.role !== 'manager');
+    sendSuccess(res, leaveTypes);
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * POST /api/leave-types
+ * Create a leave type (Manager only)
+ */
+export async function createLeaveType(req: Request, res: Response): Promise<void> {
+  try {
+    const body = await parseBody(req);
+    const validatedData = createLeaveTypeSchema.parse(body);
+
+    const codeExists = await leaveTypeRepo.codeExists(validatedData.code);
+    if (codeExists) {
+      sendError(res, 409, 'Leave type code already exists');
+      return;
+    }
+
+    const leaveType = await leaveTypeRepo.create(validatedData);
+    sendCreated(res, leaveType, 'Leave type created successfully');
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
+
+/**
+ * PUT /api/leave-types/:id
+ * Update a leave type's configuration (Manager only)
+ */
+export async function updateLeaveType(req: Request, res: Response): Promise<void> {
+  try {
+    const id = parseInt(req.params?.id || '', 10);
+    if (isNaN(id)) {
+      sendError(res, 400, 'Invalid leave type ID');
+      return;
+    }
+
+    const body = await parseBody(req);
+    const validatedData = updateLeaveTypeSchema.parse(body);
+
+    const leaveType = await leaveTypeRepo.update(id, validatedData);
+    if (!leaveType) {
+      sendError(res, 404, 'Leave type not found');
+      return;
+    }
+
+    sendSuccess(res, leaveType, 'Leave type updated successfully');
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
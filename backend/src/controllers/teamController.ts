@@ -0,0 +1,104 @@
+import { TeamRepository } from '../repositories/teamRepository.js';
+import { teamSchema, updateTeamSchema } from '../utils/validation.js';
+import {
+  sendSuccess,
+  sendCreated,
+  sendError,
+  parseBody,
+  type Request,
+  type Response,
+} from '../utils/http.js';
+
+const teamRepo = new TeamRepository();
+
+/**
+ * GET /api/teams
+ * List teams with their member counts (Manager only)
+ */
+export async function getAllTeams(_req: Request, res: Response): Promise<void> {
+  try {
+    const teams = await teamRepo.findAll();
+    sendSuccess(res, teams);
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * POST /api/teams
+ * Create a team (Manager only)
+ */
+export async function createTeam(req: Request, res: Response): Promise<void> {
+  try {
+    const body = await parseBody(req);
+    const validatedData = teamSchema.parse(body);
+
+    const team = await teamRepo.create(validatedData);
+    sendCreated(res, team, 'Team created successfully');
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else if (error instanceof Error && 'code' in error && error.code === '23505') {
+      sendError(res, 409, 'A team with this name already exists');
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
+
+/**
+ * PUT /api/teams/:id
+ * Rename a team or change its minimum staffing (Manager only)
+ */
+export async function updateTeam(req: Request, res: Response): Promise<void> {
+  try {
+    const id = parseInt(req.params?.id || '', 10);
+    if (isNaN(id)) {
+      sendError(res, 400, 'Invalid team ID');
+      return;
+    }
+
+    const body = await parseBody(req);
+    const validatedData = updateTeamSchema.parse(body);
+
+    const team = await teamRepo.update(id, validatedData);
+    if (!team) {
+      sendError(res, 404, 'Team not found');
+      return;
+    }
+
+    sendSuccess(res, team, 'Team updated successfully');
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else if (error instanceof Error && 'code' in error && error.code === '23505') {
+      sendError(res, 409, 'A team with this name already exists');
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
+
+/**
+ * DELETE /api/teams/:id
+ * Delete a team; its members are left without a team (Manager only)
+ */
+export async function deleteTeam(req: Request, res: Response): Promise<void> {
+  try {
+    const id = parseInt(req.params?.id || '', 10);
+    if (isNaN(id)) {
+      sendError(res, 400, 'Invalid team ID');
+      return;
+    }
+
+    const deleted = await teamRepo.delete(id);
+    if (!deleted) {
+      sendError(res, 404, 'Team not found');
+      return;
+    }
+
+    sendSuccess(res, null, 'Team deleted successfully');
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
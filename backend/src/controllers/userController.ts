@@ -1,16 +1,165 @@
 import { UserRepository } from '../repositories/userRepository.js';
+import { BalanceLedgerRepository } from '../repositories/balanceLedgerRepository.js';
+import { LeaveTypeRepository } from '../repositories/leaveTypeRepository.js';
+import { TeamRepository } from '../repositories/teamRepository.js';
+import { RequestAttachmentRepository } from '../repositories/requestAttachmentRepository.js';
+import { AttachmentStorage } from '../services/attachmentStorage.js';
 import { hashPassword } from '../utils/auth.js';
-import { createUserSchema, updateUserSchema } from '../utils/validation.js';
+import {
+  createUserSchema,
+  updateUserSchema,
+  balanceAdjustmentSchema,
+  exportUsersQuerySchema,
+  importUsersSchema,
+  type CreateUserInput,
+} from '../utils/validation.js';
+import { parseCsv, streamSpreadsheet, type SpreadsheetColumn } from '../utils/spreadsheet.js';
 import {
   sendSuccess,
   sendCreated,
   sendError,
+  sendJson,
   parseBody,
   type Request,
   type Response,
 } from '../utils/http.js';
+import type { Team, User, UserImportReport, UserImportRow, UserWithNames } from '../types/index.js';
 
 const userRepo = new UserRepository();
+const ledgerRepo = new BalanceLedgerRepository();
+const leaveTypeRepo = new LeaveTypeRepository();
+const teamRepo = new TeamRepository();
+const attachmentRepo = new RequestAttachmentRepository();
+const attachmentStorage = new AttachmentStorage();
+
+// Columns a user import may have: team is a team's name and manager the email of an existing manager
+const IMPORT_COLUMNS = [
+  'name', 'email', 'employee_code', 'password', 'role', 'country_code', 'region', 'hire_date', 'team', 'manager',
+];
+const REQUIRED_IMPORT_COLUMNS = ['name', 'email', 'employee_code', 'password'];
+const MAX_IMPORT_ROWS = 1000;
+
+const USER_EXPORT_COLUMNS: SpreadsheetColumn<UserWithNames>[] = [
+  { header: 'ID', value: (user) => user.id },
+  { header: 'Employee Code', value: (user) => user.employee_code },
+  { header: 'Name', value: (user) => user.name },
+  { header: 'Email', value: (user) => user.email },
+  { header: 'Role', value: (user) => user.role },
+  { header: 'Team', value: (user) => user.team_name },
+  { header: 'Manager', value: (user) => user.manager_name },
+  { header: 'Country', value: (user) => user.country_code },
+  { header: 'Region', value: (user) => user.region },
+  { header: 'Hire Date', value: (user) => user.hire_date },
+  { header: 'Super-admin', value: (user) => (user.is_super_admin ? 'yes' : 'no') },
+  { header: 'Created', value: (user) => user.created_at.toISOString() },
+];
+
+/**
+ * Check a user's team and reporting line, returning why they are invalid (null if they are fine).
+ * Pass the user's ID when updating so a manager cannot end up reporting to their own reports.
+ */
+async function checkAssignment(
+  data: { team_id?: number | null; manager_id?: number | null },
+  userId?: number
+): Promise<string | null> {
+  if (data.team_id) {
+    const team = await teamRepo.findById(data.team_id);
+    if (!team) {
+      return 'Team not found';
+    }
+  }
+
+  if (data.manager_id) {
+    const manager = await userRepo.findById(data.manager_id);
+    if (!manager || manager.role !== 'manager') {
+      return 'Users can only report to a manager';
+    }
+    if (userId !== undefined && (await userRepo.findReportingLine(data.manager_id)).includes(userId)) {
+      return 'A user cannot report to themselves or to someone who reports to them';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate one row of a user import the way createUser would, also rejecting emails and employee
+ * codes used by an earlier row. `seen` collects the rows' emails and codes; `managers` caches
+ * manager lookups by email.
+ */
+async function checkImportRow(
+  fields: Record<string, string | undefined>,
+  teams: Team[],
+  managers: Map<string, User | null>,
+  seen: { emails: Set<string>; codes: Set<string> }
+): Promise<{ report: Omit<UserImportRow, 'row'>; data: CreateUserInput | null }> {
+  const errors: string[] = [];
+
+  const team = fields.team ? teams.find((t) => t.name.toLowerCase() === fields.team?.toLowerCase()) : undefined;
+  if (fields.team && !team) {
+    errors.push(`Team "${fields.team}" not found`);
+  }
+
+  let manager: User | null = null;
+  if (fields.manager) {
+    if (!managers.has(fields.manager)) {
+      managers.set(fields.manager, await userRepo.findByEmail(fields.manager));
+    }
+    manager = managers.get(fields.manager) ?? null;
+    if (!manager) {
+      errors.push(`Manager "${fields.manager}" not found`);
+    }
+  }
+
+  const parsed = createUserSchema.safeParse({
+    name: fields.name,
+    email: fields.email,
+    employee_code: fields.employee_code,
+    password: fields.password,
+    role: fields.role?.toLowerCase(),
+    country_code: fields.country_code,
+    region: fields.region,
+    hire_date: fields.hire_date,
+    team_id: team?.id,
+    manager_id: manager?.id,
+  });
+
+  if (!parsed.success) {
+    errors.push(...parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`));
+  } else {
+    const { email, employee_code } = parsed.data;
+    if (seen.emails.has(email)) {
+      errors.push('Email appears more than once in the file');
+    } else if (await userRepo.emailExists(email)) {
+      errors.push('Email already exists');
+    }
+    if (seen.codes.has(employee_code)) {
+      errors.push('Employee code appears more than once in the file');
+    } else if (await userRepo.employeeCodeExists(employee_code)) {
+      errors.push('Employee code already exists');
+    }
+    seen.emails.add(email);
+    seen.codes.add(employee_code);
+
+    const assignmentError = await checkAssignment(parsed.data);
+    if (assignmentError) {
+      errors.push(assignmentError);
+    }
+  }
+
+  return {
+    report: {
+      name: fields.name ?? '',
+      email: fields.email ?? '',
+      employee_code: fields.employee_code ?? '',
+      role: parsed.success ? parsed.data.role : fields.role ?? 'employee',
+      team_name: team?.name ?? fields.team ?? null,
+      manager_name: manager?.name ?? fields.manager ?? null,
+      errors,
+    },
+    data: parsed.success && errors.length === 0 ? parsed.data : null,
+  };
+}
 
 /**
  * GET /api/users
@@ -25,6 +174,25 @@ export async function getAllUsers(req: Request, res: Response): Promise<void> {
   }
 }
 
+/**
+ * GET /api/users/export
+ * Download all users as CSV or XLSX (Manager only)
+ */
+export async function exportUsers(req: Request, res: Response): Promise<void> {
+  try {
+    const { format } = exportUsersQuerySchema.parse(req.query || {});
+    await streamSpreadsheet(res, format, 'users', USER_EXPORT_COLUMNS, userRepo.streamAll());
+  } catch (error) {
+    if (res.headersSent) {
+      res.destroy();
+    } else if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
+
 /**
  * GET /api/users/:id
  * Get user by ID (Manager only)
@@ -49,6 +217,151 @@ export async function getUserById(req: Request, res: Response): Promise<void> {
   }
 }
 
+/**
+ * GET /api/users/:id/balances
+ * Get a user's balance per leave type (Managers, or employees for themselves)
+ */
+export async function getUserBalances(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const id = parseInt(req.params?.id || '', 10);
+    if (isNaN(id)) {
+      sendError(res, 400, 'Invalid user ID');
+      return;
+    }
+
+    // Employees can only view their own balances
+    if (req.user.role === 'employee' && id !== req.user.userId) {
+      sendError(res, 403, 'Access denied');
+      return;
+    }
+
+    const user = await userRepo.findById(id);
+    if (!user) {
+      sendError(res, 404, 'User not found');
+      return;
+    }
+
+    const year = req.query?.year ? parseInt(req.query.year, 10) : undefined;
+    if (year !== undefined && isNaN(year)) {
+      sendError(res, 400, 'Invalid year');
+      return;
+    }
+
+    const balances = await userRepo.getBalances(id, year);
+    sendSuccess(res, balances);
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * GET /api/users/:id/balance/ledger
+ * Get the balance transactions behind a user's balances, newest first
+ * (supports ?leave_type_id=1&year=2025). Employees can only view their own.
+ */
+export async function getBalanceLedger(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const id = parseInt(req.params?.id || '', 10);
+    if (isNaN(id)) {
+      sendError(res, 400, 'Invalid user ID');
+      return;
+    }
+
+    if (req.user.role === 'employee' && id !== req.user.userId) {
+      sendError(res, 403, 'Access denied');
+      return;
+    }
+
+    const leaveTypeId = req.query?.leave_type_id ? parseInt(req.query.leave_type_id, 10) : undefined;
+    if (leaveTypeId !== undefined && isNaN(leaveTypeId)) {
+      sendError(res, 400, 'Invalid leave type ID');
+      return;
+    }
+
+    const year = req.query?.year ? parseInt(req.query.year, 10) : undefined;
+    if (year !== undefined && isNaN(year)) {
+      sendError(res, 400, 'Invalid year');
+      return;
+    }
+
+    const entries = await ledgerRepo.findByUser(id, { leaveTypeId, year });
+    sendSuccess(res, entries);
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * POST /api/users/:id/balance/adjustments
+ * Manually grant or remove days of a leave type for a year (Manager only)
+ */
+export async function adjustBalance(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const id = parseInt(req.params?.id || '', 10);
+    if (isNaN(id)) {
+      sendError(res, 400, 'Invalid user ID');
+      return;
+    }
+
+    const body = await parseBody(req);
+    const validatedData = balanceAdjustmentSchema.parse(body);
+    const year = validatedData.year ?? new Date().getFullYear();
+
+    const user = await userRepo.findById(id);
+    if (!user) {
+      sendError(res, 404, 'User not found');
+      return;
+    }
+
+    const leaveType = await leaveTypeRepo.findById(validatedData.leave_type_id);
+    if (!leaveType || !leaveType.tracks_balance) {
+      sendError(res, 400, 'Balances can only be adjusted for balance-tracked leave types');
+      return;
+    }
+
+    // Removing days must not take the year's own entitlement below what has already been used
+    if (validatedData.days < 0) {
+      const balance = (await userRepo.getBalances(id, year)).find((b) => b.leave_type_id === leaveType.id);
+      const unused = balance ? balance.days_total - balance.days_used : 0;
+      if (unused + validatedData.days < 0) {
+        sendError(res, 400, `Cannot remove ${-validatedData.days} days: only ${unused} unused ${leaveType.name} days in ${year}`);
+        return;
+      }
+    }
+
+    const entry = await ledgerRepo.recordAdjustment({
+      userId: id,
+      leaveTypeId: leaveType.id,
+      year,
+      days: validatedData.days,
+      note: validatedData.note,
+      createdBy: req.user.userId,
+    });
+    sendCreated(res, entry, 'Balance adjusted successfully');
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
+
 /**
  * POST /api/users
  * Create a new user (Manager only)
@@ -58,6 +371,17 @@ export async function createUser(req: Request, res: Response): Promise<void> {
     const body = await parseBody(req);
     const validatedData = createUserSchema.parse(body);
 
+    if (validatedData.is_super_admin && !req.user?.isSuperAdmin) {
+      sendError(res, 403, 'Only super-admins can grant super-admin access');
+      return;
+    }
+
+    const assignmentError = await checkAssignment(validatedData);
+    if (assignmentError) {
+      sendError(res, 400, assignmentError);
+      return;
+    }
+
     // Check if email already exists
     const emailExists = await userRepo.emailExists(validatedData.email);
     if (emailExists) {
@@ -91,6 +415,91 @@ export async function createUser(req: Request, res: Response): Promise<void> {
   }
 }
 
+/**
+ * POST /api/users/import
+ * Create users from a CSV file with a header row (Manager only). A dry run only reports, row by
+ * row, whether each user can be created; otherwise all of them are created in one transaction,
+ * or none if any row has errors.
+ */
+export async function importUsers(req: Request, res: Response): Promise<void> {
+  try {
+    const body = await parseBody(req);
+    const validatedData = importUsersSchema.parse(body);
+
+    const [header = [], ...records] = parseCsv(validatedData.content);
+    const columns = header.map((column) => column.trim().toLowerCase().replace(/\s+/g, '_'));
+    const unknownColumns = columns.filter((column) => !IMPORT_COLUMNS.includes(column));
+    if (unknownColumns.length > 0) {
+      sendError(res, 400, `Unknown columns: ${unknownColumns.join(', ')}`);
+      return;
+    }
+    const missingColumns = REQUIRED_IMPORT_COLUMNS.filter((column) => !columns.includes(column));
+    if (missingColumns.length > 0) {
+      sendError(res, 400, `Missing columns: ${missingColumns.join(', ')}`);
+      return;
+    }
+
+    // Keep each record's row number as a spreadsheet shows it (the header is row 1)
+    const entries = records
+      .map((record, index) => ({ row: index + 2, record }))
+      .filter(({ record }) => record.some((field) => field.trim() !== ''));
+    if (entries.length === 0) {
+      sendError(res, 400, 'No users found in the CSV file');
+      return;
+    }
+    if (entries.length > MAX_IMPORT_ROWS) {
+      sendError(res, 400, `A CSV file can have at most ${MAX_IMPORT_ROWS} users`);
+      return;
+    }
+
+    const teams = await teamRepo.findAll();
+    const managers = new Map<string, User | null>();
+    const seen = { emails: new Set<string>(), codes: new Set<string>() };
+    const rows: UserImportRow[] = [];
+    const users: CreateUserInput[] = [];
+    for (const { row, record } of entries) {
+      const fields = Object.fromEntries(columns.map((column, index) => [column, record[index]?.trim() || undefined]));
+      const { report, data } = await checkImportRow(fields, teams, managers, seen);
+      rows.push({ row, ...report });
+      if (data) {
+        users.push(data);
+      }
+    }
+
+    const report: UserImportReport = {
+      dry_run: validatedData.dry_run,
+      total: rows.length,
+      valid: users.length,
+      imported: 0,
+      rows,
+    };
+
+    if (validatedData.dry_run) {
+      sendSuccess(res, report, `${report.valid} of ${report.total} users can be imported`);
+      return;
+    }
+    if (report.valid < report.total) {
+      sendJson(res, 400, { success: false, data: report, error: 'Some rows have errors, so no users were imported' });
+      return;
+    }
+
+    const created = await userRepo.createMany(
+      await Promise.all(users.map(async (user) => ({ ...user, password_hash: await hashPassword(user.password) })))
+    );
+    report.imported = created.length;
+
+    sendCreated(res, report, `Imported ${created.length} users`);
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else if (error instanceof Error && 'code' in error && error.code === '23505') {
+      sendError(res, 409, 'A user in the file already exists; no users were imported');
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
+
 /**
  * PUT /api/users/:id
  * Update user (Manager only)
@@ -106,6 +515,11 @@ export async function updateUser(req: Request, res: Response): Promise<void> {
     const body = await parseBody(req);
     const validatedData = updateUserSchema.parse(body);
 
+    if (validatedData.is_super_admin !== undefined && !req.user?.isSuperAdmin) {
+      sendError(res, 403, 'Only super-admins can change super-admin access');
+      return;
+    }
+
     // Check if user exists
     const existingUser = await userRepo.findById(id);
     if (!existingUser) {
@@ -113,6 +527,12 @@ export async function updateUser(req: Request, res: Response): Promise<void> {
       return;
     }
 
+    const assignmentError = await checkAssignment(validatedData, id);
+    if (assignmentError) {
+      sendError(res, 400, assignmentError);
+      return;
+    }
+
     // Check if email is being changed and if it already exists
     if (validatedData.email) {
       const emailExists = await userRepo.emailExists(validatedData.email, id);
@@ -133,6 +553,12 @@ export async function updateUser(req: Request, res: Response): Promise<void> {
       name: validatedData.name,
       email: validatedData.email,
       password_hash,
+      country_code: validatedData.country_code,
+      region: validatedData.region,
+      hire_date: validatedData.hire_date,
+      team_id: validatedData.team_id,
+      manager_id: validatedData.manager_id,
+      is_super_admin: validatedData.is_super_admin,
     });
 
     if (!updatedUser) {
@@ -168,11 +594,14 @@ export async function deleteUser(req: Request, res: Response): Promise<void> {
       return;
     }
 
+    const attachmentKeys = await attachmentRepo.findStorageKeys({ userId: id });
     const deleted = await userRepo.delete(id);
     if (!deleted) {
       sendError(res, 404, 'User not found');
       return;
     }
+    // Their requests' attachments went with them
+    await attachmentStorage.remove(attachmentKeys);
 
     sendSuccess(res, null, 'User and associated data deleted successfully');
   } catch (error) {
@@ -0,0 +1,563 @@
+import { Readable } from 'stream';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AuthPayload, LeaveType, VacationRequest } from '../types/index.js';
+import type { Request, Response } from '../utils/http.js';
+
+const mocks = vi.hoisted(() => ({
+  requestRepo: {
+    findById: vi.fn(),
+    calculateVacationDays: vi.fn(),
+    create: vi.fn(),
+    approve: vi.fn(),
+    updateStatus: vi.fn(),
+    delete: vi.fn(),
+    update: vi.fn(),
+    hasOverlappingRequests: vi.fn(),
+    setAppliedRule: vi.fn(),
+  },
+  userRepo: {
+    findById: vi.fn(),
+    getRemainingVacationDays: vi.fn(),
+  },
+  leaveTypeRepo: { findById: vi.fn() },
+  approvalRepo: { findRequestSteps: vi.fn(), assignToRequest: vi.fn(), routeToApprover: vi.fn() },
+  delegationRepo: { findActiveDelegators: vi.fn() },
+  blackoutRepo: { findOverlapping: vi.fn() },
+  attachmentRepo: { findByRequestId: vi.fn(), findStorageKeys: vi.fn() },
+  attachmentStorage: { remove: vi.fn() },
+  ruleService: { findMatchingRule: vi.fn() },
+  coverageService: { check: vi.fn() },
+  notificationService: { notify: vi.fn(), prepare: vi.fn(), enqueue: vi.fn() },
+}));
+
+vi.mock('../repositories/vacationRequestRepository.js', () => ({
+  VacationRequestRepository: vi.fn(() => mocks.requestRepo),
+  InsufficientBalanceError: class InsufficientBalanceError extends Error {
+    constructor(public balance: unknown) {
+      super('Insufficient balance');
+    }
+  },
+}));
+vi.mock('../repositories/userRepository.js', () => ({ UserRepository: vi.fn(() => mocks.userRepo) }));
+vi.mock('../repositories/leaveTypeRepository.js', () => ({ LeaveTypeRepository: vi.fn(() => mocks.leaveTypeRepo) }));
+vi.mock('../repositories/approvalChainRepository.js', () => ({
+  ApprovalChainRepository: vi.fn(() => mocks.approvalRepo),
+}));
+vi.mock('../repositories/delegationRepository.js', () => ({
+  DelegationRepository: vi.fn(() => mocks.delegationRepo),
+}));
+vi.mock('../repositories/blackoutRepository.js', () => ({ BlackoutRepository: vi.fn(() => mocks.blackoutRepo) }));
+vi.mock('../repositories/requestAttachmentRepository.js', () => ({
+  RequestAttachmentRepository: vi.fn(() => mocks.attachmentRepo),
+}));
+vi.mock('../services/attachmentStorage.js', () => ({ AttachmentStorage: vi.fn(() => mocks.attachmentStorage) }));
+vi.mock('../services/approvalRuleService.js', () => ({ ApprovalRuleService: vi.fn(() => mocks.ruleService) }));
+vi.mock('../services/coverageService.js', () => ({ CoverageService: vi.fn(() => mocks.coverageService) }));
+vi.mock('../services/notificationService.js', () => ({
+  NotificationService: vi.fn(() => mocks.notificationService),
+}));
+
+const { approveRequest, bulkReviewRequests, createRequest, deleteRequest, rejectRequest, updateRequest } = await import(
+  './vacationRequestController.js'
+);
+const { InsufficientBalanceError } = await import('../repositories/vacationRequestRepository.js');
+
+const MANAGER: AuthPayload = { userId: 1, email: 'manager@company.com', role: 'manager', isSuperAdmin: false };
+
+const SICK_LEAVE = {
+  id: 2,
+  code: 'sick',
+  name: 'Sick Leave',
+  tracks_balance: true,
+  requires_approval: true,
+  requires_attachment: true,
+} as LeaveType;
+
+const PENDING_REQUEST = {
+  id: 10,
+  user_id: 5,
+  leave_type_id: 2,
+  start_date: '2025-07-07',
+  end_date: '2025-07-08',
+  duration_type: 'full_day',
+  days_requested: 2,
+  status: 'pending',
+} as VacationRequest;
+
+/**
+ * Call a handler with a JSON body and return the status and body it answered with
+ */
+async function call(
+  handler: (req: Request, res: Response) => Promise<void>,
+  options: { params?: Record<string, string>; body?: unknown; user?: AuthPayload }
+): Promise<{ status: number; body: { success: boolean; error?: string; data?: unknown } }> {
+  const req = Object.assign(Readable.from(options.body ? [JSON.stringify(options.body)] : []), {
+    headers: {},
+    params: options.params,
+    user: options.user ?? MANAGER,
+  }) as unknown as Request;
+  let status = 0;
+  let body = '';
+  const res = {
+    writeHead: (statusCode: number) => {
+      status = statusCode;
+    },
+    end: (content: string) => {
+      body = content;
+    },
+  } as unknown as Response;
+
+  await handler(req, res);
+  return { status, body: JSON.parse(body) };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.requestRepo.findById.mockResolvedValue(PENDING_REQUEST);
+  mocks.requestRepo.calculateVacationDays.mockResolvedValue(2);
+  mocks.requestRepo.approve.mockImplementation(async (id: number, approval: { final: boolean }) => ({
+    ...PENDING_REQUEST,
+    id,
+    status: approval.final ? 'approved' : 'pending',
+  }));
+  mocks.userRepo.findById.mockResolvedValue({ id: 5, manager_id: MANAGER.userId });
+  mocks.userRepo.getRemainingVacationDays.mockResolvedValue({ available: 8, pending: 2, total: 10, used: 0 });
+  mocks.leaveTypeRepo.findById.mockResolvedValue(SICK_LEAVE);
+  mocks.approvalRepo.findRequestSteps.mockResolvedValue([]);
+  mocks.delegationRepo.findActiveDelegators.mockResolvedValue([]);
+  mocks.coverageService.check.mockResolvedValue({ breaches_minimum: false });
+  mocks.requestRepo.delete.mockResolvedValue(true);
+  mocks.attachmentRepo.findStorageKeys.mockResolvedValue([]);
+  mocks.notificationService.prepare.mockResolvedValue([]);
+  mocks.requestRepo.hasOverlappingRequests.mockResolvedValue(false);
+  mocks.requestRepo.update.mockImplementation(async (id: number, data: Partial<VacationRequest>) => ({
+    ...PENDING_REQUEST,
+    ...data,
+    id,
+  }));
+  mocks.blackoutRepo.findOverlapping.mockResolvedValue([]);
+  mocks.ruleService.findMatchingRule.mockResolvedValue(null);
+});
+
+describe('approveRequest', () => {
+  it('refuses to approve leave that needs a supporting document without one', async () => {
+    mocks.attachmentRepo.findByRequestId.mockResolvedValue([]);
+
+    const { status, body } = await call(approveRequest, { params: { id: '10' } });
+
+    expect(status).toBe(400);
+    expect(body.error).toMatch(/supporting document/);
+    expect(mocks.requestRepo.approve).not.toHaveBeenCalled();
+  });
+
+  it('approves it once a document is attached', async () => {
+    mocks.attachmentRepo.findByRequestId.mockResolvedValue([{ id: 1, request_id: 10 }]);
+
+    const { status, body } = await call(approveRequest, { params: { id: '10' } });
+
+    expect(status).toBe(200);
+    expect(body.data).toMatchObject({ id: 10, status: 'approved' });
+  });
+
+  it('does not ask for documents the leave type does not need', async () => {
+    mocks.leaveTypeRepo.findById.mockResolvedValue({ ...SICK_LEAVE, requires_attachment: false });
+    mocks.attachmentRepo.findByRequestId.mockResolvedValue([]);
+
+    const { status } = await call(approveRequest, { params: { id: '10' } });
+
+    expect(status).toBe(200);
+  });
+});
+
+describe('approveRequest on an approval chain', () => {
+  const step = (step_order: number, approver_id: number | null, approved_at: string | null = null) =>
+    ({ step_order, approver_kind: 'user', approver_id, approver_name: `Approver ${approver_id}`, approved_at }) as const;
+
+  beforeEach(() => {
+    mocks.leaveTypeRepo.findById.mockResolvedValue({ ...SICK_LEAVE, requires_attachment: false });
+  });
+
+  it('signs off a step without approving the request while later steps remain', async () => {
+    mocks.approvalRepo.findRequestSteps.mockResolvedValue([step(1, MANAGER.userId), step(2, 7)]);
+
+    const { status, body } = await call(approveRequest, { params: { id: '10' } });
+
+    expect(status).toBe(200);
+    expect(mocks.requestRepo.approve).toHaveBeenCalledWith(10, expect.objectContaining({ stepOrder: 1, final: false }));
+    expect(body.data).toMatchObject({ status: 'pending' });
+    expect(mocks.notificationService.notify).toHaveBeenCalledWith('request_step_approved', expect.anything(), 1);
+  });
+
+  it('approves and deducts the days on the last step, in one write', async () => {
+    mocks.approvalRepo.findRequestSteps.mockResolvedValue([step(1, 7, '2025-07-01T10:00:00Z'), step(2, MANAGER.userId)]);
+
+    const { status } = await call(approveRequest, { params: { id: '10' }, body: { manager_notes: 'Enjoy' } });
+
+    expect(status).toBe(200);
+    expect(mocks.requestRepo.approve).toHaveBeenCalledTimes(1);
+    expect(mocks.requestRepo.approve).toHaveBeenCalledWith(10, {
+      stepOrder: 2,
+      final: true,
+      approvedBy: MANAGER.userId,
+      onBehalfOf: null,
+      notes: 'Enjoy',
+      staffingOverrideNote: undefined,
+      deduction: { leaveTypeId: 2, days: 2 },
+    });
+  });
+
+  it('approves a request with no steps as its line manager', async () => {
+    const { status } = await call(approveRequest, { params: { id: '10' } });
+
+    expect(status).toBe(200);
+    expect(mocks.requestRepo.approve).toHaveBeenCalledWith(10, expect.objectContaining({ stepOrder: null, final: true }));
+  });
+
+  it('reports a conflict when another review got there first', async () => {
+    mocks.requestRepo.approve.mockResolvedValue(null);
+
+    const { status, body } = await call(approveRequest, { params: { id: '10' } });
+
+    expect(status).toBe(409);
+    expect(body.error).toBe('This request has already been reviewed');
+    expect(mocks.notificationService.notify).not.toHaveBeenCalled();
+  });
+
+  it('needs an override note to approve below minimum staffing, and keeps it with the sign-off', async () => {
+    mocks.coverageService.check.mockResolvedValue({
+      team_name: 'Support',
+      team_size: 4,
+      min_staffing: 3,
+      lowest_staffing: 2,
+      breached_dates: ['2025-07-07'],
+      breaches_minimum: true,
+    });
+
+    const refused = await call(approveRequest, { params: { id: '10' } });
+    expect(refused.status).toBe(409);
+    expect(mocks.requestRepo.approve).not.toHaveBeenCalled();
+
+    const approved = await call(approveRequest, { params: { id: '10' }, body: { override_note: 'Cover arranged' } });
+    expect(approved.status).toBe(200);
+    expect(mocks.requestRepo.approve).toHaveBeenCalledWith(
+      10,
+      expect.objectContaining({ staffingOverrideNote: 'Cover arranged' })
+    );
+  });
+});
+
+describe('rejectRequest', () => {
+  it('rejects a pending request and tells the requester', async () => {
+    mocks.requestRepo.updateStatus.mockResolvedValue({ ...PENDING_REQUEST, status: 'rejected' });
+
+    const { status } = await call(rejectRequest, { params: { id: '10' }, body: { manager_notes: 'Busy week' } });
+
+    expect(status).toBe(200);
+    expect(mocks.requestRepo.updateStatus).toHaveBeenCalledWith(10, 'rejected', MANAGER.userId, 'Busy week', null);
+    expect(mocks.notificationService.notify).toHaveBeenCalledWith('request_rejected', expect.anything(), 1);
+  });
+
+  it('reports a conflict when the request was approved in the meantime', async () => {
+    mocks.requestRepo.updateStatus.mockResolvedValue(null);
+
+    const { status, body } = await call(rejectRequest, { params: { id: '10' } });
+
+    expect(status).toBe(409);
+    expect(body.error).toBe('This request has already been reviewed');
+    expect(mocks.notificationService.notify).not.toHaveBeenCalled();
+  });
+
+  it('reports the conflict for that request in a bulk rejection', async () => {
+    mocks.requestRepo.updateStatus.mockImplementation(async (id: number) =>
+      id === 10 ? null : { ...PENDING_REQUEST, id, status: 'rejected' }
+    );
+
+    const { body } = await call(bulkReviewRequests, { body: { ids: [10, 11], action: 'reject' } });
+
+    expect(body.data).toEqual([
+      { id: 10, success: false, error: 'This request has already been reviewed' },
+      expect.objectContaining({ id: 11, success: true, status: 'rejected' }),
+    ]);
+  });
+});
+
+describe('reviewing your own request', () => {
+  const REQUESTER: AuthPayload = { userId: 5, email: 'employee@company.com', role: 'manager', isSuperAdmin: false };
+
+  beforeEach(() => {
+    mocks.leaveTypeRepo.findById.mockResolvedValue({ ...SICK_LEAVE, requires_attachment: false });
+  });
+
+  it('is refused to a requester standing in for their own approver', async () => {
+    mocks.delegationRepo.findActiveDelegators.mockResolvedValue([MANAGER.userId]);
+
+    const { status } = await call(approveRequest, { params: { id: '10' }, user: REQUESTER });
+
+    expect(status).toBe(403);
+    expect(mocks.requestRepo.approve).not.toHaveBeenCalled();
+  });
+
+  it('is refused to a requester who is the approver of the step or a super-admin', async () => {
+    mocks.approvalRepo.findRequestSteps.mockResolvedValue([
+      { step_order: 1, approver_kind: 'user', approver_id: REQUESTER.userId, approved_at: null },
+    ]);
+
+    expect((await call(approveRequest, { params: { id: '10' }, user: REQUESTER })).status).toBe(403);
+    expect((await call(approveRequest, { params: { id: '10' }, user: { ...REQUESTER, isSuperAdmin: true } })).status).toBe(
+      403
+    );
+    expect(mocks.requestRepo.approve).not.toHaveBeenCalled();
+  });
+
+  it('is refused in a bulk review, which goes ahead for the other requests', async () => {
+    mocks.delegationRepo.findActiveDelegators.mockResolvedValue([MANAGER.userId]);
+    mocks.requestRepo.findById.mockImplementation(async (id: number) =>
+      id === 10 ? PENDING_REQUEST : { ...PENDING_REQUEST, id, user_id: 6 }
+    );
+    mocks.userRepo.findById.mockResolvedValue({ id: 6, manager_id: MANAGER.userId });
+
+    const { status, body } = await call(bulkReviewRequests, {
+      body: { ids: [10, 11], action: 'approve' },
+      user: REQUESTER,
+    });
+
+    expect(status).toBe(200);
+    expect(body.data).toEqual([
+      { id: 10, success: false, error: 'You are not the approver of the step this request is waiting on' },
+      expect.objectContaining({ id: 11, success: true }),
+    ]);
+    expect(mocks.requestRepo.approve).toHaveBeenCalledTimes(1);
+    expect(mocks.requestRepo.approve).toHaveBeenCalledWith(11, expect.objectContaining({ onBehalfOf: MANAGER.userId }));
+  });
+});
+
+describe('deleteRequest', () => {
+  const OTHER_MANAGER = { ...MANAGER, userId: 3, email: 'other.manager@company.com' };
+
+  it('lets the requester delete their pending request', async () => {
+    const { status } = await call(deleteRequest, {
+      params: { id: '10' },
+      user: { ...MANAGER, userId: 5, role: 'employee' },
+    });
+
+    expect(status).toBe(200);
+    expect(mocks.requestRepo.delete).toHaveBeenCalledWith(10, 5);
+  });
+
+  it('lets the approver of the step it waits on delete it', async () => {
+    const { status } = await call(deleteRequest, { params: { id: '10' } });
+
+    expect(status).toBe(200);
+    expect(mocks.requestRepo.delete).toHaveBeenCalledWith(10, undefined);
+  });
+
+  it('refuses managers who may not review the request', async () => {
+    const { status } = await call(deleteRequest, { params: { id: '10' }, user: OTHER_MANAGER });
+
+    expect(status).toBe(403);
+    expect(mocks.requestRepo.delete).not.toHaveBeenCalled();
+  });
+
+  it('lets a manager standing in for the approver delete it', async () => {
+    mocks.delegationRepo.findActiveDelegators.mockResolvedValue([MANAGER.userId]);
+
+    const { status } = await call(deleteRequest, { params: { id: '10' }, user: OTHER_MANAGER });
+
+    expect(status).toBe(200);
+  });
+});
+
+describe('updateRequest', () => {
+  const EMPLOYEE: AuthPayload = { userId: 5, email: 'employee@company.com', role: 'employee', isSuperAdmin: false };
+  const HOURLY_REQUEST = {
+    ...PENDING_REQUEST,
+    end_date: PENDING_REQUEST.start_date,
+    duration_type: 'hours',
+    start_time: '09:00',
+    end_time: '12:00',
+    days_requested: 0.375,
+  } as VacationRequest;
+
+  beforeEach(() => {
+    mocks.requestRepo.findById.mockResolvedValue(HOURLY_REQUEST);
+    mocks.requestRepo.calculateVacationDays.mockResolvedValue(0.25);
+    mocks.leaveTypeRepo.findById.mockResolvedValue({ ...SICK_LEAVE, is_active: true, requires_attachment: false });
+  });
+
+  it('refuses a new start time that leaves an hourly request ending before it starts', async () => {
+    const { status, body } = await call(updateRequest, {
+      params: { id: '10' },
+      body: { start_time: '15:00' },
+      user: EMPLOYEE,
+    });
+
+    expect(status).toBe(400);
+    expect(body.error).toBe('End time must be after start time');
+    expect(mocks.requestRepo.calculateVacationDays).not.toHaveBeenCalled();
+    expect(mocks.requestRepo.update).not.toHaveBeenCalled();
+  });
+
+  it('checks a new time against the one the request already has', async () => {
+    const { status } = await call(updateRequest, { params: { id: '10' }, body: { end_time: '11:00' }, user: EMPLOYEE });
+
+    expect(status).toBe(200);
+    expect(mocks.requestRepo.update).toHaveBeenCalledWith(
+      10,
+      expect.objectContaining({ duration_type: 'hours', start_time: '09:00', end_time: '11:00' }),
+      0.25,
+      true
+    );
+  });
+
+  it('needs a period to turn a request into a half day', async () => {
+    const { status, body } = await call(updateRequest, {
+      params: { id: '10' },
+      body: { duration_type: 'half_day' },
+      user: EMPLOYEE,
+    });
+
+    expect(status).toBe(400);
+    expect(body.error).toMatch(/Half-day requests must specify a period/);
+  });
+
+  it('refuses a new end date that a partial-day request cannot span', async () => {
+    const { status, body } = await call(updateRequest, {
+      params: { id: '10' },
+      body: { end_date: '2025-07-09' },
+      user: EMPLOYEE,
+    });
+
+    expect(status).toBe(400);
+    expect(body.error).toBe('Half-day and hourly requests must start and end on the same date');
+  });
+
+  it('drops the times of a request turned into full days', async () => {
+    const { status } = await call(updateRequest, {
+      params: { id: '10' },
+      body: { duration_type: 'full_day', end_date: '2025-07-08' },
+      user: EMPLOYEE,
+    });
+
+    expect(status).toBe(200);
+    expect(mocks.requestRepo.calculateVacationDays).toHaveBeenCalledWith(
+      5,
+      expect.objectContaining({ duration_type: 'full_day', start_time: null, end_time: null })
+    );
+    expect(mocks.requestRepo.update).toHaveBeenCalledWith(
+      10,
+      expect.objectContaining({ duration_type: 'full_day', half_day_period: null, start_time: null, end_time: null }),
+      0.25,
+      true
+    );
+  });
+});
+
+describe('reserving days', () => {
+  const EMPLOYEE: AuthPayload = { userId: 5, email: 'employee@company.com', role: 'employee', isSuperAdmin: false };
+  const ANNUAL_LEAVE = { ...SICK_LEAVE, id: 1, name: 'Annual Leave', is_active: true, requires_attachment: false };
+  const NEW_REQUEST = { leave_type_id: 1, start_date: '2025-07-07', end_date: '2025-07-08' };
+  // What is left once a request made at the same time reserved its days
+  const TAKEN = new InsufficientBalanceError({ used: 0, pending: 8, available: 1 });
+
+  beforeEach(() => {
+    mocks.leaveTypeRepo.findById.mockResolvedValue(ANNUAL_LEAVE);
+    mocks.requestRepo.create.mockImplementation(async (userId: number, leaveTypeId: number) => ({
+      ...PENDING_REQUEST,
+      user_id: userId,
+      leave_type_id: leaveTypeId,
+    }));
+  });
+
+  it('has the balance checked again with the new request written', async () => {
+    const { status } = await call(createRequest, { body: NEW_REQUEST, user: EMPLOYEE });
+
+    expect(status).toBe(201);
+    expect(mocks.requestRepo.create).toHaveBeenCalledWith(5, 1, expect.objectContaining(NEW_REQUEST), 2, true);
+  });
+
+  it('refuses a new request whose days another request took in the meantime', async () => {
+    mocks.requestRepo.create.mockRejectedValue(TAKEN);
+
+    const { status, body } = await call(createRequest, { body: NEW_REQUEST, user: EMPLOYEE });
+
+    expect(status).toBe(400);
+    expect(body.error).toBe(
+      'Insufficient Annual Leave days. You need 2 days but only have 1 available (8 more are reserved by your pending requests).'
+    );
+    expect(mocks.notificationService.notify).not.toHaveBeenCalled();
+  });
+
+  it('does not reserve days of leave types that track no balance', async () => {
+    mocks.leaveTypeRepo.findById.mockResolvedValue({ ...ANNUAL_LEAVE, tracks_balance: false });
+
+    await call(createRequest, { body: NEW_REQUEST, user: EMPLOYEE });
+
+    expect(mocks.requestRepo.create).toHaveBeenCalledWith(5, 1, expect.anything(), 2, false);
+  });
+
+  it('refuses a change whose days another request took in the meantime', async () => {
+    mocks.requestRepo.update.mockRejectedValue(TAKEN);
+
+    const { status, body } = await call(updateRequest, {
+      params: { id: '10' },
+      body: { end_date: '2025-07-09' },
+      user: EMPLOYEE,
+    });
+
+    expect(status).toBe(400);
+    expect(body.error).toMatch(/^Insufficient Annual Leave days/);
+    expect(mocks.requestRepo.update).toHaveBeenCalledWith(10, expect.anything(), 2, true);
+  });
+});
+
+describe('updateRequest to a leave type that needs no approval', () => {
+  const EMPLOYEE: AuthPayload = { userId: 5, email: 'employee@company.com', role: 'employee', isSuperAdmin: false };
+  const NO_APPROVAL = { ...SICK_LEAVE, id: 4, name: 'Family Leave', is_active: true, requires_approval: false };
+
+  beforeEach(() => {
+    mocks.leaveTypeRepo.findById.mockResolvedValue({ ...NO_APPROVAL, requires_attachment: false });
+  });
+
+  it('approves and deducts the changed request straight away, dropping its approval steps', async () => {
+    const { status, body } = await call(updateRequest, {
+      params: { id: '10' },
+      body: { leave_type_id: 4 },
+      user: EMPLOYEE,
+    });
+
+    expect(status).toBe(200);
+    expect(body.data).toMatchObject({ id: 10, status: 'approved' });
+    expect(mocks.approvalRepo.routeToApprover).toHaveBeenCalledWith(10, null);
+    expect(mocks.requestRepo.setAppliedRule).toHaveBeenCalledWith(10, null);
+    expect(mocks.requestRepo.approve).toHaveBeenCalledWith(
+      10,
+      expect.objectContaining({ final: true, approvedBy: null, deduction: { leaveTypeId: 4, days: 2 } })
+    );
+    expect(mocks.approvalRepo.assignToRequest).not.toHaveBeenCalled();
+    expect(mocks.notificationService.notify).toHaveBeenCalledWith('request_updated', expect.anything(), 5);
+  });
+
+  it('waits for approval while a supporting document it needs is missing', async () => {
+    mocks.leaveTypeRepo.findById.mockResolvedValue(NO_APPROVAL);
+    mocks.attachmentRepo.findByRequestId.mockResolvedValue([]);
+
+    const { status } = await call(updateRequest, {
+      params: { id: '10' },
+      body: { leave_type_id: 4 },
+      user: EMPLOYEE,
+    });
+
+    expect(status).toBe(200);
+    expect(mocks.requestRepo.approve).not.toHaveBeenCalled();
+    expect(mocks.approvalRepo.assignToRequest).toHaveBeenCalledWith(10);
+  });
+
+  it('approves it once the document is attached', async () => {
+    mocks.leaveTypeRepo.findById.mockResolvedValue(NO_APPROVAL);
+    mocks.attachmentRepo.findByRequestId.mockResolvedValue([{ id: 1, request_id: 10 }]);
+
+    await call(updateRequest, { params: { id: '10' }, body: { leave_type_id: 4 }, user: EMPLOYEE });
+
+    expect(mocks.requestRepo.approve).toHaveBeenCalledTimes(1);
+  });
+});
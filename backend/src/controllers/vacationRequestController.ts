@@ -1,71 +1,1093 @@
-import { VacationRequestRepository } from '../repositories/vacationRequestRepository.js';
+import {
+  InsufficientBalanceError,
+  VacationRequestRepository,
+  type RequestFilters,
+} from '../repositories/vacationRequestRepository.js';
 import { UserRepository } from '../repositories/userRepository.js';
-import { createVacationRequestSchema, updateRequestStatusSchema, updateVacationRequestSchema } from '../utils/validation.js';
+import { LeaveTypeRepository } from '../repositories/leaveTypeRepository.js';
+import { ApprovalChainRepository } from '../repositories/approvalChainRepository.js';
+import { DelegationRepository } from '../repositories/delegationRepository.js';
+import { BlackoutRepository } from '../repositories/blackoutRepository.js';
+import { RequestCommentRepository } from '../repositories/requestCommentRepository.js';
+import { RequestAttachmentRepository } from '../repositories/requestAttachmentRepository.js';
+import { ApprovalRuleService } from '../services/approvalRuleService.js';
+import { CoverageService } from '../services/coverageService.js';
+import { NotificationService } from '../services/notificationService.js';
+import { AttachmentStorage } from '../services/attachmentStorage.js';
+import { config } from '../config/env.js';
+import {
+  createVacationRequestSchema,
+  updateRequestStatusSchema,
+  requestCancellationSchema,
+  updateVacationRequestSchema,
+  requestDurationSchema,
+  workingDaysQuerySchema,
+  coverageQuerySchema,
+  exportRequestsQuerySchema,
+  bulkReviewSchema,
+  createCommentSchema,
+} from '../utils/validation.js';
+import { streamSpreadsheet, type SpreadsheetColumn } from '../utils/spreadsheet.js';
+import { formatDate, roundDays, type RequestDuration } from '../utils/workingDays.js';
+import type {
+  ApprovalRule,
+  AuthPayload,
+  BalanceBreakdown,
+  BlackoutPeriod,
+  BulkReviewResult,
+  CoverageCheck,
+  LeaveType,
+  RequestApprovalStep,
+  RequestStatus,
+  VacationRequest,
+  VacationRequestWithUser,
+} from '../types/index.js';
 import {
   sendSuccess,
   sendCreated,
   sendError,
+  sendFile,
   parseBody,
+  parseMultipart,
+  RequestBodyError,
   type Request,
   type Response,
 } from '../utils/http.js';
 
-const requestRepo = new VacationRequestRepository();
-const userRepo = new UserRepository();
+const requestRepo = new VacationRequestRepository();
+const userRepo = new UserRepository();
+const leaveTypeRepo = new LeaveTypeRepository();
+const approvalRepo = new ApprovalChainRepository();
+const delegationRepo = new DelegationRepository();
+const blackoutRepo = new BlackoutRepository();
+const commentRepo = new RequestCommentRepository();
+const attachmentRepo = new RequestAttachmentRepository();
+const attachmentStorage = new AttachmentStorage();
+const ruleService = new ApprovalRuleService();
+const coverageService = new CoverageService();
+const notificationService = new NotificationService();
+
+const DEFAULT_LEAVE_TYPE_CODE = 'annual';
+
+// How files of the types browsers can show start; uploads claiming one must match, and only these
+// are ever served inline
+const FILE_SIGNATURES: Record<string, number[]> = {
+  'application/pdf': [0x25, 0x50, 0x44, 0x46],
+  'image/png': [0x89, 0x50, 0x4e, 0x47],
+  'image/jpeg': [0xff, 0xd8, 0xff],
+  'image/gif': [0x47, 0x49, 0x46, 0x38],
+};
+
+// Outcome of reviewing a request: the request and what happened, or the error to send
+type ReviewResult = { request: VacationRequest; message: string } | { status: number; error: string };
+
+const DURATION_LABELS = { full_day: 'Full day', half_day: 'Half day', hours: 'Hours' };
+
+const REQUEST_EXPORT_COLUMNS: SpreadsheetColumn<VacationRequestWithUser>[] = [
+  { header: 'ID', value: (request) => request.id },
+  { header: 'Employee', value: (request) => request.user_name },
+  { header: 'Email', value: (request) => request.user_email },
+  { header: 'Leave Type', value: (request) => request.leave_type_name },
+  { header: 'Start Date', value: (request) => request.start_date },
+  { header: 'End Date', value: (request) => request.end_date },
+  {
+    header: 'Duration',
+    value: (request) => {
+      if (request.duration_type === 'half_day' && request.half_day_period) {
+        return `${DURATION_LABELS.half_day} (${request.half_day_period.toUpperCase()})`;
+      }
+      if (request.duration_type === 'hours') {
+        return `${request.start_time}-${request.end_time}`;
+      }
+      return DURATION_LABELS[request.duration_type];
+    },
+  },
+  { header: 'Days', value: (request) => request.days_requested },
+  { header: 'Status', value: (request) => request.status },
+  { header: 'Reason', value: (request) => request.reason },
+  { header: 'Submitted', value: (request) => request.submitted_at.toISOString() },
+  { header: 'Reviewed By', value: (request) => request.approved_by_name },
+  { header: 'Reviewed At', value: (request) => request.approved_at?.toISOString() },
+  { header: 'Manager Notes', value: (request) => request.manager_notes },
+];
+
+/**
+ * Error for a request that needs more days than are available, mentioning pending reservations
+ */
+function insufficientBalanceMessage(leaveTypeName: string, daysNeeded: number, balance: BalanceBreakdown): string {
+  const reserved = balance.pending > 0 ? ` (${balance.pending} more are reserved by your pending requests)` : '';
+  return `Insufficient ${leaveTypeName} days. You need ${daysNeeded} days but only have ${balance.available} available${reserved}.`;
+}
+
+/**
+ * Error for approving a request that would take the team below its minimum staffing
+ */
+function understaffedMessage(coverage: CoverageCheck): string {
+  return (
+    `Approving would leave ${coverage.team_name} with ${coverage.lowest_staffing} of ${coverage.team_size} ` +
+    `people at work (minimum ${coverage.min_staffing}) on ${coverage.breached_dates.join(', ')}. ` +
+    'Give an override note to approve anyway.'
+  );
+}
+
+/**
+ * Error for a request overlapping a blackout period that blocks leave
+ */
+function blackoutMessage(blackout: BlackoutPeriod): string {
+  return `Leave cannot be taken during ${blackout.name} (${blackout.starts_on} to ${blackout.ends_on}). Please choose other dates.`;
+}
+
+/**
+ * Blackout periods a request for a leave type needing approval runs into (none for other types)
+ */
+async function findBlackouts(
+  userId: number,
+  leaveType: LeaveType,
+  duration: RequestDuration
+): Promise<BlackoutPeriod[]> {
+  if (!leaveType.requires_approval) {
+    return [];
+  }
+  return blackoutRepo.findOverlapping(userId, duration.start_date, duration.end_date);
+}
+
+/**
+ * Approve (and deduct) a request of a leave type that needs no approval, dropping the approval steps
+ * and rule an edited request may still have from its earlier type
+ */
+async function approveWithoutReview(request: VacationRequest, leaveType: LeaveType): Promise<VacationRequest> {
+  await requestRepo.setAppliedRule(request.id, null);
+  await approvalRepo.routeToApprover(request.id, null);
+  const approvedRequest = await requestRepo.approve(request.id, {
+    stepOrder: null,
+    final: true,
+    approvedBy: null,
+    onBehalfOf: null,
+    notes: `${leaveType.name} does not require approval`,
+    deduction: leaveType.tracks_balance ? { leaveTypeId: leaveType.id, days: request.days_requested } : null,
+  });
+  return approvedRequest as VacationRequest;
+}
+
+/**
+ * Put a submitted (or edited) request up for approval. The first approval rule it meets either
+ * approves it straight away or routes it to a single manager and is recorded on the request;
+ * otherwise it follows its approval chain. Leave during an extra-approval blackout skips the rules
+ * and gets the blackout's sign-off added at the end. balanceAfter is what is left of the leave type
+ * once the request is taken (null if the type tracks no balance).
+ */
+async function submitForApproval(
+  request: VacationRequest,
+  leaveType: LeaveType,
+  balanceAfter: number | null,
+  blackouts: BlackoutPeriod[]
+): Promise<{ request: VacationRequest; rule: ApprovalRule | null }> {
+  const extraApprovals = blackouts.filter((blackout) => blackout.mode === 'extra_approval');
+  let rule = extraApprovals.length > 0 ? null : await ruleService.findMatchingRule(request, balanceAfter);
+
+  // Leave needing a supporting document waits for it, and leave that would take the team below its
+  // minimum staffing is never approved automatically
+  if (rule?.action === 'auto_approve' && leaveType.requires_attachment) {
+    rule = null;
+  }
+  if (rule?.action === 'auto_approve') {
+    const coverage = await coverageService.check(request.user_id, request.start_date, request.end_date);
+    if (coverage.breaches_minimum) {
+      rule = null;
+    }
+  }
+  await requestRepo.setAppliedRule(request.id, rule);
+
+  if (rule?.action === 'auto_approve') {
+    await approvalRepo.routeToApprover(request.id, null);
+    const approvedRequest = await requestRepo.approve(request.id, {
+      stepOrder: null,
+      final: true,
+      approvedBy: null,
+      onBehalfOf: null,
+      notes: `Approved automatically by the "${rule.name}" rule`,
+      deduction: leaveType.tracks_balance ? { leaveTypeId: leaveType.id, days: request.days_requested } : null,
+    });
+    return { request: approvedRequest as VacationRequest, rule };
+  }
+
+  if (rule?.action === 'route' && rule.route_to_id !== null) {
+    await approvalRepo.routeToApprover(request.id, rule.route_to_id);
+  } else {
+    await approvalRepo.assignToRequest(request.id);
+  }
+  if (extraApprovals.length > 0) {
+    await approvalRepo.addExtraSteps(request.id, extraApprovals.map((blackout) => blackout.approver_id));
+  }
+  return { request: (await requestRepo.findById(request.id)) as VacationRequest, rule };
+}
+
+/**
+ * Whether a user may review a request's approval step (the requester's line manager decides when no
+ * step is given), and in whose name. Super-admins and the approver act in their own name; a
+ * delegate acts on behalf of an approver whose delegation to them covers today. Returns null if
+ * the user may not review it, which is always the case for their own requests.
+ */
+async function reviewAuthority(
+  user: AuthPayload,
+  request: VacationRequest,
+  step?: RequestApprovalStep
+): Promise<{ onBehalfOf: number | null } | null> {
+  if (request.user_id === user.userId) {
+    return null;
+  }
+
+  const approverId = step ? step.approver_id : (await userRepo.findById(request.user_id))?.manager_id ?? null;
+  if (approverId === user.userId || user.isSuperAdmin) {
+    return { onBehalfOf: null };
+  }
+
+  if (approverId !== null) {
+    const delegators = await delegationRepo.findActiveDelegators(user.userId, formatDate(new Date()));
+    if (delegators.includes(approverId)) {
+      return { onBehalfOf: approverId };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether a user may view a request: their own, or one they are (or stand in for) an approver of
+ */
+async function canView(user: AuthPayload, request: VacationRequest): Promise<boolean> {
+  if (request.user_id === user.userId || (await reviewAuthority(user, request))) {
+    return true;
+  }
+  for (const step of await approvalRepo.findRequestSteps(request.id)) {
+    if (await reviewAuthority(user, request, step)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Limit filters to the requests a user may list: employees see their own, managers those of their
+ * direct reports and those they approve (including for managers who delegated their approvals to
+ * them), and super-admins all of them
+ */
+async function visibleRequestFilters(user: AuthPayload, filters: RequestFilters): Promise<RequestFilters> {
+  if (user.role !== 'manager') {
+    return { ...filters, userId: user.userId };
+  }
+  if (user.isSuperAdmin) {
+    return filters;
+  }
+  const delegators = await delegationRepo.findActiveDelegators(user.userId, formatDate(new Date()));
+  return { ...filters, reviewerIds: [user.userId, ...delegators] };
+}
+
+/**
+ * GET /api/requests
+ * Get all vacation requests (Manager) or user's own requests (Employee)
+ */
+export async function getAllRequests(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    // Parse query parameters for filtering
+    const url = new URL(req.url || '', `http://${req.headers.host}`);
+    const filters: RequestFilters = {
+      status: (url.searchParams.get('status') as RequestStatus | null) || undefined,
+      startDate: url.searchParams.get('startDate') || undefined,
+      endDate: url.searchParams.get('endDate') || undefined,
+      search: url.searchParams.get('search') || undefined,
+    };
+
+    let requests;
+    if (req.user.role === 'manager' && req.user.isSuperAdmin && !Object.values(filters).some(Boolean)) {
+      requests = await requestRepo.findAll();
+    } else {
+      requests = await requestRepo.findWithFilters(await visibleRequestFilters(req.user, filters));
+    }
+
+    sendSuccess(res, requests);
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * GET /api/requests/export
+ * Download the requests GET /api/requests would list, with the same filters, as CSV or XLSX
+ */
+export async function exportRequests(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const { format, ...filters } = exportRequestsQuerySchema.parse(req.query || {});
+    const requests = requestRepo.streamWithFilters(await visibleRequestFilters(req.user, filters));
+    await streamSpreadsheet(res, format, 'vacation-requests', REQUEST_EXPORT_COLUMNS, requests);
+  } catch (error) {
+    if (res.headersSent) {
+      // Part of the file is already out, so cut it short rather than let it look complete
+      res.destroy();
+    } else if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
+
+/**
+ * GET /api/requests/delegated
+ * Pending requests waiting on the managers who delegated their approvals to the current user
+ */
+export async function getDelegatedRequests(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const delegators = await delegationRepo.findActiveDelegators(req.user.userId, formatDate(new Date()));
+    if (delegators.length === 0) {
+      sendSuccess(res, []);
+      return;
+    }
+
+    // Keep the requests whose current step (or line manager, without steps) is a delegator
+    const requests = await requestRepo.findWithFilters({ reviewerIds: delegators, status: 'pending' });
+    const waiting = requests.filter((request) => {
+      const currentStep = request.approval_steps.find((step) => !step.approved_at);
+      return !currentStep || (currentStep.approver_id !== null && delegators.includes(currentStep.approver_id));
+    });
+    sendSuccess(res, waiting);
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * GET /api/requests/coverage
+ * Preview how many of the current user's team would be at work if they took a date range off
+ */
+export async function getCoveragePreview(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const query = coverageQuerySchema.parse(req.query || {});
+    const coverage = await coverageService.check(req.user.userId, query.start_date, query.end_date);
+    sendSuccess(res, coverage);
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
+
+/**
+ * GET /api/requests/:id/coverage
+ * Team members already off during a request and whether approving it would breach the minimum staffing
+ */
+export async function getRequestCoverage(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const id = parseInt(req.params?.id || '', 10);
+    if (isNaN(id)) {
+      sendError(res, 400, 'Invalid request ID');
+      return;
+    }
+
+    const request = await requestRepo.findById(id);
+    if (!request) {
+      sendError(res, 404, 'Request not found');
+      return;
+    }
+
+    if (!(await canView(req.user, request))) {
+      sendError(res, 403, 'Access denied');
+      return;
+    }
+
+    const coverage = await coverageService.check(request.user_id, request.start_date, request.end_date);
+    sendSuccess(res, coverage);
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * GET /api/requests/:id/history
+ * Revisions of a request, from what was first submitted to its current dates and reason
+ */
+export async function getRequestHistory(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const id = parseInt(req.params?.id || '', 10);
+    if (isNaN(id)) {
+      sendError(res, 400, 'Invalid request ID');
+      return;
+    }
+
+    const request = await requestRepo.findById(id);
+    if (!request) {
+      sendError(res, 404, 'Request not found');
+      return;
+    }
+
+    if (!(await canView(req.user, request))) {
+      sendError(res, 403, 'Access denied');
+      return;
+    }
+
+    const revisions = await requestRepo.findRevisions(id);
+    sendSuccess(res, revisions);
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * GET /api/requests/:id/comments
+ * The comment thread of a request, oldest first
+ */
+export async function getRequestComments(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const id = parseInt(req.params?.id || '', 10);
+    if (isNaN(id)) {
+      sendError(res, 400, 'Invalid request ID');
+      return;
+    }
+
+    const request = await requestRepo.findById(id);
+    if (!request) {
+      sendError(res, 404, 'Request not found');
+      return;
+    }
+
+    if (!(await canView(req.user, request))) {
+      sendError(res, 403, 'Access denied');
+      return;
+    }
+
+    const comments = await commentRepo.findByRequestId(id);
+    sendSuccess(res, comments);
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * POST /api/requests/:id/comments
+ * Add a comment to a request's thread; open to whoever can see the request until it is decided
+ */
+export async function addRequestComment(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const id = parseInt(req.params?.id || '', 10);
+    if (isNaN(id)) {
+      sendError(res, 400, 'Invalid request ID');
+      return;
+    }
+
+    const request = await requestRepo.findById(id);
+    if (!request) {
+      sendError(res, 404, 'Request not found');
+      return;
+    }
+
+    if (!(await canView(req.user, request))) {
+      sendError(res, 403, 'Access denied');
+      return;
+    }
+
+    if (request.status !== 'pending') {
+      sendError(res, 400, 'Comments can only be added while a request is pending');
+      return;
+    }
+
+    const body = await parseBody(req);
+    const validatedData = createCommentSchema.parse(body);
+
+    const comment = await commentRepo.create(id, req.user.userId, validatedData.body);
+    sendCreated(res, comment, 'Comment added successfully');
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
+
+/**
+ * GET /api/requests/:id/attachments
+ * Supporting documents attached to a request
+ */
+export async function getRequestAttachments(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const id = parseInt(req.params?.id || '', 10);
+    if (isNaN(id)) {
+      sendError(res, 400, 'Invalid request ID');
+      return;
+    }
+
+    const request = await requestRepo.findById(id);
+    if (!request) {
+      sendError(res, 404, 'Request not found');
+      return;
+    }
+
+    if (!(await canView(req.user, request))) {
+      sendError(res, 403, 'Access denied');
+      return;
+    }
+
+    const attachments = await attachmentRepo.findByRequestId(id);
+    sendSuccess(res, attachments);
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * POST /api/requests/:id/attachments
+ * Attach a document (multipart/form-data, field "file") to your own pending or approved request
+ */
+export async function uploadAttachment(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const id = parseInt(req.params?.id || '', 10);
+    if (isNaN(id)) {
+      sendError(res, 400, 'Invalid request ID');
+      return;
+    }
+
+    const request = await requestRepo.findById(id);
+    if (!request) {
+      sendError(res, 404, 'Request not found');
+      return;
+    }
+
+    if (request.user_id !== req.user.userId) {
+      sendError(res, 403, 'Access denied');
+      return;
+    }
+
+    // Documents such as a doctor's note may only exist once the leave has started
+    if (request.status !== 'pending' && request.status !== 'approved') {
+      sendError(res, 400, 'Documents can only be attached to pending or approved requests');
+      return;
+    }
+
+    const { maxBytes, types } = config.attachments;
+    const body = await parseMultipart(req, maxBytes);
+    const file = body.files.find((upload) => upload.fieldName === 'file');
+    if (!file || file.data.length === 0) {
+      sendError(res, 400, 'Choose a file to attach');
+      return;
+    }
+    if (!types.includes(file.contentType)) {
+      sendError(res, 400, `Files of type ${file.contentType} are not accepted (accepted: ${types.join(', ')})`);
+      return;
+    }
+    const signature = FILE_SIGNATURES[file.contentType];
+    if (signature && !signature.every((byte, index) => file.data[index] === byte)) {
+      sendError(res, 400, `The file is not a valid ${file.contentType} file`);
+      return;
+    }
+
+    const storageKey = await attachmentStorage.save(file.data);
+    try {
+      const attachment = await attachmentRepo.create(id, req.user.userId, {
+        fileName: file.fileName.slice(-255),
+        contentType: file.contentType,
+        sizeBytes: file.data.length,
+        storageKey,
+      });
+      sendCreated(res, attachment, 'Document attached successfully');
+    } catch (error) {
+      await attachmentStorage.remove([storageKey]);
+      throw error;
+    }
+  } catch (error) {
+    if (error instanceof RequestBodyError) {
+      sendError(res, error.statusCode, error.message);
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
+
+/**
+ * GET /api/attachments/:id?inline=true
+ * Download an attachment, or with inline=true show it in the browser if it is a PDF or image
+ */
+export async function downloadAttachment(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const id = parseInt(req.params?.id || '', 10);
+    if (isNaN(id)) {
+      sendError(res, 400, 'Invalid attachment ID');
+      return;
+    }
+
+    const attachment = await attachmentRepo.findById(id);
+    const request = attachment ? await requestRepo.findById(attachment.request_id) : null;
+    if (!attachment || !request) {
+      sendError(res, 404, 'Attachment not found');
+      return;
+    }
+
+    if (!(await canView(req.user, request))) {
+      sendError(res, 403, 'Access denied');
+      return;
+    }
+
+    let content: Buffer;
+    try {
+      content = await attachmentStorage.read(attachment.storage_key);
+    } catch (error) {
+      if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+        sendError(res, 404, 'Attachment file not found');
+        return;
+      }
+      throw error;
+    }
+
+    const inline = req.query?.inline === 'true' && attachment.content_type in FILE_SIGNATURES;
+    sendFile(res, attachment.content_type, attachment.file_name, content, inline ? 'inline' : 'attachment');
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * DELETE /api/attachments/:id
+ * Remove a document you attached, while the request is pending
+ */
+export async function deleteAttachment(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const id = parseInt(req.params?.id || '', 10);
+    if (isNaN(id)) {
+      sendError(res, 400, 'Invalid attachment ID');
+      return;
+    }
+
+    const attachment = await attachmentRepo.findById(id);
+    const request = attachment ? await requestRepo.findById(attachment.request_id) : null;
+    if (!attachment || !request) {
+      sendError(res, 404, 'Attachment not found');
+      return;
+    }
+
+    if (attachment.uploaded_by !== req.user.userId) {
+      sendError(res, 403, 'Access denied');
+      return;
+    }
+
+    if (request.status !== 'pending') {
+      sendError(res, 400, 'Documents can only be removed from pending requests');
+      return;
+    }
+
+    await attachmentRepo.delete(id);
+    await attachmentStorage.remove([attachment.storage_key]);
+    sendSuccess(res, null, 'Document removed successfully');
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * GET /api/requests/:id
+ * Get vacation request by ID
+ */
+export async function getRequestById(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const id = parseInt(req.params?.id || '', 10);
+    if (isNaN(id)) {
+      sendError(res, 400, 'Invalid request ID');
+      return;
+    }
+
+    const request = await requestRepo.findById(id);
+    if (!request) {
+      sendError(res, 404, 'Request not found');
+      return;
+    }
+
+    // Users can view their own requests and those they review
+    if (!(await canView(req.user, request))) {
+      sendError(res, 403, 'Access denied');
+      return;
+    }
+
+    sendSuccess(res, request);
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * GET /api/requests/working-days?start_date=&end_date=&duration_type=
+ * Preview how many days a request would deduct from the balance
+ */
+export async function getWorkingDays(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const validatedData = workingDaysQuerySchema.parse(req.query || {});
+    const days = await requestRepo.calculateVacationDays(req.user.userId, validatedData);
+    sendSuccess(res, { ...validatedData, days });
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
+
+/**
+ * POST /api/requests
+ * Create a new vacation request (Employee only)
+ */
+export async function createRequest(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const body = await parseBody(req);
+    const validatedData = createVacationRequestSchema.parse(body);
+
+    // Resolve the leave type (annual leave when none is given)
+    const leaveType = validatedData.leave_type_id
+      ? await leaveTypeRepo.findById(validatedData.leave_type_id)
+      : await leaveTypeRepo.findByCode(DEFAULT_LEAVE_TYPE_CODE);
+    if (!leaveType || !leaveType.is_active) {
+      sendError(res, 400, 'Invalid leave type');
+      return;
+    }
+
+    // Calculate working days needed (fractional for half-day and hourly requests)
+    const daysNeeded = await requestRepo.calculateVacationDays(req.user.userId, validatedData);
+    if (daysNeeded === 0) {
+      sendError(res, 400, 'The selected dates do not include any working days.');
+      return;
+    }
+
+    // Check if user has enough days left for this leave type, after what pending requests reserve
+    let balanceAfter: number | null = null;
+    if (leaveType.tracks_balance) {
+      const balance = await userRepo.getRemainingVacationDays(
+        req.user.userId,
+        leaveType.id,
+        validatedData.start_date
+      );
+      if (daysNeeded > balance.available) {
+        sendError(res, 400, insufficientBalanceMessage(leaveType.name, daysNeeded, balance));
+        return;
+      }
+      balanceAfter = roundDays(balance.available - daysNeeded);
+    }
+
+    // Check for overlapping requests
+    const hasOverlap = await requestRepo.hasOverlappingRequests(req.user.userId, validatedData);
+    if (hasOverlap) {
+      sendError(
+        res,
+        400,
+        'You already have a pending or approved vacation request that overlaps with these dates.'
+      );
+      return;
+    }
+
+    // Check for blackout periods that refuse leave on these dates
+    const blackouts = await findBlackouts(req.user.userId, leaveType, validatedData);
+    const blocking = blackouts.find((blackout) => blackout.mode === 'block');
+    if (blocking) {
+      sendError(res, 400, blackoutMessage(blocking));
+      return;
+    }
+
+    // Create request for the authenticated user. Its days are checked again with the balance
+    // locked, as a request made at the same time may have reserved them since the check above.
+    let request: VacationRequest;
+    try {
+      request = await requestRepo.create(
+        req.user.userId,
+        leaveType.id,
+        validatedData,
+        daysNeeded,
+        leaveType.tracks_balance
+      );
+    } catch (error) {
+      if (error instanceof InsufficientBalanceError) {
+        sendError(res, 400, insufficientBalanceMessage(leaveType.name, daysNeeded, error.balance));
+        return;
+      }
+      throw error;
+    }
+
+    // Leave types that need no approval are approved (and deducted) straight away, unless they
+    // need a supporting document: the request cannot carry one yet
+    if (!leaveType.requires_approval && !leaveType.requires_attachment) {
+      const approvedRequest = await approveWithoutReview(request, leaveType);
+      await notificationService.notify('request_submitted', approvedRequest, req.user.userId);
+      sendCreated(res, approvedRequest, 'Request recorded and approved automatically');
+      return;
+    }
+
+    const submitted = await submitForApproval(request, leaveType, balanceAfter, blackouts);
+    await notificationService.notify('request_submitted', submitted.request, req.user.userId);
+    if (submitted.rule?.action === 'auto_approve') {
+      sendCreated(res, submitted.request, `Request approved automatically by the "${submitted.rule.name}" rule`);
+    } else if (submitted.rule?.action === 'route') {
+      sendCreated(res, submitted.request, `Vacation request created and routed to ${submitted.rule.route_to_name}`);
+    } else {
+      sendCreated(res, submitted.request, 'Vacation request created successfully');
+    }
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
 
 /**
- * GET /api/requests
- * Get all vacation requests (Manager) or user's own requests (Employee)
+ * Sign off the step a request is waiting on as a user, with the same checks whether it is
+ * reviewed on its own or in bulk; the last step approves it
  */
-export async function getAllRequests(req: Request, res: Response): Promise<void> {
+async function approve(
+  user: AuthPayload,
+  id: number,
+  managerNotes?: string,
+  overrideNote?: string
+): Promise<ReviewResult> {
+  const request = await requestRepo.findById(id);
+  if (!request) {
+    return { status: 404, error: 'Request not found' };
+  }
+
+  // Requests submitted before approval chains have no steps and go to the line manager
+  const steps = await approvalRepo.findRequestSteps(id);
+  const currentStep = steps.find((step) => !step.approved_at);
+  const authority = await reviewAuthority(user, request, currentStep);
+  if (!authority) {
+    return { status: 403, error: 'You are not the approver of the step this request is waiting on' };
+  }
+
+  if (request.status !== 'pending') {
+    return { status: 400, error: 'Only pending requests can be approved' };
+  }
+
+  const leaveType = await leaveTypeRepo.findById(request.leave_type_id);
+  if (leaveType?.requires_attachment && (await attachmentRepo.findByRequestId(id)).length === 0) {
+    return { status: 400, error: `Cannot approve: ${leaveType.name} requests need a supporting document attached first.` };
+  }
+
+  // Calculate working days and check them against the user's balance for the leave type at
+  // every step. The balance may have changed since the request was made; other pending requests
+  // do not block this one, they are checked when they are approved.
+  const daysUsed = await requestRepo.calculateVacationDays(request.user_id, request);
+  if (leaveType?.tracks_balance) {
+    const balance = await userRepo.getRemainingVacationDays(
+      request.user_id,
+      leaveType.id,
+      request.start_date,
+      request.id
+    );
+    const remaining = roundDays(balance.available + balance.pending);
+    if (daysUsed > remaining) {
+      return {
+        status: 400,
+        error: `Cannot approve: the request needs ${daysUsed} ${leaveType.name} days but the employee only has ${remaining} left.`,
+      };
+    }
+  }
+
+  // Check the leave already approved in the team at every step too; taking it below its
+  // minimum staffing needs an override note, which is kept on the request
+  const coverage = await coverageService.check(request.user_id, request.start_date, request.end_date);
+  if (coverage.breaches_minimum && !overrideNote) {
+    return { status: 409, error: understaffedMessage(coverage) };
+  }
+
+  // Sign off the current step; the request stays pending until its last step is signed off, which
+  // approves it and deducts the days from the user's balance
+  const nextStep = currentStep
+    ? steps.find((step) => step.step_order > currentStep.step_order && !step.approved_at)
+    : undefined;
+  const updatedRequest = await requestRepo.approve(id, {
+    stepOrder: currentStep?.step_order ?? null,
+    final: !nextStep,
+    approvedBy: user.userId,
+    onBehalfOf: authority.onBehalfOf,
+    notes: managerNotes,
+    staffingOverrideNote: coverage.breaches_minimum ? overrideNote : undefined,
+    deduction: leaveType?.tracks_balance ? { leaveTypeId: leaveType.id, days: daysUsed } : null,
+  });
+  if (!updatedRequest) {
+    return {
+      status: 409,
+      error: currentStep ? 'This approval step has already been signed off' : 'This request has already been reviewed',
+    };
+  }
+
+  if (currentStep && nextStep) {
+    await notificationService.notify('request_step_approved', updatedRequest, user.userId);
+    const approver = nextStep.approver_name ?? 'a super-admin';
+    return {
+      request: updatedRequest,
+      message: `Step ${currentStep.step_order} of ${steps.length} approved, now waiting on ${approver}`,
+    };
+  }
+
+  await notificationService.notify('request_approved', updatedRequest, user.userId);
+  return { request: updatedRequest, message: 'Request approved successfully' };
+}
+
+/**
+ * Reject a request as a user, with the same checks whether it is reviewed on its own or in bulk
+ */
+async function reject(user: AuthPayload, id: number, managerNotes?: string): Promise<ReviewResult> {
+  const request = await requestRepo.findById(id);
+  if (!request) {
+    return { status: 404, error: 'Request not found' };
+  }
+
+  // Requests submitted before approval chains have no steps and go to the line manager
+  const steps = await approvalRepo.findRequestSteps(id);
+  const currentStep = steps.find((step) => !step.approved_at);
+  const authority = await reviewAuthority(user, request, currentStep);
+  if (!authority) {
+    return { status: 403, error: 'You are not the approver of the step this request is waiting on' };
+  }
+
+  if (request.status !== 'pending') {
+    return { status: 400, error: 'Only pending requests can be rejected' };
+  }
+
+  const updatedRequest = await requestRepo.updateStatus(
+    id,
+    'rejected',
+    user.userId,
+    managerNotes,
+    authority.onBehalfOf
+  );
+  if (!updatedRequest) {
+    return { status: 409, error: 'This request has already been reviewed' };
+  }
+
+  await notificationService.notify('request_rejected', updatedRequest, user.userId);
+  return { request: updatedRequest, message: 'Request rejected successfully' };
+}
+
+/**
+ * PUT /api/requests/:id/approve
+ * Approve a vacation request (Manager only)
+ */
+export async function approveRequest(req: Request, res: Response): Promise<void> {
   try {
     if (!req.user) {
       sendError(res, 401, 'Authentication required');
       return;
     }
 
-    // Parse query parameters for filtering
-    const url = new URL(req.url || '', `http://${req.headers.host}`);
-    const status = url.searchParams.get('status') as 'pending' | 'approved' | 'rejected' | null;
-    const startDate = url.searchParams.get('startDate');
-    const endDate = url.searchParams.get('endDate');
-    const search = url.searchParams.get('search');
+    const id = parseInt(req.params?.id || '', 10);
+    if (isNaN(id)) {
+      sendError(res, 400, 'Invalid request ID');
+      return;
+    }
 
-    let requests;
-    if (req.user.role === 'manager') {
-      // Manager can see all requests with filters
-      if (status || startDate || endDate || search) {
-        requests = await requestRepo.findWithFilters({
-          status: status || undefined,
-          startDate: startDate || undefined,
-          endDate: endDate || undefined,
-          search: search || undefined
-        });
-      } else {
-        requests = await requestRepo.findAll();
+    // Parse optional manager notes (and a staffing override note) from request body
+    let managerNotes: string | undefined;
+    let overrideNote: string | undefined;
+    try {
+      const body = await parseBody(req);
+      if (body && typeof body === 'object') {
+        const validated = updateRequestStatusSchema.parse({ ...body, status: 'approved' });
+        managerNotes = validated.manager_notes;
+        overrideNote = validated.override_note;
       }
-    } else {
-      // Employee can only see their own requests with filters
-      requests = await requestRepo.findWithFilters({
-        userId: req.user.userId,
-        status: status || undefined,
-        startDate: startDate || undefined,
-        endDate: endDate || undefined,
-        search: search || undefined
-      });
+    } catch {
+      // No body or invalid body - that's okay, notes are optional
     }
 
-    sendSuccess(res, requests);
+    const result = await approve(req.user, id, managerNotes, overrideNote);
+    if ('error' in result) {
+      sendError(res, result.status, result.error);
+      return;
+    }
+
+    sendSuccess(res, result.request, result.message);
   } catch (error) {
     sendError(res, 500, 'Internal server error');
   }
 }
 
 /**
- * GET /api/requests/:id
- * Get vacation request by ID
+ * PUT /api/requests/:id/reject
+ * Reject a vacation request (Manager only)
  */
-export async function getRequestById(req: Request, res: Response): Promise<void> {
+export async function rejectRequest(req: Request, res: Response): Promise<void> {
   try {
     if (!req.user) {
       sendError(res, 401, 'Authentication required');
@@ -78,29 +1100,36 @@ export async function getRequestById(req: Request, res: Response): Promise<void>
       return;
     }
 
-    const request = await requestRepo.findById(id);
-    if (!request) {
-      sendError(res, 404, 'Request not found');
-      return;
+    // Parse optional manager notes from request body
+    let managerNotes: string | undefined;
+    try {
+      const body = await parseBody(req);
+      if (body && typeof body === 'object') {
+        const validated = updateRequestStatusSchema.parse({ ...body, status: 'rejected' });
+        managerNotes = validated.manager_notes;
+      }
+    } catch {
+      // No body or invalid body - that's okay, notes are optional
     }
 
-    // Employees can only view their own requests
-    if (req.user.role === 'employee' && request.user_id !== req.user.userId) {
-      sendError(res, 403, 'Access denied');
+    const result = await reject(req.user, id, managerNotes);
+    if ('error' in result) {
+      sendError(res, result.status, result.error);
       return;
     }
 
-    sendSuccess(res, request);
+    sendSuccess(res, result.request, result.message);
   } catch (error) {
     sendError(res, 500, 'Internal server error');
   }
 }
 
 /**
- * POST /api/requests
- * Create a new vacation request (Employee only)
+ * POST /api/requests/bulk
+ * Approve or reject several requests with one shared note, each checked as if it were reviewed on
+ * its own; reports which ones went through and why the others did not
  */
-export async function createRequest(req: Request, res: Response): Promise<void> {
+export async function bulkReviewRequests(req: Request, res: Response): Promise<void> {
   try {
     if (!req.user) {
       sendError(res, 401, 'Authentication required');
@@ -108,44 +1137,99 @@ export async function createRequest(req: Request, res: Response): Promise<void>
     }
 
     const body = await parseBody(req);
-    const validatedData = createVacationRequestSchema.parse(body);
+    const validatedData = bulkReviewSchema.parse(body);
 
-    // Calculate vacation days needed
-    const daysNeeded = requestRepo.calculateVacationDays(
-      validatedData.start_date,
-      validatedData.end_date
-    );
+    // One at a time, so each approval sees the balances and staffing left by the ones before it
+    const results: BulkReviewResult[] = [];
+    for (const id of new Set(validatedData.ids)) {
+      try {
+        const result = validatedData.action === 'approve'
+          ? await approve(req.user, id, validatedData.manager_notes, validatedData.override_note)
+          : await reject(req.user, id, validatedData.manager_notes);
+        results.push(
+          'error' in result
+            ? { id, success: false, error: result.error }
+            : { id, success: true, status: result.request.status, message: result.message }
+        );
+      } catch (error) {
+        results.push({ id, success: false, error: 'Internal server error' });
+      }
+    }
 
-    // Check if user has enough vacation days
-    const remainingDays = await userRepo.getRemainingVacationDays(req.user.userId);
-    if (daysNeeded > remainingDays) {
-      sendError(
-        res,
-        400,
-        `Insufficient vacation days. You need ${daysNeeded} days but only have ${remainingDays} remaining.`
-      );
+    const succeeded = results.filter((result) => result.success).length;
+    const verb = validatedData.action === 'approve' ? 'Approved' : 'Rejected';
+    sendSuccess(res, results, `${verb} ${succeeded} of ${results.length} requests`);
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
+
+/**
+ * PUT /api/requests/:id/cancel
+ * Ask to cancel an approved request that has not started yet (Employee only). Leave types that
+ * need no approval are cancelled and refunded straight away; others wait for a manager.
+ */
+export async function requestCancellation(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
       return;
     }
 
-    // Check for overlapping requests
-    const hasOverlap = await requestRepo.hasOverlappingRequests(
-      req.user.userId,
-      validatedData.start_date,
-      validatedData.end_date
-    );
-    if (hasOverlap) {
-      sendError(
-        res,
-        400,
-        'You already have a pending or approved vacation request that overlaps with these dates.'
-      );
+    const id = parseInt(req.params?.id || '', 10);
+    if (isNaN(id)) {
+      sendError(res, 400, 'Invalid request ID');
+      return;
+    }
+
+    const request = await requestRepo.findById(id);
+    if (!request) {
+      sendError(res, 404, 'Request not found');
+      return;
+    }
+
+    if (request.user_id !== req.user.userId) {
+      sendError(res, 403, 'Access denied');
+      return;
+    }
+
+    if (request.status !== 'approved') {
+      sendError(res, 400, 'Only approved requests can be cancelled');
+      return;
+    }
+
+    if (request.cancellation_requested_at) {
+      sendError(res, 400, 'Cancellation has already been requested');
+      return;
+    }
+
+    if (request.start_date <= formatDate(new Date())) {
+      sendError(res, 400, 'Leave that has already started cannot be cancelled');
+      return;
+    }
+
+    const body = await parseBody(req);
+    const { reason } = requestCancellationSchema.parse(body);
+
+    const leaveType = await leaveTypeRepo.findById(request.leave_type_id);
+    if (leaveType && !leaveType.requires_approval) {
+      await requestRepo.requestCancellation(id, reason);
+      const cancelledRequest = await requestRepo.cancel(id, req.user.userId);
+      sendSuccess(res, cancelledRequest, 'Request cancelled and days refunded');
       return;
     }
 
-    // Create request for the authenticated user
-    const request = await requestRepo.create(req.user.userId, validatedData);
+    const updatedRequest = await requestRepo.requestCancellation(id, reason);
+    if (!updatedRequest) {
+      sendError(res, 400, 'Unable to request cancellation');
+      return;
+    }
 
-    sendCreated(res, request, 'Vacation request created successfully');
+    sendSuccess(res, updatedRequest, 'Cancellation requested successfully');
   } catch (error) {
     if (error instanceof Error && 'issues' in error) {
       sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
@@ -156,10 +1240,10 @@ export async function createRequest(req: Request, res: Response): Promise<void>
 }
 
 /**
- * PUT /api/requests/:id/approve
- * Approve a vacation request (Manager only)
+ * PUT /api/requests/:id/cancel/confirm
+ * Confirm an employee's cancellation request and refund the deducted days (Manager only)
  */
-export async function approveRequest(req: Request, res: Response): Promise<void> {
+export async function confirmCancellation(req: Request, res: Response): Promise<void> {
   try {
     if (!req.user) {
       sendError(res, 401, 'Authentication required');
@@ -178,44 +1262,34 @@ export async function approveRequest(req: Request, res: Response): Promise<void>
       return;
     }
 
-    if (request.status !== 'pending') {
-      sendError(res, 400, 'Only pending requests can be approved');
+    // Cancellations are left to the line manager (or a super-admin), not their delegates
+    if ((await reviewAuthority(req.user, request))?.onBehalfOf !== null) {
+      sendError(res, 403, 'You can only review cancellations from your own reports');
       return;
     }
 
-    // Parse optional manager notes from request body
-    let managerNotes: string | undefined;
-    try {
-      const body = await parseBody(req);
-      if (body && typeof body === 'object') {
-        const validated = updateRequestStatusSchema.parse({ ...body, status: 'approved' });
-        managerNotes = validated.manager_notes;
-      }
-    } catch {
-      // No body or invalid body - that's okay, notes are optional
+    if (request.status !== 'approved' || !request.cancellation_requested_at) {
+      sendError(res, 400, 'Only approved requests with a pending cancellation can be cancelled');
+      return;
     }
 
-    // Calculate vacation days and update user's balance
-    const daysUsed = requestRepo.calculateVacationDays(request.start_date, request.end_date);
-    await userRepo.updateVacationDaysUsed(request.user_id, daysUsed);
+    const cancelledRequest = await requestRepo.cancel(id, req.user.userId);
+    if (!cancelledRequest) {
+      sendError(res, 400, 'Unable to cancel request');
+      return;
+    }
 
-    const updatedRequest = await requestRepo.updateStatus(
-      id,
-      'approved',
-      req.user.userId,
-      managerNotes
-    );
-    sendSuccess(res, updatedRequest, 'Request approved successfully');
+    sendSuccess(res, cancelledRequest, 'Request cancelled and days refunded');
   } catch (error) {
     sendError(res, 500, 'Internal server error');
   }
 }
 
 /**
- * PUT /api/requests/:id/reject
- * Reject a vacation request (Manager only)
+ * PUT /api/requests/:id/cancel/decline
+ * Decline an employee's cancellation request; the leave stays approved (Manager only)
  */
-export async function rejectRequest(req: Request, res: Response): Promise<void> {
+export async function declineCancellation(req: Request, res: Response): Promise<void> {
   try {
     if (!req.user) {
       sendError(res, 401, 'Authentication required');
@@ -234,30 +1308,19 @@ export async function rejectRequest(req: Request, res: Response): Promise<void>
       return;
     }
 
-    if (request.status !== 'pending') {
-      sendError(res, 400, 'Only pending requests can be rejected');
+    // Cancellations are left to the line manager (or a super-admin), not their delegates
+    if ((await reviewAuthority(req.user, request))?.onBehalfOf !== null) {
+      sendError(res, 403, 'You can only review cancellations from your own reports');
       return;
     }
 
-    // Parse optional manager notes from request body
-    let managerNotes: string | undefined;
-    try {
-      const body = await parseBody(req);
-      if (body && typeof body === 'object') {
-        const validated = updateRequestStatusSchema.parse({ ...body, status: 'rejected' });
-        managerNotes = validated.manager_notes;
-      }
-    } catch {
-      // No body or invalid body - that's okay, notes are optional
+    if (request.status !== 'approved' || !request.cancellation_requested_at) {
+      sendError(res, 400, 'This request has no pending cancellation');
+      return;
     }
 
-    const updatedRequest = await requestRepo.updateStatus(
-      id,
-      'rejected',
-      req.user.userId,
-      managerNotes
-    );
-    sendSuccess(res, updatedRequest, 'Request rejected successfully');
+    const updatedRequest = await requestRepo.declineCancellation(id);
+    sendSuccess(res, updatedRequest, 'Cancellation declined');
   } catch (error) {
     sendError(res, 500, 'Internal server error');
   }
@@ -265,7 +1328,7 @@ export async function rejectRequest(req: Request, res: Response): Promise<void>
 
 /**
  * DELETE /api/requests/:id
- * Delete a pending vacation request (Employee can delete their own)
+ * Delete a pending vacation request (its requester, or whoever may approve it)
  */
 export async function deleteRequest(req: Request, res: Response): Promise<void> {
   try {
@@ -286,10 +1349,14 @@ export async function deleteRequest(req: Request, res: Response): Promise<void>
       return;
     }
 
-    // Employees can only delete their own pending requests
-    if (req.user.role === 'employee' && request.user_id !== req.user.userId) {
-      sendError(res, 403, 'Access denied');
-      return;
+    // Requesters can delete their own pending requests; anyone else must be able to review the
+    // step the request is waiting on, as for approving it
+    if (request.user_id !== req.user.userId) {
+      const currentStep = (await approvalRepo.findRequestSteps(id)).find((step) => !step.approved_at);
+      if (!(await reviewAuthority(req.user, request, currentStep))) {
+        sendError(res, 403, 'Access denied');
+        return;
+      }
     }
 
     if (request.status !== 'pending') {
@@ -297,11 +1364,16 @@ export async function deleteRequest(req: Request, res: Response): Promise<void>
       return;
     }
 
+    // The approvers to tell are found from the approval steps, which go with the request
+    const notifications = await notificationService.prepare('request_deleted', request, req.user.userId);
+    const attachmentKeys = await attachmentRepo.findStorageKeys({ requestId: id });
     const deleted = await requestRepo.delete(id, req.user.role === 'employee' ? req.user.userId : undefined);
     if (!deleted) {
       sendError(res, 400, 'Unable to delete request');
       return;
     }
+    await attachmentStorage.remove(attachmentKeys);
+    await notificationService.enqueue(notifications);
 
     sendSuccess(res, null, 'Request deleted successfully');
   } catch (error) {
@@ -347,31 +1419,54 @@ export async function updateRequest(req: Request, res: Response): Promise<void>
     const body = await parseBody(req);
     const validatedData = updateVacationRequestSchema.parse(body);
 
-    // Get the final dates (use existing if not provided)
-    const finalStartDate = validatedData.start_date || request.start_date;
-    const finalEndDate = validatedData.end_date || request.end_date;
+    // Get the final dates and duration (use existing if not provided), without the period or times
+    // its type does not use, and check them as a new request's: a partial update may leave them
+    // inconsistent (an hourly request ending before it starts, a half day with no period)
+    const durationType = validatedData.duration_type || request.duration_type;
+    const finalDuration: RequestDuration = {
+      start_date: validatedData.start_date || request.start_date,
+      end_date: validatedData.end_date || request.end_date,
+      duration_type: durationType,
+      half_day_period: durationType === 'half_day' ? validatedData.half_day_period ?? request.half_day_period : null,
+      start_time: durationType === 'hours' ? validatedData.start_time ?? request.start_time : null,
+      end_time: durationType === 'hours' ? validatedData.end_time ?? request.end_time : null,
+    };
+    const durationCheck = requestDurationSchema.safeParse(finalDuration);
+    if (!durationCheck.success) {
+      sendError(res, 400, durationCheck.error.issues[0].message);
+      return;
+    }
 
-    // Calculate vacation days needed for new dates
-    const daysNeeded = requestRepo.calculateVacationDays(finalStartDate, finalEndDate);
+    // Calculate working days needed for new dates
+    const daysNeeded = await requestRepo.calculateVacationDays(req.user.userId, finalDuration);
+    if (daysNeeded === 0) {
+      sendError(res, 400, 'The selected dates do not include any working days.');
+      return;
+    }
 
-    // Check if user has enough vacation days
-    const remainingDays = await userRepo.getRemainingVacationDays(req.user.userId);
-    if (daysNeeded > remainingDays) {
-      sendError(
-        res,
-        400,
-        `Insufficient vacation days. You need ${daysNeeded} days but only have ${remainingDays} remaining.`
-      );
+    // Check if user has enough days left for the (possibly changed) leave type
+    const leaveType = await leaveTypeRepo.findById(validatedData.leave_type_id ?? request.leave_type_id);
+    if (!leaveType || !leaveType.is_active) {
+      sendError(res, 400, 'Invalid leave type');
       return;
     }
+    let balanceAfter: number | null = null;
+    if (leaveType.tracks_balance) {
+      const balance = await userRepo.getRemainingVacationDays(
+        req.user.userId,
+        leaveType.id,
+        finalDuration.start_date,
+        id
+      );
+      if (daysNeeded > balance.available) {
+        sendError(res, 400, insufficientBalanceMessage(leaveType.name, daysNeeded, balance));
+        return;
+      }
+      balanceAfter = roundDays(balance.available - daysNeeded);
+    }
 
     // Check for overlapping requests (excluding this request)
-    const hasOverlap = await requestRepo.hasOverlappingRequests(
-      req.user.userId,
-      finalStartDate,
-      finalEndDate,
-      id
-    );
+    const hasOverlap = await requestRepo.hasOverlappingRequests(req.user.userId, finalDuration, id);
     if (hasOverlap) {
       sendError(
         res,
@@ -381,13 +1476,61 @@ export async function updateRequest(req: Request, res: Response): Promise<void>
       return;
     }
 
-    const updatedRequest = await requestRepo.update(id, validatedData);
+    // Check for blackout periods that refuse leave on the new dates
+    const blackouts = await findBlackouts(req.user.userId, leaveType, finalDuration);
+    const blocking = blackouts.find((blackout) => blackout.mode === 'block');
+    if (blocking) {
+      sendError(res, 400, blackoutMessage(blocking));
+      return;
+    }
+
+    // Its days are checked again with the balance locked, like a new request's
+    let updatedRequest: VacationRequest | null;
+    try {
+      updatedRequest = await requestRepo.update(
+        id,
+        {
+          ...validatedData,
+          duration_type: finalDuration.duration_type,
+          half_day_period: finalDuration.half_day_period,
+          start_time: finalDuration.start_time,
+          end_time: finalDuration.end_time,
+        },
+        daysNeeded,
+        leaveType.tracks_balance
+      );
+    } catch (error) {
+      if (error instanceof InsufficientBalanceError) {
+        sendError(res, 400, insufficientBalanceMessage(leaveType.name, daysNeeded, error.balance));
+        return;
+      }
+      throw error;
+    }
     if (!updatedRequest) {
       sendError(res, 400, 'Unable to update request');
       return;
     }
 
-    sendSuccess(res, updatedRequest, 'Request updated successfully');
+    // A change to a leave type that needs no approval approves it straight away, like a new
+    // request, once any supporting document it needs is attached
+    if (
+      !leaveType.requires_approval &&
+      (!leaveType.requires_attachment || (await attachmentRepo.findByRequestId(id)).length > 0)
+    ) {
+      const approvedRequest = await approveWithoutReview(updatedRequest, leaveType);
+      await notificationService.notify('request_updated', approvedRequest, req.user.userId);
+      sendSuccess(res, approvedRequest, 'Request updated and approved automatically');
+      return;
+    }
+
+    // The changed request goes through the approval rules and its (possibly different) chain again
+    const submitted = await submitForApproval(updatedRequest, leaveType, balanceAfter, blackouts);
+    await notificationService.notify('request_updated', submitted.request, req.user.userId);
+    if (submitted.rule?.action === 'auto_approve') {
+      sendSuccess(res, submitted.request, `Request updated and approved automatically by the "${submitted.rule.name}" rule`);
+    } else {
+      sendSuccess(res, submitted.request, 'Request updated successfully');
+    }
   } catch (error) {
     if (error instanceof Error && 'issues' in error) {
       sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
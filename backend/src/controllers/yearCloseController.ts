@@ -0,0 +1,83 @@
+import { YearCloseRepository } from '../repositories/yearCloseRepository.js';
+import { totalYearClose } from '../utils/yearClose.js';
+import { yearCloseSchema } from '../utils/validation.js';
+import {
+  sendSuccess,
+  sendCreated,
+  sendError,
+  parseBody,
+  type Request,
+  type Response,
+} from '../utils/http.js';
+import type { YearCloseReport } from '../types/index.js';
+
+const yearCloseRepo = new YearCloseRepository();
+
+/**
+ * GET /api/year-close
+ * List closed years (Manager only)
+ */
+export async function getAllYearCloses(_req: Request, res: Response): Promise<void> {
+  try {
+    const closes = await yearCloseRepo.findAll();
+    sendSuccess(res, closes);
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * GET /api/year-close/:year
+ * Year close report: what was carried, forfeited and paid out (Manager only).
+ * For a year that is not closed yet this is a preview of what closing it would do.
+ */
+export async function getYearCloseReport(req: Request, res: Response): Promise<void> {
+  try {
+    const year = parseInt(req.params?.year || '', 10);
+    if (isNaN(year)) {
+      sendError(res, 400, 'Invalid year');
+      return;
+    }
+
+    const close = await yearCloseRepo.findByYear(year);
+    const items = close ? await yearCloseRepo.findItems(close.id) : await yearCloseRepo.preview(year);
+
+    const report: YearCloseReport = { year, close, items, totals: totalYearClose(items) };
+    sendSuccess(res, report);
+  } catch (error) {
+    sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * POST /api/year-close
+ * Close a past year: carry over, forfeit or pay out unused days (Manager only)
+ */
+export async function closeYear(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      sendError(res, 401, 'Authentication required');
+      return;
+    }
+
+    const body = await parseBody(req);
+    const { year } = yearCloseSchema.parse(body);
+
+    if (year >= new Date().getFullYear()) {
+      sendError(res, 400, 'Only past years can be closed');
+      return;
+    }
+
+    const { close, items } = await yearCloseRepo.close(year, req.user.userId);
+    const report: YearCloseReport = { year, close, items, totals: totalYearClose(items) };
+    sendCreated(res, report, `Year ${year} closed successfully`);
+  } catch (error) {
+    if (error instanceof Error && 'issues' in error) {
+      sendError(res, 400, 'Validation error: ' + JSON.stringify(error));
+    } else if (error instanceof Error && 'code' in error && error.code === '23505') {
+      sendError(res, 409, 'This year has already been closed');
+    } else {
+      sendError(res, 500, 'Internal server error');
+    }
+  }
+}
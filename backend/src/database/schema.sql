@@ -1,16 +1,64 @@
 -- Vacation Portal Database Schema
 
 -- Drop tables if they exist (for clean migrations)
+DROP TABLE IF EXISTS notification_outbox CASCADE;
+DROP TABLE IF EXISTS audit_log CASCADE;
+DROP TABLE IF EXISTS calendar_feeds CASCADE;
+DROP TABLE IF EXISTS balance_transactions CASCADE;
+DROP TABLE IF EXISTS delegations CASCADE;
+DROP TABLE IF EXISTS blackout_periods CASCADE;
+DROP TABLE IF EXISTS request_approval_steps CASCADE;
+DROP TABLE IF EXISTS request_revisions CASCADE;
+DROP TABLE IF EXISTS request_comments CASCADE;
+DROP TABLE IF EXISTS request_attachments CASCADE;
+DROP TABLE IF EXISTS approval_chain_steps CASCADE;
+DROP TABLE IF EXISTS approval_chains CASCADE;
+DROP TABLE IF EXISTS year_close_items CASCADE;
+DROP TABLE IF EXISTS year_closes CASCADE;
+DROP TABLE IF EXISTS accrual_postings CASCADE;
+DROP TABLE IF EXISTS accrual_policies CASCADE;
+DROP TABLE IF EXISTS holidays CASCADE;
 DROP TABLE IF EXISTS vacation_requests CASCADE;
+DROP TABLE IF EXISTS approval_rules CASCADE;
+DROP TABLE IF EXISTS leave_balances CASCADE;
+DROP TABLE IF EXISTS leave_types CASCADE;
 DROP TABLE IF EXISTS users CASCADE;
+DROP TABLE IF EXISTS teams CASCADE;
 DROP TYPE IF EXISTS user_role CASCADE;
 DROP TYPE IF EXISTS request_status CASCADE;
+DROP TYPE IF EXISTS request_duration CASCADE;
+DROP TYPE IF EXISTS day_period CASCADE;
+DROP TYPE IF EXISTS accrual_frequency CASCADE;
+DROP TYPE IF EXISTS balance_transaction_kind CASCADE;
+DROP TYPE IF EXISTS approver_kind CASCADE;
+DROP TYPE IF EXISTS approval_rule_action CASCADE;
+DROP TYPE IF EXISTS blackout_mode CASCADE;
+DROP TYPE IF EXISTS calendar_feed_scope CASCADE;
 
 -- Create custom types
 CREATE TYPE user_role AS ENUM ('manager', 'employee');
-CREATE TYPE request_status AS ENUM ('pending', 'approved', 'rejected');
+CREATE TYPE request_status AS ENUM ('pending', 'approved', 'rejected', 'cancelled');
+CREATE TYPE request_duration AS ENUM ('full_day', 'half_day', 'hours');
+CREATE TYPE day_period AS ENUM ('am', 'pm');
+CREATE TYPE accrual_frequency AS ENUM ('monthly', 'yearly');
+CREATE TYPE balance_transaction_kind AS ENUM ('allowance', 'accrual', 'carry_over', 'deduction', 'refund', 'adjustment');
+CREATE TYPE approver_kind AS ENUM ('line_manager', 'user');
+CREATE TYPE approval_rule_action AS ENUM ('auto_approve', 'route');
+CREATE TYPE blackout_mode AS ENUM ('block', 'extra_approval');
+CREATE TYPE calendar_feed_scope AS ENUM ('user', 'team');
 
--- Users table
+-- Teams table (departments employees belong to; min_staffing is how many members must be at work
+-- on any working day for leave to be approved without an override)
+CREATE TABLE teams (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) UNIQUE NOT NULL,
+    min_staffing INTEGER CHECK (min_staffing >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Users table (manager_id is the manager who approves the user's requests; super-admins
+-- can review everyone's requests)
 CREATE TABLE users (
     id SERIAL PRIMARY KEY,
     name VARCHAR(255) NOT NULL,
@@ -18,36 +66,363 @@ CREATE TABLE users (
     employee_code VARCHAR(7) UNIQUE NOT NULL,
     password_hash VARCHAR(255) NOT NULL,
     role user_role NOT NULL DEFAULT 'employee',
-    vacation_days_total INTEGER NOT NULL DEFAULT 20,
-    vacation_days_used INTEGER NOT NULL DEFAULT 0,
+    country_code VARCHAR(2) NOT NULL DEFAULT 'GR',
+    region VARCHAR(100),
+    hire_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    team_id INTEGER REFERENCES teams(id) ON DELETE SET NULL,
+    manager_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    is_super_admin BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Leave types table (annual, sick, unpaid, ...)
+CREATE TABLE leave_types (
+    id SERIAL PRIMARY KEY,
+    code VARCHAR(50) UNIQUE NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    is_paid BOOLEAN NOT NULL DEFAULT TRUE,
+    tracks_balance BOOLEAN NOT NULL DEFAULT TRUE,
+    requires_approval BOOLEAN NOT NULL DEFAULT TRUE,
+    requires_attachment BOOLEAN NOT NULL DEFAULT FALSE,
+    default_days NUMERIC(6, 2) NOT NULL DEFAULT 0,
+    carry_over_max NUMERIC(6, 2) NOT NULL DEFAULT 0,
+    carry_over_expiry_months INTEGER,
+    payout_unused BOOLEAN NOT NULL DEFAULT FALSE,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT valid_carry_over CHECK (carry_over_max >= 0 AND (carry_over_expiry_months IS NULL OR carry_over_expiry_months BETWEEN 1 AND 12))
+);
+
+-- Approval rules, checked in priority order when a request is submitted: the first active rule whose
+-- conditions all hold (NULL = no condition) approves the request straight away or routes it to one manager
+CREATE TABLE approval_rules (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    priority INTEGER NOT NULL DEFAULT 100,
+    action approval_rule_action NOT NULL,
+    route_to_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    leave_type_id INTEGER REFERENCES leave_types(id) ON DELETE CASCADE,
+    max_days NUMERIC(5, 2) CHECK (max_days > 0),
+    min_notice_days INTEGER CHECK (min_notice_days >= 0),
+    min_balance_after NUMERIC(6, 2),
+    max_team_absent INTEGER CHECK (max_team_absent >= 0),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-    CONSTRAINT valid_vacation_days CHECK (vacation_days_used >= 0 AND vacation_days_used <= vacation_days_total)
+    CONSTRAINT valid_route CHECK ((action = 'route') = (route_to_id IS NOT NULL))
 );
 
--- Vacation requests table
+-- Vacation requests table (applied_rule_name keeps the name of the rule that fired, should it be deleted)
 CREATE TABLE vacation_requests (
     id SERIAL PRIMARY KEY,
     user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    leave_type_id INTEGER NOT NULL REFERENCES leave_types(id),
     start_date DATE NOT NULL,
     end_date DATE NOT NULL,
+    duration_type request_duration NOT NULL DEFAULT 'full_day',
+    half_day_period day_period,
+    start_time TIME,
+    end_time TIME,
+    days_requested NUMERIC(6, 2) NOT NULL DEFAULT 0,
     reason TEXT,
     status request_status NOT NULL DEFAULT 'pending',
     manager_notes TEXT,
     approved_by INTEGER REFERENCES users(id),
+    approved_on_behalf_of INTEGER REFERENCES users(id) ON DELETE SET NULL,
     approved_at TIMESTAMP WITH TIME ZONE,
+    staffing_override_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    staffing_override_note TEXT,
+    applied_rule_id INTEGER REFERENCES approval_rules(id) ON DELETE SET NULL,
+    applied_rule_name VARCHAR(255),
+    cancellation_requested_at TIMESTAMP WITH TIME ZONE,
+    cancellation_reason TEXT,
+    cancelled_by INTEGER REFERENCES users(id),
+    cancelled_at TIMESTAMP WITH TIME ZONE,
     submitted_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-    CONSTRAINT valid_date_range CHECK (end_date >= start_date)
+    CONSTRAINT valid_date_range CHECK (end_date >= start_date),
+    CONSTRAINT valid_partial_day CHECK (
+        duration_type = 'full_day'
+        OR (start_date = end_date AND (
+            (duration_type = 'half_day' AND half_day_period IS NOT NULL)
+            OR (duration_type = 'hours' AND start_time IS NOT NULL AND end_time > start_time)
+        ))
+    )
+);
+
+-- Revisions of each request: what was submitted (revision 1) and every edit after it, so reviewers
+-- can see how a pending request changed
+CREATE TABLE request_revisions (
+    id SERIAL PRIMARY KEY,
+    request_id INTEGER NOT NULL REFERENCES vacation_requests(id) ON DELETE CASCADE,
+    revision INTEGER NOT NULL CHECK (revision > 0),
+    leave_type_id INTEGER NOT NULL REFERENCES leave_types(id),
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    duration_type request_duration NOT NULL,
+    half_day_period day_period,
+    start_time TIME,
+    end_time TIME,
+    days_requested NUMERIC(6, 2) NOT NULL,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (request_id, revision)
+);
+
+-- Comment threads on requests between the employee and the managers reviewing them
+CREATE TABLE request_comments (
+    id SERIAL PRIMARY KEY,
+    request_id INTEGER NOT NULL REFERENCES vacation_requests(id) ON DELETE CASCADE,
+    author_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    body TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Supporting documents attached to requests; the files are on disk under storage_key
+CREATE TABLE request_attachments (
+    id SERIAL PRIMARY KEY,
+    request_id INTEGER NOT NULL REFERENCES vacation_requests(id) ON DELETE CASCADE,
+    uploaded_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    file_name VARCHAR(255) NOT NULL,
+    content_type VARCHAR(100) NOT NULL,
+    size_bytes INTEGER NOT NULL CHECK (size_bytes >= 0),
+    storage_key VARCHAR(64) NOT NULL UNIQUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Approval chains: the sign-offs a request needs, by leave type (NULL = any) and length. A request
+-- follows the most specific active chain it matches, or just its line manager if none does.
+CREATE TABLE approval_chains (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    leave_type_id INTEGER REFERENCES leave_types(id) ON DELETE CASCADE,
+    min_days NUMERIC(5, 2) NOT NULL DEFAULT 0 CHECK (min_days >= 0),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Steps of an approval chain, in order (approver_id is the manager for 'user' steps)
+CREATE TABLE approval_chain_steps (
+    id SERIAL PRIMARY KEY,
+    chain_id INTEGER NOT NULL REFERENCES approval_chains(id) ON DELETE CASCADE,
+    step_order INTEGER NOT NULL CHECK (step_order > 0),
+    approver_kind approver_kind NOT NULL,
+    approver_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    UNIQUE (chain_id, step_order),
+    CONSTRAINT valid_approver CHECK ((approver_kind = 'user') = (approver_id IS NOT NULL))
+);
+
+-- Approval steps of each request, copied from its chain when it is submitted, with their sign-offs
+CREATE TABLE request_approval_steps (
+    id SERIAL PRIMARY KEY,
+    request_id INTEGER NOT NULL REFERENCES vacation_requests(id) ON DELETE CASCADE,
+    step_order INTEGER NOT NULL CHECK (step_order > 0),
+    approver_kind approver_kind NOT NULL,
+    approver_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    approved_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    on_behalf_of INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    approved_at TIMESTAMP WITH TIME ZONE,
+    notes TEXT,
+    UNIQUE (request_id, step_order)
+);
+
+-- Approval delegations: while a manager is away, the delegate reviews the requests waiting on them
+CREATE TABLE delegations (
+    id SERIAL PRIMARY KEY,
+    delegator_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    delegate_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    starts_on DATE NOT NULL,
+    ends_on DATE NOT NULL,
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT valid_delegation_range CHECK (ends_on >= starts_on),
+    CONSTRAINT no_self_delegation CHECK (delegator_id <> delegate_id)
+);
+
+-- Blackout periods (team NULL = company-wide): leave needing approval is either refused or needs an
+-- extra sign-off by approver_id (any super-admin when NULL) if it overlaps one
+CREATE TABLE blackout_periods (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    team_id INTEGER REFERENCES teams(id) ON DELETE CASCADE,
+    starts_on DATE NOT NULL,
+    ends_on DATE NOT NULL,
+    mode blackout_mode NOT NULL DEFAULT 'block',
+    approver_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT valid_blackout_range CHECK (ends_on >= starts_on)
+);
+
+-- iCalendar feeds of approved leave (the owner's own, or a team's) behind a secret token;
+-- rotating the token or deleting the feed revokes the old URL
+CREATE TABLE calendar_feeds (
+    id SERIAL PRIMARY KEY,
+    owner_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    scope calendar_feed_scope NOT NULL,
+    team_id INTEGER REFERENCES teams(id) ON DELETE CASCADE,
+    token VARCHAR(64) NOT NULL UNIQUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    rotated_at TIMESTAMP WITH TIME ZONE,
+    CONSTRAINT valid_feed_team CHECK ((scope = 'team') = (team_id IS NOT NULL))
+);
+
+-- Public holidays table (region NULL = applies to the whole country)
+CREATE TABLE holidays (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    holiday_date DATE NOT NULL,
+    country_code VARCHAR(2) NOT NULL,
+    region VARCHAR(100),
+    is_recurring BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Accrual policies table (grants days_per_period of a leave type every month or year)
+CREATE TABLE accrual_policies (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    leave_type_id INTEGER NOT NULL REFERENCES leave_types(id) ON DELETE CASCADE,
+    frequency accrual_frequency NOT NULL,
+    days_per_period NUMERIC(6, 2) NOT NULL,
+    starts_on DATE NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT valid_days_per_period CHECK (days_per_period > 0)
+);
+
+-- Accrual postings table (one row per policy, user and period; makes accrual runs idempotent)
+CREATE TABLE accrual_postings (
+    id SERIAL PRIMARY KEY,
+    policy_id INTEGER NOT NULL REFERENCES accrual_policies(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    leave_type_id INTEGER NOT NULL REFERENCES leave_types(id) ON DELETE CASCADE,
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    days NUMERIC(6, 2) NOT NULL,
+    posted_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT unique_accrual_period UNIQUE (policy_id, user_id, period_start)
+);
+
+-- Year closes table (one row per closed year)
+CREATE TABLE year_closes (
+    id SERIAL PRIMARY KEY,
+    year INTEGER UNIQUE NOT NULL,
+    closed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    closed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Year close report lines: what happened to each balance's unused days
+CREATE TABLE year_close_items (
+    id SERIAL PRIMARY KEY,
+    year_close_id INTEGER NOT NULL REFERENCES year_closes(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    leave_type_id INTEGER NOT NULL REFERENCES leave_types(id) ON DELETE CASCADE,
+    days_unused NUMERIC(6, 2) NOT NULL,
+    days_carried NUMERIC(6, 2) NOT NULL,
+    days_forfeited NUMERIC(6, 2) NOT NULL,
+    days_paid_out NUMERIC(6, 2) NOT NULL,
+    carry_expires_on DATE
+);
+
+-- Balance ledger (append-only). Every change to a user's balance of a leave type in a year is a
+-- signed entry; carried_days is the part of an entry that comes from or goes to the days carried
+-- over from the previous year, which are used before the year's own entitlement.
+CREATE TABLE balance_transactions (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    leave_type_id INTEGER NOT NULL REFERENCES leave_types(id) ON DELETE CASCADE,
+    year INTEGER NOT NULL,
+    kind balance_transaction_kind NOT NULL,
+    days NUMERIC(6, 2) NOT NULL,
+    carried_days NUMERIC(6, 2) NOT NULL DEFAULT 0,
+    expires_on DATE,
+    request_id INTEGER REFERENCES vacation_requests(id) ON DELETE SET NULL,
+    note TEXT,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Audit log (append-only): who changed what and when, with the entity as it was before and after.
+-- Actors, subjects (the user whose data it is) and entities are plain IDs, with the actor's name
+-- copied, so entries outlive what they refer to.
+CREATE TABLE audit_log (
+    id BIGSERIAL PRIMARY KEY,
+    actor_id INTEGER,
+    actor_name VARCHAR(255),
+    action VARCHAR(50) NOT NULL,
+    entity_type VARCHAR(30) NOT NULL,
+    entity_id INTEGER,
+    subject_id INTEGER,
+    before JSONB,
+    after JSONB,
+    metadata JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Notification emails, written as the event happens and sent by the notification job. A failed
+-- send is tried again later (next_attempt_at) until it goes through or runs out of attempts. The
+-- request is a plain ID so withdrawal notices outlive it.
+CREATE TABLE notification_outbox (
+    id BIGSERIAL PRIMARY KEY,
+    event VARCHAR(30) NOT NULL,
+    request_id INTEGER,
+    recipient_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    recipient_name VARCHAR(255) NOT NULL,
+    recipient_email VARCHAR(255) NOT NULL,
+    subject TEXT NOT NULL,
+    body TEXT NOT NULL,
+    status VARCHAR(10) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Leave balances, derived from the ledger (one row per user, leave type and year)
+CREATE VIEW leave_balances AS
+SELECT user_id, leave_type_id, year,
+       COALESCE(SUM(days) FILTER (WHERE kind IN ('allowance', 'accrual', 'adjustment')), 0) as days_total,
+       COALESCE(-SUM(days - carried_days) FILTER (WHERE kind IN ('deduction', 'refund')), 0) as days_used,
+       COALESCE(SUM(carried_days) FILTER (WHERE kind = 'carry_over'), 0) as days_carried,
+       COALESCE(-SUM(carried_days) FILTER (WHERE kind IN ('deduction', 'refund')), 0) as carried_used,
+       MAX(expires_on) FILTER (WHERE kind = 'carry_over') as carry_expires_on
+FROM balance_transactions
+GROUP BY user_id, leave_type_id, year;
+
 -- Indexes for performance
 CREATE INDEX idx_users_email ON users(email);
 CREATE INDEX idx_users_employee_code ON users(employee_code);
 CREATE INDEX idx_users_role ON users(role);
+CREATE INDEX idx_users_team_id ON users(team_id);
+CREATE INDEX idx_users_manager_id ON users(manager_id);
 CREATE INDEX idx_vacation_requests_user_id ON vacation_requests(user_id);
 CREATE INDEX idx_vacation_requests_status ON vacation_requests(status);
+CREATE INDEX idx_vacation_requests_leave_type_id ON vacation_requests(leave_type_id);
 CREATE INDEX idx_vacation_requests_dates ON vacation_requests(start_date, end_date);
+CREATE INDEX idx_accrual_postings_user_id ON accrual_postings(user_id);
+CREATE INDEX idx_year_close_items_close_id ON year_close_items(year_close_id);
+CREATE INDEX idx_balance_transactions_balance ON balance_transactions(user_id, leave_type_id, year);
+CREATE UNIQUE INDEX idx_balance_transactions_opening ON balance_transactions(user_id, leave_type_id, year, kind)
+    WHERE kind IN ('allowance', 'carry_over');
+CREATE INDEX idx_request_comments_request_id ON request_comments(request_id);
+CREATE INDEX idx_request_attachments_request_id ON request_attachments(request_id);
+CREATE INDEX idx_request_approval_steps_approver_id ON request_approval_steps(approver_id);
+CREATE INDEX idx_blackout_periods_dates ON blackout_periods(starts_on, ends_on);
+CREATE INDEX idx_delegations_delegate_id ON delegations(delegate_id, starts_on, ends_on);
+CREATE UNIQUE INDEX idx_calendar_feeds_owner ON calendar_feeds(owner_id, scope, COALESCE(team_id, 0));
+CREATE INDEX idx_audit_log_entity ON audit_log(entity_type, entity_id);
+CREATE INDEX idx_audit_log_actor_id ON audit_log(actor_id);
+CREATE INDEX idx_audit_log_subject_id ON audit_log(subject_id);
+CREATE INDEX idx_audit_log_created_at ON audit_log(created_at);
+CREATE INDEX idx_notification_outbox_due ON notification_outbox(next_attempt_at) WHERE status = 'pending';
+CREATE UNIQUE INDEX idx_holidays_unique_date ON holidays(country_code, COALESCE(region, ''), holiday_date);
 
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -58,9 +433,72 @@ BEGIN
 END;
 $$ language 'plpgsql';
 
+-- The balance ledger is append-only: corrections are new entries. Only references to deleted
+-- users and requests may be cleared.
+CREATE OR REPLACE FUNCTION prevent_ledger_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (NEW.user_id, NEW.leave_type_id, NEW.year, NEW.kind, NEW.days, NEW.carried_days, NEW.expires_on)
+        IS DISTINCT FROM (OLD.user_id, OLD.leave_type_id, OLD.year, OLD.kind, OLD.days, OLD.carried_days, OLD.expires_on) THEN
+        RAISE EXCEPTION 'balance_transactions is append-only';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER prevent_balance_transactions_update BEFORE UPDATE ON balance_transactions
+    FOR EACH ROW EXECUTE FUNCTION prevent_ledger_update();
+
+-- The audit log is append-only: entries can be neither changed nor removed
+CREATE OR REPLACE FUNCTION prevent_audit_log_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER prevent_audit_log_change BEFORE UPDATE OR DELETE ON audit_log
+    FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_change();
+
 -- Triggers for updated_at
 CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_teams_updated_at BEFORE UPDATE ON teams
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_vacation_requests_updated_at BEFORE UPDATE ON vacation_requests
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_holidays_updated_at BEFORE UPDATE ON holidays
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_leave_types_updated_at BEFORE UPDATE ON leave_types
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_accrual_policies_updated_at BEFORE UPDATE ON accrual_policies
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_blackout_periods_updated_at BEFORE UPDATE ON blackout_periods
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_approval_rules_updated_at BEFORE UPDATE ON approval_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_approval_chains_updated_at BEFORE UPDATE ON approval_chains
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Default leave types (annual leave starts at 0 and is granted by the accrual policy below;
+-- up to 5 unused annual days carry over and expire at the end of March)
+INSERT INTO leave_types (code, name, is_paid, tracks_balance, requires_approval, requires_attachment, default_days, carry_over_max, carry_over_expiry_months) VALUES
+    ('annual', 'Annual Leave', TRUE, TRUE, TRUE, FALSE, 0, 5, 3),
+    ('sick', 'Sick Leave', TRUE, TRUE, TRUE, TRUE, 10, 0, NULL),
+    ('unpaid', 'Unpaid Leave', FALSE, FALSE, TRUE, FALSE, 0, 0, NULL),
+    ('parental', 'Parental Leave', TRUE, TRUE, TRUE, TRUE, 20, 0, NULL),
+    ('bereavement', 'Bereavement Leave', TRUE, TRUE, FALSE, FALSE, 5, 0, NULL),
+    ('training', 'Training', TRUE, TRUE, TRUE, TRUE, 5, 0, NULL);
+
+-- Default accrual policy: 20 annual leave days per year, pro-rated from the hire date
+INSERT INTO accrual_policies (name, leave_type_id, frequency, days_per_period, starts_on)
+SELECT 'Annual leave allowance', id, 'yearly', 20, DATE_TRUNC('year', CURRENT_DATE)::DATE
+FROM leave_types WHERE code = 'annual';
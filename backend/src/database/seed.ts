@@ -1,8 +1,19 @@
 import bcrypt from 'bcrypt';
 import { pool, closePool } from '../config/database.js';
+import { ApprovalChainRepository } from '../repositories/approvalChainRepository.js';
+import { ApprovalRuleRepository } from '../repositories/approvalRuleRepository.js';
+import { HolidayRepository } from '../repositories/holidayRepository.js';
+import { UserRepository } from '../repositories/userRepository.js';
+import { AccrualService } from '../services/accrualService.js';
+import { countWorkingDays } from '../utils/workingDays.js';
 
 const SALT_ROUNDS = 10;
 
+const holidayRepo = new HolidayRepository();
+const userRepo = new UserRepository();
+const approvalRepo = new ApprovalChainRepository();
+const ruleRepo = new ApprovalRuleRepository();
+
 async function seedDatabase() {
   console.log('🌱 Seeding database...');
   
@@ -11,33 +22,107 @@ async function seedDatabase() {
     const defaultPassword = 'password123';
     const passwordHash = await bcrypt.hash(defaultPassword, SALT_ROUNDS);
     
-    // Insert manager account
-    await pool.query(
-      `INSERT INTO users (name, email, employee_code, password_hash, role) 
-       VALUES ($1, $2, $3, $4, $5)
-       ON CONFLICT (email) DO NOTHING`,
-      ['John Manager', 'manager@company.com', '1000001', passwordHash, 'manager']
-    );
-    console.log('✓ Manager account created');
+    // Insert teams with how many members must stay at work (Sales always keeps two)
+    const teams: Array<[string, number | null]> = [
+      ['Engineering', null],
+      ['Sales', 2],
+    ];
+    for (const [team, minStaffing] of teams) {
+      await pool.query(
+        'INSERT INTO teams (name, min_staffing) VALUES ($1, $2) ON CONFLICT (name) DO NOTHING',
+        [team, minStaffing]
+      );
+    }
+    console.log('✓ Teams created');
+
+    // Insert manager accounts: John oversees everyone, Maria approves for the Sales team
+    const managerAccounts: Array<[string, string, string, string, string, boolean]> = [
+      ['John Manager', 'manager@company.com', '1000001', '2018-03-01', 'Engineering', true],
+      ['Maria Lead', 'maria.lead@company.com', '1000002', '2019-01-14', 'Sales', false],
+    ];
+
+    for (const [name, email, employeeCode, hireDate, team, isSuperAdmin] of managerAccounts) {
+      await pool.query(
+        `INSERT INTO users (name, email, employee_code, password_hash, role, hire_date, team_id, is_super_admin) 
+         VALUES ($1, $2, $3, $4, $5, $6, (SELECT id FROM teams WHERE name = $7), $8)
+         ON CONFLICT (email) DO NOTHING`,
+        [name, email, employeeCode, passwordHash, 'manager', hireDate, team, isSuperAdmin]
+      );
+    }
+    console.log('✓ Manager accounts created');
     
-    // Insert employee accounts
+    // Insert employee accounts with their team and the manager they report to
     const employees = [
-      ['Alice Smith', 'alice.smith@company.com', '2000001'],
-      ['Bob Johnson', 'bob.johnson@company.com', '2000002'],
-      ['Carol Williams', 'carol.williams@company.com', '2000003'],
-      ['David Brown', 'david.brown@company.com', '2000004'],
+      ['Alice Smith', 'alice.smith@company.com', '2000001', '2019-09-02', 'Engineering', 'manager@company.com'],
+      ['Bob Johnson', 'bob.johnson@company.com', '2000002', '2021-04-12', 'Engineering', 'manager@company.com'],
+      ['Carol Williams', 'carol.williams@company.com', '2000003', '2022-11-07', 'Sales', 'maria.lead@company.com'],
+      ['David Brown', 'david.brown@company.com', '2000004', '2023-06-19', 'Sales', 'maria.lead@company.com'],
     ];
     
-    for (const [name, email, employeeCode] of employees) {
+    for (const [name, email, employeeCode, hireDate, team, managerEmail] of employees) {
       await pool.query(
-        `INSERT INTO users (name, email, employee_code, password_hash, role) 
-         VALUES ($1, $2, $3, $4, $5)
+        `INSERT INTO users (name, email, employee_code, password_hash, role, hire_date, team_id, manager_id) 
+         VALUES ($1, $2, $3, $4, $5, $6,
+                 (SELECT id FROM teams WHERE name = $7), (SELECT id FROM users WHERE email = $8))
          ON CONFLICT (email) DO NOTHING`,
-        [name, email, employeeCode, passwordHash, 'employee']
+        [name, email, employeeCode, passwordHash, 'employee', hireDate, team, managerEmail]
       );
     }
     console.log('✓ Employee accounts created');
+
+    // Open this year's balance for every balance-tracked leave type
+    await userRepo.openBalances(new Date().getFullYear());
+    console.log('✓ Leave balances opened');
+
+    // Post the accruals due so far (e.g. this year's annual leave allowance)
+    const accruals = await new AccrualService().run();
+    console.log(`✓ ${accruals.entries.length} leave accruals posted`);
     
+    // Insert Greek public holidays (recurring ones repeat every year)
+    const holidays: Array<[string, string, boolean]> = [
+      ['New Year\'s Day', '2025-01-01', true],
+      ['Epiphany', '2025-01-06', true],
+      ['Clean Monday', '2025-03-03', false],
+      ['Independence Day', '2025-03-25', true],
+      ['Good Friday', '2025-04-18', false],
+      ['Easter Monday', '2025-04-21', false],
+      ['Labour Day', '2025-05-01', true],
+      ['Whit Monday', '2025-06-09', false],
+      ['Assumption Day', '2025-08-15', true],
+      ['Ochi Day', '2025-10-28', true],
+      ['Christmas Day', '2025-12-25', true],
+      ['Boxing Day', '2025-12-26', true],
+    ];
+
+    for (const [name, holidayDate, isRecurring] of holidays) {
+      await pool.query(
+        `INSERT INTO holidays (name, holiday_date, country_code, is_recurring)
+         VALUES ($1, $2, 'GR', $3)
+         ON CONFLICT DO NOTHING`,
+        [name, holidayDate, isRecurring]
+      );
+    }
+    console.log('✓ Public holidays created');
+
+    // No leave during this year's quarter-end closes; Sales may take leave in the last days of
+    // the year with John's sign-off
+    const year = new Date().getFullYear();
+    const blackouts: Array<[string, string | null, string, string, 'block' | 'extra_approval', string | null]> = [
+      ['Q1 close', null, `${year}-03-27`, `${year}-03-31`, 'block', null],
+      ['Q2 close', null, `${year}-06-26`, `${year}-06-30`, 'block', null],
+      ['Q3 close', null, `${year}-09-25`, `${year}-09-30`, 'block', null],
+      ['Year-end close', 'Sales', `${year}-12-28`, `${year}-12-31`, 'extra_approval', 'manager@company.com'],
+    ];
+
+    for (const [name, team, startsOn, endsOn, mode, approverEmail] of blackouts) {
+      await pool.query(
+        `INSERT INTO blackout_periods (name, team_id, starts_on, ends_on, mode, approver_id)
+         VALUES ($1, (SELECT id FROM teams WHERE name = $2), $3, $4, $5, (SELECT id FROM users WHERE email = $6))`,
+        [name, team, startsOn, endsOn, mode, approverEmail]
+      );
+    }
+    console.log('✓ Blackout periods created');
+
     // Get user IDs for creating vacation requests
     const { rows: users } = await pool.query(
       'SELECT id, email FROM users WHERE role = $1 ORDER BY id',
@@ -47,43 +132,84 @@ async function seedDatabase() {
     if (users.length >= 4) {
       // Get manager ID for approval tracking
       const { rows: managers } = await pool.query(
-        'SELECT id FROM users WHERE role = $1 LIMIT 1',
+        'SELECT id FROM users WHERE role = $1 AND is_super_admin LIMIT 1',
         ['manager']
       );
       const managerId = managers[0]?.id;
 
+      const { rows: leaveTypes } = await pool.query<{ id: number; code: string }>(
+        'SELECT id, code FROM leave_types'
+      );
+      const leaveTypeIds = Object.fromEntries(leaveTypes.map((type) => [type.code, type.id]));
+
+      // Annual leave of 10 days or more is signed off by the line manager, then by John
+      await approvalRepo.create({
+        name: 'Long annual leave',
+        leave_type_id: leaveTypeIds.annual,
+        min_days: 10,
+        is_active: true,
+        steps: [
+          { approver_kind: 'line_manager' },
+          { approver_kind: 'user', approver_id: managerId },
+        ],
+      });
+      console.log('✓ Approval chains created');
+
+      // A single day of annual leave booked two weeks ahead, with the team covered, needs no sign-off
+      await ruleRepo.create({
+        name: 'Short leave booked ahead',
+        priority: 10,
+        action: 'auto_approve',
+        route_to_id: null,
+        leave_type_id: leaveTypeIds.annual,
+        max_days: 1,
+        min_notice_days: 14,
+        min_balance_after: 0,
+        max_team_absent: 0,
+        is_active: true,
+      });
+      console.log('✓ Approval rules created');
+
       // Insert sample vacation requests with manager notes for processed ones
       const requests = [
-        [users[0].id, '2024-12-20', '2024-12-27', 'Christmas holiday', 'approved', 'Enjoy your holidays!', managerId],
-        [users[0].id, '2025-01-15', '2025-01-19', 'Personal time off', 'pending', null, null],
-        [users[1].id, '2024-11-10', '2024-11-15', 'Family vacation', 'approved', 'Have a great trip!', managerId],
-        [users[1].id, '2025-02-01', '2025-02-07', 'Winter break', 'pending', null, null],
-        [users[2].id, '2024-12-01', '2024-12-05', 'Medical appointment', 'rejected', 'Please reschedule - we need full coverage this week.', managerId],
-        [users[2].id, '2025-03-10', '2025-03-14', 'Spring vacation', 'pending', null, null],
-        [users[3].id, '2025-01-20', '2025-01-25', 'Conference attendance', 'approved', 'Approved for professional development.', managerId],
+        [users[0].id, 'annual', '2024-12-20', '2024-12-27', 'Christmas holiday', 'approved', 'Enjoy your holidays!', managerId],
+        [users[0].id, 'annual', '2025-01-15', '2025-01-19', 'Personal time off', 'pending', null, null],
+        [users[1].id, 'annual', '2024-11-10', '2024-11-15', 'Family vacation', 'approved', 'Have a great trip!', managerId],
+        [users[1].id, 'annual', '2025-02-01', '2025-02-07', 'Winter break', 'pending', null, null],
+        [users[2].id, 'sick', '2024-12-01', '2024-12-05', 'Medical appointment', 'rejected', 'Please reschedule - we need full coverage this week.', managerId],
+        [users[2].id, 'annual', '2025-03-10', '2025-03-14', 'Spring vacation', 'pending', null, null],
+        [users[3].id, 'training', '2025-01-20', '2025-01-25', 'Conference attendance', 'approved', 'Approved for professional development.', managerId],
       ];
       
-      for (const [userId, startDate, endDate, reason, status, managerNotes, approvedBy] of requests) {
-        await pool.query(
-          `INSERT INTO vacation_requests (user_id, start_date, end_date, reason, status, manager_notes, approved_by, approved_at) 
-           VALUES ($1, $2, $3, $4, $5, $6, $7, ${status !== 'pending' ? 'CURRENT_TIMESTAMP' : 'NULL'})`,
-          [userId, startDate, endDate, reason, status, managerNotes, approvedBy]
+      for (const [userId, leaveTypeCode, startDate, endDate, reason, status, managerNotes, approvedBy] of requests) {
+        const holidays = await holidayRepo.findDatesForUser(
+          userId as number,
+          startDate as string,
+          endDate as string
+        );
+        const daysRequested = countWorkingDays(startDate as string, endDate as string, holidays);
+        const { rows: [request] } = await pool.query<{ id: number }>(
+          `INSERT INTO vacation_requests (user_id, leave_type_id, start_date, end_date, days_requested, reason, status, manager_notes, approved_by, approved_at) 
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, ${status !== 'pending' ? 'CURRENT_TIMESTAMP' : 'NULL'})
+           RETURNING id`,
+          [userId, leaveTypeIds[leaveTypeCode as string], startDate, endDate, daysRequested, reason, status, managerNotes, approvedBy]
         );
+        if (status === 'pending') {
+          await approvalRepo.assignToRequest(request.id);
+        }
       }
       console.log('✓ Sample vacation requests created');
 
-      // Update vacation_days_used for employees with approved requests
+      // Deduct approved requests from the balances of the years they fall in
       await pool.query(`
-        UPDATE users u
-        SET vacation_days_used = COALESCE((
-          SELECT SUM(
-            EXTRACT(DAY FROM (vr.end_date - vr.start_date)) + 1
-          )
-          FROM vacation_requests vr
-          WHERE vr.user_id = u.id 
-          AND vr.status = 'approved'
-        ), 0)
-        WHERE u.role = 'employee'
+        INSERT INTO balance_transactions (user_id, leave_type_id, year, kind, days, request_id, created_by)
+        SELECT vr.user_id, vr.leave_type_id, lb.year, 'deduction', -vr.days_requested, vr.id, vr.approved_by
+        FROM vacation_requests vr
+        JOIN leave_balances lb ON lb.user_id = vr.user_id
+          AND lb.leave_type_id = vr.leave_type_id
+          AND lb.year = EXTRACT(YEAR FROM vr.start_date)
+        WHERE vr.status = 'approved'
+        ORDER BY vr.start_date
       `);
       console.log('✓ Vacation balances calculated');
     }
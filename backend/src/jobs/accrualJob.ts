@@ -0,0 +1,49 @@
+import { config } from '../config/env.js';
+import { AccrualService } from '../services/accrualService.js';
+import { UserRepository } from '../repositories/userRepository.js';
+
+const accrualService = new AccrualService();
+const userRepo = new UserRepository();
+
+let running = false;
+
+/**
+ * Open this year's balances and post due accruals, skipping the tick if the previous run is
+ * still in progress
+ */
+async function runAccruals(): Promise<void> {
+  if (running) {
+    return;
+  }
+  running = true;
+
+  try {
+    await userRepo.openBalances(new Date().getFullYear());
+    const summary = await accrualService.run();
+    if (summary.entries.length > 0) {
+      console.log(
+        `✓ Accrual job posted ${summary.entries.length} accruals (${summary.total_days} days) as of ${summary.as_of}`
+      );
+    }
+  } catch (error) {
+    console.error('✗ Accrual job failed:', error);
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Run the accrual job now and then every ACCRUAL_JOB_INTERVAL_MINUTES.
+ * Returns a function that stops the schedule (null when the job is disabled).
+ */
+export function startAccrualJob(): (() => void) | null {
+  const intervalMinutes = config.accrual.jobIntervalMinutes;
+  if (intervalMinutes <= 0) {
+    return null;
+  }
+
+  void runAccruals();
+  const timer = setInterval(runAccruals, intervalMinutes * 60 * 1000);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,49 @@
+import { config } from '../config/env.js';
+import { NotificationService } from '../services/notificationService.js';
+
+const notificationService = new NotificationService();
+
+let running = false;
+
+/**
+ * Send the notification emails that are due, skipping the tick if the previous run is still
+ * sending
+ */
+async function deliverNotifications(): Promise<void> {
+  if (running) {
+    return;
+  }
+  running = true;
+
+  try {
+    const summary = await notificationService.deliver();
+    if (summary.retrying > 0 || summary.failed > 0) {
+      console.error(
+        `✗ Notification job sent ${summary.sent} emails; ${summary.retrying} will be retried, ${summary.failed} gave up`
+      );
+    } else if (summary.sent > 0) {
+      console.log(`✓ Notification job sent ${summary.sent} emails`);
+    }
+  } catch (error) {
+    console.error('✗ Notification job failed:', error);
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Deliver the notification outbox now and then every NOTIFICATION_JOB_INTERVAL_SECONDS.
+ * Returns a function that stops the schedule (null when the job is disabled and emails stay
+ * queued).
+ */
+export function startNotificationJob(): (() => void) | null {
+  const intervalSeconds = config.notifications.jobIntervalSeconds;
+  if (intervalSeconds <= 0) {
+    return null;
+  }
+
+  void deliverNotifications();
+  const timer = setInterval(deliverNotifications, intervalSeconds * 1000);
+  timer.unref();
+  return () => clearInterval(timer);
+}
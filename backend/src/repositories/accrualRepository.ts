@@ -0,0 +1,203 @@
+import { pool } from '../config/database.js';
+import type {
+  AccrualEntry,
+  AccrualPolicy,
+  AccrualPolicyWithLeaveType,
+  AccrualPosting,
+} from '../types/index.js';
+import type { CreateAccrualPolicyInput, UpdateAccrualPolicyInput } from '../utils/validation.js';
+
+const POLICY_COLUMNS = `
+  ap.id, ap.name, ap.leave_type_id, ap.frequency, ap.days_per_period, ap.starts_on,
+  ap.is_active, ap.created_at, ap.updated_at,
+  lt.name as leave_type_name
+`;
+
+const POSTING_COLUMNS = `
+  p.id, p.policy_id, ap.name as policy_name, p.user_id, u.name as user_name,
+  p.leave_type_id, lt.name as leave_type_name, p.period_start, p.period_end, p.days, p.posted_at
+`;
+
+export class AccrualRepository {
+  /**
+   * Find all accrual policies with their leave type
+   */
+  async findAllPolicies(activeOnly = false): Promise<AccrualPolicyWithLeaveType[]> {
+    const query = `
+      SELECT ${POLICY_COLUMNS}
+      FROM accrual_policies ap
+      JOIN leave_types lt ON lt.id = ap.leave_type_id
+      ${activeOnly ? 'WHERE ap.is_active AND lt.is_active AND lt.tracks_balance' : ''}
+      ORDER BY ap.id
+    `;
+    const result = await pool.query<AccrualPolicyWithLeaveType>(query);
+    return result.rows;
+  }
+
+  /**
+   * Find accrual policy by ID
+   */
+  async findPolicyById(id: number): Promise<AccrualPolicyWithLeaveType | null> {
+    const query = `
+      SELECT ${POLICY_COLUMNS}
+      FROM accrual_policies ap
+      JOIN leave_types lt ON lt.id = ap.leave_type_id
+      WHERE ap.id = $1
+    `;
+    const result = await pool.query<AccrualPolicyWithLeaveType>(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Create an accrual policy
+   */
+  async createPolicy(data: CreateAccrualPolicyInput): Promise<AccrualPolicy> {
+    const query = `
+      INSERT INTO accrual_policies (name, leave_type_id, frequency, days_per_period, starts_on, is_active)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING id, name, leave_type_id, frequency, days_per_period, starts_on, is_active, created_at, updated_at
+    `;
+    const result = await pool.query<AccrualPolicy>(query, [
+      data.name,
+      data.leave_type_id,
+      data.frequency,
+      data.days_per_period,
+      data.starts_on,
+      data.is_active,
+    ]);
+    return result.rows[0];
+  }
+
+  /**
+   * Update an accrual policy. Frequency and start date are fixed once created so that
+   * the periods already posted stay consistent.
+   */
+  async updatePolicy(id: number, data: UpdateAccrualPolicyInput): Promise<AccrualPolicy | null> {
+    const updates: string[] = [];
+    const values: unknown[] = [];
+    let paramCount = 1;
+
+    if (data.name !== undefined) {
+      updates.push(`name = $${paramCount++}`);
+      values.push(data.name);
+    }
+    if (data.days_per_period !== undefined) {
+      updates.push(`days_per_period = $${paramCount++}`);
+      values.push(data.days_per_period);
+    }
+    if (data.is_active !== undefined) {
+      updates.push(`is_active = $${paramCount++}`);
+      values.push(data.is_active);
+    }
+
+    if (updates.length === 0) {
+      return this.findPolicyById(id);
+    }
+
+    values.push(id);
+    const query = `
+      UPDATE accrual_policies
+      SET ${updates.join(', ')}
+      WHERE id = $${paramCount}
+      RETURNING id, name, leave_type_id, frequency, days_per_period, starts_on, is_active, created_at, updated_at
+    `;
+    const result = await pool.query<AccrualPolicy>(query, values);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Keys (policy:user:period_start) of every period already posted, used to skip them on re-runs
+   */
+  async findPostedKeys(): Promise<Set<string>> {
+    const result = await pool.query<{ policy_id: number; user_id: number; period_start: string }>(
+      'SELECT policy_id, user_id, period_start FROM accrual_postings'
+    );
+    return new Set(result.rows.map((row) => postingKey(row.policy_id, row.user_id, row.period_start)));
+  }
+
+  /**
+   * Find postings, newest first, optionally for a single user
+   */
+  async findPostings(filters: { userId?: number; limit?: number } = {}): Promise<AccrualPosting[]> {
+    const values: unknown[] = [];
+    let whereClause = '';
+
+    if (filters.userId !== undefined) {
+      values.push(filters.userId);
+      whereClause = `WHERE p.user_id = $${values.length}`;
+    }
+    values.push(filters.limit ?? 200);
+
+    const query = `
+      SELECT ${POSTING_COLUMNS}
+      FROM accrual_postings p
+      JOIN accrual_policies ap ON ap.id = p.policy_id
+      JOIN users u ON u.id = p.user_id
+      JOIN leave_types lt ON lt.id = p.leave_type_id
+      ${whereClause}
+      ORDER BY p.posted_at DESC, p.id DESC
+      LIMIT $${values.length}
+    `;
+    const result = await pool.query<AccrualPosting>(query, values);
+    return result.rows;
+  }
+
+  /**
+   * Post accrual entries in one transaction: record each period and credit it to the balance ledger
+   * for the year the period starts in. A period that is already recorded is skipped, so concurrent
+   * or repeated runs never double-credit.
+   */
+  async postEntries(entries: AccrualEntry[]): Promise<AccrualEntry[]> {
+    const client = await pool.connect();
+    const posted: AccrualEntry[] = [];
+
+    try {
+      await client.query('BEGIN');
+      for (const entry of entries) {
+        const result = await client.query(
+          `INSERT INTO accrual_postings (policy_id, user_id, leave_type_id, period_start, period_end, days)
+           VALUES ($1, $2, $3, $4, $5, $6)
+           ON CONFLICT (policy_id, user_id, period_start) DO NOTHING`,
+          [
+            entry.policy_id,
+            entry.user_id,
+            entry.leave_type_id,
+            entry.period_start,
+            entry.period_end,
+            entry.days,
+          ]
+        );
+        if ((result.rowCount ?? 0) === 0) {
+          continue;
+        }
+        await client.query(
+          `INSERT INTO balance_transactions (user_id, leave_type_id, year, kind, days, note)
+           VALUES ($1, $2, EXTRACT(YEAR FROM $3::DATE), 'accrual', $4, $5)`,
+          [
+            entry.user_id,
+            entry.leave_type_id,
+            entry.period_start,
+            entry.days,
+            `${entry.policy_name}: ${entry.period_start} – ${entry.period_end}`,
+          ]
+        );
+        posted.push(entry);
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return posted;
+  }
+}
+
+/**
+ * Identify a posting by policy, user and period start
+ */
+export function postingKey(policyId: number, userId: number, periodStart: string): string {
+  return `${policyId}:${userId}:${periodStart}`;
+}
@@ -5,6 +5,7 @@ export interface AnalyticsData {
   pendingRequests: number;
   approvedRequests: number;
   rejectedRequests: number;
+  cancelledRequests: number;
   averageApprovalTime: number; // in hours
   requestsByMonth: Array<{ month: string; count: number }>;
   topRequesters: Array<{ user_name: string; request_count: number }>;
@@ -22,7 +23,8 @@ export class AnalyticsRepository {
         COUNT(*) as total_requests,
         COUNT(*) FILTER (WHERE status = 'pending') as pending_requests,
         COUNT(*) FILTER (WHERE status = 'approved') as approved_requests,
-        COUNT(*) FILTER (WHERE status = 'rejected') as rejected_requests
+        COUNT(*) FILTER (WHERE status = 'rejected') as rejected_requests,
+        COUNT(*) FILTER (WHERE status = 'cancelled') as cancelled_requests
       FROM vacation_requests
     `;
     const statusResult = await pool.query(statusQuery);
@@ -77,10 +79,14 @@ export class AnalyticsRepository {
     const utilizationQuery = `
       SELECT 
         u.name as user_name,
-        u.vacation_days_used as days_used,
-        u.vacation_days_total as days_total,
-        ROUND((u.vacation_days_used::numeric / u.vacation_days_total::numeric) * 100, 2) as utilization_percent
+        lb.days_used + lb.carried_used as days_used,
+        lb.days_total + lb.days_carried as days_total,
+        COALESCE(ROUND(
+          ((lb.days_used + lb.carried_used) / NULLIF(lb.days_total + lb.days_carried, 0)) * 100, 2
+        ), 0) as utilization_percent
       FROM users u
+      JOIN leave_balances lb ON lb.user_id = u.id AND lb.year = EXTRACT(YEAR FROM CURRENT_DATE)
+      JOIN leave_types lt ON lt.id = lb.leave_type_id AND lt.code = 'annual'
       WHERE u.role = 'employee'
       ORDER BY utilization_percent DESC
     `;
@@ -88,13 +94,13 @@ export class AnalyticsRepository {
       user_name: string;
       days_used: number;
       days_total: number;
-      utilization_percent: string;
+      utilization_percent: number;
     }>(utilizationQuery);
     const vacationUtilization = utilizationResult.rows.map(row => ({
       user_name: row.user_name,
       days_used: row.days_used,
       days_total: row.days_total,
-      utilization_percent: parseFloat(row.utilization_percent)
+      utilization_percent: row.utilization_percent
     }));
 
     return {
@@ -102,6 +108,7 @@ export class AnalyticsRepository {
       pendingRequests: parseInt(statusData.pending_requests, 10),
       approvedRequests: parseInt(statusData.approved_requests, 10),
       rejectedRequests: parseInt(statusData.rejected_requests, 10),
+      cancelledRequests: parseInt(statusData.cancelled_requests, 10),
       averageApprovalTime: Math.round(avgApprovalTime * 10) / 10,
       requestsByMonth,
       topRequesters,
@@ -0,0 +1,309 @@
+import type { PoolClient } from 'pg';
+import { pool } from '../config/database.js';
+import type { ApprovalChain, RequestApprovalStep } from '../types/index.js';
+import type {
+  ApprovalChainStepInput,
+  CreateApprovalChainInput,
+  UpdateApprovalChainInput,
+} from '../utils/validation.js';
+
+// Approval steps of the request aliased vr (requested by the user aliased u) as a JSON array, in order
+export const REQUEST_APPROVAL_STEPS = `
+  COALESCE((
+    SELECT json_agg(json_build_object(
+      'step_order', ras.step_order,
+      'approver_kind', ras.approver_kind,
+      'approver_id', CASE WHEN ras.approver_kind = 'line_manager' THEN u.manager_id ELSE ras.approver_id END,
+      'approver_name', CASE WHEN ras.approver_kind = 'line_manager' THEN lm.name ELSE ap.name END,
+      'approved_by', ras.approved_by,
+      'approved_by_name', ab.name,
+      'on_behalf_of', ras.on_behalf_of,
+      'on_behalf_of_name', obo.name,
+      'approved_at', ras.approved_at,
+      'notes', ras.notes
+    ) ORDER BY ras.step_order)
+    FROM request_approval_steps ras
+    LEFT JOIN users lm ON lm.id = u.manager_id
+    LEFT JOIN users ap ON ap.id = ras.approver_id
+    LEFT JOIN users ab ON ab.id = ras.approved_by
+    LEFT JOIN users obo ON obo.id = ras.on_behalf_of
+    WHERE ras.request_id = vr.id
+  ), '[]'::json)
+`;
+
+// Sign off a request's step ($1, $2) by a user ($3), a delegate if $4 is the approver they stand in
+// for; it updates no row if the step was already signed off
+export const SIGN_OFF_STEP = `
+  UPDATE request_approval_steps
+  SET approved_by = $3, on_behalf_of = $4, approved_at = CURRENT_TIMESTAMP, notes = $5
+  WHERE request_id = $1 AND step_order = $2 AND approved_at IS NULL
+`;
+
+const CHAIN_COLUMNS = `
+  ac.id, ac.name, ac.leave_type_id, lt.name as leave_type_name, ac.min_days, ac.is_active,
+  COALESCE((
+    SELECT json_agg(json_build_object(
+      'step_order', acs.step_order,
+      'approver_kind', acs.approver_kind,
+      'approver_id', acs.approver_id,
+      'approver_name', ap.name
+    ) ORDER BY acs.step_order)
+    FROM approval_chain_steps acs
+    LEFT JOIN users ap ON ap.id = acs.approver_id
+    WHERE acs.chain_id = ac.id
+  ), '[]'::json) as steps,
+  ac.created_at, ac.updated_at
+`;
+
+export class ApprovalChainRepository {
+  /**
+   * Find all approval chains with their steps
+   */
+  async findAll(): Promise<ApprovalChain[]> {
+    const query = `
+      SELECT ${CHAIN_COLUMNS}
+      FROM approval_chains ac
+      LEFT JOIN leave_types lt ON lt.id = ac.leave_type_id
+      ORDER BY ac.leave_type_id NULLS LAST, ac.min_days, ac.id
+    `;
+    const result = await pool.query<ApprovalChain>(query);
+    return result.rows;
+  }
+
+  /**
+   * Find approval chain by ID
+   */
+  async findById(id: number): Promise<ApprovalChain | null> {
+    const query = `
+      SELECT ${CHAIN_COLUMNS}
+      FROM approval_chains ac
+      LEFT JOIN leave_types lt ON lt.id = ac.leave_type_id
+      WHERE ac.id = $1
+    `;
+    const result = await pool.query<ApprovalChain>(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Create an approval chain with its steps
+   */
+  async create(data: CreateApprovalChainInput): Promise<ApprovalChain> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      const result = await client.query<{ id: number }>(
+        `INSERT INTO approval_chains (name, leave_type_id, min_days, is_active)
+         VALUES ($1, $2, $3, $4)
+         RETURNING id`,
+        [data.name, data.leave_type_id, data.min_days, data.is_active]
+      );
+      const id = result.rows[0].id;
+      await this.insertSteps(client, id, data.steps);
+      await client.query('COMMIT');
+      return (await this.findById(id)) as ApprovalChain;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Update an approval chain, replacing its steps if new ones are given. Requests already
+   * submitted keep the steps they were given.
+   */
+  async update(id: number, data: UpdateApprovalChainInput): Promise<ApprovalChain | null> {
+    const updates: string[] = [];
+    const values: unknown[] = [];
+    let paramCount = 1;
+
+    if (data.name !== undefined) {
+      updates.push(`name = $${paramCount++}`);
+      values.push(data.name);
+    }
+    if (data.leave_type_id !== undefined) {
+      updates.push(`leave_type_id = $${paramCount++}`);
+      values.push(data.leave_type_id);
+    }
+    if (data.min_days !== undefined) {
+      updates.push(`min_days = $${paramCount++}`);
+      values.push(data.min_days);
+    }
+    if (data.is_active !== undefined) {
+      updates.push(`is_active = $${paramCount++}`);
+      values.push(data.is_active);
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      values.push(id);
+      const result = await client.query(
+        `UPDATE approval_chains
+         SET ${[...updates, 'updated_at = CURRENT_TIMESTAMP'].join(', ')}
+         WHERE id = $${paramCount}`,
+        values
+      );
+      if ((result.rowCount ?? 0) === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+      if (data.steps) {
+        await client.query('DELETE FROM approval_chain_steps WHERE chain_id = $1', [id]);
+        await this.insertSteps(client, id, data.steps);
+      }
+      await client.query('COMMIT');
+      return this.findById(id);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Delete an approval chain (requests already submitted keep their steps)
+   */
+  async delete(id: number): Promise<boolean> {
+    const result = await pool.query('DELETE FROM approval_chains WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Give a request the steps of the most specific active chain it matches (a chain for its leave
+   * type over one for any type, then the highest minimum length), or a single line manager step
+   * if none matches. Any earlier steps and sign-offs are discarded.
+   */
+  async assignToRequest(requestId: number): Promise<void> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM request_approval_steps WHERE request_id = $1', [requestId]);
+      const result = await client.query(
+        `WITH chain AS (
+           SELECT ac.id
+           FROM approval_chains ac
+           JOIN vacation_requests vr ON vr.id = $1
+           WHERE ac.is_active
+             AND (ac.leave_type_id IS NULL OR ac.leave_type_id = vr.leave_type_id)
+             AND vr.days_requested >= ac.min_days
+             AND EXISTS (SELECT 1 FROM approval_chain_steps WHERE chain_id = ac.id)
+           ORDER BY ac.leave_type_id IS NULL, ac.min_days DESC, ac.id
+           LIMIT 1
+         )
+         INSERT INTO request_approval_steps (request_id, step_order, approver_kind, approver_id)
+         SELECT $1, acs.step_order, acs.approver_kind, acs.approver_id
+         FROM approval_chain_steps acs
+         JOIN chain ON chain.id = acs.chain_id`,
+        [requestId]
+      );
+      if ((result.rowCount ?? 0) === 0) {
+        await client.query(
+          `INSERT INTO request_approval_steps (request_id, step_order, approver_kind)
+           VALUES ($1, 1, 'line_manager')`,
+          [requestId]
+        );
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Replace a request's steps with a single sign-off by one manager (or with none if approverId is null)
+   */
+  async routeToApprover(requestId: number, approverId: number | null): Promise<void> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM request_approval_steps WHERE request_id = $1', [requestId]);
+      if (approverId !== null) {
+        await client.query(
+          `INSERT INTO request_approval_steps (request_id, step_order, approver_kind, approver_id)
+           VALUES ($1, 1, 'user', $2)`,
+          [requestId, approverId]
+        );
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Add sign-offs after a request's current steps, one per distinct approver (null = any super-admin)
+   */
+  async addExtraSteps(requestId: number, approverIds: (number | null)[]): Promise<void> {
+    await pool.query(
+      `INSERT INTO request_approval_steps (request_id, step_order, approver_kind, approver_id)
+       SELECT $1,
+              COALESCE((SELECT MAX(step_order) FROM request_approval_steps WHERE request_id = $1), 0)
+                + ROW_NUMBER() OVER (ORDER BY approvers.position),
+              'user', approvers.approver_id
+       FROM (
+         SELECT approver_id, MIN(position) as position
+         FROM UNNEST($2::INTEGER[]) WITH ORDINALITY AS a(approver_id, position)
+         GROUP BY approver_id
+       ) approvers`,
+      [requestId, approverIds]
+    );
+  }
+
+  /**
+   * Find a request's approval steps, in order
+   */
+  async findRequestSteps(requestId: number): Promise<RequestApprovalStep[]> {
+    const query = `
+      SELECT ${REQUEST_APPROVAL_STEPS} as steps
+      FROM vacation_requests vr
+      JOIN users u ON u.id = vr.user_id
+      WHERE vr.id = $1
+    `;
+    const result = await pool.query<{ steps: RequestApprovalStep[] }>(query, [requestId]);
+    return result.rows[0]?.steps ?? [];
+  }
+
+  /**
+   * Whether a user is the approver of a step still to be signed off on any pending request of another
+   */
+  async reviewsPendingRequestsOf(approverId: number, requesterId: number): Promise<boolean> {
+    const query = `
+      SELECT EXISTS (
+        SELECT 1
+        FROM request_approval_steps ras
+        JOIN vacation_requests vr ON vr.id = ras.request_id
+        JOIN users u ON u.id = vr.user_id
+        WHERE vr.user_id = $2 AND vr.status = 'pending' AND ras.approved_at IS NULL
+          AND CASE WHEN ras.approver_kind = 'line_manager' THEN u.manager_id ELSE ras.approver_id END = $1
+      ) as reviews
+    `;
+    const result = await pool.query<{ reviews: boolean }>(query, [approverId, requesterId]);
+    return result.rows[0].reviews;
+  }
+
+  /**
+   * Insert a chain's steps, numbered in the order given
+   */
+  private async insertSteps(client: PoolClient, chainId: number, steps: ApprovalChainStepInput[]): Promise<void> {
+    for (const [index, step] of steps.entries()) {
+      await client.query(
+        `INSERT INTO approval_chain_steps (chain_id, step_order, approver_kind, approver_id)
+         VALUES ($1, $2, $3, $4)`,
+        [chainId, index + 1, step.approver_kind, step.approver_kind === 'user' ? step.approver_id : null]
+      );
+    }
+  }
+}
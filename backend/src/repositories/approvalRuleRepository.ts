@@ -0,0 +1,120 @@
+import { pool } from '../config/database.js';
+import type { ApprovalRule } from '../types/index.js';
+import type { CreateApprovalRuleInput, UpdateApprovalRuleInput } from '../utils/validation.js';
+
+const RULE_COLUMNS = `
+  ar.id, ar.name, ar.priority, ar.action, ar.route_to_id, rt.name as route_to_name,
+  ar.leave_type_id, lt.name as leave_type_name, ar.max_days, ar.min_notice_days,
+  ar.min_balance_after, ar.max_team_absent, ar.is_active, ar.created_at, ar.updated_at
+`;
+
+// Columns a rule update may change, in the order they are set
+const UPDATABLE_FIELDS = [
+  'name',
+  'priority',
+  'action',
+  'route_to_id',
+  'leave_type_id',
+  'max_days',
+  'min_notice_days',
+  'min_balance_after',
+  'max_team_absent',
+  'is_active',
+] as const;
+
+export class ApprovalRuleRepository {
+  /**
+   * Find all approval rules in the order they are checked, optionally only active ones
+   */
+  async findAll(activeOnly = false): Promise<ApprovalRule[]> {
+    const query = `
+      SELECT ${RULE_COLUMNS}
+      FROM approval_rules ar
+      LEFT JOIN users rt ON rt.id = ar.route_to_id
+      LEFT JOIN leave_types lt ON lt.id = ar.leave_type_id
+      ${activeOnly ? 'WHERE ar.is_active' : ''}
+      ORDER BY ar.priority, ar.id
+    `;
+    const result = await pool.query<ApprovalRule>(query);
+    return result.rows;
+  }
+
+  /**
+   * Find approval rule by ID
+   */
+  async findById(id: number): Promise<ApprovalRule | null> {
+    const query = `
+      SELECT ${RULE_COLUMNS}
+      FROM approval_rules ar
+      LEFT JOIN users rt ON rt.id = ar.route_to_id
+      LEFT JOIN leave_types lt ON lt.id = ar.leave_type_id
+      WHERE ar.id = $1
+    `;
+    const result = await pool.query<ApprovalRule>(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Create an approval rule
+   */
+  async create(data: CreateApprovalRuleInput): Promise<ApprovalRule> {
+    const result = await pool.query<{ id: number }>(
+      `INSERT INTO approval_rules (
+         name, priority, action, route_to_id, leave_type_id, max_days, min_notice_days,
+         min_balance_after, max_team_absent, is_active
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING id`,
+      [
+        data.name,
+        data.priority,
+        data.action,
+        data.route_to_id,
+        data.leave_type_id,
+        data.max_days,
+        data.min_notice_days,
+        data.min_balance_after,
+        data.max_team_absent,
+        data.is_active,
+      ]
+    );
+    return (await this.findById(result.rows[0].id)) as ApprovalRule;
+  }
+
+  /**
+   * Update an approval rule
+   */
+  async update(id: number, data: UpdateApprovalRuleInput): Promise<ApprovalRule | null> {
+    const updates: string[] = [];
+    const values: unknown[] = [];
+
+    for (const field of UPDATABLE_FIELDS) {
+      if (data[field] !== undefined) {
+        values.push(data[field]);
+        updates.push(`${field} = $${values.length}`);
+      }
+    }
+
+    if (updates.length === 0) {
+      return this.findById(id);
+    }
+
+    values.push(id);
+    const result = await pool.query(
+      `UPDATE approval_rules SET ${updates.join(', ')} WHERE id = $${values.length}`,
+      values
+    );
+    if ((result.rowCount ?? 0) === 0) {
+      return null;
+    }
+    return this.findById(id);
+  }
+
+  /**
+   * Delete an approval rule (requests it fired for keep its name)
+   */
+  async delete(id: number): Promise<boolean> {
+    const result = await pool.query('DELETE FROM approval_rules WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+}
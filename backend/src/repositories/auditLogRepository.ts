@@ -0,0 +1,131 @@
+import { pool } from '../config/database.js';
+import type { AuditEntityType, AuditEntry, AuditMetadata } from '../types/index.js';
+
+const AUDIT_COLUMNS = `
+  a.id, a.actor_id, a.actor_name, a.action, a.entity_type, a.entity_id, a.subject_id,
+  s.name as subject_name, a.before, a.after, a.metadata, a.created_at
+`;
+
+/**
+ * Serialize a snapshot for a JSONB column (pg would turn arrays into Postgres arrays)
+ */
+function toJson(value: unknown): string | null {
+  return value === undefined || value === null ? null : JSON.stringify(value);
+}
+
+export interface AuditFilters {
+  actorId?: number;
+  subjectId?: number;
+  entityType?: AuditEntityType;
+  entityId?: number;
+  action?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface NewAuditEntry {
+  actorId: number | null;
+  actorName: string | null;
+  action: string;
+  entityType: AuditEntityType;
+  entityId: number | null;
+  subjectId: number | null;
+  before: unknown;
+  after: unknown;
+  metadata: AuditMetadata;
+}
+
+export class AuditLogRepository {
+  /**
+   * Find a page of entries matching filters, newest first, with how many match in total.
+   * from and to are dates, both inclusive.
+   */
+  async findWithFilters(
+    filters: AuditFilters,
+    limit: number,
+    offset: number
+  ): Promise<{ entries: AuditEntry[]; total: number }> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    let paramCount = 1;
+
+    if (filters.actorId !== undefined) {
+      conditions.push(`a.actor_id = $${paramCount++}`);
+      values.push(filters.actorId);
+    }
+    if (filters.subjectId !== undefined) {
+      conditions.push(`a.subject_id = $${paramCount++}`);
+      values.push(filters.subjectId);
+    }
+    if (filters.entityType) {
+      conditions.push(`a.entity_type = $${paramCount++}`);
+      values.push(filters.entityType);
+    }
+    if (filters.entityId !== undefined) {
+      conditions.push(`a.entity_id = $${paramCount++}`);
+      values.push(filters.entityId);
+    }
+    if (filters.action) {
+      conditions.push(`a.action = $${paramCount++}`);
+      values.push(filters.action);
+    }
+    if (filters.from) {
+      conditions.push(`a.created_at >= $${paramCount++}::DATE`);
+      values.push(filters.from);
+    }
+    if (filters.to) {
+      conditions.push(`a.created_at < $${paramCount++}::DATE + 1`);
+      values.push(filters.to);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const [entries, count] = await Promise.all([
+      pool.query<AuditEntry>(
+        `SELECT ${AUDIT_COLUMNS}
+         FROM audit_log a
+         LEFT JOIN users s ON s.id = a.subject_id
+         ${whereClause}
+         ORDER BY a.created_at DESC, a.id DESC
+         LIMIT $${paramCount} OFFSET $${paramCount + 1}`,
+        [...values, limit, offset]
+      ),
+      pool.query<{ total: number }>(`SELECT COUNT(*)::INTEGER as total FROM audit_log a ${whereClause}`, values),
+    ]);
+    return { entries: entries.rows, total: count.rows[0].total };
+  }
+
+  /**
+   * Append entries to the log, all or none of them
+   */
+  async create(entries: NewAuditEntry[]): Promise<void> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      for (const entry of entries) {
+        await client.query(
+          `INSERT INTO audit_log (actor_id, actor_name, action, entity_type, entity_id, subject_id, before, after, metadata)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+          [
+            entry.actorId,
+            entry.actorName,
+            entry.action,
+            entry.entityType,
+            entry.entityId,
+            entry.subjectId,
+            toJson(entry.before),
+            toJson(entry.after),
+            toJson(entry.metadata),
+          ]
+        );
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
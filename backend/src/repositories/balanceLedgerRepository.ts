@@ -0,0 +1,113 @@
+import { pool } from '../config/database.js';
+import type { BalanceTransaction } from '../types/index.js';
+
+// Carried days of a leave_balances row still usable on a date ($date): none once the carry-over has expired
+export const CARRIED_AVAILABLE = (date: string) => `
+  CASE WHEN carry_expires_on IS NULL OR ${date}::DATE <= carry_expires_on
+    THEN days_carried - carried_used ELSE 0 END
+`;
+
+// Ledger entries with the balance of their leave type and year after each one
+const LEDGER_QUERY = `
+  SELECT bt.id, bt.user_id, bt.leave_type_id, lt.name as leave_type_name, bt.year, bt.kind,
+         bt.days, bt.carried_days, bt.expires_on, bt.request_id,
+         vr.start_date as request_start_date, vr.end_date as request_end_date,
+         bt.note, bt.created_by, cb.name as created_by_name, bt.created_at,
+         SUM(bt.days) OVER (
+           PARTITION BY bt.user_id, bt.leave_type_id, bt.year ORDER BY bt.created_at, bt.id
+         ) as balance_after
+  FROM balance_transactions bt
+  JOIN leave_types lt ON lt.id = bt.leave_type_id
+  LEFT JOIN vacation_requests vr ON vr.id = bt.request_id
+  LEFT JOIN users cb ON cb.id = bt.created_by
+  WHERE bt.user_id = $1
+`;
+
+// Deduct the days ($3) of an approved request ($5) from the balance of the year the leave falls in
+// ($4, its first day). Carried days that have not expired by that date are used up first.
+export const INSERT_DEDUCTION = `
+  INSERT INTO balance_transactions (user_id, leave_type_id, year, kind, days, carried_days, request_id, created_by)
+  SELECT $1, $2, EXTRACT(YEAR FROM $4::DATE), 'deduction', -$3::NUMERIC,
+         -LEAST($3::NUMERIC, COALESCE((
+           SELECT ${CARRIED_AVAILABLE('$4')}
+           FROM leave_balances
+           WHERE user_id = $1 AND leave_type_id = $2 AND year = EXTRACT(YEAR FROM $4::DATE)
+         ), 0)),
+         $5, $6
+`;
+
+// Lock a user's ($1) ledger entries for a leave type ($2) in the year a date ($3) falls in, so a
+// balance check made while holding them counts every request reserved before it
+export const LOCK_LEDGER = `
+  SELECT id FROM balance_transactions
+  WHERE user_id = $1 AND leave_type_id = $2 AND year = EXTRACT(YEAR FROM $3::DATE)
+  FOR UPDATE
+`;
+
+// Credit back everything deducted for a cancelled request ($1), to the same years and carried-over
+// days
+export const INSERT_REFUND = `
+  INSERT INTO balance_transactions (user_id, leave_type_id, year, kind, days, carried_days, request_id, created_by)
+  SELECT user_id, leave_type_id, year, 'refund', -days, -carried_days, request_id, $2
+  FROM balance_transactions
+  WHERE request_id = $1 AND kind = 'deduction'
+`;
+
+export class BalanceLedgerRepository {
+  /**
+   * Find a user's ledger entries, newest first, optionally for one leave type and/or year
+   */
+  async findByUser(
+    userId: number,
+    filters: { leaveTypeId?: number; year?: number } = {}
+  ): Promise<BalanceTransaction[]> {
+    const conditions: string[] = [];
+    const values: unknown[] = [userId];
+
+    if (filters.leaveTypeId !== undefined) {
+      values.push(filters.leaveTypeId);
+      conditions.push(`ledger.leave_type_id = $${values.length}`);
+    }
+    if (filters.year !== undefined) {
+      values.push(filters.year);
+      conditions.push(`ledger.year = $${values.length}`);
+    }
+
+    const query = `
+      SELECT * FROM (${LEDGER_QUERY}) ledger
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY ledger.created_at DESC, ledger.id DESC
+    `;
+    const result = await pool.query<BalanceTransaction>(query, values);
+    return result.rows;
+  }
+
+  /**
+   * Find a ledger entry by ID
+   */
+  async findById(userId: number, id: number): Promise<BalanceTransaction | null> {
+    const query = `SELECT * FROM (${LEDGER_QUERY}) ledger WHERE ledger.id = $2`;
+    const result = await pool.query<BalanceTransaction>(query, [userId, id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Record a manual adjustment of a year's entitlement (positive to grant days, negative to remove them)
+   */
+  async recordAdjustment(data: {
+    userId: number;
+    leaveTypeId: number;
+    year: number;
+    days: number;
+    note: string;
+    createdBy: number;
+  }): Promise<BalanceTransaction> {
+    const result = await pool.query<{ id: number }>(
+      `INSERT INTO balance_transactions (user_id, leave_type_id, year, kind, days, note, created_by)
+       VALUES ($1, $2, $3, 'adjustment', $4, $5, $6)
+       RETURNING id`,
+      [data.userId, data.leaveTypeId, data.year, data.days, data.note, data.createdBy]
+    );
+    return (await this.findById(data.userId, result.rows[0].id)) as BalanceTransaction;
+  }
+}
@@ -0,0 +1,129 @@
+import { pool } from '../config/database.js';
+import type { BlackoutPeriod } from '../types/index.js';
+import type { CreateBlackoutInput, UpdateBlackoutInput } from '../utils/validation.js';
+
+const BLACKOUT_COLUMNS = `
+  bp.id, bp.name, bp.team_id, t.name as team_name, bp.starts_on, bp.ends_on, bp.mode,
+  bp.approver_id, ap.name as approver_name, bp.created_at, bp.updated_at
+`;
+
+const BLACKOUT_JOINS = `
+  LEFT JOIN teams t ON t.id = bp.team_id
+  LEFT JOIN users ap ON ap.id = bp.approver_id
+`;
+
+// Columns a blackout update may change, in the order they are set
+const UPDATABLE_FIELDS = ['name', 'team_id', 'starts_on', 'ends_on', 'mode', 'approver_id'] as const;
+
+export class BlackoutRepository {
+  /**
+   * Find blackout periods by start date, optionally only those applying to a user
+   * (company-wide ones and their team's)
+   */
+  async findAll(userId?: number): Promise<BlackoutPeriod[]> {
+    const values: unknown[] = [];
+    let userCondition = '';
+    if (userId !== undefined) {
+      values.push(userId);
+      userCondition = 'WHERE bp.team_id IS NULL OR bp.team_id = (SELECT team_id FROM users WHERE id = $1)';
+    }
+
+    const query = `
+      SELECT ${BLACKOUT_COLUMNS}
+      FROM blackout_periods bp
+      ${BLACKOUT_JOINS}
+      ${userCondition}
+      ORDER BY bp.starts_on, bp.id
+    `;
+    const result = await pool.query<BlackoutPeriod>(query, values);
+    return result.rows;
+  }
+
+  /**
+   * Find blackout period by ID
+   */
+  async findById(id: number): Promise<BlackoutPeriod | null> {
+    const query = `
+      SELECT ${BLACKOUT_COLUMNS}
+      FROM blackout_periods bp
+      ${BLACKOUT_JOINS}
+      WHERE bp.id = $1
+    `;
+    const result = await pool.query<BlackoutPeriod>(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find the blackout periods applying to a user that overlap a date range
+   */
+  async findOverlapping(userId: number, startDate: string, endDate: string): Promise<BlackoutPeriod[]> {
+    const query = `
+      SELECT ${BLACKOUT_COLUMNS}
+      FROM blackout_periods bp
+      ${BLACKOUT_JOINS}
+      WHERE (bp.team_id IS NULL OR bp.team_id = (SELECT team_id FROM users WHERE id = $1))
+        AND bp.starts_on <= $3
+        AND bp.ends_on >= $2
+      ORDER BY bp.starts_on, bp.id
+    `;
+    const result = await pool.query<BlackoutPeriod>(query, [userId, startDate, endDate]);
+    return result.rows;
+  }
+
+  /**
+   * Create a blackout period
+   */
+  async create(data: CreateBlackoutInput): Promise<BlackoutPeriod> {
+    const result = await pool.query<{ id: number }>(
+      `INSERT INTO blackout_periods (name, team_id, starts_on, ends_on, mode, approver_id)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING id`,
+      [
+        data.name,
+        data.team_id,
+        data.starts_on,
+        data.ends_on,
+        data.mode,
+        data.mode === 'extra_approval' ? data.approver_id : null,
+      ]
+    );
+    return (await this.findById(result.rows[0].id)) as BlackoutPeriod;
+  }
+
+  /**
+   * Update a blackout period
+   */
+  async update(id: number, data: UpdateBlackoutInput): Promise<BlackoutPeriod | null> {
+    const updates: string[] = [];
+    const values: unknown[] = [];
+
+    for (const field of UPDATABLE_FIELDS) {
+      if (data[field] !== undefined) {
+        values.push(data[field]);
+        updates.push(`${field} = $${values.length}`);
+      }
+    }
+
+    if (updates.length === 0) {
+      return this.findById(id);
+    }
+
+    values.push(id);
+    const result = await pool.query(
+      `UPDATE blackout_periods SET ${updates.join(', ')} WHERE id = $${values.length}`,
+      values
+    );
+    if ((result.rowCount ?? 0) === 0) {
+      return null;
+    }
+    return this.findById(id);
+  }
+
+  /**
+   * Delete a blackout period
+   */
+  async delete(id: number): Promise<boolean> {
+    const result = await pool.query('DELETE FROM blackout_periods WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+}
@@ -0,0 +1,94 @@
+import { randomBytes } from 'crypto';
+import { pool } from '../config/database.js';
+import type { CalendarFeed, CalendarFeedScope } from '../types/index.js';
+
+const FEED_COLUMNS = `
+  cf.id, cf.owner_id, cf.scope, cf.team_id, t.name as team_name, cf.token, cf.created_at, cf.rotated_at
+`;
+
+/**
+ * Generate a secret, URL-safe feed token
+ */
+function newToken(): string {
+  return randomBytes(24).toString('hex');
+}
+
+export class CalendarFeedRepository {
+  /**
+   * Find a user's feeds, their own first
+   */
+  async findByOwner(ownerId: number): Promise<CalendarFeed[]> {
+    const query = `
+      SELECT ${FEED_COLUMNS}
+      FROM calendar_feeds cf
+      LEFT JOIN teams t ON t.id = cf.team_id
+      WHERE cf.owner_id = $1
+      ORDER BY cf.scope DESC, t.name, cf.id
+    `;
+    const result = await pool.query<CalendarFeed>(query, [ownerId]);
+    return result.rows;
+  }
+
+  /**
+   * Find calendar feed by ID
+   */
+  async findById(id: number): Promise<CalendarFeed | null> {
+    const query = `
+      SELECT ${FEED_COLUMNS}
+      FROM calendar_feeds cf
+      LEFT JOIN teams t ON t.id = cf.team_id
+      WHERE cf.id = $1
+    `;
+    const result = await pool.query<CalendarFeed>(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find calendar feed by its secret token
+   */
+  async findByToken(token: string): Promise<CalendarFeed | null> {
+    const query = `
+      SELECT ${FEED_COLUMNS}
+      FROM calendar_feeds cf
+      LEFT JOIN teams t ON t.id = cf.team_id
+      WHERE cf.token = $1
+    `;
+    const result = await pool.query<CalendarFeed>(query, [token]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Create a feed with a new token (a user has at most one feed of their own and one per team)
+   */
+  async create(ownerId: number, scope: CalendarFeedScope, teamId: number | null): Promise<CalendarFeed> {
+    const result = await pool.query<{ id: number }>(
+      `INSERT INTO calendar_feeds (owner_id, scope, team_id, token)
+       VALUES ($1, $2, $3, $4)
+       RETURNING id`,
+      [ownerId, scope, teamId, newToken()]
+    );
+    return (await this.findById(result.rows[0].id)) as CalendarFeed;
+  }
+
+  /**
+   * Give a feed a new token, so the old URL stops working
+   */
+  async rotate(id: number): Promise<CalendarFeed | null> {
+    const result = await pool.query(
+      'UPDATE calendar_feeds SET token = $2, rotated_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [id, newToken()]
+    );
+    if ((result.rowCount ?? 0) === 0) {
+      return null;
+    }
+    return this.findById(id);
+  }
+
+  /**
+   * Delete a calendar feed, revoking its URL
+   */
+  async delete(id: number): Promise<boolean> {
+    const result = await pool.query('DELETE FROM calendar_feeds WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+}
@@ -0,0 +1,83 @@
+import { pool } from '../config/database.js';
+import type { Delegation } from '../types/index.js';
+import type { CreateDelegationInput } from '../utils/validation.js';
+
+const DELEGATION_COLUMNS = `
+  d.id, d.delegator_id, dr.name as delegator_name, d.delegate_id, de.name as delegate_name,
+  d.starts_on, d.ends_on, d.note, d.created_at
+`;
+
+export class DelegationRepository {
+  /**
+   * Find delegations a user gave or received that have not ended by a date (all of them when
+   * no user is given), soonest first
+   */
+  async findCurrent(onDate: string, userId?: number): Promise<Delegation[]> {
+    const values: unknown[] = [onDate];
+    let userCondition = '';
+    if (userId !== undefined) {
+      values.push(userId);
+      userCondition = 'AND (d.delegator_id = $2 OR d.delegate_id = $2)';
+    }
+
+    const query = `
+      SELECT ${DELEGATION_COLUMNS}
+      FROM delegations d
+      JOIN users dr ON dr.id = d.delegator_id
+      JOIN users de ON de.id = d.delegate_id
+      WHERE d.ends_on >= $1 ${userCondition}
+      ORDER BY d.starts_on, d.id
+    `;
+    const result = await pool.query<Delegation>(query, values);
+    return result.rows;
+  }
+
+  /**
+   * Find delegation by ID
+   */
+  async findById(id: number): Promise<Delegation | null> {
+    const query = `
+      SELECT ${DELEGATION_COLUMNS}
+      FROM delegations d
+      JOIN users dr ON dr.id = d.delegator_id
+      JOIN users de ON de.id = d.delegate_id
+      WHERE d.id = $1
+    `;
+    const result = await pool.query<Delegation>(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * IDs of the users whose approvals are delegated to a user on a date
+   */
+  async findActiveDelegators(delegateId: number, onDate: string): Promise<number[]> {
+    const query = `
+      SELECT DISTINCT delegator_id
+      FROM delegations
+      WHERE delegate_id = $1 AND $2::DATE BETWEEN starts_on AND ends_on
+    `;
+    const result = await pool.query<{ delegator_id: number }>(query, [delegateId, onDate]);
+    return result.rows.map((row) => row.delegator_id);
+  }
+
+  /**
+   * Delegate a user's approvals for a date range
+   */
+  async create(delegatorId: number, data: CreateDelegationInput): Promise<Delegation> {
+    const result = await pool.query<{ id: number }>(
+      `INSERT INTO delegations (delegator_id, delegate_id, starts_on, ends_on, note)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING id`,
+      [delegatorId, data.delegate_id, data.starts_on, data.ends_on, data.note || null]
+    );
+    return (await this.findById(result.rows[0].id)) as Delegation;
+  }
+
+  /**
+   * Revoke a delegation
+   */
+  async delete(id: number): Promise<boolean> {
+    const result = await pool.query('DELETE FROM delegations WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+}
@@ -0,0 +1,42 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { countWorkingDays, listWorkingDates } from '../utils/workingDays.js';
+
+const pool = vi.hoisted(() => ({ query: vi.fn(), connect: vi.fn() }));
+
+vi.mock('../config/database.js', () => ({ pool }));
+
+const { HolidayRepository } = await import('./holidayRepository.js');
+
+const repository = new HolidayRepository();
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('HolidayRepository.findDatesInRange', () => {
+  it('expands recurring holidays into every year of the range and keeps one-off ones as they are', async () => {
+    pool.query.mockResolvedValue({
+      rows: [
+        { holiday_date: '2020-12-25', is_recurring: true },
+        { holiday_date: '2025-12-26', is_recurring: false },
+      ],
+    });
+
+    expect(await repository.findDatesInRange('GR', null, '2025-12-01', '2026-12-31')).toEqual([
+      '2025-12-25',
+      '2025-12-26',
+      '2026-12-25',
+    ]);
+  });
+
+  it('keeps a recurring 29 February to leap years', async () => {
+    pool.query.mockResolvedValue({ rows: [{ holiday_date: '2024-02-29', is_recurring: true }] });
+
+    const dates = await repository.findDatesInRange('GR', null, '2027-01-01', '2028-12-31');
+
+    expect(dates).toEqual(['2028-02-29']);
+    // Monday 2027-03-01 stays a working day either way the days are counted
+    expect(countWorkingDays('2027-02-26', '2027-03-01', dates)).toBe(2);
+    expect(listWorkingDates('2027-02-26', '2027-03-01', dates)).toEqual(['2027-02-26', '2027-03-01']);
+  });
+});
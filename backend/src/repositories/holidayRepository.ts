@@ -0,0 +1,220 @@
+import { pool } from '../config/database.js';
+import { isValidDate } from '../utils/workingDays.js';
+import type { Holiday } from '../types/index.js';
+import type { CreateHolidayInput, UpdateHolidayInput } from '../utils/validation.js';
+
+const HOLIDAY_COLUMNS = `
+  id, name, holiday_date, country_code, region, is_recurring, created_at, updated_at
+`;
+
+export class HolidayRepository {
+  /**
+   * Find holidays with optional country, region and year filters.
+   * Recurring holidays are always included when filtering by year.
+   */
+  async findAll(filters: { countryCode?: string; region?: string; year?: number } = {}): Promise<Holiday[]> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    let paramCount = 1;
+
+    if (filters.countryCode) {
+      conditions.push(`country_code = $${paramCount++}`);
+      values.push(filters.countryCode.toUpperCase());
+    }
+    if (filters.region) {
+      conditions.push(`(region IS NULL OR region = $${paramCount++})`);
+      values.push(filters.region);
+    }
+    if (filters.year !== undefined) {
+      conditions.push(`(is_recurring OR EXTRACT(YEAR FROM holiday_date) = $${paramCount++})`);
+      values.push(filters.year);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const query = `
+      SELECT ${HOLIDAY_COLUMNS}
+      FROM holidays
+      ${whereClause}
+      ORDER BY country_code, EXTRACT(MONTH FROM holiday_date), EXTRACT(DAY FROM holiday_date), holiday_date
+    `;
+    const result = await pool.query<Holiday>(query, values);
+    return result.rows;
+  }
+
+  /**
+   * Find holiday by ID
+   */
+  async findById(id: number): Promise<Holiday | null> {
+    const query = `SELECT ${HOLIDAY_COLUMNS} FROM holidays WHERE id = $1`;
+    const result = await pool.query<Holiday>(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Create a new holiday
+   */
+  async create(data: CreateHolidayInput): Promise<Holiday> {
+    const query = `
+      INSERT INTO holidays (name, holiday_date, country_code, region, is_recurring)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING ${HOLIDAY_COLUMNS}
+    `;
+    const result = await pool.query<Holiday>(query, [
+      data.name,
+      data.holiday_date,
+      data.country_code.toUpperCase(),
+      data.region || null,
+      data.is_recurring,
+    ]);
+    return result.rows[0];
+  }
+
+  /**
+   * Insert many holidays in one transaction, skipping dates that already exist
+   */
+  async createMany(holidays: CreateHolidayInput[]): Promise<{ imported: number; skipped: number }> {
+    const client = await pool.connect();
+    let imported = 0;
+
+    try {
+      await client.query('BEGIN');
+      for (const holiday of holidays) {
+        const result = await client.query(
+          `INSERT INTO holidays (name, holiday_date, country_code, region, is_recurring)
+           VALUES ($1, $2, $3, $4, $5)
+           ON CONFLICT DO NOTHING`,
+          [
+            holiday.name,
+            holiday.holiday_date,
+            holiday.country_code.toUpperCase(),
+            holiday.region || null,
+            holiday.is_recurring,
+          ]
+        );
+        imported += result.rowCount ?? 0;
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return { imported, skipped: holidays.length - imported };
+  }
+
+  /**
+   * Update a holiday
+   */
+  async update(id: number, data: UpdateHolidayInput): Promise<Holiday | null> {
+    const updates: string[] = [];
+    const values: unknown[] = [];
+    let paramCount = 1;
+
+    if (data.name !== undefined) {
+      updates.push(`name = $${paramCount++}`);
+      values.push(data.name);
+    }
+    if (data.holiday_date !== undefined) {
+      updates.push(`holiday_date = $${paramCount++}`);
+      values.push(data.holiday_date);
+    }
+    if (data.country_code !== undefined) {
+      updates.push(`country_code = $${paramCount++}`);
+      values.push(data.country_code.toUpperCase());
+    }
+    if (data.region !== undefined) {
+      updates.push(`region = $${paramCount++}`);
+      values.push(data.region || null);
+    }
+    if (data.is_recurring !== undefined) {
+      updates.push(`is_recurring = $${paramCount++}`);
+      values.push(data.is_recurring);
+    }
+
+    if (updates.length === 0) {
+      return this.findById(id);
+    }
+
+    values.push(id);
+    const query = `
+      UPDATE holidays
+      SET ${updates.join(', ')}
+      WHERE id = $${paramCount}
+      RETURNING ${HOLIDAY_COLUMNS}
+    `;
+    const result = await pool.query<Holiday>(query, values);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Delete a holiday
+   */
+  async delete(id: number): Promise<boolean> {
+    const result = await pool.query('DELETE FROM holidays WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * List the holiday dates (YYYY-MM-DD) within a range for a country and region,
+   * expanding recurring holidays into every year the range covers (one on 29 February only into
+   * leap years)
+   */
+  async findDatesInRange(
+    countryCode: string,
+    region: string | null,
+    startDate: string,
+    endDate: string
+  ): Promise<string[]> {
+    const query = `
+      SELECT holiday_date, is_recurring
+      FROM holidays
+      WHERE country_code = $1
+        AND (region IS NULL OR region = $2)
+        AND (is_recurring OR holiday_date BETWEEN $3 AND $4)
+    `;
+    const result = await pool.query<{ holiday_date: string; is_recurring: boolean }>(query, [
+      countryCode,
+      region,
+      startDate,
+      endDate,
+    ]);
+
+    const startYear = parseInt(startDate.slice(0, 4), 10);
+    const endYear = parseInt(endDate.slice(0, 4), 10);
+    const dates = new Set<string>();
+
+    for (const row of result.rows) {
+      if (!row.is_recurring) {
+        dates.add(row.holiday_date);
+        continue;
+      }
+      const monthDay = row.holiday_date.slice(5);
+      for (let year = startYear; year <= endYear; year++) {
+        const date = `${year}-${monthDay}`;
+        if (date >= startDate && date <= endDate && isValidDate(date)) {
+          dates.add(date);
+        }
+      }
+    }
+
+    return [...dates].sort();
+  }
+
+  /**
+   * List the holiday dates within a range that apply to a user's country and region
+   */
+  async findDatesForUser(userId: number, startDate: string, endDate: string): Promise<string[]> {
+    const result = await pool.query<{ country_code: string; region: string | null }>(
+      'SELECT country_code, region FROM users WHERE id = $1',
+      [userId]
+    );
+    const user = result.rows[0];
+    if (!user) {
+      return [];
+    }
+    return this.findDatesInRange(user.country_code, user.region, startDate, endDate);
+  }
+}
@@ -0,0 +1,172 @@
+import type { PoolClient } from 'pg';
+import { pool } from '../config/database.js';
+import type { LeaveType } from '../types/index.js';
+import type { CreateLeaveTypeInput, UpdateLeaveTypeInput } from '../utils/validation.js';
+
+const LEAVE_TYPE_COLUMNS = `
+  id, code, name, is_paid, tracks_balance, requires_approval, requires_attachment,
+  default_days, carry_over_max, carry_over_expiry_months, payout_unused, is_active, created_at, updated_at
+`;
+
+export class LeaveTypeRepository {
+  /**
+   * Find all leave types
+   */
+  async findAll(activeOnly = false): Promise<LeaveType[]> {
+    const query = `
+      SELECT ${LEAVE_TYPE_COLUMNS}
+      FROM leave_types
+      ${activeOnly ? 'WHERE is_active' : ''}
+      ORDER BY id
+    `;
+    const result = await pool.query<LeaveType>(query);
+    return result.rows;
+  }
+
+  /**
+   * Find leave type by ID
+   */
+  async findById(id: number): Promise<LeaveType | null> {
+    const query = `SELECT ${LEAVE_TYPE_COLUMNS} FROM leave_types WHERE id = $1`;
+    const result = await pool.query<LeaveType>(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find leave type by code
+   */
+  async findByCode(code: string): Promise<LeaveType | null> {
+    const query = `SELECT ${LEAVE_TYPE_COLUMNS} FROM leave_types WHERE code = $1`;
+    const result = await pool.query<LeaveType>(query, [code]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Check if code exists
+   */
+  async codeExists(code: string, excludeId?: number): Promise<boolean> {
+    let query = 'SELECT 1 FROM leave_types WHERE code = $1';
+    const params: unknown[] = [code];
+
+    if (excludeId !== undefined) {
+      query += ' AND id != $2';
+      params.push(excludeId);
+    }
+
+    const result = await pool.query(query, params);
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Create a leave type and open balances for every existing user if it is balance-tracked
+   */
+  async create(data: CreateLeaveTypeInput): Promise<LeaveType> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      const result = await client.query<LeaveType>(
+        `INSERT INTO leave_types (
+           code, name, is_paid, tracks_balance, requires_approval, requires_attachment, default_days,
+           carry_over_max, carry_over_expiry_months, payout_unused
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         RETURNING ${LEAVE_TYPE_COLUMNS}`,
+        [
+          data.code,
+          data.name,
+          data.is_paid,
+          data.tracks_balance,
+          data.requires_approval,
+          data.requires_attachment,
+          data.default_days,
+          data.carry_over_max,
+          data.carry_over_expiry_months,
+          data.payout_unused,
+        ]
+      );
+      const leaveType = result.rows[0];
+      if (leaveType.tracks_balance) {
+        await this.openBalances(client, leaveType.id);
+      }
+      await client.query('COMMIT');
+      return leaveType;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Update a leave type. Turning on balance tracking opens balances for users that lack one.
+   */
+  async update(id: number, data: UpdateLeaveTypeInput): Promise<LeaveType | null> {
+    const updates: string[] = [];
+    const values: unknown[] = [];
+    let paramCount = 1;
+
+    const fields = [
+      'name',
+      'is_paid',
+      'tracks_balance',
+      'requires_approval',
+      'requires_attachment',
+      'default_days',
+      'carry_over_max',
+      'carry_over_expiry_months',
+      'payout_unused',
+      'is_active',
+    ] as const;
+    for (const field of fields) {
+      if (data[field] !== undefined) {
+        updates.push(`${field} = $${paramCount++}`);
+        values.push(data[field]);
+      }
+    }
+
+    if (updates.length === 0) {
+      return this.findById(id);
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      values.push(id);
+      const result = await client.query<LeaveType>(
+        `UPDATE leave_types
+         SET ${updates.join(', ')}
+         WHERE id = $${paramCount}
+         RETURNING ${LEAVE_TYPE_COLUMNS}`,
+        values
+      );
+      const leaveType = result.rows[0];
+      if (leaveType?.tracks_balance) {
+        await this.openBalances(client, leaveType.id);
+      }
+      await client.query('COMMIT');
+      return leaveType || null;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Post the current year's default allowance for every user that has not been given it yet
+   */
+  private async openBalances(client: PoolClient, leaveTypeId: number): Promise<void> {
+    await client.query(
+      `INSERT INTO balance_transactions (user_id, leave_type_id, year, kind, days)
+       SELECT u.id, lt.id, EXTRACT(YEAR FROM CURRENT_DATE), 'allowance', lt.default_days
+       FROM users u CROSS JOIN leave_types lt
+       WHERE lt.id = $1
+       ON CONFLICT DO NOTHING`,
+      [leaveTypeId]
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const pool = vi.hoisted(() => ({ query: vi.fn(), connect: vi.fn() }));
+
+vi.mock('../config/database.js', () => ({ pool }));
+
+const { NotificationOutboxRepository } = await import('./notificationOutboxRepository.js');
+
+const repository = new NotificationOutboxRepository();
+
+function statement(call = 0): string {
+  return (pool.query.mock.calls[call][0] as string).replace(/\s+/g, ' ').trim();
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  pool.query.mockResolvedValue({ rows: [], rowCount: 0 });
+});
+
+describe('NotificationOutboxRepository.claimDue', () => {
+  it('takes due pending messages no other run holds and leases them for the given time', async () => {
+    await repository.claimDue(50, 300);
+
+    const sql = statement();
+    expect(pool.query.mock.calls[0][1]).toEqual([50, 300]);
+    // The lease: claimed messages are not due again until it is over
+    expect(sql).toMatch(/^UPDATE notification_outbox SET next_attempt_at = CURRENT_TIMESTAMP \+ \$2 \* INTERVAL '1 second'/);
+    expect(sql).toContain("WHERE status = 'pending' AND next_attempt_at <= CURRENT_TIMESTAMP");
+    expect(sql).toContain('LIMIT $1 FOR UPDATE SKIP LOCKED');
+  });
+
+  it('returns the claimed messages oldest first', async () => {
+    pool.query.mockResolvedValue({ rows: [{ id: 7 }, { id: 3 }, { id: 5 }], rowCount: 3 });
+
+    const claimed = await repository.claimDue(50, 300);
+
+    expect(claimed.map((message) => message.id)).toEqual([3, 5, 7]);
+  });
+});
+
+describe('NotificationOutboxRepository.markFailed', () => {
+  it('puts a message back as pending until it is retried', async () => {
+    const retryAt = new Date('2026-03-02T08:01:00Z');
+
+    await repository.markFailed(1, 'SMTP RCPT failed', retryAt);
+
+    expect(pool.query.mock.calls[0][1]).toEqual([1, 'SMTP RCPT failed', retryAt]);
+    expect(statement()).toContain("status = CASE WHEN $3::TIMESTAMPTZ IS NULL THEN 'failed' ELSE 'pending' END");
+    expect(statement()).toContain('attempts = attempts + 1');
+  });
+
+  it('fails a message for good without a retry time', async () => {
+    await repository.markFailed(1, 'SMTP RCPT failed', null);
+
+    expect(pool.query.mock.calls[0][1]).toEqual([1, 'SMTP RCPT failed', null]);
+  });
+});
@@ -0,0 +1,101 @@
+import { pool } from '../config/database.js';
+import type { NotificationEvent, OutboxMessage } from '../types/index.js';
+
+const OUTBOX_COLUMNS = `
+  id, event, request_id, recipient_id, recipient_name, recipient_email, subject, body, status,
+  attempts, last_error, next_attempt_at, sent_at, created_at
+`;
+
+export interface NewOutboxMessage {
+  event: NotificationEvent;
+  requestId: number | null;
+  recipientId: number | null;
+  recipientName: string;
+  recipientEmail: string;
+  subject: string;
+  body: string;
+}
+
+export class NotificationOutboxRepository {
+  /**
+   * Queue messages for sending, all or none of them
+   */
+  async enqueue(messages: NewOutboxMessage[]): Promise<void> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      for (const message of messages) {
+        await client.query(
+          `INSERT INTO notification_outbox (event, request_id, recipient_id, recipient_name, recipient_email, subject, body)
+           VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+          [
+            message.event,
+            message.requestId,
+            message.recipientId,
+            message.recipientName,
+            message.recipientEmail,
+            message.subject,
+            message.body,
+          ]
+        );
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Take up to limit messages that are due, oldest first, for sending. They are put off for
+   * leaseSeconds so no other run takes them while they are sent; markSent or markFailed settles
+   * them (a run that dies leaves them to be taken again once the lease is over).
+   */
+  async claimDue(limit: number, leaseSeconds: number): Promise<OutboxMessage[]> {
+    const query = `
+      UPDATE notification_outbox
+      SET next_attempt_at = CURRENT_TIMESTAMP + $2 * INTERVAL '1 second'
+      WHERE id IN (
+        SELECT id FROM notification_outbox
+        WHERE status = 'pending' AND next_attempt_at <= CURRENT_TIMESTAMP
+        ORDER BY next_attempt_at, id
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING ${OUTBOX_COLUMNS}
+    `;
+    const result = await pool.query<OutboxMessage>(query, [limit, leaseSeconds]);
+    // RETURNING keeps no order
+    return result.rows.sort((a, b) => a.id - b.id);
+  }
+
+  /**
+   * Record that a message was sent
+   */
+  async markSent(id: number): Promise<void> {
+    await pool.query(
+      `UPDATE notification_outbox
+       SET status = 'sent', attempts = attempts + 1, last_error = NULL, sent_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [id]
+    );
+  }
+
+  /**
+   * Record a failed attempt to send a message, to be tried again at retryAt (never if null)
+   */
+  async markFailed(id: number, error: string, retryAt: Date | null): Promise<void> {
+    await pool.query(
+      `UPDATE notification_outbox
+       SET status = CASE WHEN $3::TIMESTAMPTZ IS NULL THEN 'failed' ELSE 'pending' END,
+           attempts = attempts + 1,
+           last_error = $2,
+           next_attempt_at = COALESCE($3::TIMESTAMPTZ, next_attempt_at)
+       WHERE id = $1`,
+      [id, error, retryAt]
+    );
+  }
+}
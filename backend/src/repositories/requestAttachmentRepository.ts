@@ -0,0 +1,81 @@
+import { pool } from '../config/database.js';
+import type { RequestAttachment, StoredAttachment } from '../types/index.js';
+
+const ATTACHMENT_COLUMNS = `
+  a.id, a.request_id, a.uploaded_by, u.name as uploaded_by_name, a.file_name, a.content_type,
+  a.size_bytes, a.created_at
+`;
+
+export class RequestAttachmentRepository {
+  /**
+   * Find the attachments of a request, oldest first
+   */
+  async findByRequestId(requestId: number): Promise<RequestAttachment[]> {
+    const query = `
+      SELECT ${ATTACHMENT_COLUMNS}
+      FROM request_attachments a
+      LEFT JOIN users u ON u.id = a.uploaded_by
+      WHERE a.request_id = $1
+      ORDER BY a.created_at, a.id
+    `;
+    const result = await pool.query<RequestAttachment>(query, [requestId]);
+    return result.rows;
+  }
+
+  /**
+   * Find attachment by ID, with where its file is stored
+   */
+  async findById(id: number): Promise<StoredAttachment | null> {
+    const query = `
+      SELECT ${ATTACHMENT_COLUMNS}, a.storage_key
+      FROM request_attachments a
+      LEFT JOIN users u ON u.id = a.uploaded_by
+      WHERE a.id = $1
+    `;
+    const result = await pool.query<StoredAttachment>(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Storage keys of the files attached to a request, or to any request of a user
+   */
+  async findStorageKeys(filter: { requestId: number } | { userId: number }): Promise<string[]> {
+    const query = 'requestId' in filter
+      ? 'SELECT storage_key FROM request_attachments WHERE request_id = $1'
+      : `SELECT a.storage_key
+         FROM request_attachments a
+         JOIN vacation_requests vr ON vr.id = a.request_id
+         WHERE vr.user_id = $1`;
+    const result = await pool.query<{ storage_key: string }>(
+      query,
+      ['requestId' in filter ? filter.requestId : filter.userId]
+    );
+    return result.rows.map((row) => row.storage_key);
+  }
+
+  /**
+   * Record a stored file as attached to a request
+   */
+  async create(
+    requestId: number,
+    uploadedBy: number,
+    file: { fileName: string; contentType: string; sizeBytes: number; storageKey: string }
+  ): Promise<RequestAttachment> {
+    const result = await pool.query<{ id: number }>(
+      `INSERT INTO request_attachments (request_id, uploaded_by, file_name, content_type, size_bytes, storage_key)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING id`,
+      [requestId, uploadedBy, file.fileName, file.contentType, file.sizeBytes, file.storageKey]
+    );
+    const { storage_key: _storageKey, ...attachment } = (await this.findById(result.rows[0].id)) as StoredAttachment;
+    return attachment;
+  }
+
+  /**
+   * Delete an attachment's record (its file is removed separately)
+   */
+  async delete(id: number): Promise<boolean> {
+    const result = await pool.query('DELETE FROM request_attachments WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+}
@@ -0,0 +1,50 @@
+import { pool } from '../config/database.js';
+import type { RequestComment } from '../types/index.js';
+
+const COMMENT_COLUMNS = `
+  c.id, c.request_id, c.author_id, u.name as author_name, u.role as author_role, c.body, c.created_at
+`;
+
+export class RequestCommentRepository {
+  /**
+   * Find the comments on a request, oldest first
+   */
+  async findByRequestId(requestId: number): Promise<RequestComment[]> {
+    const query = `
+      SELECT ${COMMENT_COLUMNS}
+      FROM request_comments c
+      LEFT JOIN users u ON u.id = c.author_id
+      WHERE c.request_id = $1
+      ORDER BY c.created_at, c.id
+    `;
+    const result = await pool.query<RequestComment>(query, [requestId]);
+    return result.rows;
+  }
+
+  /**
+   * Find comment by ID
+   */
+  async findById(id: number): Promise<RequestComment | null> {
+    const query = `
+      SELECT ${COMMENT_COLUMNS}
+      FROM request_comments c
+      LEFT JOIN users u ON u.id = c.author_id
+      WHERE c.id = $1
+    `;
+    const result = await pool.query<RequestComment>(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Add a comment to a request
+   */
+  async create(requestId: number, authorId: number, body: string): Promise<RequestComment> {
+    const result = await pool.query<{ id: number }>(
+      `INSERT INTO request_comments (request_id, author_id, body)
+       VALUES ($1, $2, $3)
+       RETURNING id`,
+      [requestId, authorId, body]
+    );
+    return (await this.findById(result.rows[0].id)) as RequestComment;
+  }
+}
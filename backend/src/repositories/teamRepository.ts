@@ -0,0 +1,84 @@
+import { pool } from '../config/database.js';
+import type { Team } from '../types/index.js';
+import type { TeamInput, UpdateTeamInput } from '../utils/validation.js';
+
+const TEAM_COLUMNS = `
+  t.id, t.name, t.min_staffing, t.created_at, t.updated_at,
+  (SELECT COUNT(*)::INTEGER FROM users u WHERE u.team_id = t.id) as member_count
+`;
+
+export class TeamRepository {
+  /**
+   * Find all teams with their member counts
+   */
+  async findAll(): Promise<Team[]> {
+    const query = `
+      SELECT ${TEAM_COLUMNS}
+      FROM teams t
+      ORDER BY t.name
+    `;
+    const result = await pool.query<Team>(query);
+    return result.rows;
+  }
+
+  /**
+   * Find team by ID
+   */
+  async findById(id: number): Promise<Team | null> {
+    const query = `
+      SELECT ${TEAM_COLUMNS}
+      FROM teams t
+      WHERE t.id = $1
+    `;
+    const result = await pool.query<Team>(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Create a team
+   */
+  async create(data: TeamInput): Promise<Team> {
+    const result = await pool.query<{ id: number }>(
+      'INSERT INTO teams (name, min_staffing) VALUES ($1, $2) RETURNING id',
+      [data.name, data.min_staffing]
+    );
+    return (await this.findById(result.rows[0].id)) as Team;
+  }
+
+  /**
+   * Rename a team and/or change its minimum staffing
+   */
+  async update(id: number, data: UpdateTeamInput): Promise<Team | null> {
+    const updates: string[] = [];
+    const values: unknown[] = [];
+    let paramCount = 1;
+
+    if (data.name !== undefined) {
+      updates.push(`name = $${paramCount++}`);
+      values.push(data.name);
+    }
+    if (data.min_staffing !== undefined) {
+      updates.push(`min_staffing = $${paramCount++}`);
+      values.push(data.min_staffing);
+    }
+
+    if (updates.length === 0) {
+      return this.findById(id);
+    }
+
+    values.push(id);
+    const result = await pool.query(`UPDATE teams SET ${updates.join(', ')} WHERE id = $${paramCount}`, values);
+    if ((result.rowCount ?? 0) === 0) {
+      return null;
+    }
+    return this.findById(id);
+  }
+
+  /**
+   * Delete a team (its members are left without a team)
+   */
+  async delete(id: number): Promise<boolean> {
+    const result = await pool.query('DELETE FROM teams WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+}
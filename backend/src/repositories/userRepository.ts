@@ -1,15 +1,22 @@
-import { pool } from '../config/database.js';
-import type { User, UserWithPassword } from '../types/index.js';
+import type { PoolClient } from 'pg';
+import { pool, queryInBatches } from '../config/database.js';
+import { CARRIED_AVAILABLE } from './balanceLedgerRepository.js';
+import { roundDays } from '../utils/workingDays.js';
+import type { BalanceBreakdown, CalendarMember, LeaveBalance, User, UserWithNames, UserWithPassword } from '../types/index.js';
 import type { CreateUserInput, UpdateUserInput } from '../utils/validation.js';
 
+const USER_COLUMNS = `
+  id, name, email, employee_code, role, country_code, region, hire_date,
+  team_id, manager_id, is_super_admin, created_at, updated_at
+`;
+
 export class UserRepository {
   /**
    * Find all users (without password hashes)
    */
   async findAll(): Promise<User[]> {
     const query = `
-      SELECT id, name, email, employee_code, role, vacation_days_total, 
-             vacation_days_used, created_at, updated_at
+      SELECT ${USER_COLUMNS}
       FROM users
       ORDER BY created_at DESC
     `;
@@ -17,13 +24,28 @@ export class UserRepository {
     return result.rows;
   }
 
+  /**
+   * Stream the users findAll would return, in batches, with their team and manager names
+   */
+  streamAll(): AsyncGenerator<UserWithNames[]> {
+    const query = `
+      SELECT u.id, u.name, u.email, u.employee_code, u.role, u.country_code, u.region, u.hire_date,
+             u.team_id, t.name as team_name, u.manager_id, m.name as manager_name, u.is_super_admin,
+             u.created_at, u.updated_at
+      FROM users u
+      LEFT JOIN teams t ON t.id = u.team_id
+      LEFT JOIN users m ON m.id = u.manager_id
+      ORDER BY u.created_at DESC
+    `;
+    return queryInBatches<UserWithNames>(query);
+  }
+
   /**
    * Find user by ID
    */
   async findById(id: number): Promise<User | null> {
     const query = `
-      SELECT id, name, email, employee_code, role, vacation_days_total,
-             vacation_days_used, created_at, updated_at
+      SELECT ${USER_COLUMNS}
       FROM users
       WHERE id = $1
     `;
@@ -31,13 +53,39 @@ export class UserRepository {
     return result.rows[0] || null;
   }
 
+  /**
+   * Find the users shown on the team calendar by name: one team's members or one user
+   * (everyone if neither is given)
+   */
+  async findCalendarMembers(filter: { teamId?: number; userId?: number } = {}): Promise<CalendarMember[]> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    if (filter.teamId !== undefined) {
+      values.push(filter.teamId);
+      conditions.push(`u.team_id = $${values.length}`);
+    }
+    if (filter.userId !== undefined) {
+      values.push(filter.userId);
+      conditions.push(`u.id = $${values.length}`);
+    }
+
+    const query = `
+      SELECT u.id, u.name, u.team_id, t.name as team_name
+      FROM users u
+      LEFT JOIN teams t ON t.id = u.team_id
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY t.name NULLS LAST, u.name
+    `;
+    const result = await pool.query<CalendarMember>(query, values);
+    return result.rows;
+  }
+
   /**
    * Find user by email (with password hash for authentication)
    */
   async findByEmail(email: string): Promise<UserWithPassword | null> {
     const query = `
-      SELECT id, name, email, employee_code, password_hash, role, 
-             vacation_days_total, vacation_days_used, created_at, updated_at
+      SELECT ${USER_COLUMNS}, password_hash
       FROM users
       WHERE email = $1
     `;
@@ -50,8 +98,7 @@ export class UserRepository {
    */
   async findByEmployeeCode(employeeCode: string): Promise<User | null> {
     const query = `
-      SELECT id, name, email, employee_code, role, vacation_days_total,
-             vacation_days_used, created_at, updated_at
+      SELECT ${USER_COLUMNS}
       FROM users
       WHERE employee_code = $1
     `;
@@ -60,23 +107,32 @@ export class UserRepository {
   }
 
   /**
-   * Create a new user
+   * Create a new user with balances for every balance-tracked leave type
    */
   async create(data: CreateUserInput & { password_hash: string }): Promise<User> {
-    const query = `
-      INSERT INTO users (name, email, employee_code, password_hash, role)
-      VALUES ($1, $2, $3, $4, $5)
-      RETURNING id, name, email, employee_code, role, vacation_days_total,
-                vacation_days_used, created_at, updated_at
-    `;
-    const result = await pool.query<User>(query, [
-      data.name,
-      data.email,
-      data.employee_code,
-      data.password_hash,
-      data.role || 'employee',
-    ]);
-    return result.rows[0];
+    return (await this.createMany([data]))[0];
+  }
+
+  /**
+   * Create several users in one transaction, so either all of them are created or none
+   */
+  async createMany(users: (CreateUserInput & { password_hash: string })[]): Promise<User[]> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      const created: User[] = [];
+      for (const data of users) {
+        created.push(await this.insert(client, data));
+      }
+      await client.query('COMMIT');
+      return created;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
   }
 
   /**
@@ -99,6 +155,30 @@ export class UserRepository {
       updates.push(`password_hash = $${paramCount++}`);
       values.push(data.password_hash);
     }
+    if (data.country_code !== undefined) {
+      updates.push(`country_code = $${paramCount++}`);
+      values.push(data.country_code.toUpperCase());
+    }
+    if (data.region !== undefined) {
+      updates.push(`region = $${paramCount++}`);
+      values.push(data.region || null);
+    }
+    if (data.hire_date !== undefined) {
+      updates.push(`hire_date = $${paramCount++}`);
+      values.push(data.hire_date);
+    }
+    if (data.team_id !== undefined) {
+      updates.push(`team_id = $${paramCount++}`);
+      values.push(data.team_id);
+    }
+    if (data.manager_id !== undefined) {
+      updates.push(`manager_id = $${paramCount++}`);
+      values.push(data.manager_id);
+    }
+    if (data.is_super_admin !== undefined) {
+      updates.push(`is_super_admin = $${paramCount++}`);
+      values.push(data.is_super_admin);
+    }
 
     if (updates.length === 0) {
       return this.findById(id);
@@ -109,14 +189,32 @@ export class UserRepository {
       UPDATE users
       SET ${updates.join(', ')}
       WHERE id = $${paramCount}
-      RETURNING id, name, email, employee_code, role, vacation_days_total,
-                vacation_days_used, created_at, updated_at
+      RETURNING ${USER_COLUMNS}
     `;
     
     const result = await pool.query<User>(query, values);
     return result.rows[0] || null;
   }
 
+  /**
+   * IDs of a user and everyone above them in the reporting line, nearest manager first
+   */
+  async findReportingLine(userId: number): Promise<number[]> {
+    const query = `
+      WITH RECURSIVE line AS (
+        SELECT id, manager_id, 0 as depth FROM users WHERE id = $1
+        UNION ALL
+        SELECT u.id, u.manager_id, line.depth + 1
+        FROM users u
+        JOIN line ON u.id = line.manager_id
+        WHERE line.depth < 50
+      )
+      SELECT id FROM line ORDER BY depth
+    `;
+    const result = await pool.query<{ id: number }>(query, [userId]);
+    return result.rows.map((row) => row.id);
+  }
+
   /**
    * Delete a user (cascade deletes vacation requests)
    */
@@ -159,27 +257,119 @@ export class UserRepository {
   }
 
   /**
-   * Update user's vacation days used
+   * Open a balance for the year by posting the default allowance to the ledger, for every user
+   * and balance-tracked leave type that has not been given it yet
    */
-  async updateVacationDaysUsed(userId: number, daysToAdd: number): Promise<void> {
+  async openBalances(year: number): Promise<number> {
     const query = `
-      UPDATE users
-      SET vacation_days_used = vacation_days_used + $1
-      WHERE id = $2
+      INSERT INTO balance_transactions (user_id, leave_type_id, year, kind, days)
+      SELECT u.id, lt.id, $1, 'allowance', lt.default_days
+      FROM users u CROSS JOIN leave_types lt
+      WHERE lt.tracks_balance
+      ON CONFLICT DO NOTHING
     `;
-    await pool.query(query, [daysToAdd, userId]);
+    const result = await pool.query(query, [year]);
+    return result.rowCount ?? 0;
   }
 
   /**
-   * Get user's remaining vacation days
+   * Get user's balance for a leave type on a date, in the year the date falls in. Days already
+   * asked for in pending requests are reserved, so they are not available for new requests;
+   * pass the request being edited or approved to leave it out of the reservation. Runs in the
+   * caller's transaction when given its client.
    */
-  async getRemainingVacationDays(userId: number): Promise<number> {
+  async getRemainingVacationDays(
+    userId: number,
+    leaveTypeId: number,
+    onDate: string,
+    excludeRequestId?: number,
+    client: Pick<PoolClient, 'query'> = pool
+  ): Promise<BalanceBreakdown> {
     const query = `
-      SELECT (vacation_days_total - vacation_days_used) as remaining
-      FROM users
-      WHERE id = $1
+      SELECT
+        COALESCE((
+          SELECT days_used + carried_used FROM leave_balances
+          WHERE user_id = $1 AND leave_type_id = $2 AND year = EXTRACT(YEAR FROM $3::DATE)
+        ), 0) as used,
+        COALESCE((
+          SELECT (days_total - days_used) + ${CARRIED_AVAILABLE('$3')} FROM leave_balances
+          WHERE user_id = $1 AND leave_type_id = $2 AND year = EXTRACT(YEAR FROM $3::DATE)
+        ), 0) as remaining,
+        (
+          SELECT COALESCE(SUM(days_requested), 0) FROM vacation_requests
+          WHERE user_id = $1 AND leave_type_id = $2 AND status = 'pending'
+            AND EXTRACT(YEAR FROM start_date) = EXTRACT(YEAR FROM $3::DATE)
+            AND id IS DISTINCT FROM $4::INTEGER
+        ) as pending
+    `;
+    const result = await client.query<{ used: number; remaining: number; pending: number }>(query, [
+      userId,
+      leaveTypeId,
+      onDate,
+      excludeRequestId ?? null,
+    ]);
+    const { used, remaining, pending } = result.rows[0];
+    return { used, pending, available: roundDays(remaining - pending) };
+  }
+
+  /**
+   * Get user's balances for every balance-tracked leave type in a year (defaults to the current year)
+   */
+  async getBalances(userId: number, year: number = new Date().getFullYear()): Promise<LeaveBalance[]> {
+    const query = `
+      SELECT lt.id as leave_type_id, lt.code as leave_type_code, lt.name as leave_type_name,
+             lb.year, lb.days_total, lb.days_used, lb.days_carried, lb.carried_used, lb.carry_expires_on,
+             ${CARRIED_AVAILABLE('CURRENT_DATE')} as carried_remaining,
+             (lb.days_total - lb.days_used) + ${CARRIED_AVAILABLE('CURRENT_DATE')} as days_remaining,
+             COALESCE(p.days_pending, 0) as days_pending,
+             (lb.days_total - lb.days_used) + ${CARRIED_AVAILABLE('CURRENT_DATE')}
+               - COALESCE(p.days_pending, 0) as days_available
+      FROM leave_balances lb
+      JOIN leave_types lt ON lt.id = lb.leave_type_id
+      LEFT JOIN (
+        SELECT leave_type_id, SUM(days_requested) as days_pending
+        FROM vacation_requests
+        WHERE user_id = $1 AND status = 'pending' AND EXTRACT(YEAR FROM start_date) = $2
+        GROUP BY leave_type_id
+      ) p ON p.leave_type_id = lb.leave_type_id
+      WHERE lb.user_id = $1 AND lb.year = $2 AND lt.tracks_balance AND lt.is_active
+      ORDER BY lt.id
     `;
-    const result = await pool.query<{ remaining: number }>(query, [userId]);
-    return result.rows[0]?.remaining ?? 0;
+    const result = await pool.query<LeaveBalance>(query, [userId, year]);
+    return result.rows;
+  }
+
+  /**
+   * Insert a user and open their balances, inside the caller's transaction
+   */
+  private async insert(client: PoolClient, data: CreateUserInput & { password_hash: string }): Promise<User> {
+    const query = `
+      INSERT INTO users (
+        name, email, employee_code, password_hash, role, country_code, region, hire_date,
+        team_id, manager_id, is_super_admin
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, COALESCE($8::DATE, CURRENT_DATE), $9, $10, $11)
+      RETURNING ${USER_COLUMNS}
+    `;
+    const result = await client.query<User>(query, [
+      data.name,
+      data.email,
+      data.employee_code,
+      data.password_hash,
+      data.role || 'employee',
+      data.country_code.toUpperCase(),
+      data.region || null,
+      data.hire_date || null,
+      data.team_id ?? null,
+      data.manager_id ?? null,
+      data.is_super_admin ?? false,
+    ]);
+    await client.query(
+      `INSERT INTO balance_transactions (user_id, leave_type_id, year, kind, days)
+       SELECT $1, id, EXTRACT(YEAR FROM CURRENT_DATE), 'allowance', default_days FROM leave_types WHERE tracks_balance
+       ON CONFLICT DO NOTHING`,
+      [result.rows[0].id]
+    );
+    return result.rows[0];
   }
 }
@@ -0,0 +1,222 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const client = vi.hoisted(() => ({
+  query: vi.fn(),
+  release: vi.fn(),
+}));
+
+vi.mock('../config/database.js', () => ({
+  pool: { connect: vi.fn(async () => client), query: vi.fn() },
+  queryInBatches: vi.fn(),
+}));
+
+const { pool } = await import('../config/database.js');
+const { InsufficientBalanceError, VacationRequestRepository } = await import('./vacationRequestRepository.js');
+
+const repository = new VacationRequestRepository();
+
+const APPROVAL = {
+  stepOrder: 2,
+  final: true,
+  approvedBy: 1,
+  onBehalfOf: null,
+  notes: 'Enjoy',
+  deduction: { leaveTypeId: 3, days: 2 },
+};
+
+/**
+ * Answer the queries of a transaction from a list of [pattern, result] pairs, in order of matching
+ */
+function answer(results: [RegExp, { rows?: unknown[]; rowCount?: number }][]) {
+  client.query.mockImplementation(async (sql: string) => {
+    const match = results.find(([pattern]) => pattern.test(sql));
+    return { rows: [], rowCount: 0, ...match?.[1] };
+  });
+}
+
+function statements(): string[] {
+  return client.query.mock.calls.map(([sql]) => (sql as string).replace(/\s+/g, ' ').trim());
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('VacationRequestRepository.approve', () => {
+  it('signs off the step, approves the request and deducts its days in one transaction', async () => {
+    answer([
+      [/FOR UPDATE/, { rows: [{ user_id: 5, start_date: '2025-07-07' }], rowCount: 1 }],
+      [/UPDATE request_approval_steps/, { rowCount: 1 }],
+      [/SET status = 'approved'/, { rows: [{ id: 10, status: 'approved' }], rowCount: 1 }],
+    ]);
+
+    const approved = await repository.approve(10, APPROVAL);
+
+    expect(approved).toEqual({ id: 10, status: 'approved' });
+    const sql = statements();
+    expect(sql[0]).toBe('BEGIN');
+    expect(sql[1]).toMatch(/FOR UPDATE/);
+    expect(sql[2]).toMatch(/UPDATE request_approval_steps/);
+    expect(sql[3]).toMatch(/SET status = 'approved'.*WHERE id = \$1 AND status = 'pending'/);
+    expect(sql[4]).toMatch(/INSERT INTO balance_transactions/);
+    expect(sql[5]).toBe('COMMIT');
+    expect(client.query.mock.calls[4][1]).toEqual([5, 3, 2, '2025-07-07', 10, 1]);
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it('changes nothing when the request is no longer pending', async () => {
+    answer([]);
+
+    expect(await repository.approve(10, APPROVAL)).toBeNull();
+    expect(statements()).toEqual(['BEGIN', expect.stringMatching(/FOR UPDATE/), 'ROLLBACK']);
+  });
+
+  it('records no staffing override when the step was already signed off', async () => {
+    answer([[/FOR UPDATE/, { rows: [{ user_id: 5, start_date: '2025-07-07' }], rowCount: 1 }]]);
+
+    expect(await repository.approve(10, { ...APPROVAL, staffingOverrideNote: 'Cover arranged' })).toBeNull();
+    const sql = statements();
+    expect(sql.at(-1)).toBe('ROLLBACK');
+    expect(sql.some((statement) => /staffing_override/.test(statement))).toBe(false);
+  });
+
+  it('keeps the staffing override with the sign-off of a step that is not the last', async () => {
+    answer([
+      [/FOR UPDATE/, { rows: [{ user_id: 5, start_date: '2025-07-07' }], rowCount: 1 }],
+      [/UPDATE request_approval_steps/, { rowCount: 1 }],
+      [/^\s*SELECT/, { rows: [{ id: 10, status: 'pending' }], rowCount: 1 }],
+    ]);
+
+    const signedOff = await repository.approve(10, { ...APPROVAL, final: false, staffingOverrideNote: 'Cover arranged' });
+
+    expect(signedOff).toEqual({ id: 10, status: 'pending' });
+    const sql = statements();
+    expect(sql[3]).toMatch(/staffing_override_note/);
+    expect(sql.some((statement) => /balance_transactions|SET status/.test(statement))).toBe(false);
+    expect(sql.at(-1)).toBe('COMMIT');
+  });
+
+  it('rolls back and rethrows when a write fails', async () => {
+    client.query.mockImplementation(async (sql: string) => {
+      if (/INSERT INTO balance_transactions/.test(sql)) {
+        throw new Error('connection lost');
+      }
+      return { rows: [{ user_id: 5, start_date: '2025-07-07', id: 10 }], rowCount: 1 };
+    });
+
+    await expect(repository.approve(10, APPROVAL)).rejects.toThrow('connection lost');
+    expect(statements().at(-1)).toBe('ROLLBACK');
+    expect(client.release).toHaveBeenCalled();
+  });
+});
+
+describe('VacationRequestRepository.cancel', () => {
+  it('cancels the request and refunds its deductions in one transaction', async () => {
+    answer([[/SET status = 'cancelled'/, { rows: [{ id: 10, status: 'cancelled' }], rowCount: 1 }]]);
+
+    expect(await repository.cancel(10, 4)).toEqual({ id: 10, status: 'cancelled' });
+    const sql = statements();
+    expect(sql[0]).toBe('BEGIN');
+    expect(sql[1]).toMatch(/SET status = 'cancelled'.*WHERE id = \$2 AND status = 'approved'/);
+    expect(sql[2]).toMatch(/INSERT INTO balance_transactions.*'refund'/);
+    expect(sql[3]).toBe('COMMIT');
+    expect(client.query.mock.calls[2][1]).toEqual([10, 4]);
+  });
+
+  it('refunds nothing when the request is no longer approved', async () => {
+    answer([]);
+
+    expect(await repository.cancel(10, 4)).toBeNull();
+    expect(statements()).toEqual(['BEGIN', expect.stringMatching(/SET status = 'cancelled'/), 'ROLLBACK']);
+  });
+
+  it('keeps the request approved when the refund fails', async () => {
+    client.query.mockImplementation(async (sql: string) => {
+      if (/INSERT INTO balance_transactions/.test(sql)) {
+        throw new Error('connection lost');
+      }
+      return { rows: [{ id: 10, status: 'cancelled' }], rowCount: 1 };
+    });
+
+    await expect(repository.cancel(10, 4)).rejects.toThrow('connection lost');
+    expect(statements().at(-1)).toBe('ROLLBACK');
+    expect(client.release).toHaveBeenCalled();
+  });
+});
+
+describe('VacationRequestRepository.updateStatus', () => {
+  it('leaves a request that is no longer pending as it is', async () => {
+    vi.mocked(pool.query).mockResolvedValue({ rows: [], rowCount: 0 } as never);
+
+    expect(await repository.updateStatus(10, 'rejected', 1, 'Busy week')).toBeNull();
+    const [sql, params] = vi.mocked(pool.query).mock.calls[0] as unknown as [string, unknown[]];
+    expect(sql.replace(/\s+/g, ' ')).toMatch(/WHERE id = \$4 AND status = 'pending'/);
+    expect(params).toEqual(['rejected', 1, 'Busy week', 10, null]);
+  });
+});
+
+describe('VacationRequestRepository.create', () => {
+  const DATA = {
+    start_date: '2025-07-07',
+    end_date: '2025-07-08',
+    duration_type: 'full_day' as const,
+  };
+  const CREATED = { id: 12, user_id: 5, leave_type_id: 1, start_date: '2025-07-07', days_requested: 2 };
+
+  it('checks the balance with the ledger locked before the request is committed', async () => {
+    answer([
+      [/INSERT INTO vacation_requests/, { rows: [CREATED], rowCount: 1 }],
+      [/as remaining/, { rows: [{ used: 0, remaining: 10, pending: 8 }], rowCount: 1 }],
+    ]);
+
+    expect(await repository.create(5, 1, DATA, 2, true)).toEqual(CREATED);
+    const sql = statements();
+    expect(sql[2]).toMatch(/FROM balance_transactions .* FOR UPDATE/);
+    expect(client.query.mock.calls[2][1]).toEqual([5, 1, '2025-07-07']);
+    // The balance leaves the new request itself out of what pending requests reserve
+    expect(client.query.mock.calls[3][1]).toEqual([5, 1, '2025-07-07', 12]);
+    expect(sql.at(-1)).toBe('COMMIT');
+  });
+
+  it('rolls the request back when the balance no longer covers it', async () => {
+    answer([
+      [/INSERT INTO vacation_requests/, { rows: [CREATED], rowCount: 1 }],
+      [/as remaining/, { rows: [{ used: 0, remaining: 10, pending: 9 }], rowCount: 1 }],
+    ]);
+
+    const created = repository.create(5, 1, DATA, 2, true);
+
+    await expect(created).rejects.toBeInstanceOf(InsufficientBalanceError);
+    await expect(created).rejects.toMatchObject({ balance: { used: 0, pending: 9, available: 1 } });
+    expect(statements().at(-1)).toBe('ROLLBACK');
+    expect(statements().some((statement) => /request_revisions/.test(statement))).toBe(false);
+  });
+
+  it('leaves the balance alone without reserve', async () => {
+    answer([[/INSERT INTO vacation_requests/, { rows: [CREATED], rowCount: 1 }]]);
+
+    await repository.create(5, 1, DATA, 2);
+
+    expect(statements().some((statement) => /balance_transactions/.test(statement))).toBe(false);
+  });
+});
+
+describe('VacationRequestRepository.update', () => {
+  it('checks the new days against the balance in the same transaction', async () => {
+    answer([
+      [
+        /UPDATE vacation_requests/,
+        { rows: [{ id: 10, user_id: 5, leave_type_id: 1, start_date: '2025-07-07', days_requested: 3 }], rowCount: 1 },
+      ],
+      [/as remaining/, { rows: [{ used: 0, remaining: 10, pending: 8 }], rowCount: 1 }],
+    ]);
+
+    await expect(repository.update(10, { end_date: '2025-07-09' }, 3, true)).rejects.toBeInstanceOf(
+      InsufficientBalanceError
+    );
+    const sql = statements();
+    expect(sql[2]).toMatch(/FOR UPDATE/);
+    expect(client.query.mock.calls[3][1]).toEqual([5, 1, '2025-07-07', 10]);
+    expect(sql.at(-1)).toBe('ROLLBACK');
+  });
+});
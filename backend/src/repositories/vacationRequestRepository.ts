@@ -1,20 +1,95 @@
-import { pool } from '../config/database.js';
-import type { VacationRequest, VacationRequestWithUser, RequestStatus } from '../types/index.js';
+import type { PoolClient } from 'pg';
+import { pool, queryInBatches } from '../config/database.js';
+import { HolidayRepository } from './holidayRepository.js';
+import { UserRepository } from './userRepository.js';
+import { REQUEST_APPROVAL_STEPS, SIGN_OFF_STEP } from './approvalChainRepository.js';
+import { INSERT_DEDUCTION, INSERT_REFUND, LOCK_LEDGER } from './balanceLedgerRepository.js';
+import { config } from '../config/env.js';
+import { countWorkingDays, dayFraction, requestsOverlap, roundDays, type RequestDuration } from '../utils/workingDays.js';
+import type {
+  BalanceBreakdown,
+  CalendarAbsence,
+  CalendarFeedEvent,
+  CoverageAbsence,
+  RequestRevision,
+  VacationRequest,
+  VacationRequestWithUser,
+  RequestStatus,
+} from '../types/index.js';
 import type { CreateVacationRequestInput, UpdateVacationRequestInput } from '../utils/validation.js';
 
+// Which requests findWithFilters returns
+export interface RequestFilters {
+  userId?: number;
+  reviewerIds?: number[];
+  status?: RequestStatus;
+  startDate?: string;
+  endDate?: string;
+  search?: string;
+}
+
+// A sign-off of a pending request
+export interface RequestApproval {
+  // The step signed off (null for a request with no steps, or one approved without them)
+  stepOrder: number | null;
+  // The last step approves the request
+  final: boolean;
+  approvedBy: number | null;
+  // The approver a delegate signs off for
+  onBehalfOf: number | null;
+  notes?: string;
+  // Why the request is approved although it leaves the team below its minimum staffing
+  staffingOverrideNote?: string;
+  // What the approval takes from the requester's balance (null if the leave type tracks none)
+  deduction: { leaveTypeId: number; days: number } | null;
+}
+
+// Thrown when a request reserving days from its requester's balance needs more than are available
+export class InsufficientBalanceError extends Error {
+  constructor(public balance: BalanceBreakdown) {
+    super('Insufficient balance');
+    this.name = 'InsufficientBalanceError';
+  }
+}
+
+const REQUEST_COLUMNS = `
+  id, user_id, leave_type_id, start_date, end_date, duration_type, half_day_period,
+  TO_CHAR(start_time, 'HH24:MI') AS start_time, TO_CHAR(end_time, 'HH24:MI') AS end_time,
+  days_requested, reason, status, manager_notes, approved_by, approved_on_behalf_of, approved_at,
+  staffing_override_by, staffing_override_note, applied_rule_id, applied_rule_name,
+  cancellation_requested_at, cancellation_reason, cancelled_by, cancelled_at, submitted_at, updated_at
+`;
+
+const REQUEST_WITH_USER_COLUMNS = `
+  vr.id, vr.user_id, vr.leave_type_id, vr.start_date, vr.end_date, vr.duration_type, vr.half_day_period,
+  TO_CHAR(vr.start_time, 'HH24:MI') AS start_time, TO_CHAR(vr.end_time, 'HH24:MI') AS end_time,
+  vr.days_requested, vr.reason, vr.status, vr.manager_notes, vr.approved_by, vr.approved_on_behalf_of, vr.approved_at,
+  vr.staffing_override_by, vr.staffing_override_note, vr.applied_rule_id, vr.applied_rule_name,
+  vr.cancellation_requested_at, vr.cancellation_reason, vr.cancelled_by, vr.cancelled_at,
+  vr.submitted_at, vr.updated_at,
+  u.name as user_name, u.email as user_email,
+  (SELECT name FROM users WHERE id = vr.approved_by) as approved_by_name,
+  (SELECT name FROM users WHERE id = vr.approved_on_behalf_of) as approved_on_behalf_of_name,
+  lt.code as leave_type_code, lt.name as leave_type_name,
+  ${REQUEST_APPROVAL_STEPS} as approval_steps,
+  (SELECT COUNT(*)::INTEGER FROM request_revisions WHERE request_id = vr.id) as revision_count,
+  (SELECT COUNT(*)::INTEGER FROM request_comments WHERE request_id = vr.id) as comment_count,
+  (SELECT COUNT(*)::INTEGER FROM request_attachments WHERE request_id = vr.id) as attachment_count
+`;
+
 export class VacationRequestRepository {
+  private holidayRepo = new HolidayRepository();
+  private userRepo = new UserRepository();
+
   /**
    * Find all vacation requests with user information
    */
   async findAll(): Promise<VacationRequestWithUser[]> {
     const query = `
-      SELECT 
-        vr.id, vr.user_id, vr.start_date, vr.end_date, vr.reason, 
-        vr.status, vr.manager_notes, vr.approved_by, vr.approved_at,
-        vr.submitted_at, vr.updated_at,
-        u.name as user_name, u.email as user_email
+      SELECT ${REQUEST_WITH_USER_COLUMNS}
       FROM vacation_requests vr
       JOIN users u ON vr.user_id = u.id
+      JOIN leave_types lt ON vr.leave_type_id = lt.id
       ORDER BY vr.submitted_at DESC
     `;
     const result = await pool.query<VacationRequestWithUser>(query);
@@ -26,8 +101,7 @@ export class VacationRequestRepository {
    */
   async findByUserId(userId: number): Promise<VacationRequest[]> {
     const query = `
-      SELECT id, user_id, start_date, end_date, reason, status, 
-             manager_notes, approved_by, approved_at, submitted_at, updated_at
+      SELECT ${REQUEST_COLUMNS}
       FROM vacation_requests
       WHERE user_id = $1
       ORDER BY submitted_at DESC
@@ -41,8 +115,7 @@ export class VacationRequestRepository {
    */
   async findById(id: number): Promise<VacationRequest | null> {
     const query = `
-      SELECT id, user_id, start_date, end_date, reason, status,
-             manager_notes, approved_by, approved_at, submitted_at, updated_at
+      SELECT ${REQUEST_COLUMNS}
       FROM vacation_requests
       WHERE id = $1
     `;
@@ -51,49 +124,285 @@ export class VacationRequestRepository {
   }
 
   /**
-   * Create a new vacation request
+   * Create a new vacation request, recording it as its first revision. With reserve, its days are
+   * checked against the requester's balance in the same transaction (see reserveDays).
    */
-  async create(userId: number, data: CreateVacationRequestInput): Promise<VacationRequest> {
+  async create(
+    userId: number,
+    leaveTypeId: number,
+    data: CreateVacationRequestInput,
+    daysRequested: number,
+    reserve = false
+  ): Promise<VacationRequest> {
     const query = `
-      INSERT INTO vacation_requests (user_id, start_date, end_date, reason, status)
-      VALUES ($1, $2, $3, $4, 'pending')
-      RETURNING id, user_id, start_date, end_date, reason, status,
-                manager_notes, approved_by, approved_at, submitted_at, updated_at
+      INSERT INTO vacation_requests (
+        user_id, leave_type_id, start_date, end_date, duration_type, half_day_period,
+        start_time, end_time, days_requested, reason, status
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'pending')
+      RETURNING ${REQUEST_COLUMNS}
     `;
-    const result = await pool.query<VacationRequest>(query, [
-      userId,
-      data.start_date,
-      data.end_date,
-      data.reason || null,
-    ]);
-    return result.rows[0];
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await client.query<VacationRequest>(query, [
+        userId,
+        leaveTypeId,
+        data.start_date,
+        data.end_date,
+        data.duration_type,
+        data.duration_type === 'half_day' ? data.half_day_period : null,
+        data.duration_type === 'hours' ? data.start_time : null,
+        data.duration_type === 'hours' ? data.end_time : null,
+        daysRequested,
+        data.reason || null,
+      ]);
+      if (reserve) {
+        await this.reserveDays(client, result.rows[0]);
+      }
+      await this.addRevision(client, result.rows[0].id);
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Check that a request just written in a transaction leaves its requester's balance for its leave
+   * type covering every pending request, with the ledger locked until the transaction ends so that
+   * requests made at the same time are checked one after the other. Throws
+   * InsufficientBalanceError, with the balance the request was checked against, if it does not.
+   */
+  private async reserveDays(client: PoolClient, request: VacationRequest): Promise<void> {
+    await client.query(LOCK_LEDGER, [request.user_id, request.leave_type_id, request.start_date]);
+    const balance = await this.userRepo.getRemainingVacationDays(
+      request.user_id,
+      request.leave_type_id,
+      request.start_date,
+      request.id,
+      client
+    );
+    if (request.days_requested > balance.available) {
+      throw new InsufficientBalanceError(balance);
+    }
   }
 
   /**
-   * Update vacation request status
+   * Record a request as it is now as its next revision
+   */
+  private async addRevision(client: PoolClient, requestId: number): Promise<void> {
+    await client.query(
+      `INSERT INTO request_revisions (
+         request_id, revision, leave_type_id, start_date, end_date, duration_type, half_day_period,
+         start_time, end_time, days_requested, reason
+       )
+       SELECT id, COALESCE((SELECT MAX(revision) FROM request_revisions WHERE request_id = $1), 0) + 1,
+              leave_type_id, start_date, end_date, duration_type, half_day_period,
+              start_time, end_time, days_requested, reason
+       FROM vacation_requests
+       WHERE id = $1`,
+      [requestId]
+    );
+  }
+
+  /**
+   * Find the revisions of a request, oldest (as submitted) first
+   */
+  async findRevisions(requestId: number): Promise<RequestRevision[]> {
+    const result = await pool.query<RequestRevision>(
+      `SELECT rr.id, rr.request_id, rr.revision, rr.leave_type_id, lt.name as leave_type_name,
+              rr.start_date, rr.end_date, rr.duration_type, rr.half_day_period,
+              TO_CHAR(rr.start_time, 'HH24:MI') AS start_time, TO_CHAR(rr.end_time, 'HH24:MI') AS end_time,
+              rr.days_requested, rr.reason, rr.created_at
+       FROM request_revisions rr
+       JOIN leave_types lt ON lt.id = rr.leave_type_id
+       WHERE rr.request_id = $1
+       ORDER BY rr.revision`,
+      [requestId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Update the status of a pending vacation request (onBehalfOf is the manager a delegate decided
+   * for); null if it is no longer pending
    */
   async updateStatus(
     id: number, 
     status: RequestStatus, 
-    managerId: number,
-    managerNotes?: string
+    managerId: number | null,
+    managerNotes?: string,
+    onBehalfOf: number | null = null
   ): Promise<VacationRequest | null> {
     const query = `
       UPDATE vacation_requests
-      SET status = $1, approved_by = $2, approved_at = CURRENT_TIMESTAMP, manager_notes = $3
-      WHERE id = $4
-      RETURNING id, user_id, start_date, end_date, reason, status,
-                manager_notes, approved_by, approved_at, submitted_at, updated_at
+      SET status = $1, approved_by = $2, approved_at = CURRENT_TIMESTAMP, manager_notes = $3,
+          approved_on_behalf_of = $5
+      WHERE id = $4 AND status = 'pending'
+      RETURNING ${REQUEST_COLUMNS}
     `;
     const result = await pool.query<VacationRequest>(query, [
       status, 
       managerId, 
       managerNotes || null, 
-      id
+      id,
+      onBehalfOf
     ]);
     return result.rows[0] || null;
   }
 
+  /**
+   * Record the approval rule that fired for a request (null when none did)
+   */
+  async setAppliedRule(id: number, rule: { id: number; name: string } | null): Promise<void> {
+    await pool.query(
+      'UPDATE vacation_requests SET applied_rule_id = $2, applied_rule_name = $3 WHERE id = $1',
+      [id, rule?.id ?? null, rule?.name ?? null]
+    );
+  }
+
+  /**
+   * Sign off a pending request's step and, when it is the last one, approve the request and deduct
+   * its days, all or nothing. Returns null if the step was already signed off or the request is no
+   * longer pending: another review got there first.
+   */
+  async approve(id: number, approval: RequestApproval): Promise<VacationRequest | null> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      // Concurrent reviews of the request wait here for this one to finish
+      const locked = await client.query<{ user_id: number; start_date: string }>(
+        "SELECT user_id, start_date FROM vacation_requests WHERE id = $1 AND status = 'pending' FOR UPDATE",
+        [id]
+      );
+      const request = locked.rows[0];
+      if (!request) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      if (approval.stepOrder !== null) {
+        const signedOff = await client.query(SIGN_OFF_STEP, [
+          id,
+          approval.stepOrder,
+          approval.approvedBy,
+          approval.onBehalfOf,
+          approval.notes || null,
+        ]);
+        if ((signedOff.rowCount ?? 0) === 0) {
+          await client.query('ROLLBACK');
+          return null;
+        }
+      }
+
+      if (approval.staffingOverrideNote) {
+        await client.query(
+          'UPDATE vacation_requests SET staffing_override_by = $2, staffing_override_note = $3 WHERE id = $1',
+          [id, approval.approvedBy, approval.staffingOverrideNote]
+        );
+      }
+
+      if (!approval.final) {
+        const result = await client.query<VacationRequest>(
+          `SELECT ${REQUEST_COLUMNS} FROM vacation_requests WHERE id = $1`,
+          [id]
+        );
+        await client.query('COMMIT');
+        return result.rows[0];
+      }
+
+      const result = await client.query<VacationRequest>(
+        `UPDATE vacation_requests
+         SET status = 'approved', approved_by = $2, approved_at = CURRENT_TIMESTAMP, manager_notes = $3,
+             approved_on_behalf_of = $4
+         WHERE id = $1 AND status = 'pending'
+         RETURNING ${REQUEST_COLUMNS}`,
+        [id, approval.approvedBy, approval.notes || null, approval.onBehalfOf]
+      );
+      if (approval.deduction) {
+        await client.query(INSERT_DEDUCTION, [
+          request.user_id,
+          approval.deduction.leaveTypeId,
+          approval.deduction.days,
+          request.start_date,
+          id,
+          approval.approvedBy,
+        ]);
+      }
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Ask for an approved request to be cancelled (only one open cancellation request at a time)
+   */
+  async requestCancellation(id: number, reason?: string): Promise<VacationRequest | null> {
+    const query = `
+      UPDATE vacation_requests
+      SET cancellation_requested_at = CURRENT_TIMESTAMP, cancellation_reason = $1
+      WHERE id = $2 AND status = 'approved' AND cancellation_requested_at IS NULL
+      RETURNING ${REQUEST_COLUMNS}
+    `;
+    const result = await pool.query<VacationRequest>(query, [reason || null, id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Decline a cancellation request, leaving the request approved
+   */
+  async declineCancellation(id: number): Promise<VacationRequest | null> {
+    const query = `
+      UPDATE vacation_requests
+      SET cancellation_requested_at = NULL, cancellation_reason = NULL
+      WHERE id = $1 AND status = 'approved'
+      RETURNING ${REQUEST_COLUMNS}
+    `;
+    const result = await pool.query<VacationRequest>(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Mark an approved request as cancelled and credit the days it deducted back to the balance
+   * ledger, both or neither (null when it is no longer approved)
+   */
+  async cancel(id: number, cancelledBy: number): Promise<VacationRequest | null> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      const result = await client.query<VacationRequest>(
+        `UPDATE vacation_requests
+         SET status = 'cancelled', cancelled_by = $1, cancelled_at = CURRENT_TIMESTAMP
+         WHERE id = $2 AND status = 'approved'
+         RETURNING ${REQUEST_COLUMNS}`,
+        [cancelledBy, id]
+      );
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+      await client.query(INSERT_REFUND, [id, cancelledBy]);
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   /**
    * Delete a vacation request (only if pending)
    */
@@ -120,54 +429,168 @@ export class VacationRequestRepository {
   }
 
   /**
-   * Check for overlapping vacation requests for the same user
+   * Check for overlapping vacation requests for the same user.
+   * Partial days on the same date only collide when their time slots overlap.
    */
   async hasOverlappingRequests(
-    userId: number, 
-    startDate: string, 
-    endDate: string,
+    userId: number,
+    duration: RequestDuration,
     excludeRequestId?: number
   ): Promise<boolean> {
     let query = `
-      SELECT 1 FROM vacation_requests
+      SELECT ${REQUEST_COLUMNS} FROM vacation_requests
       WHERE user_id = $1
         AND status IN ('pending', 'approved')
-        AND (
-          (start_date <= $2 AND end_date >= $2) OR
-          (start_date <= $3 AND end_date >= $3) OR
-          (start_date >= $2 AND end_date <= $3)
-        )
+        AND start_date <= $3
+        AND end_date >= $2
     `;
-    const params: unknown[] = [userId, startDate, endDate];
-    
+    const params: unknown[] = [userId, duration.start_date, duration.end_date];
+
     if (excludeRequestId !== undefined) {
       query += ' AND id != $4';
       params.push(excludeRequestId);
     }
-    
-    const result = await pool.query(query, params);
-    return result.rows.length > 0;
+
+    const result = await pool.query<VacationRequest>(query, params);
+    return result.rows.some((existing) => requestsOverlap(existing, duration));
   }
 
   /**
-   * Calculate total vacation days for a date range
+   * Count the user's teammates with pending or approved leave overlapping a date range
+   * (0 for users without a team)
    */
-  calculateVacationDays(startDate: string, endDate: string): number {
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    const diffTime = Math.abs(end.getTime() - start.getTime());
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    return diffDays + 1; // Include both start and end dates
+  async countTeamAbsences(userId: number, startDate: string, endDate: string): Promise<number> {
+    const query = `
+      SELECT COUNT(DISTINCT vr.user_id)::INTEGER as count
+      FROM vacation_requests vr
+      JOIN users teammate ON teammate.id = vr.user_id
+      JOIN users u ON u.id = $1
+      WHERE teammate.team_id = u.team_id
+        AND vr.user_id <> $1
+        AND vr.status IN ('pending', 'approved')
+        AND vr.start_date <= $3
+        AND vr.end_date >= $2
+    `;
+    const result = await pool.query<{ count: number }>(query, [userId, startDate, endDate]);
+    return result.rows[0].count;
   }
 
   /**
-   * Update a pending vacation request
+   * Find the approved leave of a user's teammates overlapping a date range
    */
-  async update(id: number, data: UpdateVacationRequestInput): Promise<VacationRequest | null> {
-    const updates: string[] = [];
-    const values: unknown[] = [];
-    let paramCount = 1;
+  async findTeamAbsences(userId: number, startDate: string, endDate: string): Promise<CoverageAbsence[]> {
+    const query = `
+      SELECT vr.id as request_id, vr.user_id, teammate.name as user_name,
+             vr.start_date, vr.end_date, vr.days_requested
+      FROM vacation_requests vr
+      JOIN users teammate ON teammate.id = vr.user_id
+      JOIN users u ON u.id = $1
+      WHERE teammate.team_id = u.team_id
+        AND vr.user_id <> $1
+        AND vr.status = 'approved'
+        AND vr.start_date <= $3
+        AND vr.end_date >= $2
+      ORDER BY vr.start_date, teammate.name
+    `;
+    const result = await pool.query<CoverageAbsence>(query, [userId, startDate, endDate]);
+    return result.rows;
+  }
+
+  /**
+   * Find the requests with one of the given statuses overlapping a date range, of one team's
+   * members or one user (everyone's if neither is given)
+   */
+  async findCalendarEntries(
+    startDate: string,
+    endDate: string,
+    statuses: RequestStatus[],
+    filter: { teamId?: number; userId?: number } = {}
+  ): Promise<(CalendarAbsence & { start_date: string; end_date: string })[]> {
+    const conditions = ['vr.status = ANY($3)', 'vr.start_date <= $2', 'vr.end_date >= $1'];
+    const values: unknown[] = [startDate, endDate, statuses];
+    if (filter.teamId !== undefined) {
+      values.push(filter.teamId);
+      conditions.push(`u.team_id = $${values.length}`);
+    }
+    if (filter.userId !== undefined) {
+      values.push(filter.userId);
+      conditions.push(`vr.user_id = $${values.length}`);
+    }
+
+    const query = `
+      SELECT vr.id as request_id, vr.user_id, lt.name as leave_type_name, vr.status,
+             vr.start_date, vr.end_date, vr.duration_type, vr.half_day_period,
+             TO_CHAR(vr.start_time, 'HH24:MI') AS start_time, TO_CHAR(vr.end_time, 'HH24:MI') AS end_time
+      FROM vacation_requests vr
+      JOIN users u ON u.id = vr.user_id
+      JOIN leave_types lt ON lt.id = vr.leave_type_id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY vr.start_date, vr.id
+    `;
+    const result = await pool.query<CalendarAbsence & { start_date: string; end_date: string }>(query, values);
+    return result.rows;
+  }
+
+  /**
+   * Find the approved leave of one team's members or one user ending on or after a date,
+   * for an iCalendar feed
+   */
+  async findFeedEvents(filter: { teamId?: number; userId?: number }, since: string): Promise<CalendarFeedEvent[]> {
+    const conditions = [`vr.status = 'approved'`, 'vr.end_date >= $1'];
+    const values: unknown[] = [since];
+    if (filter.teamId !== undefined) {
+      values.push(filter.teamId);
+      conditions.push(`u.team_id = $${values.length}`);
+    }
+    if (filter.userId !== undefined) {
+      values.push(filter.userId);
+      conditions.push(`vr.user_id = $${values.length}`);
+    }
+
+    const query = `
+      SELECT vr.id as request_id, u.name as user_name, lt.name as leave_type_name,
+             vr.start_date, vr.end_date, vr.duration_type, vr.half_day_period,
+             TO_CHAR(vr.start_time, 'HH24:MI') AS start_time, TO_CHAR(vr.end_time, 'HH24:MI') AS end_time,
+             vr.updated_at
+      FROM vacation_requests vr
+      JOIN users u ON u.id = vr.user_id
+      JOIN leave_types lt ON lt.id = vr.leave_type_id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY vr.start_date, vr.id
+    `;
+    const result = await pool.query<CalendarFeedEvent>(query, values);
+    return result.rows;
+  }
 
+  /**
+   * Calculate the days a request consumes for a user: working days in the range
+   * (weekends and the public holidays of the user's country/region excluded),
+   * scaled down for half-day and hourly requests
+   */
+  async calculateVacationDays(userId: number, duration: RequestDuration): Promise<number> {
+    const holidays = await this.holidayRepo.findDatesForUser(userId, duration.start_date, duration.end_date);
+    const workingDays = countWorkingDays(duration.start_date, duration.end_date, holidays);
+    return roundDays(workingDays * dayFraction(duration, config.workday.hours));
+  }
+
+  /**
+   * Update a pending vacation request, recording it as its next revision. With reserve, its new
+   * days are checked against the requester's balance in the same transaction (see reserveDays).
+   */
+  async update(
+    id: number,
+    data: UpdateVacationRequestInput,
+    daysRequested: number,
+    reserve = false
+  ): Promise<VacationRequest | null> {
+    const updates: string[] = [`days_requested = $1`];
+    const values: unknown[] = [daysRequested];
+    let paramCount = 2;
+
+    if (data.leave_type_id !== undefined) {
+      updates.push(`leave_type_id = $${paramCount++}`);
+      values.push(data.leave_type_id);
+    }
     if (data.start_date !== undefined) {
       updates.push(`start_date = $${paramCount++}`);
       values.push(data.start_date);
@@ -176,38 +599,71 @@ export class VacationRequestRepository {
       updates.push(`end_date = $${paramCount++}`);
       values.push(data.end_date);
     }
+    if (data.duration_type !== undefined) {
+      updates.push(`duration_type = $${paramCount++}`);
+      values.push(data.duration_type);
+      updates.push(`half_day_period = $${paramCount++}`);
+      values.push(data.duration_type === 'half_day' ? data.half_day_period : null);
+      updates.push(`start_time = $${paramCount++}`);
+      values.push(data.duration_type === 'hours' ? data.start_time : null);
+      updates.push(`end_time = $${paramCount++}`);
+      values.push(data.duration_type === 'hours' ? data.end_time : null);
+    }
     if (data.reason !== undefined) {
       updates.push(`reason = $${paramCount++}`);
       values.push(data.reason);
     }
 
-    if (updates.length === 0) {
-      return this.findById(id);
-    }
-
     values.push(id);
     const query = `
       UPDATE vacation_requests
       SET ${updates.join(', ')}
       WHERE id = $${paramCount} AND status = 'pending'
-      RETURNING id, user_id, start_date, end_date, reason, status,
-                manager_notes, approved_by, approved_at, submitted_at, updated_at
+      RETURNING ${REQUEST_COLUMNS}
     `;
-    
-    const result = await pool.query<VacationRequest>(query, values);
-    return result.rows[0] || null;
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await client.query<VacationRequest>(query, values);
+      if (result.rows[0]) {
+        if (reserve) {
+          await this.reserveDays(client, result.rows[0]);
+        }
+        await this.addRevision(client, id);
+      }
+      await client.query('COMMIT');
+      return result.rows[0] || null;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Find requests with filters (reviewerIds limits them to the direct reports of those managers and
+   * the requests they are an approver of)
+   */
+  async findWithFilters(filters: RequestFilters): Promise<VacationRequestWithUser[]> {
+    const { text, values } = this.filterQuery(filters);
+    const result = await pool.query<VacationRequestWithUser>(text, values);
+    return result.rows;
   }
 
   /**
-   * Find requests with filters
+   * Stream the requests findWithFilters would return, in batches
    */
-  async findWithFilters(filters: {
-    userId?: number;
-    status?: RequestStatus;
-    startDate?: string;
-    endDate?: string;
-    search?: string;
-  }): Promise<VacationRequestWithUser[]> {
+  streamWithFilters(filters: RequestFilters): AsyncGenerator<VacationRequestWithUser[]> {
+    const { text, values } = this.filterQuery(filters);
+    return queryInBatches<VacationRequestWithUser>(text, values);
+  }
+
+  /**
+   * Build the query for requests matching filters, newest first
+   */
+  private filterQuery(filters: RequestFilters): { text: string; values: unknown[] } {
     const conditions: string[] = [];
     const values: unknown[] = [];
     let paramCount = 1;
@@ -216,6 +672,13 @@ export class VacationRequestRepository {
       conditions.push(`vr.user_id = $${paramCount++}`);
       values.push(filters.userId);
     }
+    if (filters.reviewerIds !== undefined) {
+      conditions.push(`(u.manager_id = ANY($${paramCount}) OR EXISTS (
+        SELECT 1 FROM request_approval_steps WHERE request_id = vr.id AND approver_id = ANY($${paramCount})
+      ))`);
+      values.push(filters.reviewerIds);
+      paramCount++;
+    }
     if (filters.status) {
       conditions.push(`vr.status = $${paramCount++}`);
       values.push(filters.status);
@@ -237,18 +700,13 @@ export class VacationRequestRepository {
     const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
     const query = `
-      SELECT 
-        vr.id, vr.user_id, vr.start_date, vr.end_date, vr.reason, 
-        vr.status, vr.manager_notes, vr.approved_by, vr.approved_at,
-        vr.submitted_at, vr.updated_at,
-        u.name as user_name, u.email as user_email
+      SELECT ${REQUEST_WITH_USER_COLUMNS}
       FROM vacation_requests vr
       JOIN users u ON vr.user_id = u.id
+      JOIN leave_types lt ON vr.leave_type_id = lt.id
       ${whereClause}
       ORDER BY vr.submitted_at DESC
     `;
-
-    const result = await pool.query<VacationRequestWithUser>(query, values);
-    return result.rows;
+    return { text: query, values };
   }
 }
@@ -0,0 +1,143 @@
+import type { PoolClient } from 'pg';
+import { pool } from '../config/database.js';
+import { planCarryOver, type ClosingBalance } from '../utils/yearClose.js';
+import type { YearClose, YearCloseItem } from '../types/index.js';
+
+const CLOSING_BALANCE_QUERY = `
+  SELECT lb.user_id, u.name as user_name, lb.leave_type_id, lt.name as leave_type_name,
+         lb.days_total, lb.days_used, lb.days_carried, lb.carried_used,
+         lt.carry_over_max, lt.carry_over_expiry_months, lt.payout_unused
+  FROM leave_balances lb
+  JOIN users u ON u.id = lb.user_id
+  JOIN leave_types lt ON lt.id = lb.leave_type_id
+  WHERE lb.year = $1 AND lt.tracks_balance
+  ORDER BY u.name, lt.id
+`;
+
+const YEAR_CLOSE_COLUMNS = `
+  yc.id, yc.year, yc.closed_by, u.name as closed_by_name, yc.closed_at
+`;
+
+export class YearCloseRepository {
+  /**
+   * Find all year closes, most recent year first
+   */
+  async findAll(): Promise<YearClose[]> {
+    const query = `
+      SELECT ${YEAR_CLOSE_COLUMNS}
+      FROM year_closes yc
+      LEFT JOIN users u ON u.id = yc.closed_by
+      ORDER BY yc.year DESC
+    `;
+    const result = await pool.query<YearClose>(query);
+    return result.rows;
+  }
+
+  /**
+   * Find the close of a year
+   */
+  async findByYear(year: number): Promise<YearClose | null> {
+    const query = `
+      SELECT ${YEAR_CLOSE_COLUMNS}
+      FROM year_closes yc
+      LEFT JOIN users u ON u.id = yc.closed_by
+      WHERE yc.year = $1
+    `;
+    const result = await pool.query<YearClose>(query, [year]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find the report lines recorded when a year was closed
+   */
+  async findItems(yearCloseId: number): Promise<YearCloseItem[]> {
+    const query = `
+      SELECT i.user_id, u.name as user_name, i.leave_type_id, lt.name as leave_type_name,
+             i.days_unused, i.days_carried, i.days_forfeited, i.days_paid_out, i.carry_expires_on
+      FROM year_close_items i
+      JOIN users u ON u.id = i.user_id
+      JOIN leave_types lt ON lt.id = i.leave_type_id
+      WHERE i.year_close_id = $1
+      ORDER BY u.name, lt.id
+    `;
+    const result = await pool.query<YearCloseItem>(query, [yearCloseId]);
+    return result.rows;
+  }
+
+  /**
+   * Work out what closing a year would carry, forfeit and pay out, without changing anything
+   */
+  async preview(year: number): Promise<YearCloseItem[]> {
+    const result = await pool.query<ClosingBalance>(CLOSING_BALANCE_QUERY, [year]);
+    return result.rows.map((balance) => planCarryOver(balance, year));
+  }
+
+  /**
+   * Close a year in one transaction: record the close and its report, then post the carried days
+   * to next year's balances. Fails with a unique violation if the year is already closed.
+   */
+  async close(year: number, closedBy: number): Promise<{ close: YearClose; items: YearCloseItem[] }> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      const closeResult = await client.query<{ id: number }>(
+        'INSERT INTO year_closes (year, closed_by) VALUES ($1, $2) RETURNING id',
+        [year, closedBy]
+      );
+      const yearCloseId = closeResult.rows[0].id;
+
+      const balances = await client.query<ClosingBalance>(CLOSING_BALANCE_QUERY, [year]);
+      const items = balances.rows.map((balance) => planCarryOver(balance, year));
+
+      for (const item of items) {
+        await client.query(
+          `INSERT INTO year_close_items (
+             year_close_id, user_id, leave_type_id, days_unused, days_carried,
+             days_forfeited, days_paid_out, carry_expires_on
+           )
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+          [
+            yearCloseId,
+            item.user_id,
+            item.leave_type_id,
+            item.days_unused,
+            item.days_carried,
+            item.days_forfeited,
+            item.days_paid_out,
+            item.carry_expires_on,
+          ]
+        );
+        await this.carryInto(client, item, year + 1);
+      }
+
+      await client.query('COMMIT');
+      const close = await this.findByYear(year);
+      return { close: close as YearClose, items };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Post carried days to the next year's balance, opening it with the default allowance if needed
+   */
+  private async carryInto(client: PoolClient, item: YearCloseItem, year: number): Promise<void> {
+    await client.query(
+      `INSERT INTO balance_transactions (user_id, leave_type_id, year, kind, days)
+       SELECT $1, id, $3, 'allowance', default_days FROM leave_types WHERE id = $2
+       ON CONFLICT DO NOTHING`,
+      [item.user_id, item.leave_type_id, year]
+    );
+    if (item.days_carried > 0) {
+      await client.query(
+        `INSERT INTO balance_transactions (user_id, leave_type_id, year, kind, days, carried_days, expires_on, note)
+         VALUES ($1, $2, $3, 'carry_over', $4, $4, $5, $6)`,
+        [item.user_id, item.leave_type_id, year, item.days_carried, item.carry_expires_on, `Carried over from ${year - 1}`]
+      );
+    }
+  }
+}
@@ -4,6 +4,19 @@ import * as authController from './controllers/authController.js';
 import * as userController from './controllers/userController.js';
 import * as vacationRequestController from './controllers/vacationRequestController.js';
 import * as analyticsController from './controllers/analyticsController.js';
+import * as holidayController from './controllers/holidayController.js';
+import * as leaveTypeController from './controllers/leaveTypeController.js';
+import * as accrualController from './controllers/accrualController.js';
+import * as yearCloseController from './controllers/yearCloseController.js';
+import * as teamController from './controllers/teamController.js';
+import * as approvalChainController from './controllers/approvalChainController.js';
+import * as delegationController from './controllers/delegationController.js';
+import * as approvalRuleController from './controllers/approvalRuleController.js';
+import * as blackoutController from './controllers/blackoutController.js';
+import * as calendarController from './controllers/calendarController.js';
+import * as calendarFeedController from './controllers/calendarFeedController.js';
+import * as auditController from './controllers/auditController.js';
+import { audited, idsFromBody } from './services/auditService.js';
 
 // Define routes
 const routes: Route[] = [];
@@ -19,19 +32,110 @@ addRoute('GET', '/api/auth/me', authenticate(authController.getCurrentUser));
 
 // User routes (Manager only)
 addRoute('GET', '/api/users', authenticate(authorize('manager')(userController.getAllUsers)));
+addRoute('GET', '/api/users/export', authenticate(authorize('manager')(userController.exportUsers)));
 addRoute('GET', '/api/users/:id', authenticate(authorize('manager')(userController.getUserById)));
-addRoute('POST', '/api/users', authenticate(authorize('manager')(userController.createUser)));
-addRoute('PUT', '/api/users/:id', authenticate(authorize('manager')(userController.updateUser)));
-addRoute('DELETE', '/api/users/:id', authenticate(authorize('manager')(userController.deleteUser)));
+addRoute('GET', '/api/users/:id/balances', authenticate(userController.getUserBalances));
+addRoute('GET', '/api/users/:id/balance/ledger', authenticate(userController.getBalanceLedger));
+addRoute('POST', '/api/users/:id/balance/adjustments', authenticate(authorize('manager')(audited('balance', 'adjust')(userController.adjustBalance))));
+addRoute('POST', '/api/users', authenticate(authorize('manager')(audited('user', 'create')(userController.createUser))));
+addRoute('POST', '/api/users/import', authenticate(authorize('manager')(audited('user', 'import')(userController.importUsers))));
+addRoute('PUT', '/api/users/:id', authenticate(authorize('manager')(audited('user', 'update')(userController.updateUser))));
+addRoute('DELETE', '/api/users/:id', authenticate(authorize('manager')(audited('user', 'delete', { withRequests: true })(userController.deleteUser))));
 
 // Vacation request routes
 addRoute('GET', '/api/requests', authenticate(vacationRequestController.getAllRequests));
+addRoute('GET', '/api/requests/working-days', authenticate(vacationRequestController.getWorkingDays));
+addRoute('GET', '/api/requests/delegated', authenticate(vacationRequestController.getDelegatedRequests));
+addRoute('GET', '/api/requests/export', authenticate(vacationRequestController.exportRequests));
+addRoute('GET', '/api/requests/coverage', authenticate(vacationRequestController.getCoveragePreview));
+addRoute('GET', '/api/requests/:id/coverage', authenticate(vacationRequestController.getRequestCoverage));
+addRoute('GET', '/api/requests/:id/history', authenticate(vacationRequestController.getRequestHistory));
+addRoute('GET', '/api/requests/:id/comments', authenticate(vacationRequestController.getRequestComments));
+addRoute('POST', '/api/requests/:id/comments', authenticate(audited('request_comment', 'create', { created: true })(vacationRequestController.addRequestComment)));
+addRoute('GET', '/api/requests/:id/attachments', authenticate(vacationRequestController.getRequestAttachments));
+addRoute('POST', '/api/requests/:id/attachments', authenticate(audited('request_attachment', 'create', { created: true })(vacationRequestController.uploadAttachment)));
 addRoute('GET', '/api/requests/:id', authenticate(vacationRequestController.getRequestById));
-addRoute('POST', '/api/requests', authenticate(authorize('employee')(vacationRequestController.createRequest)));
-addRoute('PUT', '/api/requests/:id', authenticate(vacationRequestController.updateRequest));
-addRoute('PUT', '/api/requests/:id/approve', authenticate(authorize('manager')(vacationRequestController.approveRequest)));
-addRoute('PUT', '/api/requests/:id/reject', authenticate(authorize('manager')(vacationRequestController.rejectRequest)));
-addRoute('DELETE', '/api/requests/:id', authenticate(vacationRequestController.deleteRequest));
+addRoute('POST', '/api/requests', authenticate(authorize('employee')(audited('request', 'create')(vacationRequestController.createRequest))));
+addRoute('POST', '/api/requests/bulk', authenticate(audited('request', 'bulk_review', { ids: idsFromBody })(vacationRequestController.bulkReviewRequests)));
+addRoute('PUT', '/api/requests/:id', authenticate(audited('request', 'update')(vacationRequestController.updateRequest)));
+// Approvers are checked per request: managers, or the users they delegated their approvals to
+addRoute('PUT', '/api/requests/:id/approve', authenticate(audited('request', 'approve')(vacationRequestController.approveRequest)));
+addRoute('PUT', '/api/requests/:id/reject', authenticate(audited('request', 'reject')(vacationRequestController.rejectRequest)));
+addRoute('PUT', '/api/requests/:id/cancel', authenticate(authorize('employee')(audited('request', 'request_cancellation')(vacationRequestController.requestCancellation))));
+addRoute('PUT', '/api/requests/:id/cancel/confirm', authenticate(authorize('manager')(audited('request', 'confirm_cancellation')(vacationRequestController.confirmCancellation))));
+addRoute('PUT', '/api/requests/:id/cancel/decline', authenticate(authorize('manager')(audited('request', 'decline_cancellation')(vacationRequestController.declineCancellation))));
+addRoute('DELETE', '/api/requests/:id', authenticate(audited('request', 'delete')(vacationRequestController.deleteRequest)));
+
+// Attachment routes (visible to whoever can see the request)
+addRoute('GET', '/api/attachments/:id', authenticate(vacationRequestController.downloadAttachment));
+addRoute('DELETE', '/api/attachments/:id', authenticate(audited('request_attachment', 'delete')(vacationRequestController.deleteAttachment)));
+
+// Team routes (Manager only)
+addRoute('GET', '/api/teams', authenticate(authorize('manager')(teamController.getAllTeams)));
+addRoute('POST', '/api/teams', authenticate(authorize('manager')(audited('team', 'create')(teamController.createTeam))));
+addRoute('PUT', '/api/teams/:id', authenticate(authorize('manager')(audited('team', 'update')(teamController.updateTeam))));
+addRoute('DELETE', '/api/teams/:id', authenticate(authorize('manager')(audited('team', 'delete')(teamController.deleteTeam))));
+
+// Approval rule routes (Manager only)
+addRoute('GET', '/api/approval-rules', authenticate(authorize('manager')(approvalRuleController.getAllRules)));
+addRoute('POST', '/api/approval-rules', authenticate(authorize('manager')(audited('approval_rule', 'create')(approvalRuleController.createRule))));
+addRoute('PUT', '/api/approval-rules/:id', authenticate(authorize('manager')(audited('approval_rule', 'update')(approvalRuleController.updateRule))));
+addRoute('DELETE', '/api/approval-rules/:id', authenticate(authorize('manager')(audited('approval_rule', 'delete')(approvalRuleController.deleteRule))));
+
+// Delegation routes (listing for everyone, delegating for managers)
+addRoute('GET', '/api/delegations', authenticate(delegationController.getDelegations));
+addRoute('POST', '/api/delegations', authenticate(authorize('manager')(audited('delegation', 'create')(delegationController.createDelegation))));
+addRoute('DELETE', '/api/delegations/:id', authenticate(authorize('manager')(audited('delegation', 'delete')(delegationController.deleteDelegation))));
+
+// Approval chain routes (Manager only)
+addRoute('GET', '/api/approval-chains', authenticate(authorize('manager')(approvalChainController.getAllChains)));
+addRoute('POST', '/api/approval-chains', authenticate(authorize('manager')(audited('approval_chain', 'create')(approvalChainController.createChain))));
+addRoute('PUT', '/api/approval-chains/:id', authenticate(authorize('manager')(audited('approval_chain', 'update')(approvalChainController.updateChain))));
+addRoute('DELETE', '/api/approval-chains/:id', authenticate(authorize('manager')(audited('approval_chain', 'delete')(approvalChainController.deleteChain))));
+
+// Leave type routes (listing for everyone, configuration for managers)
+addRoute('GET', '/api/leave-types', authenticate(leaveTypeController.getAllLeaveTypes));
+addRoute('POST', '/api/leave-types', authenticate(authorize('manager')(audited('leave_type', 'create')(leaveTypeController.createLeaveType))));
+addRoute('PUT', '/api/leave-types/:id', authenticate(authorize('manager')(audited('leave_type', 'update')(leaveTypeController.updateLeaveType))));
+
+// Accrual routes (Manager only)
+addRoute('GET', '/api/accruals/policies', authenticate(authorize('manager')(accrualController.getAllPolicies)));
+addRoute('POST', '/api/accruals/policies', authenticate(authorize('manager')(audited('accrual_policy', 'create')(accrualController.createPolicy))));
+addRoute('PUT', '/api/accruals/policies/:id', authenticate(authorize('manager')(audited('accrual_policy', 'update')(accrualController.updatePolicy))));
+addRoute('GET', '/api/accruals/preview', authenticate(authorize('manager')(accrualController.previewAccruals)));
+addRoute('POST', '/api/accruals/run', authenticate(authorize('manager')(audited('accrual_run', 'run')(accrualController.runAccruals))));
+addRoute('GET', '/api/accruals/postings', authenticate(authorize('manager')(accrualController.getPostings)));
+
+// Year close routes (Manager only)
+addRoute('GET', '/api/year-close', authenticate(authorize('manager')(yearCloseController.getAllYearCloses)));
+addRoute('POST', '/api/year-close', authenticate(authorize('manager')(audited('year_close', 'close')(yearCloseController.closeYear))));
+addRoute('GET', '/api/year-close/:year', authenticate(authorize('manager')(yearCloseController.getYearCloseReport)));
+
+// Blackout period routes (listing for everyone, maintenance for managers)
+addRoute('GET', '/api/blackouts', authenticate(blackoutController.getAllBlackouts));
+addRoute('POST', '/api/blackouts', authenticate(authorize('manager')(audited('blackout', 'create')(blackoutController.createBlackout))));
+addRoute('PUT', '/api/blackouts/:id', authenticate(authorize('manager')(audited('blackout', 'update')(blackoutController.updateBlackout))));
+addRoute('DELETE', '/api/blackouts/:id', authenticate(authorize('manager')(audited('blackout', 'delete')(blackoutController.deleteBlackout))));
+
+// Holiday routes (listing for everyone, maintenance for managers)
+addRoute('GET', '/api/holidays', authenticate(holidayController.getAllHolidays));
+addRoute('POST', '/api/holidays', authenticate(authorize('manager')(audited('holiday', 'create')(holidayController.createHoliday))));
+addRoute('POST', '/api/holidays/import', authenticate(authorize('manager')(audited('holiday', 'import')(holidayController.importHolidays))));
+addRoute('PUT', '/api/holidays/:id', authenticate(authorize('manager')(audited('holiday', 'update')(holidayController.updateHoliday))));
+addRoute('DELETE', '/api/holidays/:id', authenticate(authorize('manager')(audited('holiday', 'delete')(holidayController.deleteHoliday))));
+
+// Calendar routes (employees see their own team)
+addRoute('GET', '/api/calendar', authenticate(calendarController.getCalendar));
+
+// iCalendar feed routes (the feeds themselves are public behind their secret token)
+addRoute('GET', '/api/calendar-feeds', authenticate(calendarFeedController.getCalendarFeeds));
+addRoute('POST', '/api/calendar-feeds', authenticate(audited('calendar_feed', 'create')(calendarFeedController.createCalendarFeed)));
+addRoute('POST', '/api/calendar-feeds/:id/rotate', authenticate(audited('calendar_feed', 'rotate')(calendarFeedController.rotateCalendarFeed)));
+addRoute('DELETE', '/api/calendar-feeds/:id', authenticate(audited('calendar_feed', 'delete')(calendarFeedController.deleteCalendarFeed)));
+addRoute('GET', '/api/feeds/:file', calendarFeedController.getFeed);
+
+// Audit log routes (Manager only); changes are recorded by wrapping their handlers in audited()
+addRoute('GET', '/api/audit', authenticate(authorize('manager')(auditController.getAuditLog)));
 
 // Analytics routes (Manager only)
 addRoute('GET', '/api/analytics', authenticate(authorize('manager')(analyticsController.getAnalytics)));
@@ -2,6 +2,8 @@ import { createServer } from 'http';
 import { config } from './config/env.js';
 import { testConnection } from './config/database.js';
 import { handleRequest } from './router.js';
+import { startAccrualJob } from './jobs/accrualJob.js';
+import { startNotificationJob } from './jobs/notificationJob.js';
 
 /**
  * Start the HTTP server
@@ -30,20 +32,90 @@ async function startServer() {
     console.log('  GET    /api/auth/me');
     console.log('  GET    /api/users');
     console.log('  POST   /api/users');
+    console.log('  POST   /api/users/import');
+    console.log('  GET    /api/users/export');
     console.log('  GET    /api/users/:id');
+    console.log('  GET    /api/users/:id/balances');
+    console.log('  GET    /api/users/:id/balance/ledger');
+    console.log('  POST   /api/users/:id/balance/adjustments');
     console.log('  PUT    /api/users/:id');
     console.log('  DELETE /api/users/:id');
     console.log('  GET    /api/requests');
     console.log('  POST   /api/requests');
+    console.log('  POST   /api/requests/bulk');
+    console.log('  GET    /api/requests/working-days');
+    console.log('  GET    /api/requests/delegated');
+    console.log('  GET    /api/requests/export');
+    console.log('  GET    /api/requests/coverage');
+    console.log('  GET    /api/requests/:id/coverage');
+    console.log('  GET    /api/requests/:id/history');
+    console.log('  GET    /api/requests/:id/comments');
+    console.log('  POST   /api/requests/:id/comments');
+    console.log('  GET    /api/requests/:id/attachments');
+    console.log('  POST   /api/requests/:id/attachments');
+    console.log('  GET    /api/attachments/:id');
+    console.log('  DELETE /api/attachments/:id');
     console.log('  GET    /api/requests/:id');
     console.log('  PUT    /api/requests/:id');
     console.log('  PUT    /api/requests/:id/approve');
     console.log('  PUT    /api/requests/:id/reject');
+    console.log('  PUT    /api/requests/:id/cancel');
+    console.log('  PUT    /api/requests/:id/cancel/confirm');
+    console.log('  PUT    /api/requests/:id/cancel/decline');
     console.log('  DELETE /api/requests/:id');
+    console.log('  GET    /api/teams');
+    console.log('  POST   /api/teams');
+    console.log('  PUT    /api/teams/:id');
+    console.log('  DELETE /api/teams/:id');
+    console.log('  GET    /api/approval-rules');
+    console.log('  POST   /api/approval-rules');
+    console.log('  PUT    /api/approval-rules/:id');
+    console.log('  DELETE /api/approval-rules/:id');
+    console.log('  GET    /api/delegations');
+    console.log('  POST   /api/delegations');
+    console.log('  DELETE /api/delegations/:id');
+    console.log('  GET    /api/approval-chains');
+    console.log('  POST   /api/approval-chains');
+    console.log('  PUT    /api/approval-chains/:id');
+    console.log('  DELETE /api/approval-chains/:id');
+    console.log('  GET    /api/leave-types');
+    console.log('  POST   /api/leave-types');
+    console.log('  PUT    /api/leave-types/:id');
+    console.log('  GET    /api/accruals/policies');
+    console.log('  POST   /api/accruals/policies');
+    console.log('  PUT    /api/accruals/policies/:id');
+    console.log('  GET    /api/accruals/preview');
+    console.log('  POST   /api/accruals/run');
+    console.log('  GET    /api/accruals/postings');
+    console.log('  GET    /api/year-close');
+    console.log('  POST   /api/year-close');
+    console.log('  GET    /api/year-close/:year');
+    console.log('  GET    /api/blackouts');
+    console.log('  POST   /api/blackouts');
+    console.log('  PUT    /api/blackouts/:id');
+    console.log('  DELETE /api/blackouts/:id');
+    console.log('  GET    /api/holidays');
+    console.log('  POST   /api/holidays');
+    console.log('  POST   /api/holidays/import');
+    console.log('  PUT    /api/holidays/:id');
+    console.log('  DELETE /api/holidays/:id');
+    console.log('  GET    /api/calendar');
+    console.log('  GET    /api/calendar-feeds');
+    console.log('  POST   /api/calendar-feeds');
+    console.log('  POST   /api/calendar-feeds/:id/rotate');
+    console.log('  DELETE /api/calendar-feeds/:id');
+    console.log('  GET    /api/feeds/:token.ics');
+    console.log('  GET    /api/audit');
     console.log('  GET    /api/analytics');
     console.log('\n');
   });
 
+  // Post leave accruals on a schedule
+  const stopAccrualJob = startAccrualJob();
+
+  // Send queued notification emails
+  const stopNotificationJob = startNotificationJob();
+
   // Handle server errors
   server.on('error', (error: NodeJS.ErrnoException) => {
     if (error.code === 'EADDRINUSE') {
@@ -57,6 +129,8 @@ async function startServer() {
   // Graceful shutdown
   const shutdown = () => {
     console.log('\n\nShutting down gracefully...');
+    stopAccrualJob?.();
+    stopNotificationJob?.();
     server.close(() => {
       console.log('Server closed');
       process.exit(0);
@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AccrualEntry } from '../types/index.js';
+
+const mocks = vi.hoisted(() => ({
+  accrualRepo: { findAllPolicies: vi.fn(), findPostedKeys: vi.fn(), postEntries: vi.fn() },
+  userRepo: { findAll: vi.fn() },
+}));
+
+vi.mock('../repositories/accrualRepository.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../repositories/accrualRepository.js')>()),
+  AccrualRepository: vi.fn(() => mocks.accrualRepo),
+}));
+vi.mock('../repositories/userRepository.js', () => ({ UserRepository: vi.fn(() => mocks.userRepo) }));
+
+const { AccrualService } = await import('./accrualService.js');
+const { postingKey } = await import('../repositories/accrualRepository.js');
+
+const MONTHLY = {
+  id: 1,
+  name: 'Monthly annual leave',
+  leave_type_id: 1,
+  leave_type_name: 'Annual Leave',
+  frequency: 'monthly',
+  days_per_period: 2,
+  starts_on: '2025-01-01',
+};
+
+const YEARLY = { ...MONTHLY, id: 2, name: 'Yearly training days', leave_type_id: 4, frequency: 'yearly', days_per_period: 3 };
+
+// Postings recorded so far, as the accrual_postings table keeps them
+let posted: AccrualEntry[];
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  posted = [];
+  mocks.accrualRepo.findAllPolicies.mockResolvedValue([MONTHLY]);
+  mocks.accrualRepo.findPostedKeys.mockImplementation(
+    async () => new Set(posted.map((entry) => postingKey(entry.policy_id, entry.user_id, entry.period_start)))
+  );
+  mocks.accrualRepo.postEntries.mockImplementation(async (entries: AccrualEntry[]) => {
+    posted.push(...entries);
+    return entries;
+  });
+  mocks.userRepo.findAll.mockResolvedValue([
+    { id: 10, name: 'Jane Doe', hire_date: '2020-05-01' },
+    { id: 11, name: 'John Roe', hire_date: '2025-02-17' },
+  ]);
+});
+
+describe('AccrualService.run', () => {
+  it.each([
+    // as of, policies, [user, period start, days] posted
+    [
+      '2025-01-31',
+      [MONTHLY],
+      [[10, '2025-01-01', 2]],
+    ],
+    [
+      '2025-03-01',
+      [MONTHLY],
+      [
+        [10, '2025-01-01', 2],
+        [10, '2025-02-01', 2],
+        [10, '2025-03-01', 2],
+        // Hired on February 17th: 12 of the month's 28 days
+        [11, '2025-02-01', 0.86],
+        [11, '2025-03-01', 2],
+      ],
+    ],
+    [
+      '2025-06-30',
+      [YEARLY],
+      [
+        [10, '2025-01-01', 3],
+        // 318 of the year's 365 days
+        [11, '2025-01-01', 2.61],
+      ],
+    ],
+    ['2024-12-31', [MONTHLY, YEARLY], []],
+  ] as const)('posts what is due as of %s', async (asOf, policies, expected) => {
+    mocks.accrualRepo.findAllPolicies.mockResolvedValue(policies);
+
+    const summary = await new AccrualService().run(asOf);
+
+    expect(summary.entries.map((entry) => [entry.user_id, entry.period_start, entry.days])).toEqual(expected);
+    expect(summary.total_days).toBe(Math.round(expected.reduce((total, [, , days]) => total + days, 0) * 100) / 100);
+  });
+
+  it('posts nothing when run again for the same date', async () => {
+    const service = new AccrualService();
+
+    const first = await service.run('2025-03-15');
+    const second = await service.run('2025-03-15');
+
+    expect(first.entries).toHaveLength(5);
+    expect(second).toEqual({ as_of: '2025-03-15', entries: [], total_days: 0 });
+    expect(mocks.accrualRepo.postEntries).toHaveBeenCalledTimes(1);
+    expect(posted).toHaveLength(5);
+  });
+
+  it('posts only the periods started since the last run', async () => {
+    const service = new AccrualService();
+
+    await service.run('2025-02-28');
+    const next = await service.run('2025-04-10');
+
+    expect(next.entries.map((entry) => [entry.user_id, entry.period_start])).toEqual([
+      [10, '2025-03-01'],
+      [10, '2025-04-01'],
+      [11, '2025-03-01'],
+      [11, '2025-04-01'],
+    ]);
+  });
+
+  it('previews what a run would post without posting it', async () => {
+    const preview = await new AccrualService().preview('2025-03-15');
+    const run = await new AccrualService().run('2025-03-15');
+
+    expect(preview).toEqual(run);
+    expect(mocks.accrualRepo.postEntries).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,80 @@
+import { AccrualRepository, postingKey } from '../repositories/accrualRepository.js';
+import { UserRepository } from '../repositories/userRepository.js';
+import { listAccrualPeriods, proRatedDays } from '../utils/accrual.js';
+import { formatDate, roundDays } from '../utils/workingDays.js';
+import type { AccrualEntry } from '../types/index.js';
+
+export interface AccrualSummary {
+  as_of: string;
+  entries: AccrualEntry[];
+  total_days: number;
+}
+
+export class AccrualService {
+  private accrualRepo = new AccrualRepository();
+  private userRepo = new UserRepository();
+
+  /**
+   * Work out every accrual that is due up to a date but not posted yet. A period is due once
+   * it has started; accrual for a user begins at the later of the policy start and their hire date.
+   */
+  async calculateDue(asOf: string): Promise<AccrualEntry[]> {
+    const [policies, users, postedKeys] = await Promise.all([
+      this.accrualRepo.findAllPolicies(true),
+      this.userRepo.findAll(),
+      this.accrualRepo.findPostedKeys(),
+    ]);
+
+    const entries: AccrualEntry[] = [];
+    for (const policy of policies) {
+      for (const user of users) {
+        const accrualStart = user.hire_date > policy.starts_on ? user.hire_date : policy.starts_on;
+
+        for (const period of listAccrualPeriods(policy.frequency, accrualStart, asOf)) {
+          if (postedKeys.has(postingKey(policy.id, user.id, period.period_start))) {
+            continue;
+          }
+          const days = proRatedDays(policy.days_per_period, period, accrualStart);
+          if (days <= 0) {
+            continue;
+          }
+          entries.push({
+            policy_id: policy.id,
+            policy_name: policy.name,
+            user_id: user.id,
+            user_name: user.name,
+            leave_type_id: policy.leave_type_id,
+            leave_type_name: policy.leave_type_name,
+            ...period,
+            days,
+          });
+        }
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Show what a run would post without changing any balances
+   */
+  async preview(asOf: string = formatDate(new Date())): Promise<AccrualSummary> {
+    return summarize(asOf, await this.calculateDue(asOf));
+  }
+
+  /**
+   * Post every due accrual. Safe to re-run: periods already posted are skipped.
+   */
+  async run(asOf: string = formatDate(new Date())): Promise<AccrualSummary> {
+    const due = await this.calculateDue(asOf);
+    const posted = due.length > 0 ? await this.accrualRepo.postEntries(due) : [];
+    return summarize(asOf, posted);
+  }
+}
+
+function summarize(asOf: string, entries: AccrualEntry[]): AccrualSummary {
+  return {
+    as_of: asOf,
+    entries,
+    total_days: roundDays(entries.reduce((sum, entry) => sum + entry.days, 0)),
+  };
+}
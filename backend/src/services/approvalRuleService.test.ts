@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ApprovalRule, VacationRequest } from '../types/index.js';
+
+const mocks = vi.hoisted(() => ({
+  ruleRepo: { findAll: vi.fn() },
+  requestRepo: { countTeamAbsences: vi.fn() },
+}));
+
+vi.mock('../repositories/approvalRuleRepository.js', () => ({ ApprovalRuleRepository: vi.fn(() => mocks.ruleRepo) }));
+vi.mock('../repositories/vacationRequestRepository.js', () => ({
+  VacationRequestRepository: vi.fn(() => mocks.requestRepo),
+}));
+
+const { ApprovalRuleService, ruleMatches } = await import('./approvalRuleService.js');
+
+const rule = (overrides: Partial<ApprovalRule> = {}) =>
+  ({
+    id: 1,
+    name: 'Short leave',
+    priority: 1,
+    action: 'auto_approve',
+    route_to_id: null,
+    leave_type_id: null,
+    max_days: null,
+    min_notice_days: null,
+    min_balance_after: null,
+    max_team_absent: null,
+    is_active: true,
+    ...overrides,
+  }) as ApprovalRule;
+
+const FACTS = { leave_type_id: 3, days: 2, notice_days: 14, balance_after: 10, team_absent: 1 };
+
+describe('ruleMatches', () => {
+  it('matches any request when the rule sets no conditions', () => {
+    expect(ruleMatches(rule(), FACTS)).toBe(true);
+  });
+
+  it.each([
+    ['leave type', { leave_type_id: 3 }, { leave_type_id: 4 }],
+    ['length', { max_days: 2 }, { max_days: 1.5 }],
+    ['notice', { min_notice_days: 14 }, { min_notice_days: 15 }],
+    ['remaining balance', { min_balance_after: 10 }, { min_balance_after: 10.5 }],
+    ['team absence', { max_team_absent: 1 }, { max_team_absent: 0 }],
+  ])('checks the %s condition, limits included', (_condition, met, unmet) => {
+    expect(ruleMatches(rule(met), FACTS)).toBe(true);
+    expect(ruleMatches(rule(unmet), FACTS)).toBe(false);
+  });
+
+  it('ignores a balance condition for leave types that track no balance', () => {
+    expect(ruleMatches(rule({ min_balance_after: 5 }), { ...FACTS, balance_after: null })).toBe(true);
+  });
+
+  it('needs every condition to hold', () => {
+    expect(ruleMatches(rule({ leave_type_id: 3, max_days: 1 }), FACTS)).toBe(false);
+  });
+});
+
+describe('ApprovalRuleService.findMatchingRule', () => {
+  const service = new ApprovalRuleService();
+  const request = {
+    id: 10,
+    user_id: 5,
+    leave_type_id: 3,
+    days_requested: 2,
+    start_date: '2025-07-14',
+    end_date: '2025-07-15',
+  } as VacationRequest;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2025, 6, 4, 9, 30));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns the first rule in priority order that the request meets', async () => {
+    mocks.ruleRepo.findAll.mockResolvedValue([
+      rule({ id: 1, max_days: 1 }),
+      rule({ id: 2, leave_type_id: 3 }),
+      rule({ id: 3 }),
+    ]);
+
+    expect((await service.findMatchingRule(request, 10))?.id).toBe(2);
+    expect(mocks.ruleRepo.findAll).toHaveBeenCalledWith(true);
+  });
+
+  it('counts notice in calendar days from today', async () => {
+    // 2025-07-04 to 2025-07-14
+    mocks.ruleRepo.findAll.mockResolvedValue([rule({ id: 1, min_notice_days: 11 }), rule({ id: 2, min_notice_days: 10 })]);
+
+    expect((await service.findMatchingRule(request, 10))?.id).toBe(2);
+  });
+
+  it('counts team absences only when a rule limits them', async () => {
+    mocks.ruleRepo.findAll.mockResolvedValue([rule({ max_days: 5 })]);
+    await service.findMatchingRule(request, 10);
+    expect(mocks.requestRepo.countTeamAbsences).not.toHaveBeenCalled();
+
+    mocks.ruleRepo.findAll.mockResolvedValue([rule({ id: 1, max_team_absent: 1 }), rule({ id: 2 })]);
+    mocks.requestRepo.countTeamAbsences.mockResolvedValue(2);
+    expect((await service.findMatchingRule(request, 10))?.id).toBe(2);
+    expect(mocks.requestRepo.countTeamAbsences).toHaveBeenCalledWith(5, '2025-07-14', '2025-07-15');
+  });
+
+  it('returns null when no rule matches or none is active', async () => {
+    mocks.ruleRepo.findAll.mockResolvedValue([rule({ max_days: 1 })]);
+    expect(await service.findMatchingRule(request, 10)).toBeNull();
+
+    mocks.ruleRepo.findAll.mockResolvedValue([]);
+    expect(await service.findMatchingRule(request, 10)).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+import { ApprovalRuleRepository } from '../repositories/approvalRuleRepository.js';
+import { VacationRequestRepository } from '../repositories/vacationRequestRepository.js';
+import { formatDate, parseDate } from '../utils/workingDays.js';
+import type { ApprovalRule, VacationRequest } from '../types/index.js';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// What the rule conditions are checked against
+export interface RuleFacts {
+  leave_type_id: number;
+  days: number;
+  notice_days: number;
+  balance_after: number | null;
+  team_absent: number;
+}
+
+/**
+ * Check whether a request meets every condition a rule sets. A balance condition always holds for
+ * leave types that do not track a balance.
+ */
+export function ruleMatches(rule: ApprovalRule, facts: RuleFacts): boolean {
+  return (
+    (rule.leave_type_id === null || rule.leave_type_id === facts.leave_type_id) &&
+    (rule.max_days === null || facts.days <= rule.max_days) &&
+    (rule.min_notice_days === null || facts.notice_days >= rule.min_notice_days) &&
+    (rule.min_balance_after === null || facts.balance_after === null || facts.balance_after >= rule.min_balance_after) &&
+    (rule.max_team_absent === null || facts.team_absent <= rule.max_team_absent)
+  );
+}
+
+export class ApprovalRuleService {
+  private ruleRepo = new ApprovalRuleRepository();
+  private requestRepo = new VacationRequestRepository();
+
+  /**
+   * Find the first active rule, in priority order, that a submitted request meets. balanceAfter is
+   * what the requester has left of the leave type once the request is taken (null if it tracks none).
+   */
+  async findMatchingRule(request: VacationRequest, balanceAfter: number | null): Promise<ApprovalRule | null> {
+    const rules = await this.ruleRepo.findAll(true);
+    if (rules.length === 0) {
+      return null;
+    }
+
+    const today = formatDate(new Date());
+    const facts: RuleFacts = {
+      leave_type_id: request.leave_type_id,
+      days: request.days_requested,
+      notice_days: Math.round((parseDate(request.start_date).getTime() - parseDate(today).getTime()) / MS_PER_DAY),
+      balance_after: balanceAfter,
+      team_absent: rules.some((rule) => rule.max_team_absent !== null)
+        ? await this.requestRepo.countTeamAbsences(request.user_id, request.start_date, request.end_date)
+        : 0,
+    };
+
+    return rules.find((rule) => ruleMatches(rule, facts)) ?? null;
+  }
+}
@@ -0,0 +1,35 @@
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { config } from '../config/env.js';
+
+/**
+ * Request attachments on local disk, each under a random name (the original one is kept in the
+ * database)
+ */
+export class AttachmentStorage {
+  private dir = path.resolve(config.attachments.dir);
+
+  /**
+   * Store a file, returning the key to find it by
+   */
+  async save(data: Buffer): Promise<string> {
+    await mkdir(this.dir, { recursive: true });
+    const key = randomUUID();
+    await writeFile(path.join(this.dir, key), data, { flag: 'wx' });
+    return key;
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return readFile(path.join(this.dir, key));
+  }
+
+  /**
+   * Delete stored files; ones already gone are skipped
+   */
+  async remove(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      await rm(path.join(this.dir, key), { force: true });
+    }
+  }
+}
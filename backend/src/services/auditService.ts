@@ -0,0 +1,215 @@
+import { AccrualRepository } from '../repositories/accrualRepository.js';
+import { ApprovalChainRepository } from '../repositories/approvalChainRepository.js';
+import { ApprovalRuleRepository } from '../repositories/approvalRuleRepository.js';
+import { AuditLogRepository, type NewAuditEntry } from '../repositories/auditLogRepository.js';
+import { BlackoutRepository } from '../repositories/blackoutRepository.js';
+import { CalendarFeedRepository } from '../repositories/calendarFeedRepository.js';
+import { DelegationRepository } from '../repositories/delegationRepository.js';
+import { HolidayRepository } from '../repositories/holidayRepository.js';
+import { LeaveTypeRepository } from '../repositories/leaveTypeRepository.js';
+import { RequestAttachmentRepository } from '../repositories/requestAttachmentRepository.js';
+import { RequestCommentRepository } from '../repositories/requestCommentRepository.js';
+import { TeamRepository } from '../repositories/teamRepository.js';
+import { UserRepository } from '../repositories/userRepository.js';
+import { VacationRequestRepository } from '../repositories/vacationRequestRepository.js';
+import { parseBody, type Handler, type Request, type Response } from '../utils/http.js';
+import type { AuditEntityType, AuditMetadata } from '../types/index.js';
+
+type Snapshot = (id: number) => Promise<unknown>;
+
+// An entry as the middleware makes it, before the actor is filled in
+type AuditChange = Omit<NewAuditEntry, 'actorId' | 'actorName'>;
+
+interface AuditOptions {
+  // Where the IDs of the changed entities come from when there is no :id route parameter
+  // (creates get theirs from the response)
+  ids?: (req: Request) => Promise<number[]>;
+  // The change creates an entity under the one in the :id parameter (its ID comes from the response)
+  created?: boolean;
+  // Also snapshot a user's requests, for deletes that cascade to them
+  withRequests?: boolean;
+}
+
+export class AuditService {
+  private auditRepo = new AuditLogRepository();
+  private accrualRepo = new AccrualRepository();
+  private approvalChainRepo = new ApprovalChainRepository();
+  private approvalRuleRepo = new ApprovalRuleRepository();
+  private blackoutRepo = new BlackoutRepository();
+  private delegationRepo = new DelegationRepository();
+  private feedRepo = new CalendarFeedRepository();
+  private holidayRepo = new HolidayRepository();
+  private leaveTypeRepo = new LeaveTypeRepository();
+  private commentRepo = new RequestCommentRepository();
+  private attachmentRepo = new RequestAttachmentRepository();
+  private teamRepo = new TeamRepository();
+  private userRepo = new UserRepository();
+  private requestRepo = new VacationRequestRepository();
+
+  // How each kind of entity is snapshotted; runs and year closes change many rows at once and are
+  // recorded by their outcome instead
+  private snapshots: Record<AuditEntityType, Snapshot | null> = {
+    user: (id) => this.userRepo.findById(id),
+    balance: (id) => this.userRepo.getBalances(id),
+    team: (id) => this.teamRepo.findById(id),
+    request: (id) => this.requestRepo.findById(id),
+    request_comment: (id) => this.commentRepo.findById(id),
+    request_attachment: (id) => this.attachmentRepo.findById(id),
+    leave_type: (id) => this.leaveTypeRepo.findById(id),
+    holiday: (id) => this.holidayRepo.findById(id),
+    accrual_policy: (id) => this.accrualRepo.findPolicyById(id),
+    accrual_run: null,
+    year_close: null,
+    approval_chain: (id) => this.approvalChainRepo.findById(id),
+    approval_rule: (id) => this.approvalRuleRepo.findById(id),
+    blackout: (id) => this.blackoutRepo.findById(id),
+    delegation: (id) => this.delegationRepo.findById(id),
+    // Feed tokens are secrets and stay out of the log
+    calendar_feed: async (id) => {
+      const feed = await this.feedRepo.findById(id);
+      return feed && { ...feed, token: undefined };
+    },
+  };
+
+  /**
+   * Whether entities of a type are recorded as snapshots rather than by what the change returned
+   */
+  isSnapshotted(entityType: AuditEntityType): boolean {
+    return this.snapshots[entityType] !== null;
+  }
+
+  /**
+   * An entity as it is now (null if it does not exist)
+   */
+  async snapshot(entityType: AuditEntityType, id: number, withRequests = false): Promise<unknown> {
+    const snapshot = this.snapshots[entityType];
+    const current = snapshot ? await snapshot(id) : null;
+    if (current && withRequests) {
+      return { ...current, requests: await this.requestRepo.findByUserId(id) };
+    }
+    return current;
+  }
+
+  /**
+   * Append entries to the log, naming the actor as they are now
+   */
+  async record(actorId: number | null, entries: AuditChange[]): Promise<void> {
+    const actor = actorId !== null ? await this.userRepo.findById(actorId) : null;
+    await this.auditRepo.create(
+      entries.map((entry) => ({ ...entry, actorId, actorName: actor?.name ?? null }))
+    );
+  }
+}
+
+const auditService = new AuditService();
+
+/**
+ * The user whose data an entity is, if any
+ */
+function subjectOf(entityType: AuditEntityType, entityId: number | null, snapshot: unknown): number | null {
+  if (entityType === 'user' || entityType === 'balance') {
+    return entityId;
+  }
+  if (snapshot && typeof snapshot === 'object' && 'user_id' in snapshot && typeof snapshot.user_id === 'number') {
+    return snapshot.user_id;
+  }
+  return null;
+}
+
+function requestMetadata(req: Request, res: Response): AuditMetadata {
+  const forwardedFor = req.headers['x-forwarded-for'];
+  const ip = (Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor)?.split(',')[0].trim();
+  return {
+    method: req.method || '',
+    path: (req.url || '').split('?')[0],
+    ip: ip || req.socket.remoteAddress || null,
+    user_agent: req.headers['user-agent'] || null,
+    message: res.payload?.message ?? null,
+  };
+}
+
+/**
+ * Read the IDs of a bulk action from the request body (none if it is invalid; the handler rejects it)
+ */
+export async function idsFromBody(req: Request): Promise<number[]> {
+  try {
+    const body = await parseBody(req);
+    if (body && typeof body === 'object' && 'ids' in body && Array.isArray(body.ids)) {
+      return [...new Set(body.ids.filter((id): id is number => Number.isInteger(id)))];
+    }
+  } catch {
+    // Invalid JSON - the handler reports it
+  }
+  return [];
+}
+
+/**
+ * Middleware to record a successful change in the audit log, with the entities it touched as they
+ * were before and after. Entities come from the :id route parameter, options.ids or the created
+ * entity in the response; changes with none (imports) or of many rows at once (runs, year closes)
+ * are recorded with what they returned.
+ * Entities a bulk action left unchanged are not recorded.
+ */
+export function audited(entityType: AuditEntityType, action: string, options: AuditOptions = {}) {
+  return (handler: Handler): Handler => {
+    return async (req: Request, res: Response) => {
+      const paramId = parseInt(req.params?.id || '', 10);
+      const ids = options.ids ? await options.ids(req) : options.created || isNaN(paramId) ? [] : [paramId];
+      const before = new Map<number, unknown>();
+      for (const id of ids) {
+        before.set(id, await auditService.snapshot(entityType, id, options.withRequests));
+      }
+
+      await handler(req, res);
+
+      if (res.statusCode >= 300) {
+        return;
+      }
+
+      try {
+        const metadata = requestMetadata(req, res);
+        const data = res.payload?.data;
+        const createdId = data && typeof data === 'object' && 'id' in data && typeof data.id === 'number'
+          ? data.id
+          : null;
+        const changedIds = !auditService.isSnapshotted(entityType)
+          ? []
+          : ids.length > 0 ? ids : createdId !== null ? [createdId] : [];
+
+        const entries: AuditChange[] = [];
+        for (const id of changedIds) {
+          const after = await auditService.snapshot(entityType, id, options.withRequests);
+          if (options.ids && JSON.stringify(after) === JSON.stringify(before.get(id))) {
+            continue;
+          }
+          const previous = before.get(id) ?? null;
+          entries.push({
+            action,
+            entityType,
+            entityId: id,
+            subjectId: subjectOf(entityType, id, after ?? previous),
+            before: previous,
+            after,
+            metadata,
+          });
+        }
+        if (changedIds.length === 0) {
+          entries.push({
+            action,
+            entityType,
+            entityId: createdId,
+            subjectId: null,
+            before: null,
+            after: data ?? null,
+            metadata,
+          });
+        }
+
+        await auditService.record(req.user?.userId ?? null, entries);
+      } catch (error) {
+        // The change has been made and answered; a missing entry must not turn it into an error
+        console.error('Failed to write audit log:', error);
+      }
+    };
+  };
+}
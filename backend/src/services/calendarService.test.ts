@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CalendarAbsence } from '../types/index.js';
+
+const mocks = vi.hoisted(() => ({
+  holidayRepo: { findDatesForUser: vi.fn() },
+  teamRepo: { findById: vi.fn() },
+  userRepo: { findCalendarMembers: vi.fn() },
+  requestRepo: { findCalendarEntries: vi.fn() },
+}));
+
+vi.mock('../repositories/holidayRepository.js', () => ({ HolidayRepository: vi.fn(() => mocks.holidayRepo) }));
+vi.mock('../repositories/teamRepository.js', () => ({ TeamRepository: vi.fn(() => mocks.teamRepo) }));
+vi.mock('../repositories/userRepository.js', () => ({ UserRepository: vi.fn(() => mocks.userRepo) }));
+vi.mock('../repositories/vacationRequestRepository.js', () => ({
+  VacationRequestRepository: vi.fn(() => mocks.requestRepo),
+}));
+
+const { CalendarService } = await import('./calendarService.js');
+
+const entry = (user_id: number, start_date: string, end_date: string) =>
+  ({
+    request_id: user_id * 10,
+    user_id,
+    leave_type_name: 'Annual Leave',
+    status: 'approved',
+    duration_type: 'full_day',
+    half_day_period: null,
+    start_time: null,
+    end_time: null,
+    start_date,
+    end_date,
+  }) as CalendarAbsence & { start_date: string; end_date: string };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.teamRepo.findById.mockResolvedValue({ id: 1, name: 'Support' });
+  mocks.userRepo.findCalendarMembers.mockResolvedValue([]);
+});
+
+describe('CalendarService.build', () => {
+  it('shows leave on working days only, skipping weekends and the holidays of each member', async () => {
+    // Friday 2025-12-19 to Tuesday 2025-12-30, one member with Christmas off and one without
+    mocks.requestRepo.findCalendarEntries.mockResolvedValue([
+      entry(1, '2025-12-19', '2025-12-30'),
+      entry(2, '2025-12-19', '2025-12-30'),
+    ]);
+    mocks.holidayRepo.findDatesForUser.mockImplementation(async (userId: number) =>
+      userId === 1 ? ['2025-12-25', '2025-12-26'] : []
+    );
+
+    const calendar = await new CalendarService().build('2025-12-19', '2025-12-30', { teamId: 1 }, false);
+    const daysOff = (userId: number) =>
+      calendar.days
+        .filter((day) => day.absences.some((absence) => absence.user_id === userId))
+        .map((day) => day.date);
+
+    expect(calendar.days).toHaveLength(12);
+    expect(daysOff(1)).toEqual(['2025-12-19', '2025-12-22', '2025-12-23', '2025-12-24', '2025-12-29', '2025-12-30']);
+    expect(daysOff(2)).toEqual([
+      '2025-12-19',
+      '2025-12-22',
+      '2025-12-23',
+      '2025-12-24',
+      '2025-12-25',
+      '2025-12-26',
+      '2025-12-29',
+      '2025-12-30',
+    ]);
+  });
+
+  it('looks up the holidays of each member with leave once', async () => {
+    mocks.requestRepo.findCalendarEntries.mockResolvedValue([
+      entry(1, '2025-07-01', '2025-07-02'),
+      entry(1, '2025-07-10', '2025-07-10'),
+    ]);
+    mocks.holidayRepo.findDatesForUser.mockResolvedValue([]);
+
+    await new CalendarService().build('2025-07-01', '2025-07-31', { teamId: 1 }, true);
+
+    expect(mocks.holidayRepo.findDatesForUser).toHaveBeenCalledTimes(1);
+    expect(mocks.holidayRepo.findDatesForUser).toHaveBeenCalledWith(1, '2025-07-01', '2025-07-31');
+    expect(mocks.requestRepo.findCalendarEntries).toHaveBeenCalledWith(
+      '2025-07-01',
+      '2025-07-31',
+      ['approved', 'pending'],
+      { teamId: 1 }
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import { HolidayRepository } from '../repositories/holidayRepository.js';
+import { TeamRepository } from '../repositories/teamRepository.js';
+import { UserRepository } from '../repositories/userRepository.js';
+import { VacationRequestRepository } from '../repositories/vacationRequestRepository.js';
+import { eachDate, listWorkingDates } from '../utils/workingDays.js';
+import type { RequestStatus, TeamCalendar } from '../types/index.js';
+
+export class CalendarService {
+  private holidayRepo = new HolidayRepository();
+  private teamRepo = new TeamRepository();
+  private userRepo = new UserRepository();
+  private requestRepo = new VacationRequestRepository();
+
+  /**
+   * Lay out the approved (and optionally pending) leave of one team, one user or everyone over a
+   * date range, one entry per calendar day. Leave only shows on its requester's working days: not
+   * on weekends, nor on the public holidays of their country and region.
+   */
+  async build(
+    startDate: string,
+    endDate: string,
+    filter: { teamId?: number; userId?: number },
+    includePending: boolean
+  ): Promise<TeamCalendar> {
+    const statuses: RequestStatus[] = includePending ? ['approved', 'pending'] : ['approved'];
+    const [team, members, entries] = await Promise.all([
+      filter.teamId !== undefined ? this.teamRepo.findById(filter.teamId) : null,
+      this.userRepo.findCalendarMembers(filter),
+      this.requestRepo.findCalendarEntries(startDate, endDate, statuses, filter),
+    ]);
+
+    // The working days of everyone with leave in the range
+    const workingDates = new Map(
+      await Promise.all(
+        [...new Set(entries.map((entry) => entry.user_id))].map(async (userId) => {
+          const holidays = await this.holidayRepo.findDatesForUser(userId, startDate, endDate);
+          return [userId, new Set(listWorkingDates(startDate, endDate, holidays))] as const;
+        })
+      )
+    );
+
+    return {
+      from: startDate,
+      to: endDate,
+      team_id: team?.id ?? null,
+      team_name: team?.name ?? null,
+      members,
+      days: eachDate(startDate, endDate).map((date) => ({
+        date,
+        absences: entries
+          .filter(
+            (entry) =>
+              entry.start_date <= date && entry.end_date >= date && workingDates.get(entry.user_id)?.has(date)
+          )
+          .map((entry) => ({
+            request_id: entry.request_id,
+            user_id: entry.user_id,
+            leave_type_name: entry.leave_type_name,
+            status: entry.status,
+            duration_type: entry.duration_type,
+            half_day_period: entry.half_day_period,
+            start_time: entry.start_time,
+            end_time: entry.end_time,
+          })),
+      })),
+    };
+  }
+}
@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CoverageAbsence } from '../types/index.js';
+
+const mocks = vi.hoisted(() => ({
+  holidayRepo: { findDatesForUser: vi.fn() },
+  teamRepo: { findById: vi.fn() },
+  userRepo: { findById: vi.fn() },
+  requestRepo: { findTeamAbsences: vi.fn() },
+}));
+
+vi.mock('../repositories/holidayRepository.js', () => ({ HolidayRepository: vi.fn(() => mocks.holidayRepo) }));
+vi.mock('../repositories/teamRepository.js', () => ({ TeamRepository: vi.fn(() => mocks.teamRepo) }));
+vi.mock('../repositories/userRepository.js', () => ({ UserRepository: vi.fn(() => mocks.userRepo) }));
+vi.mock('../repositories/vacationRequestRepository.js', () => ({
+  VacationRequestRepository: vi.fn(() => mocks.requestRepo),
+}));
+
+const { CoverageService } = await import('./coverageService.js');
+
+const service = new CoverageService();
+
+const absence = (user_id: number, start_date: string, end_date: string): CoverageAbsence => ({
+  request_id: user_id * 10,
+  user_id,
+  user_name: `User ${user_id}`,
+  start_date,
+  end_date,
+  days_requested: 1,
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.userRepo.findById.mockResolvedValue({ id: 1, team_id: 7 });
+  mocks.teamRepo.findById.mockResolvedValue({ id: 7, name: 'Support', member_count: 5, min_staffing: 3 });
+  mocks.holidayRepo.findDatesForUser.mockResolvedValue([]);
+  mocks.requestRepo.findTeamAbsences.mockResolvedValue([]);
+});
+
+describe('CoverageService.check', () => {
+  it('reports no team and no breach for a user outside any team', async () => {
+    mocks.userRepo.findById.mockResolvedValue({ id: 1, team_id: null });
+
+    const coverage = await service.check(1, '2025-07-07', '2025-07-11');
+
+    expect(coverage).toMatchObject({ team_id: null, lowest_staffing: null, breaches_minimum: false });
+    expect(mocks.requestRepo.findTeamAbsences).not.toHaveBeenCalled();
+  });
+
+  it('counts the requester and everyone already away, once each, as off', async () => {
+    // Two requests by the same colleague on Tuesday count as one absence
+    mocks.requestRepo.findTeamAbsences.mockResolvedValue([
+      absence(2, '2025-07-08', '2025-07-08'),
+      absence(2, '2025-07-08', '2025-07-09'),
+      absence(3, '2025-07-08', '2025-07-08'),
+    ]);
+
+    const coverage = await service.check(1, '2025-07-07', '2025-07-09');
+
+    expect(coverage).toMatchObject({
+      team_id: 7,
+      team_size: 5,
+      min_staffing: 3,
+      lowest_staffing: 2,
+      breached_dates: ['2025-07-08'],
+      breaches_minimum: true,
+    });
+    expect(mocks.requestRepo.findTeamAbsences).toHaveBeenCalledWith(1, '2025-07-07', '2025-07-09');
+  });
+
+  it('skips weekends and the holidays of the requester', async () => {
+    // Friday to Monday; everyone else is away all of it and Monday is a holiday
+    mocks.requestRepo.findTeamAbsences.mockResolvedValue([absence(2, '2025-07-11', '2025-07-14')]);
+    mocks.holidayRepo.findDatesForUser.mockResolvedValue(['2025-07-14']);
+    mocks.teamRepo.findById.mockResolvedValue({ id: 7, name: 'Support', member_count: 3, min_staffing: 2 });
+
+    const coverage = await service.check(1, '2025-07-11', '2025-07-14');
+
+    expect(coverage.breached_dates).toEqual(['2025-07-11']);
+    expect(coverage.lowest_staffing).toBe(1);
+  });
+
+  it('reports staffing without a breach for a team with no minimum', async () => {
+    mocks.teamRepo.findById.mockResolvedValue({ id: 7, name: 'Support', member_count: 2, min_staffing: null });
+    mocks.requestRepo.findTeamAbsences.mockResolvedValue([absence(2, '2025-07-07', '2025-07-07')]);
+
+    const coverage = await service.check(1, '2025-07-07', '2025-07-08');
+
+    expect(coverage).toMatchObject({ lowest_staffing: 0, breached_dates: [], breaches_minimum: false });
+  });
+});
@@ -0,0 +1,67 @@
+import { HolidayRepository } from '../repositories/holidayRepository.js';
+import { TeamRepository } from '../repositories/teamRepository.js';
+import { UserRepository } from '../repositories/userRepository.js';
+import { VacationRequestRepository } from '../repositories/vacationRequestRepository.js';
+import { listWorkingDates } from '../utils/workingDays.js';
+import type { CoverageCheck } from '../types/index.js';
+
+export class CoverageService {
+  private holidayRepo = new HolidayRepository();
+  private teamRepo = new TeamRepository();
+  private userRepo = new UserRepository();
+  private requestRepo = new VacationRequestRepository();
+
+  /**
+   * Work out how many of a user's team would still be at work on each working day of a date range
+   * if the user took it off, given the leave already approved. Anyone with approved leave on a day,
+   * even part of it, counts as away.
+   */
+  async check(userId: number, startDate: string, endDate: string): Promise<CoverageCheck> {
+    const user = await this.userRepo.findById(userId);
+    const team = user?.team_id ? await this.teamRepo.findById(user.team_id) : null;
+    if (!team) {
+      return {
+        team_id: null,
+        team_name: null,
+        team_size: 0,
+        min_staffing: null,
+        absences: [],
+        lowest_staffing: null,
+        breached_dates: [],
+        breaches_minimum: false,
+      };
+    }
+
+    const [absences, holidays] = await Promise.all([
+      this.requestRepo.findTeamAbsences(userId, startDate, endDate),
+      this.holidayRepo.findDatesForUser(userId, startDate, endDate),
+    ]);
+
+    let lowestStaffing: number | null = null;
+    const breachedDates: string[] = [];
+    for (const date of listWorkingDates(startDate, endDate, holidays)) {
+      const away = new Set(
+        absences
+          .filter((absence) => absence.start_date <= date && absence.end_date >= date)
+          .map((absence) => absence.user_id)
+      );
+      // The requester is away too
+      const atWork = team.member_count - away.size - 1;
+      lowestStaffing = lowestStaffing === null ? atWork : Math.min(lowestStaffing, atWork);
+      if (team.min_staffing !== null && atWork < team.min_staffing) {
+        breachedDates.push(date);
+      }
+    }
+
+    return {
+      team_id: team.id,
+      team_name: team.name,
+      team_size: team.member_count,
+      min_staffing: team.min_staffing,
+      absences,
+      lowest_staffing: lowestStaffing,
+      breached_dates: breachedDates,
+      breaches_minimum: breachedDates.length > 0,
+    };
+  }
+}
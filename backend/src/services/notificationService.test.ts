@@ -0,0 +1,168 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { config } from '../config/env.js';
+import { startStubSmtpServer, type StubSmtpServer } from '../test/smtpServer.js';
+import type { OutboxMessage } from '../types/index.js';
+
+const mocks = vi.hoisted(() => ({
+  outboxRepo: { enqueue: vi.fn(), claimDue: vi.fn(), markSent: vi.fn(), markFailed: vi.fn() },
+}));
+
+vi.mock('../repositories/notificationOutboxRepository.js', () => ({
+  NotificationOutboxRepository: vi.fn(() => mocks.outboxRepo),
+}));
+vi.mock('../repositories/approvalChainRepository.js', () => ({ ApprovalChainRepository: vi.fn() }));
+vi.mock('../repositories/delegationRepository.js', () => ({ DelegationRepository: vi.fn() }));
+vi.mock('../repositories/leaveTypeRepository.js', () => ({ LeaveTypeRepository: vi.fn() }));
+vi.mock('../repositories/userRepository.js', () => ({ UserRepository: vi.fn() }));
+
+const { NotificationService } = await import('./notificationService.js');
+
+const NOW = new Date('2026-03-02T08:00:00Z');
+
+let server: StubSmtpServer;
+
+function message(id: number, attempts = 0): OutboxMessage {
+  return {
+    id,
+    event: 'request_approved',
+    request_id: 10,
+    recipient_id: 5,
+    recipient_name: 'Jane Doe',
+    recipient_email: `jane${id}@company.com`,
+    subject: 'Your leave request was approved',
+    body: 'Hi Jane',
+    status: 'pending',
+    attempts,
+    last_error: null,
+    next_attempt_at: NOW,
+    sent_at: null,
+    created_at: NOW,
+  };
+}
+
+/**
+ * When markFailed scheduled a message to be tried again, in minutes from now (null if never)
+ */
+function retryDelay(id: number): number | null {
+  const call = mocks.outboxRepo.markFailed.mock.calls.find(([messageId]) => messageId === id);
+  expect(call).toBeDefined();
+  const retryAt = call?.[2] as Date | null;
+  return retryAt === null ? null : (retryAt.getTime() - NOW.getTime()) / 60000;
+}
+
+beforeAll(async () => {
+  server = await startStubSmtpServer();
+  Object.assign(config.smtp, { host: '127.0.0.1', port: server.port, secure: false, user: null });
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(NOW);
+  server.received.length = 0;
+  for (const verb of Object.keys(server.replies)) {
+    delete server.replies[verb];
+  }
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('NotificationService.deliver', () => {
+  it('claims a batch of due messages for five minutes, sends them and marks them sent', async () => {
+    mocks.outboxRepo.claimDue.mockResolvedValue([message(1), message(2)]);
+
+    const summary = await new NotificationService().deliver();
+
+    expect(mocks.outboxRepo.claimDue).toHaveBeenCalledWith(50, 300);
+    expect(summary).toEqual({ sent: 2, retrying: 0, failed: 0 });
+    expect(server.received.map((mail) => mail.to)).toEqual([['jane1@company.com'], ['jane2@company.com']]);
+    expect(mocks.outboxRepo.markSent.mock.calls).toEqual([[1], [2]]);
+    expect(mocks.outboxRepo.markFailed).not.toHaveBeenCalled();
+  });
+
+  it('sends nothing when nothing is due', async () => {
+    mocks.outboxRepo.claimDue.mockResolvedValue([]);
+
+    expect(await new NotificationService().deliver()).toEqual({ sent: 0, retrying: 0, failed: 0 });
+    expect(server.received).toHaveLength(0);
+  });
+
+  it.each([
+    // attempts so far, minutes until the next one
+    [0, 1],
+    [1, 2],
+    [2, 4],
+    [3, 8],
+    [4, 16],
+  ])('retries a temporary failure after attempt %i in %i minutes', async (attempts, minutes) => {
+    server.replies.RCPT = '451 4.3.0 Mailbox temporarily unavailable';
+    mocks.outboxRepo.claimDue.mockResolvedValue([message(1, attempts)]);
+
+    const summary = await new NotificationService().deliver();
+
+    expect(summary).toEqual({ sent: 0, retrying: 1, failed: 0 });
+    expect(retryDelay(1)).toBe(minutes);
+    expect(mocks.outboxRepo.markFailed).toHaveBeenCalledWith(
+      1,
+      'SMTP RCPT failed: 451 4.3.0 Mailbox temporarily unavailable',
+      expect.any(Date)
+    );
+  });
+
+  it('gives up on a temporary failure at the last attempt', async () => {
+    server.replies.RCPT = '451 4.3.0 Mailbox temporarily unavailable';
+    mocks.outboxRepo.claimDue.mockResolvedValue([message(1, config.notifications.maxAttempts - 1)]);
+
+    const summary = await new NotificationService().deliver();
+
+    expect(summary).toEqual({ sent: 0, retrying: 0, failed: 1 });
+    expect(retryDelay(1)).toBeNull();
+  });
+
+  it('gives up at once on a message the server refuses outright', async () => {
+    server.replies.RCPT = '550 5.1.1 No such user';
+    mocks.outboxRepo.claimDue.mockResolvedValue([message(1)]);
+
+    const summary = await new NotificationService().deliver();
+
+    expect(summary).toEqual({ sent: 0, retrying: 0, failed: 1 });
+    expect(mocks.outboxRepo.markFailed).toHaveBeenCalledWith(1, 'SMTP RCPT failed: 550 5.1.1 No such user', null);
+  });
+
+  it('retries when the server cannot be reached', async () => {
+    const port = config.smtp.port;
+    const down = await startStubSmtpServer();
+    config.smtp.port = down.port;
+    await down.close();
+    mocks.outboxRepo.claimDue.mockResolvedValue([message(1)]);
+
+    try {
+      const summary = await new NotificationService().deliver();
+
+      expect(summary).toEqual({ sent: 0, retrying: 1, failed: 0 });
+      expect(retryDelay(1)).toBe(1);
+      expect(mocks.outboxRepo.markFailed.mock.calls[0][1]).toMatch(/ECONNREFUSED/);
+    } finally {
+      config.smtp.port = port;
+    }
+  });
+
+  it('keeps sending the rest of the batch after a failure', async () => {
+    server.replies.RCPT = '550 5.1.1 No such user';
+    mocks.outboxRepo.claimDue.mockResolvedValue([message(1), message(2)]);
+    mocks.outboxRepo.markFailed.mockImplementation(async () => {
+      delete server.replies.RCPT;
+    });
+
+    const summary = await new NotificationService().deliver();
+
+    expect(summary).toEqual({ sent: 1, retrying: 0, failed: 1 });
+    expect(mocks.outboxRepo.markSent).toHaveBeenCalledWith(2);
+  });
+});
@@ -0,0 +1,202 @@
+import { config } from '../config/env.js';
+import { ApprovalChainRepository } from '../repositories/approvalChainRepository.js';
+import { DelegationRepository } from '../repositories/delegationRepository.js';
+import { LeaveTypeRepository } from '../repositories/leaveTypeRepository.js';
+import { NotificationOutboxRepository, type NewOutboxMessage } from '../repositories/notificationOutboxRepository.js';
+import { UserRepository } from '../repositories/userRepository.js';
+import { renderNotification } from '../utils/notificationTemplates.js';
+import { formatAddress, sendMail, SmtpError } from '../utils/smtp.js';
+import { formatDate } from '../utils/workingDays.js';
+import type { NotificationEvent, User, VacationRequest } from '../types/index.js';
+
+// How many messages one delivery run takes
+const BATCH_SIZE = 50;
+
+// How long a run has to send what it took before another run may take it
+const CLAIM_SECONDS = 5 * 60;
+
+interface Recipient {
+  user: User;
+  // The approver a delegate is told on behalf of
+  onBehalfOf: User | null;
+}
+
+export interface DeliverySummary {
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+export class NotificationService {
+  private outboxRepo = new NotificationOutboxRepository();
+  private approvalRepo = new ApprovalChainRepository();
+  private delegationRepo = new DelegationRepository();
+  private leaveTypeRepo = new LeaveTypeRepository();
+  private userRepo = new UserRepository();
+
+  /**
+   * Queue the emails an event on a request calls for
+   */
+  async notify(event: NotificationEvent, request: VacationRequest, actorId: number | null): Promise<void> {
+    await this.enqueue(await this.prepare(event, request, actorId));
+  }
+
+  /**
+   * Write the emails an event on a request calls for without queueing them, for events whose
+   * recipients cannot be found after the change (a deleted request has no approval steps left).
+   * Never throws: the change goes ahead without its notifications, which are logged as lost.
+   */
+  async prepare(event: NotificationEvent, request: VacationRequest, actorId: number | null): Promise<NewOutboxMessage[]> {
+    try {
+      const [requester, leaveType, actor] = await Promise.all([
+        this.userRepo.findById(request.user_id),
+        this.leaveTypeRepo.findById(request.leave_type_id),
+        actorId !== null ? this.userRepo.findById(actorId) : null,
+      ]);
+      if (!requester) {
+        return [];
+      }
+
+      const recipients = await this.findRecipients(event, request, requester);
+      return recipients
+        .filter((recipient) => recipient.user.id !== actorId)
+        .map(({ user, onBehalfOf }) => {
+          const toRequester = user.id === requester.id;
+          const { subject, body } = renderNotification({
+            event,
+            request,
+            recipientName: user.name,
+            toRequester,
+            requesterName: requester.name,
+            leaveTypeName: leaveType?.name ?? 'Leave',
+            actorName: actor?.name ?? null,
+            onBehalfOfName: onBehalfOf?.name ?? null,
+            link: `${config.appUrl}${toRequester ? '/employee/requests' : '/manager/requests'}`,
+          });
+          return {
+            event,
+            requestId: request.id,
+            recipientId: user.id,
+            recipientName: user.name,
+            recipientEmail: user.email,
+            subject,
+            body,
+          };
+        });
+    } catch (error) {
+      console.error(`Failed to prepare ${event} notifications for request ${request.id}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Put prepared emails in the outbox. Never throws, like prepare.
+   */
+  async enqueue(messages: NewOutboxMessage[]): Promise<void> {
+    if (messages.length === 0) {
+      return;
+    }
+    try {
+      await this.outboxRepo.enqueue(messages);
+    } catch (error) {
+      console.error(`Failed to queue ${messages.length} notifications:`, error);
+    }
+  }
+
+  /**
+   * Send the emails that are due. One that fails is tried again after a delay that doubles with
+   * every attempt (1, 2, 4... minutes) until NOTIFICATION_MAX_ATTEMPTS; one the server refuses
+   * outright (a 5xx reply) is not tried again.
+   */
+  async deliver(): Promise<DeliverySummary> {
+    const summary: DeliverySummary = { sent: 0, retrying: 0, failed: 0 };
+
+    for (const message of await this.outboxRepo.claimDue(BATCH_SIZE, CLAIM_SECONDS)) {
+      try {
+        await sendMail(config.smtp, {
+          from: config.smtp.from,
+          to: formatAddress(message.recipient_name, message.recipient_email),
+          subject: message.subject,
+          text: message.body,
+        });
+        await this.outboxRepo.markSent(message.id);
+        summary.sent++;
+      } catch (error) {
+        const attempts = message.attempts + 1;
+        const giveUp = (error instanceof SmtpError && error.permanent) || attempts >= config.notifications.maxAttempts;
+        const retryAt = giveUp ? null : new Date(Date.now() + 2 ** (attempts - 1) * 60 * 1000);
+        await this.outboxRepo.markFailed(message.id, error instanceof Error ? error.message : String(error), retryAt);
+        if (giveUp) {
+          summary.failed++;
+        } else {
+          summary.retrying++;
+        }
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Who hears about an event: the requester of a decision, the approvers a pending request waits on
+   * (or the line manager of one approved automatically) otherwise, and both when a request is
+   * deleted by someone else than its requester
+   */
+  private async findRecipients(
+    event: NotificationEvent,
+    request: VacationRequest,
+    requester: User
+  ): Promise<Recipient[]> {
+    if (event === 'request_approved' || event === 'request_rejected') {
+      return [{ user: requester, onBehalfOf: null }];
+    }
+
+    let recipients: Recipient[];
+    if (request.status === 'pending') {
+      recipients = await this.findCurrentApprovers(request, requester);
+    } else {
+      const manager = requester.manager_id !== null ? await this.userRepo.findById(requester.manager_id) : null;
+      recipients = manager ? [{ user: manager, onBehalfOf: null }] : [];
+    }
+
+    if (event === 'request_deleted') {
+      recipients.push({ user: requester, onBehalfOf: null });
+    }
+    return recipients;
+  }
+
+  /**
+   * The users who may sign off the step a pending request waits on: its approver (super-admins
+   * when it has none) and whoever stands in for them today
+   */
+  private async findCurrentApprovers(request: VacationRequest, requester: User): Promise<Recipient[]> {
+    // Requests submitted before approval chains have no steps and go to the line manager
+    const steps = await this.approvalRepo.findRequestSteps(request.id);
+    const currentStep = steps.find((step) => !step.approved_at);
+    const approverId = currentStep ? currentStep.approver_id : requester.manager_id;
+
+    const approvers: User[] = [];
+    if (approverId === null) {
+      approvers.push(...(await this.userRepo.findAll()).filter((user) => user.is_super_admin));
+    } else {
+      const approver = await this.userRepo.findById(approverId);
+      if (approver) {
+        approvers.push(approver);
+      }
+    }
+
+    const recipients: Recipient[] = approvers.map((user) => ({ user, onBehalfOf: null }));
+    const today = formatDate(new Date());
+    const delegations = (await this.delegationRepo.findCurrent(today)).filter(
+      (delegation) => delegation.starts_on <= today && approvers.some((approver) => approver.id === delegation.delegator_id)
+    );
+    for (const delegation of delegations) {
+      const delegate = await this.userRepo.findById(delegation.delegate_id);
+      const delegator = approvers.find((approver) => approver.id === delegation.delegator_id) ?? null;
+      if (delegate && !recipients.some((recipient) => recipient.user.id === delegate.id)) {
+        recipients.push({ user: delegate, onBehalfOf: delegator });
+      }
+    }
+    return recipients;
+  }
+}
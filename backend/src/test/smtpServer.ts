@@ -0,0 +1,116 @@
+import { createServer, type Server, type Socket } from 'net';
+import type { AddressInfo } from 'net';
+
+// A message the stub server accepted
+export interface ReceivedMail {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+/**
+ * What the server answers: a reply line per command verb (MAIL, RCPT, DATA for the DATA command,
+ * MESSAGE for the end of the message data, QUIT...) overriding the usual 2xx/3xx, or null to hang up
+ * instead of answering
+ */
+export type StubReplies = Partial<Record<string, string | null>>;
+
+export interface StubSmtpServer {
+  port: number;
+  received: ReceivedMail[];
+  // Every command line the server was sent, in order, across connections
+  commands: string[];
+  replies: StubReplies;
+  close(): Promise<void>;
+}
+
+/**
+ * Start an SMTP server on a free local port that accepts everything unless told otherwise. It
+ * offers AUTH but never STARTTLS.
+ */
+export async function startStubSmtpServer(replies: StubReplies = {}): Promise<StubSmtpServer> {
+  const sockets = new Set<Socket>();
+  const stub: Omit<StubSmtpServer, 'port' | 'close'> = { received: [], commands: [], replies };
+
+  const server: Server = createServer((socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    socket.on('error', () => undefined);
+
+    let buffer = '';
+    let mail: ReceivedMail | null = null;
+    let readingData = false;
+
+    const answer = (verb: string, usual: string) => {
+      const reply = verb in stub.replies ? stub.replies[verb] : usual;
+      if (reply === null || reply === undefined) {
+        socket.destroy();
+        return;
+      }
+      socket.write(`${reply}\r\n`);
+    };
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      if (readingData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) {
+          return;
+        }
+        readingData = false;
+        stub.received.push({ ...(mail as ReceivedMail), data: buffer.slice(0, end).replace(/^\.\./gm, '.') });
+        buffer = buffer.slice(end + 5);
+        answer('MESSAGE', '250 2.0.0 Queued');
+      }
+
+      let lineEnd: number;
+      while (!readingData && (lineEnd = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+        stub.commands.push(line);
+        const verb = line.split(' ')[0].toUpperCase();
+
+        switch (verb) {
+          case 'EHLO':
+            answer(verb, '250-stub.localhost greets you\r\n250-SIZE 10485760\r\n250 AUTH PLAIN');
+            break;
+          case 'MAIL':
+            mail = { from: /<([^>]*)>/.exec(line)?.[1] ?? '', to: [], data: '' };
+            answer(verb, '250 2.1.0 OK');
+            break;
+          case 'RCPT':
+            mail?.to.push(/<([^>]*)>/.exec(line)?.[1] ?? '');
+            answer(verb, '250 2.1.5 OK');
+            break;
+          case 'DATA':
+            readingData = !('DATA' in stub.replies) || Boolean(stub.replies.DATA?.startsWith('354'));
+            answer(verb, '354 End data with <CR><LF>.<CR><LF>');
+            break;
+          case 'AUTH':
+            answer(verb, '235 2.7.0 Authenticated');
+            break;
+          case 'QUIT':
+            answer(verb, '221 2.0.0 Bye');
+            socket.end();
+            break;
+          default:
+            answer(verb, '502 5.5.2 Command not recognized');
+        }
+      }
+    });
+
+    answer('GREETING', '220 stub.localhost ESMTP');
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return Object.assign(stub, {
+    port: (server.address() as AddressInfo).port,
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const socket of sockets) {
+          socket.destroy();
+        }
+        server.close(() => resolve());
+      }),
+  });
+}
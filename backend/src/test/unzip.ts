@@ -0,0 +1,63 @@
+import { inflateRawSync } from 'zlib';
+
+export interface UnzippedEntry {
+  name: string;
+  crc: number;
+  content: Buffer;
+}
+
+/**
+ * Read back a ZIP archive as createZipWriter writes it (deflated entries with data descriptors, no
+ * comment), failing on any header that does not agree with the central directory
+ */
+export function unzip(archive: Buffer): UnzippedEntry[] {
+  const end = archive.length - 22;
+  if (archive.readUInt32LE(end) !== 0x06054b50) {
+    throw new Error('No end of central directory record');
+  }
+  const count = archive.readUInt16LE(end + 10);
+  const directorySize = archive.readUInt32LE(end + 12);
+  let position = archive.readUInt32LE(end + 16);
+  if (position + directorySize !== end) {
+    throw new Error('Central directory is not where the end record says');
+  }
+
+  const entries: UnzippedEntry[] = [];
+  for (let index = 0; index < count; index++) {
+    if (archive.readUInt32LE(position) !== 0x02014b50) {
+      throw new Error(`No central directory header for entry ${index}`);
+    }
+    const crc = archive.readUInt32LE(position + 16);
+    const compressedSize = archive.readUInt32LE(position + 20);
+    const size = archive.readUInt32LE(position + 24);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const offset = archive.readUInt32LE(position + 42);
+    const name = archive.subarray(position + 46, position + 46 + nameLength).toString('utf8');
+    position += 46 + nameLength;
+
+    if (archive.readUInt32LE(offset) !== 0x04034b50) {
+      throw new Error(`No local header for ${name}`);
+    }
+    const localName = archive.subarray(offset + 30, offset + 30 + archive.readUInt16LE(offset + 26)).toString('utf8');
+    if (localName !== name) {
+      throw new Error(`Local header names ${localName}, not ${name}`);
+    }
+    const dataStart = offset + 30 + archive.readUInt16LE(offset + 26) + archive.readUInt16LE(offset + 28);
+    const content = inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+    if (content.length !== size) {
+      throw new Error(`${name} inflates to ${content.length} bytes, not ${size}`);
+    }
+
+    const descriptor = dataStart + compressedSize;
+    if (
+      archive.readUInt32LE(descriptor) !== 0x08074b50 ||
+      archive.readUInt32LE(descriptor + 4) !== crc ||
+      archive.readUInt32LE(descriptor + 8) !== compressedSize ||
+      archive.readUInt32LE(descriptor + 12) !== size
+    ) {
+      throw new Error(`Data descriptor of ${name} does not match its central directory header`);
+    }
+    entries.push({ name, crc, content });
+  }
+  return entries;
+}
@@ -7,8 +7,12 @@ export interface User {
   email: string;
   employee_code: string;
   role: UserRole;
-  vacation_days_total: number;
-  vacation_days_used: number;
+  country_code: string;
+  region: string | null;
+  hire_date: string;
+  team_id: number | null;
+  manager_id: number | null;
+  is_super_admin: boolean;
   created_at: Date;
   updated_at: Date;
 }
@@ -17,19 +21,135 @@ export interface UserWithPassword extends User {
   password_hash: string;
 }
 
+export interface UserWithNames extends User {
+  team_name: string | null;
+  manager_name: string | null;
+}
+
+// A row of a CSV user import, with whatever keeps it from being imported
+export interface UserImportRow {
+  row: number;
+  name: string;
+  email: string;
+  employee_code: string;
+  role: string;
+  team_name: string | null;
+  manager_name: string | null;
+  errors: string[];
+}
+
+export interface UserImportReport {
+  dry_run: boolean;
+  total: number;
+  valid: number;
+  imported: number;
+  rows: UserImportRow[];
+}
+
+// Team types
+export interface Team {
+  id: number;
+  name: string;
+  min_staffing: number | null;
+  member_count: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Leave type and balance types
+export interface LeaveType {
+  id: number;
+  code: string;
+  name: string;
+  is_paid: boolean;
+  tracks_balance: boolean;
+  requires_approval: boolean;
+  requires_attachment: boolean;
+  default_days: number;
+  carry_over_max: number;
+  carry_over_expiry_months: number | null;
+  payout_unused: boolean;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface LeaveBalance {
+  leave_type_id: number;
+  leave_type_code: string;
+  leave_type_name: string;
+  year: number;
+  days_total: number;
+  days_used: number;
+  days_carried: number;
+  carried_used: number;
+  carried_remaining: number;
+  carry_expires_on: string | null;
+  days_remaining: number;
+  days_pending: number;
+  days_available: number;
+}
+
+// What a balance looks like to a new request: used so far, reserved by pending requests and still free
+export interface BalanceBreakdown {
+  used: number;
+  pending: number;
+  available: number;
+}
+
+// Balance ledger types
+export type BalanceTransactionKind = 'allowance' | 'accrual' | 'carry_over' | 'deduction' | 'refund' | 'adjustment';
+
+export interface BalanceTransaction {
+  id: number;
+  user_id: number;
+  leave_type_id: number;
+  leave_type_name: string;
+  year: number;
+  kind: BalanceTransactionKind;
+  days: number;
+  carried_days: number;
+  expires_on: string | null;
+  request_id: number | null;
+  request_start_date: string | null;
+  request_end_date: string | null;
+  note: string | null;
+  created_by: number | null;
+  created_by_name: string | null;
+  created_at: Date;
+  balance_after: number;
+}
+
 // Vacation request types
-export type RequestStatus = 'pending' | 'approved' | 'rejected';
+export type RequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+export type DurationType = 'full_day' | 'half_day' | 'hours';
+export type DayPeriod = 'am' | 'pm';
 
 export interface VacationRequest {
   id: number;
   user_id: number;
+  leave_type_id: number;
   start_date: string;
   end_date: string;
+  duration_type: DurationType;
+  half_day_period: DayPeriod | null;
+  start_time: string | null;
+  end_time: string | null;
+  days_requested: number;
   reason: string | null;
   status: RequestStatus;
   manager_notes: string | null;
   approved_by: number | null;
+  approved_on_behalf_of: number | null;
   approved_at: Date | null;
+  staffing_override_by: number | null;
+  staffing_override_note: string | null;
+  applied_rule_id: number | null;
+  applied_rule_name: string | null;
+  cancellation_requested_at: Date | null;
+  cancellation_reason: string | null;
+  cancelled_by: number | null;
+  cancelled_at: Date | null;
   submitted_at: Date;
   updated_at: Date;
 }
@@ -37,6 +157,302 @@ export interface VacationRequest {
 export interface VacationRequestWithUser extends VacationRequest {
   user_name: string;
   user_email: string;
+  leave_type_code: string;
+  leave_type_name: string;
+  approved_by_name: string | null;
+  approved_on_behalf_of_name: string | null;
+  approval_steps: RequestApprovalStep[];
+  // 1 until the requester edits it
+  revision_count: number;
+  comment_count: number;
+  attachment_count: number;
+}
+
+// A message in a request's comment thread (author NULL once the user is deleted)
+export interface RequestComment {
+  id: number;
+  request_id: number;
+  author_id: number | null;
+  author_name: string | null;
+  author_role: UserRole | null;
+  body: string;
+  created_at: Date;
+}
+
+// A request as it was submitted or edited
+export interface RequestRevision {
+  id: number;
+  request_id: number;
+  revision: number;
+  leave_type_id: number;
+  leave_type_name: string;
+  start_date: string;
+  end_date: string;
+  duration_type: DurationType;
+  half_day_period: DayPeriod | null;
+  start_time: string | null;
+  end_time: string | null;
+  days_requested: number;
+  reason: string | null;
+  created_at: Date;
+}
+
+// What happened to one request of a bulk approval or rejection
+export interface BulkReviewResult {
+  id: number;
+  success: boolean;
+  status?: RequestStatus;
+  message?: string;
+  error?: string;
+}
+
+// Team coverage types
+export interface CoverageAbsence {
+  request_id: number;
+  user_id: number;
+  user_name: string;
+  start_date: string;
+  end_date: string;
+  days_requested: number;
+}
+
+// How many of the requester's team would be at work during a request
+export interface CoverageCheck {
+  team_id: number | null;
+  team_name: string | null;
+  team_size: number;
+  min_staffing: number | null;
+  absences: CoverageAbsence[];
+  lowest_staffing: number | null;
+  breached_dates: string[];
+  breaches_minimum: boolean;
+}
+
+// Team calendar types
+export interface CalendarMember {
+  id: number;
+  name: string;
+  team_id: number | null;
+  team_name: string | null;
+}
+
+// Part of a request falling on a calendar day
+export interface CalendarAbsence {
+  request_id: number;
+  user_id: number;
+  leave_type_name: string;
+  status: RequestStatus;
+  duration_type: DurationType;
+  half_day_period: DayPeriod | null;
+  start_time: string | null;
+  end_time: string | null;
+}
+
+export interface CalendarDay {
+  date: string;
+  absences: CalendarAbsence[];
+}
+
+export interface TeamCalendar {
+  from: string;
+  to: string;
+  team_id: number | null;
+  team_name: string | null;
+  members: CalendarMember[];
+  days: CalendarDay[];
+}
+
+// iCalendar feed types
+export type CalendarFeedScope = 'user' | 'team';
+
+export interface CalendarFeed {
+  id: number;
+  owner_id: number;
+  scope: CalendarFeedScope;
+  team_id: number | null;
+  team_name: string | null;
+  token: string;
+  created_at: Date;
+  rotated_at: Date | null;
+}
+
+// Approved leave as published in an iCalendar feed
+export interface CalendarFeedEvent {
+  request_id: number;
+  user_name: string;
+  leave_type_name: string;
+  start_date: string;
+  end_date: string;
+  duration_type: DurationType;
+  half_day_period: DayPeriod | null;
+  start_time: string | null;
+  end_time: string | null;
+  updated_at: Date;
+}
+
+// Approval chain types
+export type ApproverKind = 'line_manager' | 'user';
+
+export interface ApprovalChainStep {
+  step_order: number;
+  approver_kind: ApproverKind;
+  approver_id: number | null;
+  approver_name: string | null;
+}
+
+export interface ApprovalChain {
+  id: number;
+  name: string;
+  leave_type_id: number | null;
+  leave_type_name: string | null;
+  min_days: number;
+  is_active: boolean;
+  steps: ApprovalChainStep[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+// A step of a request's approval; for line manager steps the approver is the requester's
+// current manager. Built as JSON, so the sign-off time is an ISO string.
+export interface RequestApprovalStep extends ApprovalChainStep {
+  approved_by: number | null;
+  approved_by_name: string | null;
+  on_behalf_of: number | null;
+  on_behalf_of_name: string | null;
+  approved_at: string | null;
+  notes: string | null;
+}
+
+// Approval rule types
+export type ApprovalRuleAction = 'auto_approve' | 'route';
+
+export interface ApprovalRule {
+  id: number;
+  name: string;
+  priority: number;
+  action: ApprovalRuleAction;
+  route_to_id: number | null;
+  route_to_name: string | null;
+  leave_type_id: number | null;
+  leave_type_name: string | null;
+  max_days: number | null;
+  min_notice_days: number | null;
+  min_balance_after: number | null;
+  max_team_absent: number | null;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Blackout period types
+export type BlackoutMode = 'block' | 'extra_approval';
+
+export interface BlackoutPeriod {
+  id: number;
+  name: string;
+  team_id: number | null;
+  team_name: string | null;
+  starts_on: string;
+  ends_on: string;
+  mode: BlackoutMode;
+  approver_id: number | null;
+  approver_name: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Delegation types
+export interface Delegation {
+  id: number;
+  delegator_id: number;
+  delegator_name: string;
+  delegate_id: number;
+  delegate_name: string;
+  starts_on: string;
+  ends_on: string;
+  note: string | null;
+  created_at: Date;
+}
+
+// Holiday types
+export interface Holiday {
+  id: number;
+  name: string;
+  holiday_date: string;
+  country_code: string;
+  region: string | null;
+  is_recurring: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Accrual types
+export type AccrualFrequency = 'monthly' | 'yearly';
+
+export interface AccrualPolicy {
+  id: number;
+  name: string;
+  leave_type_id: number;
+  frequency: AccrualFrequency;
+  days_per_period: number;
+  starts_on: string;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface AccrualPolicyWithLeaveType extends AccrualPolicy {
+  leave_type_name: string;
+}
+
+export interface AccrualEntry {
+  policy_id: number;
+  policy_name: string;
+  user_id: number;
+  user_name: string;
+  leave_type_id: number;
+  leave_type_name: string;
+  period_start: string;
+  period_end: string;
+  days: number;
+}
+
+export interface AccrualPosting extends AccrualEntry {
+  id: number;
+  posted_at: Date;
+}
+
+// Year close types
+export interface YearClose {
+  id: number;
+  year: number;
+  closed_by: number | null;
+  closed_by_name: string | null;
+  closed_at: Date;
+}
+
+export interface YearCloseItem {
+  user_id: number;
+  user_name: string;
+  leave_type_id: number;
+  leave_type_name: string;
+  days_unused: number;
+  days_carried: number;
+  days_forfeited: number;
+  days_paid_out: number;
+  carry_expires_on: string | null;
+}
+
+export interface YearCloseReport {
+  year: number;
+  close: YearClose | null;
+  items: YearCloseItem[];
+  totals: {
+    days_unused: number;
+    days_carried: number;
+    days_forfeited: number;
+    days_paid_out: number;
+  };
 }
 
 // Auth types
@@ -44,6 +460,7 @@ export interface AuthPayload {
   userId: number;
   email: string;
   role: UserRole;
+  isSuperAdmin: boolean;
 }
 
 export interface LoginResponse {
@@ -51,6 +468,103 @@ export interface LoginResponse {
   user: User;
 }
 
+// A supporting document attached to a request
+export interface RequestAttachment {
+  id: number;
+  request_id: number;
+  uploaded_by: number | null;
+  uploaded_by_name: string | null;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  created_at: Date;
+}
+
+export interface StoredAttachment extends RequestAttachment {
+  storage_key: string;
+}
+
+// Audit log types
+export type AuditEntityType =
+  | 'user'
+  | 'balance'
+  | 'team'
+  | 'request'
+  | 'request_comment'
+  | 'request_attachment'
+  | 'leave_type'
+  | 'holiday'
+  | 'accrual_policy'
+  | 'accrual_run'
+  | 'year_close'
+  | 'approval_chain'
+  | 'approval_rule'
+  | 'blackout'
+  | 'delegation'
+  | 'calendar_feed';
+
+// Where a change came from
+export interface AuditMetadata {
+  method: string;
+  path: string;
+  ip: string | null;
+  user_agent: string | null;
+  message: string | null;
+}
+
+export interface AuditEntry {
+  id: number;
+  actor_id: number | null;
+  actor_name: string | null;
+  action: string;
+  entity_type: AuditEntityType;
+  entity_id: number | null;
+  subject_id: number | null;
+  subject_name: string | null;
+  before: unknown;
+  after: unknown;
+  metadata: AuditMetadata;
+  created_at: Date;
+}
+
+export interface AuditLogPage {
+  entries: AuditEntry[];
+  total: number;
+  page: number;
+  page_size: number;
+}
+
+// Notification types
+// What a notification tells its recipient about a request: that it waits for their approval
+// (submitted, updated, or a step before theirs approved), was decided, or was withdrawn
+export type NotificationEvent =
+  | 'request_submitted'
+  | 'request_updated'
+  | 'request_step_approved'
+  | 'request_approved'
+  | 'request_rejected'
+  | 'request_deleted';
+
+export type NotificationStatus = 'pending' | 'sent' | 'failed';
+
+// An email in the outbox
+export interface OutboxMessage {
+  id: number;
+  event: NotificationEvent;
+  request_id: number | null;
+  recipient_id: number | null;
+  recipient_name: string;
+  recipient_email: string;
+  subject: string;
+  body: string;
+  status: NotificationStatus;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: Date;
+  sent_at: Date | null;
+  created_at: Date;
+}
+
 // HTTP types
 export interface ApiResponse<T = unknown> {
   success: boolean;
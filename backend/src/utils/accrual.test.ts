@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { listAccrualPeriods, periodContaining, proRatedDays } from './accrual.js';
+
+describe('periodContaining', () => {
+  it.each([
+    ['2025-03-15', 'monthly', '2025-03-01', '2025-03-31'],
+    ['2025-03-01', 'monthly', '2025-03-01', '2025-03-31'],
+    ['2025-04-30', 'monthly', '2025-04-01', '2025-04-30'],
+    ['2024-02-10', 'monthly', '2024-02-01', '2024-02-29'],
+    ['2025-02-10', 'monthly', '2025-02-01', '2025-02-28'],
+    ['2025-12-31', 'monthly', '2025-12-01', '2025-12-31'],
+    ['2025-07-04', 'yearly', '2025-01-01', '2025-12-31'],
+    ['2025-01-01', 'yearly', '2025-01-01', '2025-12-31'],
+  ] as const)('puts %s in a %s period from %s to %s', (date, frequency, start, end) => {
+    expect(periodContaining(date, frequency)).toEqual({ period_start: start, period_end: end });
+  });
+});
+
+describe('listAccrualPeriods', () => {
+  it('lists every month from the one accrual starts in to the one containing the date, across years', () => {
+    const periods = listAccrualPeriods('monthly', '2024-11-20', '2025-02-01');
+
+    expect(periods).toEqual([
+      { period_start: '2024-11-01', period_end: '2024-11-30' },
+      { period_start: '2024-12-01', period_end: '2024-12-31' },
+      { period_start: '2025-01-01', period_end: '2025-01-31' },
+      { period_start: '2025-02-01', period_end: '2025-02-28' },
+    ]);
+  });
+
+  it.each([
+    ['monthly', '2025-03-10', '2025-03-20', 1],
+    ['monthly', '2025-01-01', '2025-12-31', 12],
+    ['monthly', '2020-01-15', '2025-06-30', 66],
+    ['yearly', '2023-06-01', '2025-01-01', 3],
+    ['yearly', '2025-06-01', '2025-12-31', 1],
+    ['monthly', '2025-03-21', '2025-03-20', 0],
+    ['yearly', '2026-01-01', '2025-12-31', 0],
+  ] as const)('lists %s periods from %s to %s: %i', (frequency, from, asOf, count) => {
+    expect(listAccrualPeriods(frequency, from, asOf)).toHaveLength(count);
+  });
+});
+
+describe('proRatedDays', () => {
+  const MARCH = { period_start: '2025-03-01', period_end: '2025-03-31' };
+  const FEBRUARY_2024 = { period_start: '2024-02-01', period_end: '2024-02-29' };
+  const YEAR_2025 = { period_start: '2025-01-01', period_end: '2025-12-31' };
+
+  it.each([
+    ['a period accrual started before', 2.08, MARCH, '2024-09-15', 2.08],
+    ['a period accrual starts on the first day of', 2.08, MARCH, '2025-03-01', 2.08],
+    ['half of March', 2, MARCH, '2025-03-17', 0.97],
+    ['the last day of March', 2, MARCH, '2025-03-31', 0.06],
+    ['a period accrual starts after', 2, MARCH, '2025-04-01', 0],
+    ['half of a leap February', 2.9, FEBRUARY_2024, '2024-02-16', 1.4],
+    ['the second half of a year', 25, YEAR_2025, '2025-07-02', 12.53],
+    ['an amount with more than two decimals', 25 / 12, YEAR_2025, '2025-01-01', 2.08],
+  ])('credits %s', (_, daysPerPeriod, period, accrualStart, days) => {
+    expect(proRatedDays(daysPerPeriod, period, accrualStart)).toBe(days);
+  });
+
+  it('credits a whole year over its months as much as at once, give or take rounding', () => {
+    const monthly = listAccrualPeriods('monthly', '2025-01-01', '2025-12-31').reduce(
+      (total, period) => total + proRatedDays(25 / 12, period, '2025-01-01'),
+      0
+    );
+
+    expect(Math.abs(monthly - 25)).toBeLessThanOrEqual(0.05);
+  });
+});
@@ -0,0 +1,67 @@
+import type { AccrualFrequency } from '../types/index.js';
+import { formatDate, parseDate, roundDays } from './workingDays.js';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export interface AccrualPeriod {
+  period_start: string;
+  period_end: string;
+}
+
+/**
+ * First and last date of the month or year containing a date
+ */
+export function periodContaining(date: string, frequency: AccrualFrequency): AccrualPeriod {
+  const parsed = parseDate(date);
+  const year = parsed.getUTCFullYear();
+
+  if (frequency === 'yearly') {
+    return { period_start: `${year}-01-01`, period_end: `${year}-12-31` };
+  }
+
+  const month = parsed.getUTCMonth();
+  return {
+    period_start: formatDate(new Date(Date.UTC(year, month, 1))),
+    period_end: formatDate(new Date(Date.UTC(year, month + 1, 0))),
+  };
+}
+
+/**
+ * List the accrual periods from the one containing `from` up to the one containing `asOf` (inclusive)
+ */
+export function listAccrualPeriods(
+  frequency: AccrualFrequency,
+  from: string,
+  asOf: string
+): AccrualPeriod[] {
+  const periods: AccrualPeriod[] = [];
+  if (from > asOf) {
+    return periods;
+  }
+
+  let period = periodContaining(from, frequency);
+  while (period.period_start <= asOf) {
+    periods.push(period);
+    const next = new Date(parseDate(period.period_end).getTime() + MS_PER_DAY);
+    period = periodContaining(formatDate(next), frequency);
+  }
+  return periods;
+}
+
+/**
+ * Days to credit for a period: the full amount, or a share proportional to the calendar days
+ * covered when accrual starts part-way through the period (e.g. a mid-month hire date)
+ */
+export function proRatedDays(daysPerPeriod: number, period: AccrualPeriod, accrualStart: string): number {
+  if (accrualStart <= period.period_start) {
+    return roundDays(daysPerPeriod);
+  }
+  if (accrualStart > period.period_end) {
+    return 0;
+  }
+
+  const end = parseDate(period.period_end).getTime();
+  const periodDays = (end - parseDate(period.period_start).getTime()) / MS_PER_DAY + 1;
+  const coveredDays = (end - parseDate(accrualStart).getTime()) / MS_PER_DAY + 1;
+  return roundDays((daysPerPeriod * coveredDays) / periodDays);
+}
@@ -0,0 +1,135 @@
+import { Readable } from 'stream';
+import type { IncomingMessage } from 'http';
+import { describe, expect, it } from 'vitest';
+import { parseMultipart, RequestBodyError } from './http.js';
+
+/**
+ * A request carrying a body in chunks of at most chunkSize bytes
+ */
+function request(body: Buffer | string, contentType?: string, chunkSize = 16 * 1024): IncomingMessage {
+  const bytes = Buffer.from(body);
+  const chunks: Buffer[] = [];
+  for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+    chunks.push(bytes.subarray(offset, offset + chunkSize));
+  }
+  return Object.assign(Readable.from(chunks), {
+    headers: contentType === undefined ? {} : { 'content-type': contentType },
+  }) as unknown as IncomingMessage;
+}
+
+/**
+ * Encode a form the way a browser does, returning its body and Content-Type
+ */
+async function encode(form: FormData): Promise<{ body: Buffer; contentType: string }> {
+  const encoded = new globalThis.Response(form);
+  return {
+    body: Buffer.from(await encoded.arrayBuffer()),
+    contentType: encoded.headers.get('content-type') as string,
+  };
+}
+
+async function rejection(promise: Promise<unknown>): Promise<RequestBodyError> {
+  const error = await promise.then(
+    () => null,
+    (reason: unknown) => reason
+  );
+  expect(error).toBeInstanceOf(RequestBodyError);
+  return error as RequestBodyError;
+}
+
+describe('parseMultipart', () => {
+  it('reads the text fields and files of a form as a browser encodes it', async () => {
+    const form = new FormData();
+    form.append('description', 'Doctor’s note\r\nfor Monday');
+    form.append('file', new Blob([Buffer.from('%PDF-1.7\n...')], { type: 'application/PDF' }), 'note.pdf');
+    const { body, contentType } = await encode(form);
+
+    const parsed = await parseMultipart(request(body, contentType), 1024);
+
+    expect(parsed.fields).toEqual({ description: 'Doctor’s note\r\nfor Monday' });
+    expect(parsed.files).toHaveLength(1);
+    expect(parsed.files[0]).toMatchObject({ fieldName: 'file', fileName: 'note.pdf', contentType: 'application/pdf' });
+    expect(parsed.files[0].data.toString()).toBe('%PDF-1.7\n...');
+  });
+
+  it('keeps file content that looks like a boundary, arriving a byte at a time', async () => {
+    const boundary = 'XyZ';
+    const content = Buffer.from('see --XyZ below\r\n-- XyZ\r\n\r\n--');
+    const body = Buffer.concat([
+      Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="odd.txt"\r\n\r\n`),
+      content,
+      Buffer.from(`\r\n--${boundary}--\r\n`),
+    ]);
+
+    const parsed = await parseMultipart(request(body, `multipart/form-data; boundary=${boundary}`, 1), 1024);
+
+    // Only the boundary at the start of a line ends the part
+    expect(parsed.files[0].data.toString()).toBe('see --XyZ below\r\n-- XyZ\r\n\r\n--');
+  });
+
+  it('accepts a quoted boundary and a preamble, and strips the path some browsers send', async () => {
+    const body =
+      'preamble to ignore\r\n' +
+      '--a b\r\n' +
+      'Content-Disposition: form-data; name="file"; filename="C:\\Users\\jane\\scan.png"\r\n\r\n' +
+      'PNG\r\n' +
+      '--a b--';
+
+    const parsed = await parseMultipart(request(body, 'multipart/form-data; boundary="a b"'), 1024);
+
+    expect(parsed.files[0]).toMatchObject({ fileName: 'scan.png', contentType: 'application/octet-stream' });
+    expect(parsed.files[0].data.toString()).toBe('PNG');
+  });
+
+  it.each([
+    ['no Content-Type', undefined],
+    ['a JSON body', 'application/json'],
+    ['no boundary', 'multipart/form-data'],
+  ])('refuses a body with %s', async (_, contentType) => {
+    const error = await rejection(parseMultipart(request('{}', contentType), 1024));
+
+    expect(error.statusCode).toBe(400);
+    expect(error.message).toBe('Expected a multipart/form-data body');
+  });
+
+  it.each([
+    ['without the boundary', 'just some text'],
+    ['cut off before its closing boundary', '--b\r\nContent-Disposition: form-data; name="x"\r\n\r\nvalue'],
+    ['with a part missing its headers', '--b\r\nvalue\r\n--b--'],
+  ])('refuses a body %s', async (_, body) => {
+    const error = await rejection(parseMultipart(request(body, 'multipart/form-data; boundary=b'), 1024));
+
+    expect(error.statusCode).toBe(400);
+    expect(error.message).toBe('Invalid multipart body');
+  });
+
+  it('takes a file of exactly the size limit', async () => {
+    const form = new FormData();
+    form.append('file', new Blob([Buffer.alloc(1024, 1)]), 'full.bin');
+    const { body, contentType } = await encode(form);
+
+    const parsed = await parseMultipart(request(body, contentType), 1024);
+
+    expect(parsed.files[0].data).toHaveLength(1024);
+  });
+
+  it('refuses a file over the size limit', async () => {
+    const form = new FormData();
+    form.append('file', new Blob([Buffer.alloc(1025, 1)]), 'big.bin');
+    const { body, contentType } = await encode(form);
+
+    const error = await rejection(parseMultipart(request(body, contentType), 1024));
+
+    expect(error.statusCode).toBe(413);
+    expect(error.message).toMatch(/^Files can be at most/);
+  });
+
+  it('refuses a body too large for any form, whatever it holds', async () => {
+    const body = Buffer.alloc(2 * 1024 * 1024, '-');
+
+    const error = await rejection(parseMultipart(request(body, 'multipart/form-data; boundary=b'), 1024 * 1024));
+
+    expect(error.statusCode).toBe(413);
+    expect(error.message).toBe('Files can be at most 1 MB');
+  });
+});
@@ -10,7 +10,10 @@ export interface Request extends IncomingMessage {
   user?: AuthPayload;
 }
 
-export type Response = ServerResponse;
+export interface Response extends ServerResponse {
+  // The JSON body sent, for middleware that looks at the outcome (e.g. the audit log)
+  payload?: ApiResponse;
+}
 
 export type Handler = (req: Request, res: Response) => Promise<void> | void;
 
@@ -21,10 +24,45 @@ export type Route = {
   paramNames: string[];
 };
 
+// A file from a multipart/form-data body
+export interface UploadedFile {
+  fieldName: string;
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+}
+
+export interface MultipartBody {
+  fields: Record<string, string>;
+  files: UploadedFile[];
+}
+
+// A body that cannot be read, with the status to answer it with
+export class RequestBodyError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+// Room for the part headers and text fields around the files of a multipart body
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+// Bodies already read, so middleware and handlers can both parse a request's body
+const parsedBodies = new WeakMap<IncomingMessage, Promise<unknown>>();
+
 /**
  * Parse JSON body from request
  */
 export async function parseBody(req: IncomingMessage): Promise<unknown> {
+  let body = parsedBodies.get(req);
+  if (!body) {
+    body = readBody(req);
+    parsedBodies.set(req, body);
+  }
+  return body;
+}
+
+function readBody(req: IncomingMessage): Promise<unknown> {
   return new Promise((resolve, reject) => {
     let body = '';
     req.on('data', (chunk) => {
@@ -41,6 +79,92 @@ export async function parseBody(req: IncomingMessage): Promise<unknown> {
   });
 }
 
+/**
+ * Parse a multipart/form-data body into its text fields and files, refusing files larger than
+ * maxFileBytes (and bodies larger than that plus room for the form around the files)
+ */
+export function parseMultipart(req: IncomingMessage, maxFileBytes: number): Promise<MultipartBody> {
+  return new Promise((resolve, reject) => {
+    const boundary = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(req.headers['content-type'] || '');
+    if (!req.headers['content-type']?.startsWith('multipart/form-data') || !boundary) {
+      reject(new RequestBodyError(400, 'Expected a multipart/form-data body'));
+      return;
+    }
+
+    const maxBytes = maxFileBytes + MULTIPART_OVERHEAD_BYTES;
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        // Let the rest of the upload drain so the error response still reaches the client
+        chunks.length = 0;
+        reject(fileTooLarge(maxFileBytes));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(splitMultipart(Buffer.concat(chunks), boundary[1] || boundary[2], maxFileBytes));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function fileTooLarge(maxFileBytes: number): RequestBodyError {
+  return new RequestBodyError(413, `Files can be at most ${Math.round((maxFileBytes / 1024 / 1024) * 10) / 10} MB`);
+}
+
+function splitMultipart(body: Buffer, boundary: string, maxFileBytes: number): MultipartBody {
+  const result: MultipartBody = { fields: {}, files: [] };
+  const delimiter = Buffer.from(`\r\n--${boundary}`);
+  // The first delimiter has no line break before it
+  let position = body.indexOf(`--${boundary}`);
+  if (position === -1) {
+    throw new RequestBodyError(400, 'Invalid multipart body');
+  }
+  position += boundary.length + 2;
+
+  while (body.subarray(position, position + 2).toString() !== '--') {
+    // Skip the line break after the delimiter
+    position += 2;
+    const next = body.indexOf(delimiter, position);
+    const headerEnd = body.indexOf('\r\n\r\n', position);
+    if (next === -1 || headerEnd === -1 || headerEnd > next) {
+      throw new RequestBodyError(400, 'Invalid multipart body');
+    }
+
+    const headers = body.subarray(position, headerEnd).toString('utf8');
+    const content = body.subarray(headerEnd + 4, next);
+    const disposition = /content-disposition:([^\r\n]*)/i.exec(headers)?.[1] || '';
+    const name = /\bname="([^"]*)"/i.exec(disposition)?.[1];
+    const fileName = /\bfilename="([^"]*)"/i.exec(disposition)?.[1];
+    const contentType = /content-type:\s*([^\r\n;]+)/i.exec(headers)?.[1].trim().toLowerCase();
+
+    if (name !== undefined && fileName !== undefined) {
+      if (content.length > maxFileBytes) {
+        throw fileTooLarge(maxFileBytes);
+      }
+      result.files.push({
+        fieldName: name,
+        // Some browsers send the full path
+        fileName: fileName.split(/[\\/]/).pop() || 'file',
+        contentType: contentType || 'application/octet-stream',
+        data: content,
+      });
+    } else if (name !== undefined) {
+      result.fields[name] = content.toString('utf8');
+    }
+    position = next + delimiter.length;
+  }
+
+  return result;
+}
+
 /**
  * Send JSON response
  */
@@ -52,9 +176,33 @@ export function sendJson(res: Response, statusCode: number, data: ApiResponse):
     'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     'Access-Control-Allow-Credentials': 'true',
   });
+  res.payload = data;
   res.end(JSON.stringify(data));
 }
 
+/**
+ * Send a file (e.g. an iCalendar feed) as the response body; inline ones may be shown by the
+ * browser, the rest are downloaded
+ */
+export function sendFile(
+  res: Response,
+  contentType: string,
+  fileName: string,
+  content: string | Buffer,
+  disposition: 'inline' | 'attachment' = 'inline'
+): void {
+  // Plain ASCII name for old clients, the real one (RFC 5987) for the rest
+  const asciiName = fileName.replace(/[^\x20-\x7E]|["\\]/g, '_');
+  res.writeHead(200, {
+    'Content-Type': contentType,
+    'Content-Disposition': `${disposition}; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+    'X-Content-Type-Options': 'nosniff',
+    'Cache-Control': 'no-cache',
+    'Access-Control-Allow-Origin': config.cors.origin,
+  });
+  res.end(content);
+}
+
 /**
  * Send success response
  */
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { buildICalendar, parseICalendarHolidays, type ICalendarEvent } from './ical.js';
+
+/**
+ * A calendar file with the given event lines, each event between its BEGIN and END
+ */
+function calendar(...events: string[][]): string {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    ...events.flatMap((lines) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+    'END:VCALENDAR',
+  ].join('\r\n');
+}
+
+describe('parseICalendarHolidays', () => {
+  it('reads one holiday per event day, DTEND being exclusive', () => {
+    const holidays = parseICalendarHolidays(
+      calendar(
+        ['DTSTART;VALUE=DATE:20251225', 'DTEND;VALUE=DATE:20251227', 'SUMMARY:Christmas'],
+        ['DTSTART:20250101T000000Z', 'SUMMARY:New Year', 'RRULE:FREQ=YEARLY']
+      )
+    );
+
+    expect(holidays).toEqual([
+      { name: 'Christmas', holiday_date: '2025-12-25', is_recurring: false },
+      { name: 'Christmas', holiday_date: '2025-12-26', is_recurring: false },
+      { name: 'New Year', holiday_date: '2025-01-01', is_recurring: true },
+    ]);
+  });
+
+  it.each([
+    ['escaped punctuation', 'SUMMARY:Saints Peter\\, Paul\\; and others', 'Saints Peter, Paul; and others'],
+    ['line breaks as spaces', 'SUMMARY:Labour\\nDay\\NHoliday', 'Labour Day Holiday'],
+    ['an escaped backslash before an n', 'SUMMARY:C:\\\\new', 'C:\\new'],
+    ['a folded line', 'SUMMARY:Day of the\r\n  Holy Spirit', 'Day of the Holy Spirit'],
+    ['a line folded with a tab, LF line endings', 'SUMMARY:Ascen\n\tsion', 'Ascension'],
+  ])('unescapes %s in names', (_, summary, name) => {
+    const [holiday] = parseICalendarHolidays(calendar(['DTSTART;VALUE=DATE:20250501', summary]));
+
+    expect(holiday.name).toBe(name);
+  });
+
+  it('skips events without a valid start date', () => {
+    expect(
+      parseICalendarHolidays(
+        calendar(['SUMMARY:No date'], ['DTSTART;VALUE=DATE:20250230', 'SUMMARY:February 30th'], ['DTSTART:tomorrow'])
+      )
+    ).toEqual([]);
+  });
+
+  it('skips events too long to be public holidays instead of listing their days', () => {
+    const holidays = parseICalendarHolidays(
+      calendar(
+        ['DTSTART;VALUE=DATE:00010101', 'DTEND;VALUE=DATE:99991231', 'SUMMARY:Forever'],
+        ['DTSTART;VALUE=DATE:20250801', 'DTEND;VALUE=DATE:20250901', 'SUMMARY:August']
+      )
+    );
+
+    expect(holidays).toHaveLength(31);
+    expect(holidays.every((holiday) => holiday.name === 'August')).toBe(true);
+  });
+});
+
+describe('buildICalendar', () => {
+  const EVENT: ICalendarEvent = {
+    uid: 'request-10@vacation-portal',
+    summary: 'Jane Doe: Annual Leave',
+    start_date: '2025-12-29',
+    end_date: '2026-01-02',
+    last_modified: new Date('2025-11-03T09:15:42.123Z'),
+  };
+
+  /**
+   * The content lines of a built calendar, unfolded
+   */
+  function contentLines(ics: string): string[] {
+    return ics.replace(/\r\n[ \t]/g, '').split('\r\n');
+  }
+
+  it('writes all-day events ending the day after their last day, with CRLF line endings', () => {
+    const ics = buildICalendar('Support', [EVENT]);
+
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toContain('\n');
+    expect(contentLines(ics)).toEqual(
+      expect.arrayContaining([
+        'X-WR-CALNAME:Support',
+        'UID:request-10@vacation-portal',
+        'DTSTAMP:20251103T091542Z',
+        'DTSTART;VALUE=DATE:20251229',
+        'DTEND;VALUE=DATE:20260103',
+        'SUMMARY:Jane Doe: Annual Leave',
+      ])
+    );
+  });
+
+  it('writes events with times as floating local times on their day', () => {
+    const ics = buildICalendar('Support', [
+      { ...EVENT, end_date: EVENT.start_date, start_time: '09:00', end_time: '12:30' },
+    ]);
+
+    expect(contentLines(ics)).toEqual(expect.arrayContaining(['DTSTART:20251229T090000', 'DTEND:20251229T123000']));
+  });
+
+  it.each([
+    ['commas and semicolons', 'Team A, Team B; on call', 'Team A\\, Team B\\; on call'],
+    ['backslashes', 'C:\\new', 'C:\\\\new'],
+    ['line breaks', 'First line\r\nsecond\nthird', 'First line\\nsecond\\nthird'],
+  ])('escapes %s in text', (_, summary, escaped) => {
+    const ics = buildICalendar(summary, [{ ...EVENT, summary }]);
+
+    expect(contentLines(ics)).toEqual(expect.arrayContaining([`X-WR-CALNAME:${escaped}`, `SUMMARY:${escaped}`]));
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const summary = 'Zoë Ñúñez: Parental Leave — ' + '🌴'.repeat(20) + ' back in the spring';
+    const ics = buildICalendar('Support', [{ ...EVENT, summary }]);
+    const physicalLines = ics.split('\r\n');
+
+    expect(physicalLines.some((line) => line.startsWith(' '))).toBe(true);
+    for (const line of physicalLines) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+      // A lone surrogate would mean an emoji was cut in two
+      expect(line).not.toMatch(/[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/);
+    }
+    expect(contentLines(ics)).toContain(`SUMMARY:${summary}`);
+  });
+
+  it('leaves lines of exactly 75 octets unfolded', () => {
+    const summary = 'x'.repeat(75 - 'SUMMARY:'.length);
+    const ics = buildICalendar('Support', [{ ...EVENT, summary }]);
+
+    expect(ics.split('\r\n')).toContain(`SUMMARY:${summary}`);
+  });
+
+  it('reads back through the holiday import', () => {
+    const summary = 'Saints Peter, Paul; and C:\\new ' + 'ü'.repeat(60);
+    const ics = buildICalendar('Holidays', [{ ...EVENT, summary, end_date: '2025-12-30' }]);
+
+    expect(parseICalendarHolidays(ics)).toEqual([
+      { name: summary, holiday_date: '2025-12-29', is_recurring: false },
+      { name: summary, holiday_date: '2025-12-30', is_recurring: false },
+    ]);
+  });
+});
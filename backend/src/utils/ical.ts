@@ -0,0 +1,209 @@
+import { daysBetween, eachDate, formatDate, isValidDate, parseDate } from './workingDays.js';
+
+// Longest event taken as holidays, in days; anything longer is not a public holiday
+const MAX_HOLIDAY_DAYS = 31;
+
+export interface ICalendarHoliday {
+  name: string;
+  holiday_date: string;
+  is_recurring: boolean;
+}
+
+/**
+ * Unfold RFC 5545 content lines (continuation lines start with a space or tab)
+ */
+function unfoldLines(content: string): string[] {
+  return content
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.trim() !== '');
+}
+
+/**
+ * Split a content line into its name (without parameters), parameters and value
+ */
+function parseLine(line: string): { name: string; params: string[]; value: string } {
+  const colonIndex = line.indexOf(':');
+  const head = colonIndex === -1 ? line : line.substring(0, colonIndex);
+  const value = colonIndex === -1 ? '' : line.substring(colonIndex + 1);
+  const [name, ...params] = head.split(';');
+  return { name: name.toUpperCase(), params, value };
+}
+
+/**
+ * Convert an iCalendar DATE or DATE-TIME value to YYYY-MM-DD (null if it is no date)
+ */
+function toIsoDate(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  const date = match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+  return date && isValidDate(date) ? date : null;
+}
+
+/**
+ * Unescape iCalendar TEXT values, in one pass so an escaped backslash cannot start another escape.
+ * Line breaks become spaces.
+ */
+function unescapeText(value: string): string {
+  return value.replace(/\\([,;\\nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? ' ' : char)).trim();
+}
+
+/**
+ * Parse the VEVENTs of an iCalendar (.ics) file into holiday dates.
+ * Multi-day events are expanded to one holiday per day (DTEND is exclusive),
+ * and events with a yearly RRULE are flagged as recurring. Events without a valid start
+ * date, or longer than MAX_HOLIDAY_DAYS, are skipped.
+ */
+export function parseICalendarHolidays(content: string): ICalendarHoliday[] {
+  const holidays: ICalendarHoliday[] = [];
+  let event: { name: string; start: string | null; end: string | null; recurring: boolean } | null = null;
+
+  for (const line of unfoldLines(content)) {
+    const { name, value } = parseLine(line);
+
+    if (name === 'BEGIN' && value.toUpperCase() === 'VEVENT') {
+      event = { name: '', start: null, end: null, recurring: false };
+      continue;
+    }
+
+    if (!event) continue;
+
+    switch (name) {
+      case 'SUMMARY':
+        event.name = unescapeText(value);
+        break;
+      case 'DTSTART':
+        event.start = toIsoDate(value);
+        break;
+      case 'DTEND':
+        event.end = toIsoDate(value);
+        break;
+      case 'RRULE':
+        event.recurring = /FREQ=YEARLY/i.test(value);
+        break;
+      case 'END':
+        if (value.toUpperCase() === 'VEVENT' && event.start) {
+          let lastDate = event.start;
+          if (event.end && event.end > event.start) {
+            const exclusiveEnd = parseDate(event.end);
+            exclusiveEnd.setUTCDate(exclusiveEnd.getUTCDate() - 1);
+            lastDate = formatDate(exclusiveEnd);
+          }
+          const dates = daysBetween(event.start, lastDate) < MAX_HOLIDAY_DAYS ? eachDate(event.start, lastDate) : [];
+          for (const date of dates) {
+            holidays.push({
+              name: event.name || 'Holiday',
+              holiday_date: date,
+              is_recurring: event.recurring,
+            });
+          }
+        }
+        if (value.toUpperCase() === 'VEVENT') {
+          event = null;
+        }
+        break;
+    }
+  }
+
+  return holidays;
+}
+
+export interface ICalendarEvent {
+  uid: string;
+  summary: string;
+  // First and last day (inclusive), YYYY-MM-DD
+  start_date: string;
+  end_date: string;
+  // Set for events within a single day, HH:MM local time
+  start_time?: string | null;
+  end_time?: string | null;
+  last_modified: Date;
+}
+
+/**
+ * Escape iCalendar TEXT values
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/([,;])/g, '\\$1')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line longer than 75 octets onto continuation lines
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards their 75 octets
+    if (currentOctets + octets > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * Convert YYYY-MM-DD to an iCalendar DATE value
+ */
+function toICalendarDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+/**
+ * Convert a timestamp to an iCalendar UTC DATE-TIME value
+ */
+function toICalendarTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Build an iCalendar (.ics) file of events. Whole days are all-day events whose DTEND is the day
+ * after the last one (DTEND is exclusive); events with times use floating local times.
+ */
+export function buildICalendar(name: string, events: ICalendarEvent[]): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Vacation Portal//Absences//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  for (const event of events) {
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${toICalendarTimestamp(event.last_modified)}`);
+    if (event.start_time && event.end_time) {
+      const day = toICalendarDate(event.start_date);
+      lines.push(
+        `DTSTART:${day}T${event.start_time.replace(':', '')}00`,
+        `DTEND:${day}T${event.end_time.replace(':', '')}00`
+      );
+    } else {
+      const dayAfterEnd = parseDate(event.end_date);
+      dayAfterEnd.setUTCDate(dayAfterEnd.getUTCDate() + 1);
+      lines.push(
+        `DTSTART;VALUE=DATE:${toICalendarDate(event.start_date)}`,
+        `DTEND;VALUE=DATE:${toICalendarDate(formatDate(dayAfterEnd))}`
+      );
+    }
+    lines.push(
+      `SUMMARY:${escapeText(event.summary)}`,
+      `LAST-MODIFIED:${toICalendarTimestamp(event.last_modified)}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,117 @@
+import type { NotificationEvent, VacationRequest } from '../types/index.js';
+
+const PERIOD_LABELS = { am: 'morning', pm: 'afternoon' };
+
+export interface NotificationContext {
+  event: NotificationEvent;
+  request: VacationRequest;
+  recipientName: string;
+  // The recipient is the requester rather than one of their approvers
+  toRequester: boolean;
+  requesterName: string;
+  leaveTypeName: string;
+  // Who made the change (the approver, or whoever deleted the request)
+  actorName: string | null;
+  // The approver a delegate recipient stands in for
+  onBehalfOfName: string | null;
+  // Where the recipient sees the request in the portal
+  link: string;
+}
+
+export interface RenderedNotification {
+  subject: string;
+  body: string;
+}
+
+/**
+ * When a request is off, e.g. "2026-07-01 to 2026-07-10", "2026-07-01 (morning)" or
+ * "2026-07-01, 09:00-12:00"
+ */
+function describeDates(request: VacationRequest): string {
+  if (request.duration_type === 'half_day' && request.half_day_period) {
+    return `${request.start_date} (${PERIOD_LABELS[request.half_day_period]})`;
+  }
+  if (request.duration_type === 'hours' && request.start_time && request.end_time) {
+    return `${request.start_date}, ${request.start_time.slice(0, 5)}-${request.end_time.slice(0, 5)}`;
+  }
+  return request.start_date === request.end_date ? request.start_date : `${request.start_date} to ${request.end_date}`;
+}
+
+function describeDays(days: number): string {
+  return `${days} working ${days === 1 ? 'day' : 'days'}`;
+}
+
+/**
+ * The subject and plain-text body of a notification email
+ */
+export function renderNotification(context: NotificationContext): RenderedNotification {
+  const { request, requesterName, leaveTypeName } = context;
+  const dates = describeDates(request);
+  const leave = `${leaveTypeName}, ${dates} (${describeDays(request.days_requested)})`;
+  const approver = context.onBehalfOfName ? ` on behalf of ${context.onBehalfOfName}` : '';
+  const lines: string[] = [];
+  let subject: string;
+
+  switch (context.event) {
+    case 'request_submitted':
+    case 'request_updated': {
+      const verb = context.event === 'request_submitted' ? 'requested' : 'changed their request to';
+      if (request.status === 'approved') {
+        subject = `${requesterName} will be off: ${leaveTypeName}, ${dates}`;
+        lines.push(`${requesterName} ${verb} ${leave}.`, 'It was approved automatically; there is nothing for you to do.');
+      } else {
+        subject = `Leave request from ${requesterName} awaits your approval: ${leaveTypeName}, ${dates}`;
+        lines.push(`${requesterName} ${verb} ${leave}.`);
+        if (request.reason) {
+          lines.push(`Reason: ${request.reason}`);
+        }
+        lines.push(`It is waiting for your approval${approver}.`);
+      }
+      break;
+    }
+    case 'request_step_approved':
+      subject = `Leave request from ${requesterName} awaits your approval: ${leaveTypeName}, ${dates}`;
+      lines.push(
+        `${context.actorName ?? 'An approver'} approved ${requesterName}'s request for ${leave}.`,
+        `It now needs your approval${approver}.`
+      );
+      break;
+    case 'request_approved':
+    case 'request_rejected': {
+      const decision = context.event === 'request_approved' ? 'approved' : 'rejected';
+      subject = `Your leave request was ${decision}: ${leaveTypeName}, ${dates}`;
+      lines.push(
+        `Your request for ${leave} was ${decision}${context.actorName ? ` by ${context.actorName}` : ''}.`
+      );
+      if (request.manager_notes) {
+        lines.push(`Notes: ${request.manager_notes}`);
+      }
+      break;
+    }
+    case 'request_deleted':
+      if (context.toRequester) {
+        subject = `Your leave request was deleted: ${leaveTypeName}, ${dates}`;
+        lines.push(
+          `Your pending request for ${leave} was deleted${context.actorName ? ` by ${context.actorName}` : ''}.`
+        );
+      } else {
+        subject = `Leave request from ${requesterName} withdrawn: ${leaveTypeName}, ${dates}`;
+        lines.push(
+          `${requesterName}'s request for ${leave} was withdrawn and no longer needs your approval.`
+        );
+      }
+      break;
+  }
+
+  const body = [
+    `Hi ${context.recipientName},`,
+    '',
+    ...lines,
+    '',
+    `See your requests in the Vacation Portal: ${context.link}`,
+    '',
+    '-- ',
+    'Vacation Portal',
+  ].join('\n');
+  return { subject, body };
+}
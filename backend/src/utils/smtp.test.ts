@@ -0,0 +1,175 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { startStubSmtpServer, type StubSmtpServer } from '../test/smtpServer.js';
+import { formatAddress, sendMail, SmtpError, type MailMessage, type SmtpOptions } from './smtp.js';
+
+const MESSAGE: MailMessage = {
+  from: formatAddress('Vacation Portal', 'portal@company.com'),
+  to: formatAddress('Jane Doe', 'jane@company.com'),
+  subject: 'Your leave request was approved',
+  text: 'Hi Jane,\n\nYour request was approved.\n.\n-- \nVacation Portal',
+};
+
+let server: StubSmtpServer | null = null;
+
+afterEach(async () => {
+  await server?.close();
+  server = null;
+});
+
+function options(port: number, user: string | null = null): SmtpOptions {
+  return { host: '127.0.0.1', port, secure: false, user, password: 'secret' };
+}
+
+/**
+ * The headers and decoded body of a message as the server received it
+ */
+function parseMessage(data: string): { headers: Record<string, string>; body: string } {
+  const [head, body] = data.split('\r\n\r\n');
+  const headers = Object.fromEntries(
+    head
+      .replace(/\r\n /g, ' ')
+      .split('\r\n')
+      .map((line) => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 2)])
+  );
+  return { headers, body: Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8') };
+}
+
+/**
+ * Decode a header made of RFC 2047 encoded words
+ */
+function decodeWords(value: string): string {
+  return value
+    .split(' ')
+    .map((word) => Buffer.from(/^=\?UTF-8\?B\?(.*)\?=$/.exec(word)?.[1] ?? '', 'base64').toString('utf8'))
+    .join('');
+}
+
+async function failure(promise: Promise<unknown>): Promise<Error> {
+  const error = await promise.then(
+    () => null,
+    (reason: unknown) => reason
+  );
+  expect(error).toBeInstanceOf(Error);
+  return error as Error;
+}
+
+describe('formatAddress', () => {
+  it.each([
+    ['Jane Doe', '"Jane Doe" <jane@company.com>'],
+    ['Doe, "JD" Jane\\', '"Doe, \\"JD\\" Jane\\\\" <jane@company.com>'],
+    ['Zoë', '=?UTF-8?B?Wm/Dqw==?= <jane@company.com>'],
+    ['Jane\r\nBcc: x@evil.com', '"Jane Bcc: x@evil.com" <jane@company.com>'],
+  ])('formats %j', (name, mailbox) => {
+    expect(formatAddress(name, 'jane@company.com')).toBe(mailbox);
+  });
+});
+
+describe('sendMail', () => {
+  it('delivers a message with its envelope, headers and body', async () => {
+    server = await startStubSmtpServer();
+
+    await sendMail(options(server.port), MESSAGE);
+
+    expect(server.received).toHaveLength(1);
+    const [mail] = server.received;
+    expect(mail.from).toBe('portal@company.com');
+    expect(mail.to).toEqual(['jane@company.com']);
+    const { headers, body } = parseMessage(mail.data);
+    expect(headers).toMatchObject({
+      From: '"Vacation Portal" <portal@company.com>',
+      To: '"Jane Doe" <jane@company.com>',
+      Subject: 'Your leave request was approved',
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Content-Transfer-Encoding': 'base64',
+    });
+    expect(headers['Message-ID']).toMatch(/^<[0-9a-f-]{36}@company\.com>$/);
+    expect(body).toBe('Hi Jane,\r\n\r\nYour request was approved.\r\n.\r\n-- \r\nVacation Portal');
+    expect(server.commands.at(-1)).toBe('QUIT');
+  });
+
+  it('encodes a subject that is not ASCII as encoded words no longer than 75 characters', async () => {
+    server = await startStubSmtpServer();
+    const subject = 'Urlaubsantrag von Zoë Ñúñez wartet auf Ihre Genehmigung: Jahresurlaub 🌴';
+
+    await sendMail(options(server.port), { ...MESSAGE, subject });
+
+    const data = server.received[0].data;
+    const folded = /^Subject: (.*(?:\r\n .*)*)/m.exec(data)?.[1] ?? '';
+    for (const word of folded.split('\r\n ')) {
+      expect(word.length).toBeLessThanOrEqual(75);
+    }
+    expect(decodeWords(parseMessage(data).headers.Subject)).toBe(subject);
+  });
+
+  it('authenticates with the credentials it is given', async () => {
+    server = await startStubSmtpServer();
+
+    await sendMail(options(server.port, 'portal'), MESSAGE);
+
+    const auth = server.commands.find((command) => command.startsWith('AUTH PLAIN '));
+    expect(Buffer.from(auth?.slice(11) ?? '', 'base64').toString()).toBe('\0portal\0secret');
+  });
+
+  it.each([
+    ['a recipient', 'RCPT', '550 5.1.1 No such user', 550, 'SMTP RCPT failed: 550 5.1.1 No such user'],
+    ['the sender', 'MAIL', '553 5.7.1 Sender not allowed', 553, 'SMTP MAIL failed: 553 5.7.1 Sender not allowed'],
+    ['the message', 'MESSAGE', '554 5.6.0 Message rejected', 554, 'SMTP DATA failed: 554 5.6.0 Message rejected'],
+    ['the credentials', 'AUTH', '535 5.7.8 Bad credentials', 535, 'SMTP AUTH failed: 535 5.7.8 Bad credentials'],
+  ])('fails permanently when the server refuses %s', async (_, verb, reply, code, message) => {
+    server = await startStubSmtpServer({ [verb]: reply });
+
+    const error = await failure(sendMail(options(server.port, 'portal'), MESSAGE));
+
+    expect(error).toBeInstanceOf(SmtpError);
+    expect(error).toMatchObject({ code, message, permanent: true });
+  });
+
+  it('does not put the credentials in the error of a refused login', async () => {
+    server = await startStubSmtpServer({ AUTH: '535 5.7.8 Bad credentials' });
+
+    const error = await failure(sendMail(options(server.port, 'portal'), MESSAGE));
+
+    expect(error.message).not.toContain(Buffer.from('\0portal\0secret').toString('base64'));
+  });
+
+  it.each([
+    ['greeting', 'GREETING', '421 4.3.2 Too busy, try later', 421],
+    ['recipient', 'RCPT', '451 4.3.0 Mailbox temporarily unavailable', 451],
+    ['message', 'MESSAGE', '452 4.3.1 Insufficient storage', 452],
+  ])('fails temporarily on a 4xx reply to the %s', async (_, verb, reply, code) => {
+    server = await startStubSmtpServer({ [verb]: reply });
+
+    const error = await failure(sendMail(options(server.port), MESSAGE));
+
+    expect(error).toBeInstanceOf(SmtpError);
+    expect(error).toMatchObject({ code, permanent: false });
+  });
+
+  it('fails with the connection error when no server listens', async () => {
+    server = await startStubSmtpServer();
+    const { port } = server;
+    await server.close();
+    server = null;
+
+    const error = await failure(sendMail(options(port), MESSAGE));
+
+    expect(error).not.toBeInstanceOf(SmtpError);
+    expect(error).toMatchObject({ code: 'ECONNREFUSED' });
+  });
+
+  it('fails when the server hangs up before the message is accepted', async () => {
+    server = await startStubSmtpServer({ RCPT: null });
+
+    const error = await failure(sendMail(options(server.port), MESSAGE));
+
+    expect(error.message).toBe('SMTP server closed the connection');
+  });
+
+  it('succeeds once the message is accepted, even if the server hangs up on QUIT', async () => {
+    server = await startStubSmtpServer({ QUIT: null });
+
+    await sendMail(options(server.port), MESSAGE);
+
+    expect(server.received).toHaveLength(1);
+  });
+});
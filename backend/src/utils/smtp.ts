@@ -0,0 +1,276 @@
+import { randomUUID } from 'crypto';
+import { connect as connectTcp, type Socket } from 'net';
+import { hostname } from 'os';
+import { connect as connectTls } from 'tls';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // TLS from the start (port 465); otherwise the connection is upgraded if the server offers STARTTLS
+  secure: boolean;
+  user: string | null;
+  password: string;
+}
+
+// from and to are addresses or mailboxes as formatAddress makes them
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * A reply from the server that was not the one expected. 5xx replies are permanent: sending the
+ * same message again will fail the same way.
+ */
+export class SmtpError extends Error {
+  constructor(
+    public code: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+
+  get permanent(): boolean {
+    return this.code >= 500;
+  }
+}
+
+// Give up on a server that stops answering
+const TIMEOUT_MS = 30 * 1000;
+
+// Longest encoded word in a header, in bytes of the original text (RFC 2047 allows 75 characters)
+const ENCODED_WORD_BYTES = 45;
+
+/**
+ * A header value as is when it is plain ASCII, otherwise as UTF-8 encoded words. Line breaks are
+ * dropped so a value cannot add headers.
+ */
+function encodeHeader(value: string): string {
+  const text = value.replace(/[\r\n]+/g, ' ');
+  if (/^[\x20-\x7e]*$/.test(text)) {
+    return text;
+  }
+
+  // Split between characters, never inside one
+  const words: string[] = [];
+  let word = '';
+  for (const character of text) {
+    if (Buffer.byteLength(word + character) > ENCODED_WORD_BYTES) {
+      words.push(word);
+      word = '';
+    }
+    word += character;
+  }
+  words.push(word);
+  return words.map((part) => `=?UTF-8?B?${Buffer.from(part).toString('base64')}?=`).join('\r\n ');
+}
+
+/**
+ * A mailbox for a From or To header, e.g. "Jane Doe" <jane@example.com>
+ */
+export function formatAddress(name: string, email: string): string {
+  const text = name.replace(/[\r\n]+/g, ' ');
+  const encoded = encodeHeader(text);
+  const displayName = encoded === text ? `"${text.replace(/["\\]/g, '\\$&')}"` : encoded;
+  return `${displayName} <${email}>`;
+}
+
+/**
+ * The bare address of a mailbox, as the envelope needs it
+ */
+function addressOf(mailbox: string): string {
+  return (mailbox.match(/<([^>]*)>/)?.[1] ?? mailbox).trim();
+}
+
+/**
+ * A plain-text message in Internet Message Format, its body in base64 so any text is 7-bit safe
+ */
+function buildMessage(message: MailMessage): string {
+  const domain = addressOf(message.from).split('@')[1] || 'localhost';
+  const body = Buffer.from(message.text.replace(/\r?\n/g, '\r\n')).toString('base64').replace(/.{76}/g, '$&\r\n');
+
+  return [
+    `From: ${message.from.replace(/[\r\n]+/g, ' ')}`,
+    `To: ${message.to.replace(/[\r\n]+/g, ' ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n');
+}
+
+/**
+ * One conversation with an SMTP server: commands go out one at a time and each waits for its reply
+ */
+class SmtpSession {
+  private socket: Socket;
+  private received = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  private constructor(socket: Socket) {
+    this.socket = socket;
+    this.listen();
+  }
+
+  static open(options: SmtpOptions): Promise<SmtpSession> {
+    return new Promise((resolve, reject) => {
+      const socket = options.secure
+        ? connectTls({ host: options.host, port: options.port, servername: options.host })
+        : connectTcp({ host: options.host, port: options.port });
+      socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error('SMTP server timed out')));
+      socket.once('error', reject);
+      socket.once(options.secure ? 'secureConnect' : 'connect', () => {
+        socket.off('error', reject);
+        resolve(new SmtpSession(socket));
+      });
+    });
+  }
+
+  private onData = (chunk: Buffer) => {
+    this.received += chunk.toString('utf8');
+    let end: number;
+    while ((end = this.received.indexOf('\n')) !== -1) {
+      const line = this.received.slice(0, end).replace(/\r$/, '');
+      this.received = this.received.slice(end + 1);
+      this.lines.push(line);
+      // The last line of a reply has a space (or nothing) after the code, the others a hyphen
+      if (/^\d{3}(?!-)/.test(line)) {
+        this.deliver({ code: parseInt(line.slice(0, 3), 10), lines: this.lines.map((text) => text.slice(4)) });
+        this.lines = [];
+      }
+    }
+  };
+
+  private onError = (error: Error) => {
+    this.fail(error);
+  };
+
+  private onClose = () => {
+    this.fail(new Error('SMTP server closed the connection'));
+  };
+
+  private listen(): void {
+    this.socket.on('data', this.onData);
+    this.socket.on('error', this.onError);
+    this.socket.on('close', this.onClose);
+  }
+
+  private deliver(reply: SmtpReply): void {
+    if (this.waiting) {
+      this.waiting.resolve(reply);
+      this.waiting = null;
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    this.waiting?.reject(this.failure);
+    this.waiting = null;
+  }
+
+  private read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  /**
+   * Wait for the next reply, failing unless it has one of the expected codes. name says what it
+   * answers in the error (commands may carry credentials).
+   */
+  async expect(name: string, codes: number[]): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(reply.code, `SMTP ${name} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  async command(line: string, codes: number[], name = line.split(' ')[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(name, codes);
+  }
+
+  /**
+   * Switch the connection to TLS after STARTTLS was accepted
+   */
+  async upgrade(host: string): Promise<void> {
+    // The plain socket keeps its error listener: an error on it must not go unhandled
+    this.socket.off('data', this.onData);
+    this.socket.off('close', this.onClose);
+
+    this.socket = await new Promise<Socket>((resolve, reject) => {
+      const secured = connectTls({ socket: this.socket, servername: host });
+      secured.setTimeout(TIMEOUT_MS, () => secured.destroy(new Error('SMTP server timed out')));
+      secured.once('error', reject);
+      secured.once('secureConnect', () => {
+        secured.off('error', reject);
+        resolve(secured);
+      });
+    });
+    this.listen();
+  }
+
+  close(): void {
+    this.socket.off('close', this.onClose);
+    this.socket.destroy();
+  }
+}
+
+/**
+ * Send a message over SMTP, one connection per message. Resolves once the server has accepted it;
+ * rejects with an SmtpError when the server refuses it, or the connection's error.
+ */
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<void> {
+  const session = await SmtpSession.open(options);
+  const clientName = hostname() || 'localhost';
+
+  try {
+    await session.expect('greeting', [220]);
+    const hello = await session.command(`EHLO ${clientName}`, [250]);
+    if (!options.secure && hello.lines.some((line) => /^STARTTLS\b/i.test(line))) {
+      await session.command('STARTTLS', [220]);
+      await session.upgrade(options.host);
+      await session.command(`EHLO ${clientName}`, [250]);
+    }
+
+    if (options.user) {
+      const credentials = Buffer.from(`\0${options.user}\0${options.password}`).toString('base64');
+      await session.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await session.command(`MAIL FROM:<${addressOf(message.from)}>`, [250]);
+    await session.command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251]);
+    await session.command('DATA', [354]);
+    // Lines starting with a dot are doubled so none can end the data early
+    await session.command(`${buildMessage(message).replace(/^\./gm, '..')}\r\n.`, [250], 'DATA');
+    // The message is accepted; a server that hangs up rudely must not get it sent again
+    await session.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    session.close();
+  }
+}
@@ -0,0 +1,147 @@
+import { EventEmitter } from 'events';
+import { describe, expect, it } from 'vitest';
+import { unzip } from '../test/unzip.js';
+import { parseCsv, streamSpreadsheet, type SpreadsheetColumn, type SpreadsheetFormat } from './spreadsheet.js';
+import type { Response } from './http.js';
+
+interface Row {
+  name: string;
+  note: string | null;
+  days: number;
+}
+
+const COLUMNS: SpreadsheetColumn<Row>[] = [
+  { header: 'Name', value: (row) => row.name },
+  { header: 'Note', value: (row) => row.note },
+  { header: 'Days', value: (row) => row.days },
+];
+
+const ROWS: Row[] = [
+  { name: 'Jane Doe', note: null, days: 2.5 },
+  { name: 'Doe, John', note: 'Said "back soon"', days: 1 },
+  { name: 'Zoë Ñúñez', note: 'Line one\nline two', days: 0 },
+  { name: '=HYPERLINK("http://evil")', note: '-1', days: -3 },
+  { name: 'A & B <team>', note: 'tab\there\u0007', days: 10 },
+];
+
+async function* inBatches<T>(rows: T[], size: number): AsyncGenerator<T[]> {
+  for (let index = 0; index < rows.length; index += size) {
+    yield rows.slice(index, index + size);
+  }
+}
+
+/**
+ * Stream ROWS as a download and return the status, headers and bytes written
+ */
+async function download(format: SpreadsheetFormat) {
+  const chunks: Buffer[] = [];
+  let status = 0;
+  let headers: Record<string, string> = {};
+  let ended = false;
+  const res = Object.assign(new EventEmitter(), {
+    destroyed: false,
+    writeHead: (statusCode: number, head: Record<string, string>) => {
+      status = statusCode;
+      headers = head;
+    },
+    write: (chunk: string | Buffer) => {
+      chunks.push(Buffer.from(chunk));
+      return true;
+    },
+    end: () => {
+      ended = true;
+    },
+  }) as unknown as Response;
+
+  await streamSpreadsheet(res, format, 'requests', COLUMNS, inBatches(ROWS, 2));
+  expect(ended).toBe(true);
+  return { status, headers, body: Buffer.concat(chunks) };
+}
+
+describe('parseCsv', () => {
+  it.each([
+    ['plain fields', 'a,b,c\n1,2,3', [['a', 'b', 'c'], ['1', '2', '3']]],
+    ['CRLF line endings', 'a,b\r\n1,2\r\n', [['a', 'b'], ['1', '2']]],
+    ['CR line endings', 'a,b\r1,2', [['a', 'b'], ['1', '2']]],
+    ['a leading byte order mark', '\uFEFFname,email\nJane,jane@company.com', [['name', 'email'], ['Jane', 'jane@company.com']]],
+    ['quoted delimiters', '"Doe, Jane",x', [['Doe, Jane', 'x']]],
+    ['doubled quotes', '"She said ""hi""",x', [['She said "hi"', 'x']]],
+    ['line breaks in quotes', '"one\r\ntwo",x\ny,z', [['one\r\ntwo', 'x'], ['y', 'z']]],
+    ['empty fields', ',a,,\n', [['', 'a', '', '']]],
+    ['an empty quoted field', '"",a', [['', 'a']]],
+    ['blank lines', 'a\n\nb', [['a'], [''], ['b']]],
+    ['no content', '', []],
+    ['only a byte order mark', '\uFEFF', []],
+  ])('reads %s', (_, content, records) => {
+    expect(parseCsv(content)).toEqual(records);
+  });
+
+  it('keeps a byte order mark that is not at the start', () => {
+    expect(parseCsv('a,\uFEFFb')).toEqual([['a', '\uFEFFb']]);
+  });
+});
+
+describe('streamSpreadsheet as CSV', () => {
+  it('writes a UTF-8 download with a byte order mark and CRLF line endings', async () => {
+    const { status, headers, body } = await download('csv');
+
+    expect(status).toBe(200);
+    expect(headers['Content-Type']).toBe('text/csv; charset=utf-8');
+    expect(headers['Content-Disposition']).toBe('attachment; filename="requests.csv"');
+    expect(body.subarray(0, 3)).toEqual(Buffer.from([0xef, 0xbb, 0xbf]));
+    expect(body.toString('utf8').split('\r\n')[0]).toBe('\uFEFFName,Note,Days');
+  });
+
+  it('reads back through parseCsv, with formulas defused', async () => {
+    const { body } = await download('csv');
+
+    const [header, ...records] = parseCsv(body.toString('utf8'));
+    expect(header).toEqual(['Name', 'Note', 'Days']);
+    expect(records).toEqual([
+      ['Jane Doe', '', '2.5'],
+      ['Doe, John', 'Said "back soon"', '1'],
+      ['Zoë Ñúñez', 'Line one\nline two', '0'],
+      [`'=HYPERLINK("http://evil")`, "'-1", '-3'],
+      ['A & B <team>', 'tab\there\u0007', '10'],
+    ]);
+  });
+});
+
+describe('streamSpreadsheet as XLSX', () => {
+  it('writes a workbook whose parts read back from the archive', async () => {
+    const { headers, body } = await download('xlsx');
+
+    expect(headers['Content-Disposition']).toBe('attachment; filename="requests.xlsx"');
+    const parts = new Map(unzip(body).map((entry) => [entry.name, entry.content.toString('utf8')]));
+    expect([...parts.keys()]).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/workbook.xml',
+      'xl/worksheets/sheet1.xml',
+    ]);
+    expect(parts.get('xl/workbook.xml')).toContain('<sheet name="requests" sheetId="1" r:id="rId1"/>');
+  });
+
+  it('writes one row per record under a bold header, with text escaped and numbers as numbers', async () => {
+    const { body } = await download('xlsx');
+
+    const sheet = unzip(body).find((entry) => entry.name === 'xl/worksheets/sheet1.xml')!.content.toString('utf8');
+    const rows = sheet.match(/<row>[\s\S]*?<\/row>/g) ?? [];
+    const text = (value: string) => `<t xml:space="preserve">${value}</t>`;
+    expect(rows).toHaveLength(ROWS.length + 1);
+    expect(rows[0]).toBe(
+      `<row><c t="inlineStr" s="1"><is>${text('Name')}</is></c><c t="inlineStr" s="1"><is>${text('Note')}</is></c>` +
+        `<c t="inlineStr" s="1"><is>${text('Days')}</is></c></row>`
+    );
+    expect(rows[1]).toBe(`<row><c t="inlineStr"><is>${text('Jane Doe')}</is></c><c/><c><v>2.5</v></c></row>`);
+    expect(rows[2]).toContain(text('Said &quot;back soon&quot;'));
+    expect(rows[3]).toContain(text('Line one\nline two'));
+    // Cells hold values, not formulas, so nothing needs defusing
+    expect(rows[4]).toContain(text('=HYPERLINK(&quot;http://evil&quot;)'));
+    expect(rows[5]).toContain(text('A &amp; B &lt;team&gt;'));
+    // Tabs are allowed in XML; other control characters are dropped
+    expect(rows[5]).toContain(text('tab\there'));
+  });
+});
@@ -0,0 +1,233 @@
+import { config } from '../config/env.js';
+import { createZipWriter } from './zip.js';
+import type { Response } from './http.js';
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+export type CellValue = string | number | null | undefined;
+
+export interface SpreadsheetColumn<T> {
+  header: string;
+  value: (row: T) => CellValue;
+}
+
+const CONTENT_TYPES: Record<SpreadsheetFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// Byte order mark, so Excel reads CSV files as UTF-8
+const UTF8_BOM = '\uFEFF';
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Fixed parts of a single-sheet workbook; style 1 is the bold header row
+const XLSX_PARTS: Record<string, string> = {
+  '[Content_Types].xml':
+    XML_DECLARATION +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    '</Types>',
+  '_rels/.rels':
+    XML_DECLARATION +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>',
+  'xl/_rels/workbook.xml.rels':
+    XML_DECLARATION +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+    '</Relationships>',
+  'xl/styles.xml':
+    XML_DECLARATION +
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+    '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+    '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+    '</styleSheet>',
+};
+
+/**
+ * Format a CSV field: quoted when it holds a delimiter, quote or line break, and with text that
+ * a spreadsheet would run as a formula (=, +, -, @) prefixed with an apostrophe
+ */
+function csvField(value: CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return String(value);
+
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvLine(values: CellValue[]): string {
+  return values.map(csvField).join(',') + '\r\n';
+}
+
+/**
+ * Parse CSV text into records of fields, accepting quoted fields (with doubled quotes and line
+ * breaks inside), CRLF or LF line endings and a leading byte order mark
+ */
+export function parseCsv(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  const text = content.startsWith(UTF8_BOM) ? content.slice(1) : content;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+/**
+ * Escape text for XML, dropping characters XML cannot contain
+ */
+function escapeXml(value: string): string {
+  return value
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function xlsxRow(values: CellValue[], style?: number): string {
+  const styleAttribute = style ? ` s="${style}"` : '';
+  const cells = values.map((value) => {
+    if (value === null || value === undefined || value === '') return `<c${styleAttribute}/>`;
+    if (typeof value === 'number') return `<c${styleAttribute}><v>${value}</v></c>`;
+    return `<c t="inlineStr"${styleAttribute}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+  });
+  return `<row>${cells.join('')}</row>`;
+}
+
+/**
+ * Promise-based write that waits for the response to drain, and fails once the client has gone
+ * (so whatever feeds the export stops instead of waiting forever)
+ */
+function responseWriter(res: Response): (chunk: string | Buffer) => Promise<void> {
+  return (chunk) =>
+    new Promise((resolve, reject) => {
+      if (res.destroyed) {
+        reject(new Error('Client disconnected'));
+        return;
+      }
+      if (res.write(chunk)) {
+        resolve();
+        return;
+      }
+      const onDrain = () => {
+        res.off('close', onClose);
+        resolve();
+      };
+      const onClose = () => {
+        res.off('drain', onDrain);
+        reject(new Error('Client disconnected'));
+      };
+      res.once('drain', onDrain);
+      res.once('close', onClose);
+    });
+}
+
+/**
+ * Stream rows, fetched in batches, to the response as a CSV or single-sheet XLSX download,
+ * writing each batch as it arrives
+ */
+export async function streamSpreadsheet<T>(
+  res: Response,
+  format: SpreadsheetFormat,
+  fileName: string,
+  columns: SpreadsheetColumn<T>[],
+  batches: AsyncIterable<T[]>
+): Promise<void> {
+  res.writeHead(200, {
+    'Content-Type': CONTENT_TYPES[format],
+    'Content-Disposition': `attachment; filename="${fileName}.${format}"`,
+    'Cache-Control': 'no-cache',
+    'Access-Control-Allow-Origin': config.cors.origin,
+    'Access-Control-Allow-Credentials': 'true',
+  });
+  const write = responseWriter(res);
+  const header = columns.map((column) => column.header);
+  const cells = (row: T) => columns.map((column) => column.value(row));
+
+  if (format === 'csv') {
+    await write(UTF8_BOM + csvLine(header));
+    for await (const batch of batches) {
+      await write(batch.map((row) => csvLine(cells(row))).join(''));
+    }
+  } else {
+    const zip = createZipWriter(write);
+    for (const [name, content] of Object.entries(XLSX_PARTS)) {
+      await zip.addEntry(name, content);
+    }
+    await zip.addEntry(
+      'xl/workbook.xml',
+      XML_DECLARATION +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+        'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${escapeXml(fileName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets></workbook>`
+    );
+    await zip.addEntry('xl/worksheets/sheet1.xml', sheetXml(header, batches, cells));
+    await zip.end();
+  }
+
+  res.end();
+}
+
+/**
+ * Worksheet XML with a frozen bold header row, produced batch by batch
+ */
+async function* sheetXml<T>(
+  header: string[],
+  batches: AsyncIterable<T[]>,
+  cells: (row: T) => CellValue[]
+): AsyncGenerator<string> {
+  yield XML_DECLARATION +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0">' +
+    '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+    '</sheetView></sheetViews><sheetData>' +
+    xlsxRow(header, 1);
+  for await (const batch of batches) {
+    yield batch.map((row) => xlsxRow(cells(row))).join('');
+  }
+  yield '</sheetData></worksheet>';
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import {
+  coverageQuerySchema,
+  createHolidaySchema,
+  createVacationRequestSchema,
+  MAX_REQUEST_DAYS,
+  requestDurationSchema,
+  updateHolidaySchema,
+  updateVacationRequestSchema,
+  workingDaysQuerySchema,
+} from './validation.js';
+
+describe('request date ranges', () => {
+  const schemas = [
+    ['createVacationRequestSchema', createVacationRequestSchema],
+    ['workingDaysQuerySchema', workingDaysQuerySchema],
+    ['coverageQuerySchema', coverageQuerySchema],
+  ] as const;
+
+  describe.each(schemas)('%s', (_name, schema) => {
+    it('accepts a range within the limit', () => {
+      expect(schema.safeParse({ start_date: '2025-07-07', end_date: '2025-07-11' }).success).toBe(true);
+      expect(schema.safeParse({ start_date: '2025-01-01', end_date: '2025-12-31' }).success).toBe(true);
+    });
+
+    it('rejects dates that do not exist', () => {
+      expect(schema.safeParse({ start_date: '2025-02-31', end_date: '2025-03-02' }).success).toBe(false);
+      expect(schema.safeParse({ start_date: '2025-07-07', end_date: '2025-13-01' }).success).toBe(false);
+    });
+
+    it('rejects ranges that end before they start', () => {
+      expect(schema.safeParse({ start_date: '2025-07-11', end_date: '2025-07-07' }).success).toBe(false);
+    });
+
+    it(`rejects ranges longer than ${MAX_REQUEST_DAYS} days`, () => {
+      expect(schema.safeParse({ start_date: '0001-01-01', end_date: '9999-12-31' }).success).toBe(false);
+      expect(schema.safeParse({ start_date: '2024-01-01', end_date: '2025-01-01' }).success).toBe(false);
+    });
+  });
+});
+
+describe('holiday dates', () => {
+  it('accepts a date that exists, leap days included', () => {
+    const holiday = { name: 'Leap Day', holiday_date: '2024-02-29', country_code: 'GR' };
+    expect(createHolidaySchema.safeParse(holiday).success).toBe(true);
+    expect(updateHolidaySchema.safeParse({ holiday_date: '2024-02-29' }).success).toBe(true);
+  });
+
+  it('rejects a date that does not exist', () => {
+    const holiday = { name: 'Nowhere Day', holiday_date: '2025-02-31', country_code: 'GR' };
+    expect(createHolidaySchema.safeParse(holiday).success).toBe(false);
+    expect(updateHolidaySchema.safeParse({ holiday_date: '2025-02-29' }).success).toBe(false);
+  });
+});
+
+describe('partial-day durations', () => {
+  const DAY = { start_date: '2025-07-07', end_date: '2025-07-07' };
+
+  describe.each([
+    ['createVacationRequestSchema', createVacationRequestSchema],
+    ['requestDurationSchema', requestDurationSchema],
+  ] as const)('%s', (_name, schema) => {
+    it('accepts a half day with a period and hours that end after they start', () => {
+      expect(schema.safeParse({ ...DAY, duration_type: 'half_day', half_day_period: 'pm' }).success).toBe(true);
+      expect(schema.safeParse({ ...DAY, duration_type: 'hours', start_time: '09:00', end_time: '12:30' }).success).toBe(
+        true
+      );
+    });
+
+    it('needs a period for a half day', () => {
+      expect(schema.safeParse({ ...DAY, duration_type: 'half_day', half_day_period: null }).success).toBe(false);
+    });
+
+    it('needs hours that end after they start', () => {
+      expect(schema.safeParse({ ...DAY, duration_type: 'hours', start_time: '15:00', end_time: '12:00' }).success).toBe(
+        false
+      );
+      expect(schema.safeParse({ ...DAY, duration_type: 'hours', start_time: '09:00', end_time: '09:00' }).success).toBe(
+        false
+      );
+      expect(schema.safeParse({ ...DAY, duration_type: 'hours', start_time: '09:00', end_time: null }).success).toBe(
+        false
+      );
+    });
+
+    it('keeps partial days to a single date', () => {
+      expect(
+        schema.safeParse({ ...DAY, end_date: '2025-07-08', duration_type: 'half_day', half_day_period: 'am' }).success
+      ).toBe(false);
+    });
+  });
+
+  it('checks an update only against the fields it changes', () => {
+    // Whether a new start time still comes before the end time is checked once merged into the request
+    expect(updateVacationRequestSchema.safeParse({ start_time: '15:00' }).success).toBe(true);
+    expect(updateVacationRequestSchema.safeParse({ duration_type: 'hours', start_time: '15:00' }).success).toBe(false);
+  });
+});
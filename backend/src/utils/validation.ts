@@ -1,4 +1,14 @@
 import { z } from 'zod';
+import { daysBetween, isValidDate } from './workingDays.js';
+
+// Longest date range a request (or a query about one) may span, in days
+export const MAX_REQUEST_DAYS = 366;
+
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)')
+  .refine(isValidDate, 'Invalid date');
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Invalid time format (HH:MM)');
 
 // User validation schemas
 export const createUserSchema = z.object({
@@ -10,12 +20,29 @@ export const createUserSchema = z.object({
     .regex(/^\d{7}$/, 'Employee code must contain only digits'),
   password: z.string().min(8, 'Password must be at least 8 characters'),
   role: z.enum(['manager', 'employee']).optional().default('employee'),
+  country_code: z.string().regex(/^[A-Za-z]{2}$/, 'Country code must be 2 letters').optional().default('GR'),
+  region: z.string().max(100).optional(),
+  hire_date: dateSchema.optional(),
+  team_id: z.number().int().positive().nullable().optional(),
+  manager_id: z.number().int().positive().nullable().optional(),
+  is_super_admin: z.boolean().optional().default(false),
 });
 
 export const updateUserSchema = z.object({
   name: z.string().min(1).max(255).optional(),
   email: z.string().email().optional(),
   password: z.string().min(8).optional(),
+  country_code: z.string().regex(/^[A-Za-z]{2}$/, 'Country code must be 2 letters').optional(),
+  region: z.string().max(100).optional(),
+  hire_date: dateSchema.optional(),
+  team_id: z.number().int().positive().nullable().optional(),
+  manager_id: z.number().int().positive().nullable().optional(),
+  is_super_admin: z.boolean().optional(),
+});
+
+export const importUsersSchema = z.object({
+  content: z.string().min(1, 'CSV file is empty').max(1_000_000, 'CSV file is too large'),
+  dry_run: z.boolean().optional().default(true),
 });
 
 export const loginSchema = z.object({
@@ -24,39 +51,429 @@ export const loginSchema = z.object({
 });
 
 // Vacation request validation schemas
+const durationFields = {
+  duration_type: z.enum(['full_day', 'half_day', 'hours']),
+  half_day_period: z.enum(['am', 'pm']).nullable(),
+  start_time: timeSchema.nullable(),
+  end_time: timeSchema.nullable(),
+};
+
+/**
+ * A date range must not end before it starts, nor span more than MAX_REQUEST_DAYS
+ */
+function refineDateRange(startDate: string, endDate: string, ctx: z.RefinementCtx): void {
+  if (endDate < startDate) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'End date must be on or after start date',
+      path: ['end_date'],
+    });
+  } else if (isValidDate(startDate) && isValidDate(endDate) && daysBetween(startDate, endDate) >= MAX_REQUEST_DAYS) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Date range cannot be longer than ${MAX_REQUEST_DAYS} days`,
+      path: ['end_date'],
+    });
+  }
+}
+
+/**
+ * Cross-field rules for request durations: half days and hourly leave cover a single date,
+ * half days need a period (AM/PM) and hourly leave needs a start and end time
+ */
+function refineDuration(
+  data: {
+    start_date?: string;
+    end_date?: string;
+    duration_type?: 'full_day' | 'half_day' | 'hours';
+    half_day_period?: 'am' | 'pm' | null;
+    start_time?: string | null;
+    end_time?: string | null;
+  },
+  ctx: z.RefinementCtx
+): void {
+  if (data.start_date && data.end_date) {
+    refineDateRange(data.start_date, data.end_date, ctx);
+  }
+
+  if (!data.duration_type || data.duration_type === 'full_day') {
+    return;
+  }
+
+  if (data.start_date && data.end_date && data.start_date !== data.end_date) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Half-day and hourly requests must start and end on the same date',
+      path: ['end_date'],
+    });
+  }
+
+  if (data.duration_type === 'half_day' && !data.half_day_period) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Half-day requests must specify a period (am or pm)',
+      path: ['half_day_period'],
+    });
+  }
+
+  if (data.duration_type === 'hours') {
+    if (!data.start_time || !data.end_time) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Hourly requests must specify a start and end time',
+        path: ['start_time'],
+      });
+    } else if (data.end_time <= data.start_time) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'End time must be after start time',
+        path: ['end_time'],
+      });
+    }
+  }
+}
+
 export const createVacationRequestSchema = z.object({
-  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)'),
-  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)'),
+  leave_type_id: z.number().int().positive().optional(),
+  start_date: dateSchema,
+  end_date: dateSchema,
+  duration_type: durationFields.duration_type.optional().default('full_day'),
+  half_day_period: durationFields.half_day_period.optional(),
+  start_time: durationFields.start_time.optional(),
+  end_time: durationFields.end_time.optional(),
   reason: z.string().max(1000).optional(),
-}).refine(
-  (data) => new Date(data.end_date) >= new Date(data.start_date),
-  {
-    message: 'End date must be on or after start date',
-    path: ['end_date'],
-  }
-);
+}).superRefine(refineDuration);
 
 export const updateRequestStatusSchema = z.object({
   status: z.enum(['approved', 'rejected']),
   manager_notes: z.string().max(1000).optional(),
+  override_note: z.string().trim().min(1).max(1000).optional(),
+});
+
+export const bulkReviewSchema = z.object({
+  action: z.enum(['approve', 'reject']),
+  ids: z.array(z.number().int().positive()).min(1, 'Select at least one request').max(100),
+  manager_notes: z.string().max(1000).optional(),
+  override_note: z.string().trim().min(1).max(1000).optional(),
+});
+
+export const coverageQuerySchema = z
+  .object({
+    start_date: dateSchema,
+    end_date: dateSchema,
+  })
+  .superRefine((data, ctx) => refineDateRange(data.start_date, data.end_date, ctx));
+
+export const calendarQuerySchema = z
+  .object({
+    from: dateSchema,
+    to: dateSchema,
+    team: z.coerce.number().int().positive().optional(),
+    include_pending: z.enum(['true', 'false']).optional().transform((value) => value === 'true'),
+  })
+  .refine((data) => data.to >= data.from, {
+    message: 'End date must be on or after start date',
+    path: ['to'],
+  });
+
+const exportFormatSchema = z.enum(['csv', 'xlsx']).default('csv');
+
+export const exportRequestsQuerySchema = z.object({
+  format: exportFormatSchema,
+  status: z.enum(['pending', 'approved', 'rejected', 'cancelled']).optional(),
+  startDate: dateSchema.optional(),
+  endDate: dateSchema.optional(),
+  search: z.string().trim().optional().transform((value) => value || undefined),
+});
+
+export const exportUsersQuerySchema = z.object({
+  format: exportFormatSchema,
+});
+
+export const auditQuerySchema = z
+  .object({
+    actor_id: z.coerce.number().int().positive().optional(),
+    subject_id: z.coerce.number().int().positive().optional(),
+    entity_type: z
+      .enum([
+        'user',
+        'balance',
+        'team',
+        'request',
+        'request_comment',
+        'request_attachment',
+        'leave_type',
+        'holiday',
+        'accrual_policy',
+        'accrual_run',
+        'year_close',
+        'approval_chain',
+        'approval_rule',
+        'blackout',
+        'delegation',
+        'calendar_feed',
+      ])
+      .optional(),
+    entity_id: z.coerce.number().int().positive().optional(),
+    action: z.string().trim().max(50).optional().transform((value) => value || undefined),
+    from: dateSchema.optional(),
+    to: dateSchema.optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    page_size: z.coerce.number().int().min(1).max(200).default(50),
+  })
+  .refine((data) => !data.from || !data.to || data.to >= data.from, {
+    message: 'End date must be on or after start date',
+    path: ['to'],
+  });
+
+export const createCalendarFeedSchema = z.object({
+  scope: z.enum(['user', 'team']),
+  team_id: z.number().int().positive().optional(),
+});
+
+export const createCommentSchema = z.object({
+  body: z.string().trim().min(1, 'Comment cannot be empty').max(2000),
+});
+
+export const requestCancellationSchema = z.object({
+  reason: z.string().max(1000).optional(),
 });
 
 export const updateVacationRequestSchema = z.object({
-  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)').optional(),
-  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)').optional(),
+  leave_type_id: z.number().int().positive().optional(),
+  start_date: dateSchema.optional(),
+  end_date: dateSchema.optional(),
+  duration_type: durationFields.duration_type.optional(),
+  half_day_period: durationFields.half_day_period.optional(),
+  start_time: durationFields.start_time.optional(),
+  end_time: durationFields.end_time.optional(),
   reason: z.string().max(1000).optional(),
-}).refine(
-  (data) => {
-    if (data.start_date && data.end_date) {
-      return new Date(data.end_date) >= new Date(data.start_date);
-    }
-    return true;
-  },
-  {
+}).superRefine(refineDuration);
+
+// The duration a request has once an update is merged into it, checked as a new request would be
+export const requestDurationSchema = z.object({
+  start_date: dateSchema,
+  end_date: dateSchema,
+  duration_type: durationFields.duration_type,
+  half_day_period: durationFields.half_day_period.optional(),
+  start_time: durationFields.start_time.optional(),
+  end_time: durationFields.end_time.optional(),
+}).superRefine(refineDuration);
+
+export const workingDaysQuerySchema = z.object({
+  start_date: dateSchema,
+  end_date: dateSchema,
+  duration_type: durationFields.duration_type.optional().default('full_day'),
+  half_day_period: durationFields.half_day_period.optional(),
+  start_time: durationFields.start_time.optional(),
+  end_time: durationFields.end_time.optional(),
+}).superRefine(refineDuration);
+
+// Leave type validation schemas
+export const createLeaveTypeSchema = z.object({
+  code: z
+    .string()
+    .min(1, 'Code is required')
+    .max(50)
+    .regex(/^[a-z0-9_]+$/, 'Code must contain only lowercase letters, digits and underscores'),
+  name: z.string().min(1, 'Name is required').max(255),
+  is_paid: z.boolean().optional().default(true),
+  tracks_balance: z.boolean().optional().default(true),
+  requires_approval: z.boolean().optional().default(true),
+  requires_attachment: z.boolean().optional().default(false),
+  default_days: z.number().min(0).max(365).optional().default(0),
+  carry_over_max: z.number().min(0).max(365).optional().default(0),
+  carry_over_expiry_months: z.number().int().min(1).max(12).nullable().optional().default(null),
+  payout_unused: z.boolean().optional().default(false),
+});
+
+export const updateLeaveTypeSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  is_paid: z.boolean().optional(),
+  tracks_balance: z.boolean().optional(),
+  requires_approval: z.boolean().optional(),
+  requires_attachment: z.boolean().optional(),
+  default_days: z.number().min(0).max(365).optional(),
+  carry_over_max: z.number().min(0).max(365).optional(),
+  carry_over_expiry_months: z.number().int().min(1).max(12).nullable().optional(),
+  payout_unused: z.boolean().optional(),
+  is_active: z.boolean().optional(),
+});
+
+// Holiday validation schemas
+export const createHolidaySchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255),
+  holiday_date: dateSchema,
+  country_code: z.string().regex(/^[A-Za-z]{2}$/, 'Country code must be 2 letters'),
+  region: z.string().max(100).optional(),
+  is_recurring: z.boolean().optional().default(false),
+});
+
+export const updateHolidaySchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  holiday_date: dateSchema.optional(),
+  country_code: z.string().regex(/^[A-Za-z]{2}$/, 'Country code must be 2 letters').optional(),
+  region: z.string().max(100).optional(),
+  is_recurring: z.boolean().optional(),
+});
+
+export const importHolidaysSchema = z.object({
+  content: z.string().min(1, 'Calendar file is empty').max(1_000_000, 'Calendar file is too large'),
+  country_code: z.string().regex(/^[A-Za-z]{2}$/, 'Country code must be 2 letters'),
+  region: z.string().max(100).optional(),
+});
+
+// Accrual validation schemas
+export const createAccrualPolicySchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255),
+  leave_type_id: z.number().int().positive(),
+  frequency: z.enum(['monthly', 'yearly']),
+  days_per_period: z.number().positive('Days per period must be positive').max(365),
+  starts_on: dateSchema,
+  is_active: z.boolean().optional().default(true),
+});
+
+export const updateAccrualPolicySchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  days_per_period: z.number().positive().max(365).optional(),
+  is_active: z.boolean().optional(),
+});
+
+export const runAccrualsSchema = z.object({
+  as_of: dateSchema.optional(),
+});
+
+// Year close validation schemas
+export const yearCloseSchema = z.object({
+  year: z.number().int().min(2000).max(2100),
+});
+
+// Team validation schemas
+export const teamSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(255),
+  min_staffing: z.number().int().min(0).max(1000).nullable().optional().default(null),
+});
+
+export const updateTeamSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(255).optional(),
+  min_staffing: z.number().int().min(0).max(1000).nullable().optional(),
+});
+
+// Approval chain validation schemas
+const approvalChainStepSchema = z
+  .object({
+    approver_kind: z.enum(['line_manager', 'user']),
+    approver_id: z.number().int().positive().nullable().optional(),
+  })
+  .refine((step) => (step.approver_kind === 'user') === Boolean(step.approver_id), {
+    message: 'Steps approved by a specific user need an approver_id, line manager steps must not have one',
+  });
+
+export const createApprovalChainSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255),
+  leave_type_id: z.number().int().positive().nullable().optional().default(null),
+  min_days: z.number().min(0).max(365).optional().default(0),
+  is_active: z.boolean().optional().default(true),
+  steps: z.array(approvalChainStepSchema).min(1, 'A chain needs at least one step').max(10),
+});
+
+export const updateApprovalChainSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  leave_type_id: z.number().int().positive().nullable().optional(),
+  min_days: z.number().min(0).max(365).optional(),
+  is_active: z.boolean().optional(),
+  steps: z.array(approvalChainStepSchema).min(1, 'A chain needs at least one step').max(10).optional(),
+});
+
+// Approval rule validation schemas
+const approvalRuleFields = {
+  name: z.string().min(1, 'Name is required').max(255),
+  priority: z.number().int().min(0).max(10000),
+  action: z.enum(['auto_approve', 'route']),
+  route_to_id: z.number().int().positive().nullable(),
+  leave_type_id: z.number().int().positive().nullable(),
+  max_days: z.number().positive().max(365).nullable(),
+  min_notice_days: z.number().int().min(0).max(365).nullable(),
+  min_balance_after: z.number().min(-365).max(365).nullable(),
+  max_team_absent: z.number().int().min(0).max(1000).nullable(),
+  is_active: z.boolean(),
+};
+
+export const createApprovalRuleSchema = z
+  .object({
+    ...approvalRuleFields,
+    priority: approvalRuleFields.priority.optional().default(100),
+    route_to_id: approvalRuleFields.route_to_id.optional().default(null),
+    leave_type_id: approvalRuleFields.leave_type_id.optional().default(null),
+    max_days: approvalRuleFields.max_days.optional().default(null),
+    min_notice_days: approvalRuleFields.min_notice_days.optional().default(null),
+    min_balance_after: approvalRuleFields.min_balance_after.optional().default(null),
+    max_team_absent: approvalRuleFields.max_team_absent.optional().default(null),
+    is_active: approvalRuleFields.is_active.optional().default(true),
+  })
+  .refine((rule) => (rule.action === 'route') === (rule.route_to_id !== null), {
+    message: 'Routing rules need a route_to_id, auto-approval rules must not have one',
+    path: ['route_to_id'],
+  });
+
+// Whether the action and its target still fit together is checked against the stored rule
+export const updateApprovalRuleSchema = z.object({
+  name: approvalRuleFields.name.optional(),
+  priority: approvalRuleFields.priority.optional(),
+  action: approvalRuleFields.action.optional(),
+  route_to_id: approvalRuleFields.route_to_id.optional(),
+  leave_type_id: approvalRuleFields.leave_type_id.optional(),
+  max_days: approvalRuleFields.max_days.optional(),
+  min_notice_days: approvalRuleFields.min_notice_days.optional(),
+  min_balance_after: approvalRuleFields.min_balance_after.optional(),
+  max_team_absent: approvalRuleFields.max_team_absent.optional(),
+  is_active: approvalRuleFields.is_active.optional(),
+});
+
+// Blackout period validation schemas
+export const createBlackoutSchema = z
+  .object({
+    name: z.string().min(1, 'Name is required').max(255),
+    team_id: z.number().int().positive().nullable().optional().default(null),
+    starts_on: dateSchema,
+    ends_on: dateSchema,
+    mode: z.enum(['block', 'extra_approval']).optional().default('block'),
+    approver_id: z.number().int().positive().nullable().optional().default(null),
+  })
+  .refine((data) => data.ends_on >= data.starts_on, {
     message: 'End date must be on or after start date',
-    path: ['end_date'],
-  }
-);
+    path: ['ends_on'],
+  });
+
+export const updateBlackoutSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  team_id: z.number().int().positive().nullable().optional(),
+  starts_on: dateSchema.optional(),
+  ends_on: dateSchema.optional(),
+  mode: z.enum(['block', 'extra_approval']).optional(),
+  approver_id: z.number().int().positive().nullable().optional(),
+});
+
+// Delegation validation schemas
+export const createDelegationSchema = z
+  .object({
+    delegate_id: z.number().int().positive(),
+    starts_on: dateSchema,
+    ends_on: dateSchema,
+    note: z.string().max(500).optional(),
+  })
+  .refine((data) => data.ends_on >= data.starts_on, {
+    message: 'End date must be on or after start date',
+    path: ['ends_on'],
+  });
+
+// Balance ledger validation schemas
+export const balanceAdjustmentSchema = z.object({
+  leave_type_id: z.number().int().positive(),
+  year: z.number().int().min(2000).max(2100).optional(),
+  days: z.number().min(-365).max(365).refine((days) => days !== 0, 'Adjustment cannot be zero'),
+  note: z.string().trim().min(1, 'A note explaining the adjustment is required').max(500),
+});
 
 // Type exports
 export type CreateUserInput = z.infer<typeof createUserSchema>;
@@ -65,3 +482,21 @@ export type LoginInput = z.infer<typeof loginSchema>;
 export type CreateVacationRequestInput = z.infer<typeof createVacationRequestSchema>;
 export type UpdateRequestStatusInput = z.infer<typeof updateRequestStatusSchema>;
 export type UpdateVacationRequestInput = z.infer<typeof updateVacationRequestSchema>;
+export type CreateLeaveTypeInput = z.infer<typeof createLeaveTypeSchema>;
+export type UpdateLeaveTypeInput = z.infer<typeof updateLeaveTypeSchema>;
+export type CreateHolidayInput = z.infer<typeof createHolidaySchema>;
+export type UpdateHolidayInput = z.infer<typeof updateHolidaySchema>;
+export type ImportHolidaysInput = z.infer<typeof importHolidaysSchema>;
+export type CreateAccrualPolicyInput = z.infer<typeof createAccrualPolicySchema>;
+export type UpdateAccrualPolicyInput = z.infer<typeof updateAccrualPolicySchema>;
+export type TeamInput = z.infer<typeof teamSchema>;
+export type UpdateTeamInput = z.infer<typeof updateTeamSchema>;
+export type CreateApprovalChainInput = z.infer<typeof createApprovalChainSchema>;
+export type UpdateApprovalChainInput = z.infer<typeof updateApprovalChainSchema>;
+export type ApprovalChainStepInput = z.infer<typeof approvalChainStepSchema>;
+export type CreateApprovalRuleInput = z.infer<typeof createApprovalRuleSchema>;
+export type UpdateApprovalRuleInput = z.infer<typeof updateApprovalRuleSchema>;
+export type CreateBlackoutInput = z.infer<typeof createBlackoutSchema>;
+export type UpdateBlackoutInput = z.infer<typeof updateBlackoutSchema>;
+export type CreateDelegationInput = z.infer<typeof createDelegationSchema>;
+export type BalanceAdjustmentInput = z.infer<typeof balanceAdjustmentSchema>;
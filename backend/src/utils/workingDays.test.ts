@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  countWorkingDays,
+  daysBetween,
+  dayFraction,
+  eachDate,
+  isValidDate,
+  listWorkingDates,
+  requestsOverlap,
+} from './workingDays.js';
+
+describe('isValidDate', () => {
+  it.each([
+    ['2025-02-28', true],
+    ['2024-02-29', true],
+    ['2025-02-29', false],
+    ['2025-02-31', false],
+    ['2025-13-01', false],
+    ['2025-00-10', false],
+    ['2025-1-1', false],
+    ['not-a-date', false],
+  ])('%s is %s', (date, valid) => {
+    expect(isValidDate(date)).toBe(valid);
+  });
+});
+
+describe('daysBetween', () => {
+  it('counts calendar days across months and leap days', () => {
+    expect(daysBetween('2024-02-28', '2024-03-01')).toBe(2);
+    expect(daysBetween('2025-07-01', '2025-07-01')).toBe(0);
+    expect(daysBetween('2025-07-10', '2025-07-01')).toBe(-9);
+  });
+});
+
+describe('countWorkingDays', () => {
+  // 2025-07-07 is a Monday
+  it.each([
+    ['2025-07-07', '2025-07-07', 1],
+    ['2025-07-05', '2025-07-06', 0],
+    ['2025-07-07', '2025-07-13', 5],
+    ['2025-07-04', '2025-07-07', 2],
+    ['2025-07-09', '2025-07-22', 10],
+    ['2025-01-01', '2025-12-31', 261],
+    ['2025-07-10', '2025-07-07', 0],
+  ])('%s to %s has %i working days', (start, end, expected) => {
+    expect(countWorkingDays(start, end)).toBe(expected);
+  });
+
+  it('skips holidays on working days only, once each', () => {
+    const holidays = ['2025-07-08', '2025-07-08', '2025-07-12', '2025-08-01'];
+    expect(countWorkingDays('2025-07-07', '2025-07-13', holidays)).toBe(4);
+  });
+
+  it('matches the working dates it would list', () => {
+    const holidays = ['2025-12-25', '2025-12-26', '2026-01-01'];
+    for (const [start, end] of [['2025-12-20', '2026-01-06'], ['2025-11-30', '2025-12-31'], ['2026-01-03', '2026-01-04']]) {
+      expect(countWorkingDays(start, end, holidays)).toBe(listWorkingDates(start, end, holidays).length);
+    }
+  });
+
+  it('counts long ranges without walking every day', () => {
+    const started = Date.now();
+    expect(countWorkingDays('0001-01-01', '9999-12-31')).toBeGreaterThan(2_500_000);
+    expect(Date.now() - started).toBeLessThan(100);
+  });
+});
+
+describe('eachDate', () => {
+  it('lists every date inclusively', () => {
+    expect(eachDate('2024-02-27', '2024-03-01')).toEqual(['2024-02-27', '2024-02-28', '2024-02-29', '2024-03-01']);
+  });
+});
+
+describe('dayFraction', () => {
+  it('takes half days as 0.5 and hours against the working day', () => {
+    expect(dayFraction({ start_date: '2025-07-07', end_date: '2025-07-07', duration_type: 'half_day' }, 8)).toBe(0.5);
+    expect(
+      dayFraction(
+        { start_date: '2025-07-07', end_date: '2025-07-07', duration_type: 'hours', start_time: '09:00', end_time: '11:00' },
+        8
+      )
+    ).toBe(0.25);
+    expect(
+      dayFraction(
+        { start_date: '2025-07-07', end_date: '2025-07-07', duration_type: 'hours', start_time: '07:00', end_time: '19:00' },
+        8
+      )
+    ).toBe(1);
+  });
+});
+
+describe('requestsOverlap', () => {
+  it('lets a morning and an afternoon share a date', () => {
+    const morning = { start_date: '2025-07-07', end_date: '2025-07-07', duration_type: 'half_day' as const, half_day_period: 'am' as const };
+    const afternoon = { ...morning, half_day_period: 'pm' as const };
+    const fullDay = { start_date: '2025-07-07', end_date: '2025-07-08', duration_type: 'full_day' as const };
+    expect(requestsOverlap(morning, afternoon)).toBe(false);
+    expect(requestsOverlap(morning, fullDay)).toBe(true);
+    expect(requestsOverlap(fullDay, { ...fullDay, start_date: '2025-07-09', end_date: '2025-07-09' })).toBe(false);
+  });
+});
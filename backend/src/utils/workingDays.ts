@@ -0,0 +1,175 @@
+import type { DayPeriod, DurationType } from '../types/index.js';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Parse a YYYY-MM-DD string as a UTC date so day arithmetic is timezone independent
+ */
+export function parseDate(date: string): Date {
+  const [year, month, day] = date.split('-').map((part) => parseInt(part, 10));
+  // Date.UTC would read years 0-99 as 1900-1999
+  const parsed = new Date(0);
+  parsed.setUTCFullYear(year, month - 1, day);
+  return parsed;
+}
+
+/**
+ * Format a UTC date as YYYY-MM-DD
+ */
+export function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Check that a YYYY-MM-DD string names a day that exists (not 2025-02-31)
+ */
+export function isValidDate(date: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) && formatDate(parseDate(date)) === date;
+}
+
+/**
+ * Number of days from one date to another (0 for the same date, negative if it is earlier)
+ */
+export function daysBetween(startDate: string, endDate: string): number {
+  return Math.round((parseDate(endDate).getTime() - parseDate(startDate).getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Check if a date falls on a Saturday or Sunday
+ */
+export function isWeekend(date: Date): boolean {
+  const day = date.getUTCDay();
+  return day === 0 || day === 6;
+}
+
+/**
+ * List every calendar date between two dates (inclusive)
+ */
+export function eachDate(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  const end = parseDate(endDate).getTime();
+  for (let time = parseDate(startDate).getTime(); time <= end; time += MS_PER_DAY) {
+    dates.push(formatDate(new Date(time)));
+  }
+  return dates;
+}
+
+/**
+ * List the working dates between two dates (inclusive), skipping weekends and holidays
+ */
+export function listWorkingDates(
+  startDate: string,
+  endDate: string,
+  holidays: Iterable<string> = []
+): string[] {
+  const holidaySet = new Set(holidays);
+  return eachDate(startDate, endDate).filter(
+    (date) => !isWeekend(parseDate(date)) && !holidaySet.has(date)
+  );
+}
+
+/**
+ * Count the working days between two dates (inclusive), skipping weekends and holidays.
+ * Whole weeks are counted at once, so the cost does not grow with the length of the range.
+ */
+export function countWorkingDays(
+  startDate: string,
+  endDate: string,
+  holidays: Iterable<string> = []
+): number {
+  const totalDays = daysBetween(startDate, endDate) + 1;
+  if (totalDays <= 0) {
+    return 0;
+  }
+
+  const firstWeekday = parseDate(startDate).getUTCDay();
+  let count = Math.floor(totalDays / 7) * 5;
+  for (let offset = 0; offset < totalDays % 7; offset++) {
+    const weekday = (firstWeekday + offset) % 7;
+    if (weekday !== 0 && weekday !== 6) {
+      count++;
+    }
+  }
+
+  for (const holiday of new Set(holidays)) {
+    if (holiday >= startDate && holiday <= endDate && !isWeekend(parseDate(holiday))) {
+      count--;
+    }
+  }
+  return count;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const MIDDAY_MINUTES = 12 * 60;
+
+export interface RequestDuration {
+  start_date: string;
+  end_date: string;
+  duration_type: DurationType;
+  half_day_period?: DayPeriod | null;
+  start_time?: string | null;
+  end_time?: string | null;
+}
+
+/**
+ * Convert an HH:MM (or HH:MM:SS) time to minutes since midnight
+ */
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map((part) => parseInt(part, 10));
+  return hours * 60 + minutes;
+}
+
+/**
+ * Number of hours between two HH:MM times
+ */
+export function hoursBetween(startTime: string, endTime: string): number {
+  return (timeToMinutes(endTime) - timeToMinutes(startTime)) / 60;
+}
+
+/**
+ * Fraction of a working day a request takes on each of its working dates
+ */
+export function dayFraction(duration: RequestDuration, workdayHours: number): number {
+  switch (duration.duration_type) {
+    case 'half_day':
+      return 0.5;
+    case 'hours':
+      return Math.min(1, hoursBetween(duration.start_time || '00:00', duration.end_time || '00:00') / workdayHours);
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Time slot (minutes since midnight) a request occupies on each of its dates.
+ * Mornings end and afternoons start at midday.
+ */
+export function timeSlot(duration: RequestDuration): [number, number] {
+  if (duration.duration_type === 'half_day') {
+    return duration.half_day_period === 'am' ? [0, MIDDAY_MINUTES] : [MIDDAY_MINUTES, MINUTES_PER_DAY];
+  }
+  if (duration.duration_type === 'hours' && duration.start_time && duration.end_time) {
+    return [timeToMinutes(duration.start_time), timeToMinutes(duration.end_time)];
+  }
+  return [0, MINUTES_PER_DAY];
+}
+
+/**
+ * Check if two requests collide: their dates overlap and, when both are partial days
+ * on the same date, their time slots overlap too (a morning and an afternoon do not collide)
+ */
+export function requestsOverlap(a: RequestDuration, b: RequestDuration): boolean {
+  if (a.start_date > b.end_date || b.start_date > a.end_date) {
+    return false;
+  }
+  const [aStart, aEnd] = timeSlot(a);
+  const [bStart, bEnd] = timeSlot(b);
+  return aStart < bEnd && bStart < aEnd;
+}
+
+/**
+ * Round a day count to two decimals
+ */
+export function roundDays(days: number): number {
+  return Math.round(days * 100) / 100;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { carryExpiryDate, planCarryOver, totalYearClose, type ClosingBalance } from './yearClose.js';
+
+const BALANCE: ClosingBalance = {
+  user_id: 10,
+  user_name: 'Jane Doe',
+  leave_type_id: 1,
+  leave_type_name: 'Annual Leave',
+  days_total: 25,
+  days_used: 20,
+  days_carried: 0,
+  carried_used: 0,
+  carry_over_max: 5,
+  carry_over_expiry_months: 3,
+  payout_unused: false,
+};
+
+describe('carryExpiryDate', () => {
+  it.each([
+    [2026, 3, '2026-03-31'],
+    [2026, 1, '2026-01-31'],
+    [2026, 2, '2026-02-28'],
+    [2028, 2, '2028-02-29'],
+    [2026, 6, '2026-06-30'],
+    [2026, 12, '2026-12-31'],
+    // Longer than a year runs into the next one
+    [2026, 15, '2027-03-31'],
+  ])('carried days into %i expire after %i months on %s', (year, months, date) => {
+    expect(carryExpiryDate(year, months)).toBe(date);
+  });
+});
+
+describe('planCarryOver', () => {
+  it.each([
+    // description, balance changes, [unused, carried, paid out, forfeited, expires on]
+    ['carries unused days under the cap', {}, [5, 5, 0, 0, '2026-03-31']],
+    ['forfeits unused days over the cap', { days_used: 10 }, [15, 5, 0, 10, '2026-03-31']],
+    ['pays out unused days over the cap when the type allows it', { days_used: 10, payout_unused: true }, [15, 5, 10, 0, '2026-03-31']],
+    ['carries nothing when the cap is zero', { carry_over_max: 0 }, [5, 0, 0, 5, null]],
+    ['has nothing to carry when everything was used', { days_used: 25 }, [0, 0, 0, 0, null]],
+    ['does not carry days used beyond the entitlement', { days_used: 27 }, [0, 0, 0, 0, null]],
+    ['never lets carried days expire when the type sets no expiry', { carry_over_expiry_months: null }, [5, 5, 0, 0, null]],
+    ['forfeits last year\'s unused carried days', { days_carried: 4, carried_used: 1 }, [8, 5, 0, 3, '2026-03-31']],
+    ['forfeits them even when paying out', { days_carried: 4, carried_used: 1, days_used: 10, payout_unused: true }, [18, 5, 10, 3, '2026-03-31']],
+    ['does not forfeit carried days used beyond them', { days_carried: 2, carried_used: 2.5 }, [5, 5, 0, 0, '2026-03-31']],
+    ['keeps half days', { days_total: 20.5, days_used: 18 }, [2.5, 2.5, 0, 0, '2026-03-31']],
+    ['rounds to two decimals', { days_total: 25 / 3, days_used: 0, carry_over_max: 4.5 }, [8.33, 4.5, 0, 3.83, '2026-03-31']],
+  ] as const)('%s', (_, changes, [unused, carried, paidOut, forfeited, expiresOn]) => {
+    const item = planCarryOver({ ...BALANCE, ...changes }, 2025);
+
+    expect(item).toEqual({
+      user_id: 10,
+      user_name: 'Jane Doe',
+      leave_type_id: 1,
+      leave_type_name: 'Annual Leave',
+      days_unused: unused,
+      days_carried: carried,
+      days_paid_out: paidOut,
+      days_forfeited: forfeited,
+      carry_expires_on: expiresOn,
+    });
+  });
+
+  it('accounts for every unused day exactly once', () => {
+    for (const days_used of [0, 3, 12.5, 25, 30]) {
+      for (const payout_unused of [false, true]) {
+        const item = planCarryOver({ ...BALANCE, days_used, days_carried: 3, carried_used: 1, payout_unused }, 2025);
+        expect(item.days_carried + item.days_paid_out + item.days_forfeited).toBeCloseTo(item.days_unused, 10);
+      }
+    }
+  });
+});
+
+describe('totalYearClose', () => {
+  it('adds up each column, rounded to two decimals', () => {
+    const items = [
+      planCarryOver({ ...BALANCE, days_total: 25 / 3, days_used: 0, carry_over_max: 4.5 }, 2025),
+      planCarryOver({ ...BALANCE, days_total: 25 / 3, days_used: 0, carry_over_max: 4.5 }, 2025),
+      planCarryOver({ ...BALANCE, days_used: 10, payout_unused: true }, 2025),
+    ];
+
+    expect(totalYearClose(items)).toEqual({ days_unused: 31.66, days_carried: 14, days_forfeited: 7.66, days_paid_out: 10 });
+  });
+
+  it('totals nothing to zero', () => {
+    expect(totalYearClose([])).toEqual({ days_unused: 0, days_carried: 0, days_forfeited: 0, days_paid_out: 0 });
+  });
+});
@@ -0,0 +1,66 @@
+import type { YearCloseItem, YearCloseReport } from '../types/index.js';
+import { formatDate, roundDays } from './workingDays.js';
+
+export interface ClosingBalance {
+  user_id: number;
+  user_name: string;
+  leave_type_id: number;
+  leave_type_name: string;
+  days_total: number;
+  days_used: number;
+  days_carried: number;
+  carried_used: number;
+  carry_over_max: number;
+  carry_over_expiry_months: number | null;
+  payout_unused: boolean;
+}
+
+/**
+ * Last day of the Nth month of a year (e.g. 3 -> March 31st)
+ */
+export function carryExpiryDate(year: number, expiryMonths: number): string {
+  return formatDate(new Date(Date.UTC(year, expiryMonths, 0)));
+}
+
+/**
+ * Decide what happens to a balance's unused days when its year closes. Unused days of the
+ * year's own entitlement carry over up to the leave type's cap; the rest is paid out if the
+ * type allows it, otherwise forfeited. Unused carried days from the year before never carry
+ * again and are always forfeited.
+ */
+export function planCarryOver(balance: ClosingBalance, year: number): YearCloseItem {
+  const unusedCurrent = Math.max(0, balance.days_total - balance.days_used);
+  const unusedCarried = Math.max(0, balance.days_carried - balance.carried_used);
+  const carried = Math.min(unusedCurrent, balance.carry_over_max);
+  const excess = unusedCurrent - carried;
+
+  return {
+    user_id: balance.user_id,
+    user_name: balance.user_name,
+    leave_type_id: balance.leave_type_id,
+    leave_type_name: balance.leave_type_name,
+    days_unused: roundDays(unusedCurrent + unusedCarried),
+    days_carried: roundDays(carried),
+    days_paid_out: balance.payout_unused ? roundDays(excess) : 0,
+    days_forfeited: roundDays(unusedCarried + (balance.payout_unused ? 0 : excess)),
+    carry_expires_on:
+      carried > 0 && balance.carry_over_expiry_months
+        ? carryExpiryDate(year + 1, balance.carry_over_expiry_months)
+        : null,
+  };
+}
+
+/**
+ * Add up a year close report's lines
+ */
+export function totalYearClose(items: YearCloseItem[]): YearCloseReport['totals'] {
+  const sum = (field: 'days_unused' | 'days_carried' | 'days_forfeited' | 'days_paid_out') =>
+    roundDays(items.reduce((total, item) => total + item[field], 0));
+
+  return {
+    days_unused: sum('days_unused'),
+    days_carried: sum('days_carried'),
+    days_forfeited: sum('days_forfeited'),
+    days_paid_out: sum('days_paid_out'),
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { unzip } from '../test/unzip.js';
+import { createZipWriter } from './zip.js';
+
+/**
+ * Write an archive with the given entries and return its bytes
+ */
+async function zipOf(entries: [string, string | AsyncIterable<string>][]): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  const zip = createZipWriter(async (chunk) => {
+    chunks.push(chunk);
+  });
+  for (const [name, content] of entries) {
+    await zip.addEntry(name, content);
+  }
+  await zip.end();
+  return Buffer.concat(chunks);
+}
+
+async function* lines(count: number): AsyncGenerator<string> {
+  for (let index = 0; index < count; index++) {
+    yield `line ${index}\n`;
+  }
+}
+
+describe('createZipWriter', () => {
+  it('writes entries that read back with their names, contents and CRCs', async () => {
+    const entries = unzip(
+      await zipOf([
+        ['hello.txt', 'hello, world\n'],
+        ['Grüße/köln.txt', 'Grüße aus Köln'],
+        ['empty.txt', ''],
+      ])
+    );
+
+    expect(entries.map((entry) => [entry.name, entry.content.toString('utf8'), entry.crc])).toEqual([
+      ['hello.txt', 'hello, world\n', 0xf4247453],
+      ['Grüße/köln.txt', 'Grüße aus Köln', 0x37da5e7c],
+      ['empty.txt', '', 0],
+    ]);
+  });
+
+  it('streams content given in chunks into one entry', async () => {
+    const [entry] = unzip(await zipOf([['lines.txt', lines(5000)]]));
+
+    const text = entry.content.toString('utf8');
+    expect(text.split('\n')).toHaveLength(5001);
+    expect(text.startsWith('line 0\nline 1\n')).toBe(true);
+    expect(text.endsWith('line 4999\n')).toBe(true);
+  });
+
+  it('writes an empty archive', async () => {
+    const archive = await zipOf([]);
+
+    expect(archive).toHaveLength(22);
+    expect(unzip(archive)).toEqual([]);
+  });
+});
@@ -0,0 +1,142 @@
+import { createDeflateRaw } from 'zlib';
+
+// CRC-32 (IEEE) lookup table
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+// General purpose flags: sizes and CRC follow the data (bit 3), names are UTF-8 (bit 11)
+const ENTRY_FLAGS = 0x0808;
+const DEFLATE = 8;
+const VERSION = 20;
+
+/**
+ * Continue a CRC-32 over more data
+ */
+function crc32(data: Buffer, crc = 0): number {
+  let value = ~crc;
+  for (const byte of data) {
+    value = CRC_TABLE[(value ^ byte) & 0xff] ^ (value >>> 8);
+  }
+  return ~value >>> 0;
+}
+
+/**
+ * A local time in MS-DOS format, as stored in ZIP headers
+ */
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+interface ZipEntry {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+export interface ZipWriter {
+  addEntry(name: string, content: string | AsyncIterable<string>): Promise<void>;
+  end(): Promise<void>;
+}
+
+/**
+ * Write a ZIP archive as it is produced: each entry is deflated while its content arrives and its
+ * CRC and sizes follow in a data descriptor, so no entry is ever held in memory. Archives are
+ * limited to 4 GB (no ZIP64).
+ */
+export function createZipWriter(write: (chunk: Buffer) => Promise<void>): ZipWriter {
+  const entries: ZipEntry[] = [];
+  const stamp = dosDateTime(new Date());
+  let offset = 0;
+
+  const output = async (chunk: Buffer) => {
+    offset += chunk.length;
+    await write(chunk);
+  };
+
+  return {
+    async addEntry(name, content) {
+      const entry: ZipEntry = { name: Buffer.from(name, 'utf8'), crc: 0, compressedSize: 0, size: 0, offset };
+
+      const header = Buffer.alloc(30);
+      header.writeUInt32LE(0x04034b50, 0);
+      header.writeUInt16LE(VERSION, 4);
+      header.writeUInt16LE(ENTRY_FLAGS, 6);
+      header.writeUInt16LE(DEFLATE, 8);
+      header.writeUInt16LE(stamp.time, 10);
+      header.writeUInt16LE(stamp.date, 12);
+      header.writeUInt16LE(entry.name.length, 26);
+      await output(Buffer.concat([header, entry.name]));
+
+      const deflate = createDeflateRaw();
+      const compressed: Buffer[] = [];
+      deflate.on('data', (chunk: Buffer) => compressed.push(chunk));
+      const flush = async () => {
+        for (const chunk of compressed.splice(0)) {
+          entry.compressedSize += chunk.length;
+          await output(chunk);
+        }
+      };
+
+      for await (const text of typeof content === 'string' ? [content] : content) {
+        const data = Buffer.from(text, 'utf8');
+        entry.crc = crc32(data, entry.crc);
+        entry.size += data.length;
+        await new Promise<void>((resolve, reject) => deflate.write(data, (error) => (error ? reject(error) : resolve())));
+        await flush();
+      }
+      await new Promise<void>((resolve, reject) => {
+        deflate.once('end', resolve);
+        deflate.once('error', reject);
+        deflate.end();
+      });
+      await flush();
+
+      const descriptor = Buffer.alloc(16);
+      descriptor.writeUInt32LE(0x08074b50, 0);
+      descriptor.writeUInt32LE(entry.crc, 4);
+      descriptor.writeUInt32LE(entry.compressedSize, 8);
+      descriptor.writeUInt32LE(entry.size, 12);
+      await output(descriptor);
+
+      entries.push(entry);
+    },
+
+    async end() {
+      const directoryOffset = offset;
+      for (const entry of entries) {
+        const header = Buffer.alloc(46);
+        header.writeUInt32LE(0x02014b50, 0);
+        header.writeUInt16LE(VERSION, 4);
+        header.writeUInt16LE(VERSION, 6);
+        header.writeUInt16LE(ENTRY_FLAGS, 8);
+        header.writeUInt16LE(DEFLATE, 10);
+        header.writeUInt16LE(stamp.time, 12);
+        header.writeUInt16LE(stamp.date, 14);
+        header.writeUInt32LE(entry.crc, 16);
+        header.writeUInt32LE(entry.compressedSize, 20);
+        header.writeUInt32LE(entry.size, 24);
+        header.writeUInt16LE(entry.name.length, 28);
+        header.writeUInt32LE(entry.offset, 42);
+        await output(Buffer.concat([header, entry.name]));
+      }
+
+      const end = Buffer.alloc(22);
+      end.writeUInt32LE(0x06054b50, 0);
+      end.writeUInt16LE(entries.length, 8);
+      end.writeUInt16LE(entries.length, 10);
+      end.writeUInt32LE(offset - directoryOffset, 12);
+      end.writeUInt32LE(directoryOffset, 16);
+      await output(end);
+    },
+  };
+}
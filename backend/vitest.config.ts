@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // config/env.ts refuses to load without a JWT secret
+    env: {
+      JWT_SECRET: 'test-secret-that-is-long-enough-for-config',
+    },
+  },
+});
@@ -1,11 +1,24 @@
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import Login from './pages/Login';
 import ManagerUsers from './pages/ManagerUsers';
+import ManagerTeams from './pages/ManagerTeams';
 import ManagerRequests from './pages/ManagerRequests';
+import ManagerCalendar from './pages/ManagerCalendar';
 import ManagerAnalytics from './pages/ManagerAnalytics';
+import ManagerHolidays from './pages/ManagerHolidays';
+import ManagerLeaveTypes from './pages/ManagerLeaveTypes';
+import ManagerApprovalChains from './pages/ManagerApprovalChains';
+import ManagerBlackouts from './pages/ManagerBlackouts';
+import ManagerApprovalRules from './pages/ManagerApprovalRules';
+import ManagerDelegations from './pages/ManagerDelegations';
+import ManagerAccruals from './pages/ManagerAccruals';
+import ManagerYearClose from './pages/ManagerYearClose';
+import ManagerAudit from './pages/ManagerAudit';
 import UserForm from './pages/UserForm';
 import EmployeeRequests from './pages/EmployeeRequests';
 import RequestForm from './pages/RequestForm';
+import EmployeeBalanceHistory from './pages/EmployeeBalanceHistory';
+import EmployeeCalendar from './pages/EmployeeCalendar';
 
 function App() {
   return (
@@ -13,12 +26,25 @@ function App() {
       <Routes>
         <Route path="/" element={<Login />} />
         <Route path="/manager/users" element={<ManagerUsers />} />
+        <Route path="/manager/teams" element={<ManagerTeams />} />
         <Route path="/manager/requests" element={<ManagerRequests />} />
+        <Route path="/manager/calendar" element={<ManagerCalendar />} />
         <Route path="/manager/analytics" element={<ManagerAnalytics />} />
+        <Route path="/manager/holidays" element={<ManagerHolidays />} />
+        <Route path="/manager/leave-types" element={<ManagerLeaveTypes />} />
+        <Route path="/manager/approval-chains" element={<ManagerApprovalChains />} />
+        <Route path="/manager/blackouts" element={<ManagerBlackouts />} />
+        <Route path="/manager/approval-rules" element={<ManagerApprovalRules />} />
+        <Route path="/manager/delegations" element={<ManagerDelegations />} />
+        <Route path="/manager/accruals" element={<ManagerAccruals />} />
+        <Route path="/manager/year-close" element={<ManagerYearClose />} />
+        <Route path="/manager/audit" element={<ManagerAudit />} />
         <Route path="/manager/users/create" element={<UserForm />} />
         <Route path="/manager/users/:id" element={<UserForm />} />
         <Route path="/employee/requests" element={<EmployeeRequests />} />
         <Route path="/employee/requests/create" element={<RequestForm />} />
+        <Route path="/employee/balance-history" element={<EmployeeBalanceHistory />} />
+        <Route path="/employee/calendar" element={<EmployeeCalendar />} />
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
     </BrowserRouter>
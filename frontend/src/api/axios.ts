@@ -17,3 +17,11 @@ api.interceptors.request.use((config) => {
 });
 
 export default api;
+
+// Extract the API error message from a failed request
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data?.error || fallback;
+  }
+  return fallback;
+}
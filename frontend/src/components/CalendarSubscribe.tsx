@@ -0,0 +1,210 @@
+import { useState, useEffect } from 'react';
+import api, { getErrorMessage } from '../api/axios';
+import type { CalendarFeed, CalendarFeedScope, Team } from '../types';
+
+/**
+ * "Subscribe" button opening the user's iCalendar feed URLs of approved leave, where they can
+ * create, copy, rotate or revoke them. Managers can subscribe to any team; everyone else to their own.
+ */
+export default function CalendarSubscribe({ canPickTeam }: { canPickTeam: boolean }) {
+  const [open, setOpen] = useState(false);
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [teamId, setTeamId] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    fetchFeeds();
+    if (canPickTeam) {
+      api.get('/teams')
+        .then((response) => setTeams(response.data.data))
+        .catch((error) => console.error('Failed to fetch teams:', error));
+    }
+  }, [open, canPickTeam]);
+
+  const fetchFeeds = async () => {
+    try {
+      const response = await api.get('/calendar-feeds');
+      setFeeds(response.data.data);
+    } catch (error) {
+      console.error('Failed to fetch calendar feeds:', error);
+    }
+  };
+
+  const handleCreate = async (scope: CalendarFeedScope) => {
+    setError('');
+
+    try {
+      await api.post('/calendar-feeds', {
+        scope,
+        team_id: scope === 'team' && teamId ? Number(teamId) : undefined,
+      });
+      setTeamId('');
+      fetchFeeds();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create calendar feed'));
+    }
+  };
+
+  const handleRotate = async (feed: CalendarFeed) => {
+    if (!confirm('Create a new URL? Calendars subscribed to the current one will stop updating.')) return;
+
+    try {
+      await api.post(`/calendar-feeds/${feed.id}/rotate`);
+      fetchFeeds();
+    } catch (err) {
+      alert(getErrorMessage(err, 'Failed to change calendar feed URL'));
+    }
+  };
+
+  const handleRevoke = async (feed: CalendarFeed) => {
+    if (!confirm('Revoke this feed? Calendars subscribed to it will stop updating.')) return;
+
+    try {
+      await api.delete(`/calendar-feeds/${feed.id}`);
+      fetchFeeds();
+    } catch (err) {
+      alert(getErrorMessage(err, 'Failed to revoke calendar feed'));
+    }
+  };
+
+  const ownFeed = feeds.find((feed) => feed.scope === 'user');
+  const teamFeeds = feeds.filter((feed) => feed.scope === 'team');
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="px-6 py-3 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition"
+      >
+        Subscribe
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-2xl max-w-xl w-full mx-4 p-6">
+            <h3 className="text-xl font-bold text-gray-900 mb-1">Subscribe in Your Calendar</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Add a URL to Google Calendar, Outlook or Apple Calendar to see approved leave there.
+              Anyone with a URL can read it, so keep it private and create a new one if it leaks.
+            </p>
+
+            <div className="space-y-4">
+              <div>
+                <div className="text-sm font-medium text-gray-700 mb-2">My leave</div>
+                {ownFeed ? (
+                  <FeedUrl feed={ownFeed} onRotate={handleRotate} onRevoke={handleRevoke} />
+                ) : (
+                  <button
+                    onClick={() => handleCreate('user')}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition"
+                  >
+                    Create URL
+                  </button>
+                )}
+              </div>
+
+              <div>
+                <div className="text-sm font-medium text-gray-700 mb-2">Team absences</div>
+                <div className="space-y-3">
+                  {teamFeeds.map((feed) => (
+                    <div key={feed.id}>
+                      <div className="text-xs text-gray-500 mb-1">{feed.team_name}</div>
+                      <FeedUrl feed={feed} onRotate={handleRotate} onRevoke={handleRevoke} />
+                    </div>
+                  ))}
+                </div>
+                {canPickTeam ? (
+                  <div className="mt-3 flex gap-2">
+                    <select
+                      value={teamId}
+                      onChange={(e) => setTeamId(e.target.value)}
+                      className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Select a team...</option>
+                      {teams
+                        .filter((team) => !teamFeeds.some((feed) => feed.team_id === team.id))
+                        .map((team) => (
+                          <option key={team.id} value={team.id}>{team.name}</option>
+                        ))}
+                    </select>
+                    <button
+                      onClick={() => handleCreate('team')}
+                      disabled={!teamId}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Create URL
+                    </button>
+                  </div>
+                ) : teamFeeds.length === 0 && (
+                  <button
+                    onClick={() => handleCreate('team')}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition"
+                  >
+                    Create URL for my team
+                  </button>
+                )}
+              </div>
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+            </div>
+
+            <button
+              onClick={() => {
+                setOpen(false);
+                setError('');
+              }}
+              className="mt-6 w-full px-4 py-2 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+// A feed's URL with buttons to copy, rotate and revoke it
+function FeedUrl({
+  feed,
+  onRotate,
+  onRevoke,
+}: {
+  feed: CalendarFeed;
+  onRotate: (feed: CalendarFeed) => void;
+  onRevoke: (feed: CalendarFeed) => void;
+}) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(feed.url);
+    setCopied(true);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <input
+        type="text"
+        readOnly
+        value={feed.url}
+        onFocus={(e) => e.target.select()}
+        className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 bg-gray-50"
+      />
+      <button onClick={handleCopy} className="text-sm text-blue-600 hover:text-blue-900 transition">
+        {copied ? 'Copied' : 'Copy'}
+      </button>
+      <button onClick={() => onRotate(feed)} className="text-sm text-gray-600 hover:text-gray-900 transition">
+        New URL
+      </button>
+      <button onClick={() => onRevoke(feed)} className="text-sm text-red-600 hover:text-red-900 transition">
+        Revoke
+      </button>
+    </div>
+  );
+}
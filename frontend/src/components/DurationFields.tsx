@@ -0,0 +1,80 @@
+import type { DurationType } from '../types';
+import type { DurationValue } from '../utils/duration';
+
+interface DurationFieldsProps {
+  value: DurationValue;
+  onChange: (value: DurationValue) => void;
+}
+
+const DURATION_OPTIONS: Array<{ value: DurationType; label: string }> = [
+  { value: 'full_day', label: 'Full days' },
+  { value: 'half_day', label: 'Half day' },
+  { value: 'hours', label: 'Hours' },
+];
+
+// Duration selector shared by the request form and the edit modal
+export default function DurationFields({ value, onChange }: DurationFieldsProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        {DURATION_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => onChange({ ...value, durationType: option.value })}
+            className={`flex-1 px-3 py-2 text-sm rounded-lg border transition ${
+              value.durationType === option.value
+                ? 'bg-blue-600 border-blue-600 text-white font-semibold'
+                : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {value.durationType === 'half_day' && (
+        <div className="flex gap-4 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={value.halfDayPeriod === 'am'}
+              onChange={() => onChange({ ...value, halfDayPeriod: 'am' })}
+            />
+            Morning (AM)
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={value.halfDayPeriod === 'pm'}
+              onChange={() => onChange({ ...value, halfDayPeriod: 'pm' })}
+            />
+            Afternoon (PM)
+          </label>
+        </div>
+      )}
+
+      {value.durationType === 'hours' && (
+        <div className="flex gap-3 items-center text-sm text-gray-700">
+          <input
+            type="time"
+            value={value.startTime}
+            onChange={(e) => onChange({ ...value, startTime: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            required
+          />
+          <span>to</span>
+          <input
+            type="time"
+            value={value.endTime}
+            onChange={(e) => onChange({ ...value, endTime: e.target.value })}
+            min={value.startTime}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            required
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
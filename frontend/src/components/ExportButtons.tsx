@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import api from '../api/axios';
+
+type ExportFormat = 'csv' | 'xlsx';
+
+/**
+ * "Export CSV" and "Export XLSX" buttons downloading a spreadsheet from an export endpoint,
+ * passing the given filters along
+ */
+export default function ExportButtons({
+  path,
+  fileName,
+  params = {},
+}: {
+  path: string;
+  fileName: string;
+  params?: Record<string, string>;
+}) {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+
+    try {
+      const query = new URLSearchParams({ ...params, format });
+      const response = await api.get(`${path}?${query.toString()}`, { responseType: 'blob' });
+
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${fileName}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export:', error);
+      alert('Failed to export');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <>
+      {(['csv', 'xlsx'] as const).map((format) => (
+        <button
+          key={format}
+          onClick={() => handleExport(format)}
+          disabled={exporting !== null}
+          className="px-6 py-2 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {exporting === format ? 'Exporting...' : `Export ${format.toUpperCase()}`}
+        </button>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,64 @@
+import { useLocation, useNavigate } from 'react-router-dom';
+
+const NAV_ITEMS = [
+  { path: '/manager/users', label: 'Users' },
+  { path: '/manager/teams', label: 'Teams' },
+  { path: '/manager/requests', label: 'Vacation Requests' },
+  { path: '/manager/calendar', label: 'Calendar' },
+  { path: '/manager/holidays', label: 'Holidays' },
+  { path: '/manager/blackouts', label: 'Blackouts' },
+  { path: '/manager/leave-types', label: 'Leave Types' },
+  { path: '/manager/approval-chains', label: 'Approval Chains' },
+  { path: '/manager/approval-rules', label: 'Approval Rules' },
+  { path: '/manager/delegations', label: 'Delegation' },
+  { path: '/manager/accruals', label: 'Accruals' },
+  { path: '/manager/year-close', label: 'Year Close' },
+  { path: '/manager/analytics', label: 'Analytics' },
+  { path: '/manager/audit', label: 'Audit Log' },
+];
+
+export default function ManagerHeader() {
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  const handleLogout = () => {
+    localStorage.clear();
+    navigate('/');
+  };
+
+  return (
+    <div className="bg-white shadow-sm border-b border-gray-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex justify-between items-center h-16">
+          <div className="flex items-center gap-6">
+            <h1 className="text-2xl font-bold text-gray-900">Vacation Portal</h1>
+            <nav className="flex gap-4">
+              {NAV_ITEMS.map((item) => (
+                <button
+                  key={item.path}
+                  onClick={() => navigate(item.path)}
+                  className={
+                    location.pathname.startsWith(item.path)
+                      ? 'px-3 py-2 text-sm bg-blue-100 text-blue-800 font-medium rounded-lg'
+                      : 'px-3 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition'
+                  }
+                >
+                  {item.label}
+                </button>
+              ))}
+            </nav>
+            <span className="px-3 py-1 bg-blue-100 text-blue-800 text-sm font-medium rounded-full">
+              Manager
+            </span>
+          </div>
+          <button
+            onClick={handleLogout}
+            className="px-4 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+          >
+            Sign Out
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
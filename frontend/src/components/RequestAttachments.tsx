@@ -0,0 +1,204 @@
+import { useState, useEffect } from 'react';
+import api, { getErrorMessage } from '../api/axios';
+import { ATTACHMENT_ACCEPT, PREVIEWABLE_TYPES, uploadAttachment } from '../utils/attachments';
+import { formatFileSize } from '../utils/format';
+import type { RequestAttachment, VacationRequest } from '../types';
+
+/**
+ * "Documents" link opening the supporting documents of a request, to preview or download them;
+ * the requester can also attach more (pending or approved requests) and remove their own while
+ * the request is pending
+ */
+export default function RequestAttachments({ request, isOwner }: { request: VacationRequest; isOwner: boolean }) {
+  const [open, setOpen] = useState(false);
+  const [attachments, setAttachments] = useState<RequestAttachment[] | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [preview, setPreview] = useState<{ attachment: RequestAttachment; url: string } | null>(null);
+  const [error, setError] = useState('');
+  const canUpload = isOwner && (request.status === 'pending' || request.status === 'approved');
+  const count = attachments?.length ?? request.attachment_count ?? 0;
+
+  useEffect(() => {
+    if (!open) return;
+    api.get(`/requests/${request.id}/attachments`)
+      .then((response) => setAttachments(response.data.data))
+      .catch((err) => setError(getErrorMessage(err, 'Failed to load documents')));
+  }, [open, request.id]);
+
+  // Object URLs hold the file in memory until revoked
+  useEffect(() => {
+    return () => {
+      if (preview) URL.revokeObjectURL(preview.url);
+    };
+  }, [preview]);
+
+  const fetchFile = async (attachment: RequestAttachment, inline: boolean): Promise<string> => {
+    const response = await api.get(`/attachments/${attachment.id}${inline ? '?inline=true' : ''}`, {
+      responseType: 'blob',
+    });
+    return URL.createObjectURL(response.data);
+  };
+
+  const handlePreview = async (attachment: RequestAttachment) => {
+    setError('');
+    try {
+      setPreview({ attachment, url: await fetchFile(attachment, true) });
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to open document'));
+    }
+  };
+
+  const handleDownload = async (attachment: RequestAttachment) => {
+    setError('');
+    try {
+      const url = await fetchFile(attachment, false);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.file_name;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to download document'));
+    }
+  };
+
+  const handleUpload = async () => {
+    if (!file) return;
+    setUploading(true);
+    setError('');
+
+    try {
+      const attachment = await uploadAttachment(request.id, file);
+      setAttachments((current) => [...(current ?? []), attachment]);
+      setFile(null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to attach document'));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleRemove = async (attachment: RequestAttachment) => {
+    if (!confirm(`Remove ${attachment.file_name}?`)) return;
+    setError('');
+
+    try {
+      await api.delete(`/attachments/${attachment.id}`);
+      setAttachments((current) => (current ?? []).filter((a) => a.id !== attachment.id));
+      if (preview?.attachment.id === attachment.id) setPreview(null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to remove document'));
+    }
+  };
+
+  const close = () => {
+    setOpen(false);
+    setFile(null);
+    setPreview(null);
+    setError('');
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="text-sm text-blue-600 hover:text-blue-900 font-medium transition"
+      >
+        Documents{count > 0 && ` (${count})`}
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full mx-4 p-6 max-h-[90vh] flex flex-col text-left whitespace-normal">
+            <h3 className="text-xl font-bold text-gray-900 mb-4">
+              Documents{request.user_name && ` for ${request.user_name}'s Request`}
+            </h3>
+
+            {error && (
+              <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto space-y-4">
+              {!attachments ? (
+                !error && <p className="text-sm text-gray-600">Loading documents...</p>
+              ) : attachments.length === 0 ? (
+                <p className="text-sm text-gray-500">No documents attached.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                  {attachments.map((attachment) => (
+                    <li key={attachment.id} className="px-4 py-3 flex items-center gap-3 text-sm">
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium text-gray-900 truncate">{attachment.file_name}</div>
+                        <div className="text-xs text-gray-500">
+                          {formatFileSize(attachment.size_bytes)} · {new Date(attachment.created_at).toLocaleDateString()}
+                          {attachment.uploaded_by_name && ` · ${attachment.uploaded_by_name}`}
+                        </div>
+                      </div>
+                      {PREVIEWABLE_TYPES.includes(attachment.content_type) && (
+                        <button onClick={() => handlePreview(attachment)} className="text-blue-600 hover:text-blue-900 transition">
+                          Preview
+                        </button>
+                      )}
+                      <button onClick={() => handleDownload(attachment)} className="text-blue-600 hover:text-blue-900 transition">
+                        Download
+                      </button>
+                      {isOwner && request.status === 'pending' && (
+                        <button onClick={() => handleRemove(attachment)} className="text-red-600 hover:text-red-900 transition">
+                          Remove
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {preview && (
+                <div className="border border-gray-200 rounded-lg overflow-hidden">
+                  <div className="px-4 py-2 bg-gray-50 flex justify-between items-center text-sm">
+                    <span className="font-medium text-gray-700 truncate">{preview.attachment.file_name}</span>
+                    <button onClick={() => setPreview(null)} className="text-gray-600 hover:text-gray-900 transition">
+                      Close preview
+                    </button>
+                  </div>
+                  {preview.attachment.content_type === 'application/pdf' ? (
+                    <iframe src={preview.url} title={preview.attachment.file_name} className="w-full h-[60vh]" />
+                  ) : (
+                    <img src={preview.url} alt={preview.attachment.file_name} className="max-h-[60vh] mx-auto" />
+                  )}
+                </div>
+              )}
+            </div>
+
+            {canUpload && (
+              <div className="mt-4 flex gap-3 items-center">
+                <input
+                  type="file"
+                  accept={ATTACHMENT_ACCEPT}
+                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                  className="flex-1 text-sm text-gray-700"
+                />
+                <button
+                  onClick={handleUpload}
+                  disabled={!file || uploading}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {uploading ? 'Uploading...' : 'Attach'}
+                </button>
+              </div>
+            )}
+
+            <button
+              onClick={close}
+              className="mt-4 w-full px-4 py-2 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
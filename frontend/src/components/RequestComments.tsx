@@ -0,0 +1,132 @@
+import { useState, useEffect } from 'react';
+import api, { getErrorMessage } from '../api/axios';
+import type { RequestComment, VacationRequest } from '../types';
+
+/**
+ * "Comments" link opening a request's comment thread, where the employee and the managers
+ * reviewing the request can write to each other until it is decided
+ */
+export default function RequestComments({ request }: { request: VacationRequest }) {
+  const [open, setOpen] = useState(false);
+  const [comments, setComments] = useState<RequestComment[] | null>(null);
+  const [body, setBody] = useState('');
+  const [posting, setPosting] = useState(false);
+  const [error, setError] = useState('');
+  const currentUserId: number | undefined = JSON.parse(localStorage.getItem('user') || 'null')?.id;
+  const canComment = request.status === 'pending';
+  // Comments loaded here are newer than the count the list came with
+  const count = comments?.length ?? request.comment_count ?? 0;
+
+  useEffect(() => {
+    if (!open) return;
+    api.get(`/requests/${request.id}/comments`)
+      .then((response) => setComments(response.data.data))
+      .catch((err) => setError(getErrorMessage(err, 'Failed to load comments')));
+  }, [open, request.id]);
+
+  const handlePost = async () => {
+    if (!body.trim()) return;
+    setPosting(true);
+    setError('');
+
+    try {
+      const response = await api.post(`/requests/${request.id}/comments`, { body });
+      setComments((current) => [...(current ?? []), response.data.data]);
+      setBody('');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to add comment'));
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const close = () => {
+    setOpen(false);
+    setBody('');
+    setError('');
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="text-sm text-blue-600 hover:text-blue-900 font-medium transition"
+      >
+        Comments{count > 0 && ` (${count})`}
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full mx-4 p-6 max-h-[90vh] flex flex-col text-left">
+            <h3 className="text-xl font-bold text-gray-900 mb-4">
+              Comments{request.user_name && ` on ${request.user_name}'s Request`}
+            </h3>
+
+            <div className="flex-1 overflow-y-auto space-y-3 mb-4 whitespace-normal">
+              {!comments ? (
+                !error && <p className="text-sm text-gray-600">Loading comments...</p>
+              ) : comments.length === 0 ? (
+                <p className="text-sm text-gray-500">No comments yet.</p>
+              ) : (
+                comments.map((comment) => (
+                  <div
+                    key={comment.id}
+                    className={`p-3 rounded-lg text-sm ${
+                      comment.author_id === currentUserId ? 'bg-blue-50 ml-8' : 'bg-gray-50 mr-8'
+                    }`}
+                  >
+                    <div className="flex justify-between gap-2 text-xs text-gray-500 mb-1">
+                      <span className="font-medium text-gray-700">
+                        {comment.author_name ?? 'Deleted user'}
+                        {comment.author_role === 'manager' && <span className="text-gray-500"> (manager)</span>}
+                      </span>
+                      <span>{new Date(comment.created_at).toLocaleString()}</span>
+                    </div>
+                    <p className="text-gray-900 whitespace-pre-wrap break-words">{comment.body}</p>
+                  </div>
+                ))
+              )}
+            </div>
+
+            {error && (
+              <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+
+            {canComment ? (
+              <textarea
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                rows={3}
+                maxLength={2000}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition resize-none"
+                placeholder="Write a comment..."
+              />
+            ) : (
+              <p className="text-sm text-gray-500">This request has been decided; the thread is closed.</p>
+            )}
+
+            <div className="mt-4 flex gap-3">
+              <button
+                onClick={close}
+                className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition"
+              >
+                Close
+              </button>
+              {canComment && (
+                <button
+                  onClick={handlePost}
+                  disabled={posting || !body.trim()}
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {posting ? 'Posting...' : 'Post Comment'}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
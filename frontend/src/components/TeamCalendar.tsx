@@ -0,0 +1,267 @@
+import { useState, useEffect, useCallback } from 'react';
+import api from '../api/axios';
+import { formatRequestDates } from '../utils/format';
+import type { CalendarAbsence, TeamCalendar as Calendar, Team } from '../types';
+
+type CalendarView = 'month' | 'week';
+
+const STATUS_COLORS: Partial<Record<CalendarAbsence['status'], string>> = {
+  approved: 'bg-green-500 text-white',
+  pending: 'bg-amber-300 text-amber-900',
+};
+
+const WEEKDAY_LETTERS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+// Local calendar date as YYYY-MM-DD
+function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function parseDateString(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// First and last date of the month or week (Monday to Sunday) around a date
+function rangeAround(anchor: Date, view: CalendarView): [string, string] {
+  if (view === 'month') {
+    return [
+      toDateString(new Date(anchor.getFullYear(), anchor.getMonth(), 1)),
+      toDateString(new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0)),
+    ];
+  }
+  const monday = new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate() - ((anchor.getDay() + 6) % 7));
+  return [toDateString(monday), toDateString(new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + 6))];
+}
+
+// Short label for a part-day absence shown inside a calendar cell
+function cellLabel(absence: CalendarAbsence): string {
+  if (absence.duration_type === 'half_day') return absence.half_day_period === 'pm' ? 'PM' : 'AM';
+  if (absence.duration_type === 'hours') return 'h';
+  return '';
+}
+
+// Tooltip of an absence on one day
+function describeAbsence(absence: CalendarAbsence, date: string): string {
+  const when = absence.duration_type === 'full_day'
+    ? ''
+    : `, ${formatRequestDates({ ...absence, start_date: date, end_date: date })}`;
+  return `${absence.leave_type_name} (${absence.status})${when}`;
+}
+
+/**
+ * Month or week grid of absences with one row per person. Managers can pick the team shown;
+ * everyone else sees their own team.
+ */
+export default function TeamCalendar({ canPickTeam }: { canPickTeam: boolean }) {
+  const [calendar, setCalendar] = useState<Calendar | null>(null);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [teamId, setTeamId] = useState('');
+  const [view, setView] = useState<CalendarView>('month');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [includePending, setIncludePending] = useState(true);
+  const [loading, setLoading] = useState(true);
+
+  const [from, to] = rangeAround(anchor, view);
+
+  useEffect(() => {
+    if (!canPickTeam) return;
+    api.get('/teams')
+      .then((response) => setTeams(response.data.data))
+      .catch((error) => console.error('Failed to fetch teams:', error));
+  }, [canPickTeam]);
+
+  const fetchCalendar = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ from, to, include_pending: String(includePending) });
+      if (teamId) params.append('team', teamId);
+      const response = await api.get(`/calendar?${params.toString()}`);
+      setCalendar(response.data.data);
+    } catch (error) {
+      console.error('Failed to fetch calendar:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to, teamId, includePending]);
+
+  useEffect(() => {
+    fetchCalendar();
+  }, [fetchCalendar]);
+
+  const move = (step: number) => {
+    setAnchor((current) =>
+      view === 'month'
+        ? new Date(current.getFullYear(), current.getMonth() + step, 1)
+        : new Date(current.getFullYear(), current.getMonth(), current.getDate() + step * 7)
+    );
+  };
+
+  const title = view === 'month'
+    ? anchor.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })
+    : `${from} → ${to}`;
+  const today = toDateString(new Date());
+
+  // Absences by person and date
+  const absencesByCell = new Map<string, CalendarAbsence[]>();
+  for (const day of calendar?.days ?? []) {
+    for (const absence of day.absences) {
+      const key = `${absence.user_id}|${day.date}`;
+      absencesByCell.set(key, [...(absencesByCell.get(key) ?? []), absence]);
+    }
+  }
+
+  return (
+    <div>
+      {/* Controls */}
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => move(-1)}
+            className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition"
+          >
+            ←
+          </button>
+          <button
+            onClick={() => setAnchor(new Date())}
+            className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition"
+          >
+            Today
+          </button>
+          <button
+            onClick={() => move(1)}
+            className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition"
+          >
+            →
+          </button>
+          <h3 className="ml-2 text-lg font-bold text-gray-900">{title}</h3>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          {canPickTeam && (
+            <select
+              value={teamId}
+              onChange={(e) => setTeamId(e.target.value)}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Everyone</option>
+              {teams.map((team) => (
+                <option key={team.id} value={team.id}>{team.name}</option>
+              ))}
+            </select>
+          )}
+          <select
+            value={view}
+            onChange={(e) => setView(e.target.value as CalendarView)}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="month">Month</option>
+            <option value="week">Week</option>
+          </select>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={includePending}
+              onChange={(e) => setIncludePending(e.target.checked)}
+            />
+            Show pending
+          </label>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          <p className="mt-2 text-gray-600">Loading calendar...</p>
+        </div>
+      ) : calendar && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-x-auto">
+          <table className="min-w-full border-collapse">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="sticky left-0 bg-gray-50 px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                  {calendar.team_name ?? 'Employee'}
+                </th>
+                {calendar.days.map((day) => {
+                  const date = parseDateString(day.date);
+                  const weekend = date.getDay() === 0 || date.getDay() === 6;
+                  return (
+                    <th
+                      key={day.date}
+                      className={`px-1 py-2 text-center text-xs font-medium ${
+                        day.date === today ? 'text-blue-700' : weekend ? 'text-gray-400' : 'text-gray-600'
+                      }`}
+                    >
+                      <div>{WEEKDAY_LETTERS[date.getDay()]}</div>
+                      <div className="font-semibold">{date.getDate()}</div>
+                    </th>
+                  );
+                })}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {calendar.members.length === 0 ? (
+                <tr>
+                  <td colSpan={calendar.days.length + 1} className="px-6 py-8 text-center text-sm text-gray-500">
+                    No one to show
+                  </td>
+                </tr>
+              ) : (
+                calendar.members.map((member) => (
+                  <tr key={member.id}>
+                    <td className="sticky left-0 bg-white px-4 py-2 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{member.name}</div>
+                      {!calendar.team_name && member.team_name && (
+                        <div className="text-xs text-gray-500">{member.team_name}</div>
+                      )}
+                    </td>
+                    {calendar.days.map((day) => {
+                      const weekday = parseDateString(day.date).getDay();
+                      return (
+                        <td
+                          key={day.date}
+                          className={`p-0.5 ${weekday === 0 || weekday === 6 ? 'bg-gray-50' : ''}`}
+                        >
+                          {(absencesByCell.get(`${member.id}|${day.date}`) ?? []).map((absence) => (
+                            <AbsenceCell key={absence.request_id} absence={absence} date={day.date} />
+                          ))}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Legend */}
+      <div className="mt-3 flex gap-4 text-xs text-gray-600">
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 rounded bg-green-500"></span> Approved
+        </span>
+        {includePending && (
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded bg-amber-300"></span> Pending
+          </span>
+        )}
+        <span>AM / PM = half day, h = hours</span>
+      </div>
+    </div>
+  );
+}
+
+// One absence in a calendar cell, coloured by status
+function AbsenceCell({ absence, date }: { absence: CalendarAbsence; date: string }) {
+  return (
+    <div
+      title={describeAbsence(absence, date)}
+      className={`h-6 min-w-6 rounded text-[10px] font-semibold flex items-center justify-center ${
+        STATUS_COLORS[absence.status] ?? 'bg-gray-300 text-gray-700'
+      }`}
+    >
+      {cellLabel(absence)}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import axios from 'axios';
+import api, { getErrorMessage } from '../api/axios';
+import type { UserImportReport } from '../types';
+
+const CSV_COLUMNS = 'name, email, employee_code, password, role, country_code, region, hire_date, team, manager';
+
+/**
+ * "Import CSV" button opening a modal where a CSV of users is checked first (a dry run showing
+ * each row and its problems) and then imported all at once
+ */
+export default function UserImport({ onImported }: { onImported: () => void }) {
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<UserImportReport | null>(null);
+  const [submitting, setSubmitting] = useState<'check' | 'import' | null>(null);
+  const [error, setError] = useState('');
+
+  const submit = async (dryRun: boolean) => {
+    if (!file) return;
+    setSubmitting(dryRun ? 'check' : 'import');
+    setError('');
+
+    try {
+      const response = await api.post('/users/import', { content: await file.text(), dry_run: dryRun });
+      setReport(response.data.data);
+      if (!dryRun) {
+        onImported();
+      }
+    } catch (err) {
+      // A failed import still reports which rows are wrong
+      if (axios.isAxiosError(err) && err.response?.data?.data) {
+        setReport(err.response.data.data);
+      } else {
+        setReport(null);
+      }
+      setError(getErrorMessage(err, 'Failed to import users'));
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  const close = () => {
+    setOpen(false);
+    setFile(null);
+    setReport(null);
+    setError('');
+  };
+
+  const imported = report !== null && !report.dry_run && report.imported > 0;
+  const canImport = report !== null && report.dry_run && report.valid === report.total;
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="px-6 py-2 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition"
+      >
+        Import CSV
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-2xl max-w-5xl w-full mx-4 p-6 max-h-[90vh] flex flex-col">
+            <h3 className="text-xl font-bold text-gray-900 mb-1">Import Users</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Upload a CSV file with a header row. Columns: <span className="font-mono">{CSV_COLUMNS}</span>.
+              Name, email, employee code and password are required; team is a team's name and manager
+              the email of an existing manager.
+            </p>
+
+            <div className="flex gap-3 items-center">
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] || null);
+                  setReport(null);
+                  setError('');
+                }}
+                className="flex-1 text-sm text-gray-700"
+              />
+              <button
+                onClick={() => submit(true)}
+                disabled={!file || submitting !== null}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {submitting === 'check' ? 'Checking...' : 'Check File'}
+              </button>
+            </div>
+
+            {error && (
+              <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+
+            {report && (
+              <>
+                <div className={`mt-4 px-4 py-3 rounded-lg text-sm border ${
+                  imported
+                    ? 'bg-green-50 border-green-200 text-green-800'
+                    : 'bg-blue-50 border-blue-200 text-blue-800'
+                }`}>
+                  {imported
+                    ? `Imported ${report.imported} users.`
+                    : `${report.valid} of ${report.total} users can be imported.` +
+                      (report.valid < report.total ? ' Fix the rows with errors and check the file again.' : '')}
+                </div>
+
+                <div className="mt-4 overflow-auto border border-gray-200 rounded-lg">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        {['Row', 'Name', 'Email', 'Code', 'Role', 'Team', 'Manager', 'Problems'].map((heading) => (
+                          <th
+                            key={heading}
+                            className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider"
+                          >
+                            {heading}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {report.rows.map((row) => (
+                        <tr key={row.row} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                          <td className="px-4 py-2 text-sm text-gray-500">{row.row}</td>
+                          <td className="px-4 py-2 text-sm text-gray-900">{row.name}</td>
+                          <td className="px-4 py-2 text-sm text-gray-600">{row.email}</td>
+                          <td className="px-4 py-2 text-sm text-gray-600 font-mono">{row.employee_code}</td>
+                          <td className="px-4 py-2 text-sm text-gray-600">{row.role}</td>
+                          <td className="px-4 py-2 text-sm text-gray-600">{row.team_name ?? '—'}</td>
+                          <td className="px-4 py-2 text-sm text-gray-600">{row.manager_name ?? '—'}</td>
+                          <td className="px-4 py-2 text-sm">
+                            {row.errors.length > 0 ? (
+                              <ul className="text-red-700 list-disc list-inside">
+                                {row.errors.map((rowError) => (
+                                  <li key={rowError}>{rowError}</li>
+                                ))}
+                              </ul>
+                            ) : (
+                              <span className="text-green-700">OK</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+
+            <div className="mt-6 flex gap-3">
+              <button
+                onClick={close}
+                className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition"
+              >
+                {imported ? 'Done' : 'Cancel'}
+              </button>
+              {!imported && (
+                <button
+                  onClick={() => submit(false)}
+                  disabled={!canImport || submitting !== null}
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {submitting === 'import' ? 'Importing...' : canImport ? `Import ${report.total} Users` : 'Import Users'}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
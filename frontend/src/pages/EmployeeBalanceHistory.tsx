@@ -0,0 +1,183 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import api from '../api/axios';
+import { formatDays } from '../utils/format';
+import type { BalanceTransaction, BalanceTransactionKind, LeaveBalance } from '../types';
+
+const KIND_LABELS: Record<BalanceTransactionKind, { label: string; color: string }> = {
+  allowance: { label: 'Allowance', color: 'bg-blue-100 text-blue-800' },
+  accrual: { label: 'Accrual', color: 'bg-blue-100 text-blue-800' },
+  carry_over: { label: 'Carried Over', color: 'bg-purple-100 text-purple-800' },
+  deduction: { label: 'Leave Taken', color: 'bg-orange-100 text-orange-800' },
+  refund: { label: 'Refund', color: 'bg-green-100 text-green-800' },
+  adjustment: { label: 'Adjustment', color: 'bg-gray-100 text-gray-800' },
+};
+
+// What caused a ledger entry, in words
+function describeTransaction(entry: BalanceTransaction): string {
+  const leave = entry.request_start_date
+    ? entry.request_start_date === entry.request_end_date
+      ? entry.request_start_date
+      : `${entry.request_start_date} → ${entry.request_end_date}`
+    : 'a deleted request';
+
+  switch (entry.kind) {
+    case 'allowance':
+      return `${entry.year} allowance`;
+    case 'carry_over':
+      return `${entry.note ?? 'Carried over'}${entry.expires_on ? `, usable until ${entry.expires_on}` : ''}`;
+    case 'deduction':
+      return `Leave on ${leave}${entry.created_by_name ? `, approved by ${entry.created_by_name}` : ''}`;
+    case 'refund':
+      return `Leave on ${leave} cancelled`;
+    default:
+      return `${entry.note ?? ''}${entry.created_by_name ? ` (${entry.created_by_name})` : ''}`;
+  }
+}
+
+export default function EmployeeBalanceHistory() {
+  const [entries, setEntries] = useState<BalanceTransaction[]>([]);
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [userId, setUserId] = useState<number | null>(null);
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [leaveTypeId, setLeaveTypeId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    api.get('/auth/me')
+      .then((response) => setUserId(response.data.data.id))
+      .catch((error) => console.error('Failed to fetch user:', error));
+  }, []);
+
+  const fetchHistory = useCallback(async () => {
+    if (userId === null) return;
+
+    try {
+      const params = new URLSearchParams({ year: String(year) });
+      if (leaveTypeId) params.append('leave_type_id', leaveTypeId);
+
+      const [ledgerRes, balancesRes] = await Promise.all([
+        api.get(`/users/${userId}/balance/ledger?${params.toString()}`),
+        api.get(`/users/${userId}/balances?year=${year}`),
+      ]);
+      setEntries(ledgerRes.data.data);
+      setBalances(balancesRes.data.data);
+    } catch (error) {
+      console.error('Failed to fetch balance history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, year, leaveTypeId]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <button
+                onClick={() => navigate('/employee/requests')}
+                className="mr-4 text-gray-600 hover:text-gray-900"
+              >
+                ← Back
+              </button>
+              <h1 className="text-2xl font-bold text-gray-900">Vacation Portal</h1>
+              <span className="ml-4 px-3 py-1 bg-green-100 text-green-800 text-sm font-medium rounded-full">
+                Employee
+              </span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6 flex flex-wrap justify-between items-end gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Balance History</h2>
+            <p className="mt-1 text-sm text-gray-600">
+              Every day granted, carried over, taken or adjusted, and the balance after it
+            </p>
+          </div>
+          <div className="flex gap-3">
+            <select
+              value={leaveTypeId}
+              onChange={(e) => setLeaveTypeId(e.target.value)}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All leave types</option>
+              {balances.map((balance) => (
+                <option key={balance.leave_type_id} value={balance.leave_type_id}>
+                  {balance.leave_type_name}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min="2000"
+              max="2100"
+              value={year}
+              onChange={(e) => setYear(Number(e.target.value))}
+              className="w-28 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            <p className="mt-2 text-gray-600">Loading history...</p>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center text-gray-500">
+            No balance changes in {year}
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Date</th>
+                  <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Leave Type</th>
+                  <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Details</th>
+                  <th className="px-6 py-3 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">Change</th>
+                  <th className="px-6 py-3 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">Balance</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {entries.map((entry) => (
+                  <tr key={entry.id}>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-600">
+                      {new Date(entry.created_at).toLocaleDateString()}
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">{entry.leave_type_name}</td>
+                    <td className="px-6 py-3 text-sm text-gray-600">
+                      <span className={`mr-2 px-2 py-0.5 text-xs font-semibold rounded-full ${KIND_LABELS[entry.kind].color}`}>
+                        {KIND_LABELS[entry.kind].label}
+                      </span>
+                      {describeTransaction(entry)}
+                    </td>
+                    <td className={`px-6 py-3 whitespace-nowrap text-sm font-semibold text-right ${
+                      entry.days < 0 ? 'text-red-600' : 'text-green-600'
+                    }`}>
+                      {entry.days > 0 ? '+' : ''}{formatDays(entry.days)}
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900 text-right">
+                      {formatDays(entry.balance_after)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
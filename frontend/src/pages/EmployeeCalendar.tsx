@@ -0,0 +1,42 @@
+import { useNavigate } from 'react-router-dom';
+import TeamCalendar from '../components/TeamCalendar';
+
+export default function EmployeeCalendar() {
+  const navigate = useNavigate();
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <button
+                onClick={() => navigate('/employee/requests')}
+                className="mr-4 text-gray-600 hover:text-gray-900"
+              >
+                ← Back
+              </button>
+              <h1 className="text-2xl font-bold text-gray-900">Vacation Portal</h1>
+              <span className="ml-4 px-3 py-1 bg-green-100 text-green-800 text-sm font-medium rounded-full">
+                Employee
+              </span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">Team Calendar</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            Who in your team is off when
+          </p>
+        </div>
+
+        <TeamCalendar canPickTeam={false} />
+      </div>
+    </div>
+  );
+}
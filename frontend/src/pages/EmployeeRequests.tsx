@@ -1,19 +1,28 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import api from '../api/axios';
-import type { VacationRequest, User } from '../types';
+import api, { getErrorMessage } from '../api/axios';
+import CalendarSubscribe from '../components/CalendarSubscribe';
+import DurationFields from '../components/DurationFields';
+import RequestAttachments from '../components/RequestAttachments';
+import RequestComments from '../components/RequestComments';
+import { DEFAULT_DURATION, durationPayload, type DurationValue } from '../utils/duration';
+import { formatDays, formatRequestDates } from '../utils/format';
+import type { VacationRequest, LeaveBalance } from '../types';
 
 export default function EmployeeRequests() {
   const [requests, setRequests] = useState<VacationRequest[]>([]);
-  const [user, setUser] = useState<User | null>(null);
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [delegatedRequests, setDelegatedRequests] = useState<VacationRequest[]>([]);
   const [loading, setLoading] = useState(true);
   const [statusFilter, setStatusFilter] = useState<string>('');
   const [searchTerm, setSearchTerm] = useState('');
   const [editingRequest, setEditingRequest] = useState<VacationRequest | null>(null);
   const [editStartDate, setEditStartDate] = useState('');
   const [editEndDate, setEditEndDate] = useState('');
+  const [editDuration, setEditDuration] = useState<DurationValue>(DEFAULT_DURATION);
   const [editReason, setEditReason] = useState('');
   const navigate = useNavigate();
+  const today = new Date().toISOString().slice(0, 10);
 
   useEffect(() => {
     fetchData();
@@ -21,12 +30,15 @@ export default function EmployeeRequests() {
 
   const fetchData = async () => {
     try {
-      const [requestsRes, userRes] = await Promise.all([
+      const [requestsRes, userRes, delegatedRes] = await Promise.all([
         api.get('/requests'),
-        api.get('/auth/me')
+        api.get('/auth/me'),
+        api.get('/requests/delegated')
       ]);
       setRequests(requestsRes.data.data);
-      setUser(userRes.data.data);
+      setDelegatedRequests(delegatedRes.data.data);
+      const balancesRes = await api.get(`/users/${userRes.data.data.id}/balances`);
+      setBalances(balancesRes.data.data);
     } catch (error) {
       console.error('Failed to fetch data:', error);
     } finally {
@@ -52,6 +64,12 @@ export default function EmployeeRequests() {
     setEditingRequest(request);
     setEditStartDate(request.start_date);
     setEditEndDate(request.end_date);
+    setEditDuration({
+      durationType: request.duration_type,
+      halfDayPeriod: request.half_day_period || 'am',
+      startTime: request.start_time || '09:00',
+      endTime: request.end_time || '13:00',
+    });
     setEditReason(request.reason || '');
   };
 
@@ -61,7 +79,8 @@ export default function EmployeeRequests() {
     try {
       await api.put(`/requests/${editingRequest.id}`, {
         start_date: editStartDate,
-        end_date: editEndDate,
+        end_date: editDuration.durationType === 'full_day' ? editEndDate : editStartDate,
+        ...durationPayload(editDuration),
         reason: editReason || undefined
       });
       setEditingRequest(null);
@@ -82,6 +101,33 @@ export default function EmployeeRequests() {
     }
   };
 
+  const handleCancel = async (request: VacationRequest) => {
+    const reason = prompt('Ask your manager to cancel this leave? The days will be refunded once they confirm.\n\nReason (optional):');
+    if (reason === null) return;
+
+    try {
+      const response = await api.put(`/requests/${request.id}/cancel`, { reason: reason || undefined });
+      alert(response.data.message);
+      fetchData();
+    } catch (err) {
+      alert(getErrorMessage(err, 'Failed to cancel request'));
+    }
+  };
+
+  // Decide a request on behalf of a manager who delegated their approvals to this user
+  const handleDelegatedDecision = async (request: VacationRequest, action: 'approve' | 'reject') => {
+    const notes = prompt(`${action === 'approve' ? 'Approve' : 'Reject'} ${request.user_name}'s request?\n\nNotes (optional):`);
+    if (notes === null) return;
+
+    try {
+      const response = await api.put(`/requests/${request.id}/${action}`, { manager_notes: notes || undefined });
+      alert(response.data.message);
+      fetchData();
+    } catch (err) {
+      alert(getErrorMessage(err, `Failed to ${action} request`));
+    }
+  };
+
   const handleLogout = () => {
     localStorage.clear();
     navigate('/');
@@ -111,47 +157,82 @@ export default function EmployeeRequests() {
 
       {/* Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {/* Vacation Balance Card */}
-        {user && (
-          <div className="mb-6 bg-gradient-to-r from-blue-500 to-blue-600 rounded-xl shadow-lg p-6 text-white">
-            <div className="flex justify-between items-center">
-              <div>
-                <h3 className="text-lg font-semibold opacity-90">Vacation Balance</h3>
-                <div className="mt-2 flex items-baseline gap-2">
-                  <span className="text-4xl font-bold">
-                    {user.vacation_days_total - user.vacation_days_used}
-                  </span>
-                  <span className="text-xl opacity-90">days remaining</span>
+        {/* Leave Balance Cards */}
+        {balances.length > 0 && (
+          <div className="mb-6 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {balances.map((balance) => {
+              const usedPercent = balance.days_total > 0
+                ? Math.min(100, Math.round((balance.days_used / balance.days_total) * 100))
+                : 0;
+              return (
+                <div
+                  key={balance.leave_type_id}
+                  className="bg-gradient-to-r from-blue-500 to-blue-600 rounded-xl shadow-lg p-6 text-white"
+                >
+                  <h3 className="text-lg font-semibold opacity-90">{balance.leave_type_name}</h3>
+                  <div className="mt-2 flex items-baseline gap-2">
+                    <span className="text-4xl font-bold">{formatDays(balance.days_remaining)}</span>
+                    <span className="text-xl opacity-90">remaining</span>
+                  </div>
+                  <p className="mt-1 text-sm opacity-75">
+                    {balance.days_used} of {balance.days_total} days used this year
+                  </p>
+                  {balance.days_pending > 0 && (
+                    <p className="mt-1 text-sm opacity-75">
+                      {formatDays(balance.days_pending)} awaiting approval, {formatDays(balance.days_available)} free to request
+                    </p>
+                  )}
+                  {balance.carried_remaining > 0 && (
+                    <p className="mt-1 text-sm opacity-75">
+                      incl. {formatDays(balance.carried_remaining)} carried from {balance.year - 1}
+                      {balance.carry_expires_on && `, expiring ${balance.carry_expires_on}`}
+                    </p>
+                  )}
+                  <div className="mt-3 h-2 bg-white bg-opacity-20 rounded-full overflow-hidden">
+                    <div className="h-full bg-white rounded-full" style={{ width: `${usedPercent}%` }} />
+                  </div>
                 </div>
-                <p className="mt-1 text-sm opacity-75">
-                  {user.vacation_days_used} of {user.vacation_days_total} days used
-                </p>
-              </div>
-              <div className="text-right">
-                <div className="text-sm opacity-75 mb-2">Usage</div>
-                <div className="w-32 h-32 relative">
-                  <svg className="transform -rotate-90" viewBox="0 0 36 36">
-                    <path
-                      d="M18 2.0845 a 15.9155 15.9155 0 0 1 0 31.831 a 15.9155 15.9155 0 0 1 0 -31.831"
-                      fill="none"
-                      stroke="rgba(255,255,255,0.2)"
-                      strokeWidth="3"
-                    />
-                    <path
-                      d="M18 2.0845 a 15.9155 15.9155 0 0 1 0 31.831 a 15.9155 15.9155 0 0 1 0 -31.831"
-                      fill="none"
-                      stroke="white"
-                      strokeWidth="3"
-                      strokeDasharray={`${(user.vacation_days_used / user.vacation_days_total) * 100}, 100`}
-                    />
-                  </svg>
-                  <div className="absolute inset-0 flex items-center justify-center">
-                    <span className="text-2xl font-bold">
-                      {Math.round((user.vacation_days_used / user.vacation_days_total) * 100)}%
-                    </span>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Delegated Approvals */}
+        {delegatedRequests.length > 0 && (
+          <div className="mb-6 bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <h2 className="text-lg font-bold text-gray-900">Delegated Approvals</h2>
+            <p className="mt-1 mb-4 text-sm text-gray-600">
+              Requests waiting on managers who delegated their approvals to you
+            </p>
+            <div className="divide-y divide-gray-200">
+              {delegatedRequests.map((request) => (
+                <div key={request.id} className="py-3 flex justify-between items-center">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">
+                      {request.user_name} · {formatDays(request.days_requested)}
+                      {request.leave_type_name && ` of ${request.leave_type_name}`}
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {formatRequestDates(request)}
+                      {request.reason && ` · ${request.reason}`}
+                    </div>
+                  </div>
+                  <div className="flex gap-3 text-sm font-medium">
+                    <button
+                      onClick={() => handleDelegatedDecision(request, 'approve')}
+                      className="text-green-600 hover:text-green-900 transition"
+                    >
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => handleDelegatedDecision(request, 'reject')}
+                      className="text-red-600 hover:text-red-900 transition"
+                    >
+                      Reject
+                    </button>
                   </div>
                 </div>
-              </div>
+              ))}
             </div>
           </div>
         )}
@@ -164,12 +245,27 @@ export default function EmployeeRequests() {
                 View and manage your vacation requests
               </p>
             </div>
-            <button
-              onClick={() => navigate('/employee/requests/create')}
-              className="px-6 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition"
-            >
-              + Request Vacation
-            </button>
+            <div className="flex gap-3">
+              <CalendarSubscribe canPickTeam={false} />
+              <button
+                onClick={() => navigate('/employee/calendar')}
+                className="px-6 py-3 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition"
+              >
+                Team Calendar
+              </button>
+              <button
+                onClick={() => navigate('/employee/balance-history')}
+                className="px-6 py-3 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition"
+              >
+                Balance History
+              </button>
+              <button
+                onClick={() => navigate('/employee/requests/create')}
+                className="px-6 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition"
+              >
+                + Request Vacation
+              </button>
+            </div>
           </div>
 
           {/* Filters */}
@@ -183,6 +279,7 @@ export default function EmployeeRequests() {
               <option value="pending">Pending</option>
               <option value="approved">Approved</option>
               <option value="rejected">Rejected</option>
+              <option value="cancelled">Cancelled</option>
             </select>
             <input
               type="text"
@@ -262,25 +359,32 @@ export default function EmployeeRequests() {
                       </td>
                       <td className="px-6 py-4">
                         <div className="text-sm text-gray-900">
-                          {request.start_date} → {request.end_date}
+                          {formatRequestDates(request)}
                         </div>
                         <div className="text-xs text-gray-500 mt-1">
+                          {request.leave_type_name && (
+                            <span className="font-medium text-gray-700">{request.leave_type_name} · </span>
+                          )}
                           {request.reason || <span className="italic">No reason</span>}
                         </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="text-sm font-medium text-gray-900">
-                          {Math.ceil((new Date(request.end_date).getTime() - new Date(request.start_date).getTime()) / (1000 * 60 * 60 * 24)) + 1} days
+                          {formatDays(request.days_requested)}
                         </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span className={`px-3 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${
                           request.status === 'approved' ? 'bg-green-100 text-green-800' :
                           request.status === 'rejected' ? 'bg-red-100 text-red-800' :
+                          request.status === 'cancelled' ? 'bg-gray-100 text-gray-600' :
                           'bg-yellow-100 text-yellow-800'
                         }`}>
                           {request.status}
                         </span>
+                        {request.status === 'approved' && request.cancellation_requested_at && (
+                          <div className="text-xs text-orange-600 mt-1">Cancellation requested</div>
+                        )}
                       </td>
                       <td className="px-6 py-4">
                         {request.manager_notes ? (
@@ -295,6 +399,8 @@ export default function EmployeeRequests() {
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                         {request.status === 'pending' ? (
                           <div className="flex gap-2 justify-end">
+                            <RequestComments request={request} />
+                            <RequestAttachments request={request} isOwner />
                             <button
                               onClick={() => openEditModal(request)}
                               className="text-blue-600 hover:text-blue-900 transition"
@@ -308,6 +414,21 @@ export default function EmployeeRequests() {
                               Delete
                             </button>
                           </div>
+                        ) : request.status === 'approved' || (request.comment_count ?? 0) > 0 || (request.attachment_count ?? 0) > 0 ? (
+                          <div className="flex gap-2 justify-end">
+                            {(request.comment_count ?? 0) > 0 && <RequestComments request={request} />}
+                            {(request.status === 'approved' || (request.attachment_count ?? 0) > 0) && (
+                              <RequestAttachments request={request} isOwner />
+                            )}
+                            {request.status === 'approved' && !request.cancellation_requested_at && request.start_date > today && (
+                              <button
+                                onClick={() => handleCancel(request)}
+                                className="text-red-600 hover:text-red-900 transition"
+                              >
+                                Cancel
+                              </button>
+                            )}
+                          </div>
                         ) : (
                           <span className="text-gray-400">-</span>
                         )}
@@ -329,24 +450,32 @@ export default function EmployeeRequests() {
             
             <div className="space-y-4">
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Start Date</label>
-                <input
-                  type="date"
-                  value={editStartDate}
-                  onChange={(e) => setEditStartDate(e.target.value)}
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
+                <label className="block text-sm font-medium text-gray-700 mb-2">Duration</label>
+                <DurationFields value={editDuration} onChange={setEditDuration} />
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">End Date</label>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {editDuration.durationType === 'full_day' ? 'Start Date' : 'Date'}
+                </label>
                 <input
                   type="date"
-                  value={editEndDate}
-                  onChange={(e) => setEditEndDate(e.target.value)}
-                  min={editStartDate}
+                  value={editStartDate}
+                  onChange={(e) => setEditStartDate(e.target.value)}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                 />
               </div>
+              {editDuration.durationType === 'full_day' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">End Date</label>
+                  <input
+                    type="date"
+                    value={editEndDate}
+                    onChange={(e) => setEditEndDate(e.target.value)}
+                    min={editStartDate}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              )}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Reason (optional)</label>
                 <textarea
@@ -0,0 +1,328 @@
+import { useState, useEffect } from 'react';
+import api, { getErrorMessage } from '../api/axios';
+import ManagerHeader from '../components/ManagerHeader';
+import { formatDays } from '../utils/format';
+import type { AccrualEntry, AccrualFrequency, AccrualPolicy, AccrualPosting, AccrualSummary, LeaveType } from '../types';
+
+export default function ManagerAccruals() {
+  const [policies, setPolicies] = useState<AccrualPolicy[]>([]);
+  const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
+  const [postings, setPostings] = useState<AccrualPosting[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [asOf, setAsOf] = useState(new Date().toISOString().slice(0, 10));
+  const [preview, setPreview] = useState<AccrualSummary | null>(null);
+  const [runMessage, setRunMessage] = useState('');
+  const [name, setName] = useState('');
+  const [leaveTypeId, setLeaveTypeId] = useState<number | null>(null);
+  const [frequency, setFrequency] = useState<AccrualFrequency>('monthly');
+  const [daysPerPeriod, setDaysPerPeriod] = useState('');
+  const [startsOn, setStartsOn] = useState(new Date().toISOString().slice(0, 10));
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [policiesRes, typesRes, postingsRes] = await Promise.all([
+        api.get('/accruals/policies'),
+        api.get('/leave-types'),
+        api.get('/accruals/postings'),
+      ]);
+      const trackedTypes: LeaveType[] = typesRes.data.data.filter((type: LeaveType) => type.tracks_balance);
+      setPolicies(policiesRes.data.data);
+      setLeaveTypes(trackedTypes);
+      setLeaveTypeId((current) => current ?? trackedTypes[0]?.id ?? null);
+      setPostings(postingsRes.data.data);
+    } catch (error) {
+      console.error('Failed to fetch accruals:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    setRunMessage('');
+    try {
+      const response = await api.get(`/accruals/preview?as_of=${asOf}`);
+      setPreview(response.data.data);
+    } catch (err) {
+      setRunMessage(getErrorMessage(err, 'Failed to preview accruals'));
+    }
+  };
+
+  const handleRun = async () => {
+    if (!confirm(`Post all accruals due as of ${asOf}?`)) return;
+
+    try {
+      const response = await api.post('/accruals/run', { as_of: asOf });
+      setRunMessage(response.data.message);
+      setPreview(null);
+      fetchData();
+    } catch (err) {
+      setRunMessage(getErrorMessage(err, 'Failed to run accruals'));
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      await api.post('/accruals/policies', {
+        name,
+        leave_type_id: leaveTypeId,
+        frequency,
+        days_per_period: Number(daysPerPeriod),
+        starts_on: startsOn,
+      });
+      setName('');
+      setDaysPerPeriod('');
+      fetchData();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create accrual policy'));
+    }
+  };
+
+  const togglePolicy = async (policy: AccrualPolicy) => {
+    try {
+      await api.put(`/accruals/policies/${policy.id}`, { is_active: !policy.is_active });
+      fetchData();
+    } catch (err) {
+      alert(getErrorMessage(err, 'Failed to update accrual policy'));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <ManagerHeader />
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">Leave Accruals</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            Policies grant days every month or year, pro-rated from each employee's hire date. Accruals are posted automatically; each period is only credited once.
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            <p className="mt-2 text-gray-600">Loading accruals...</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              {/* Policies */}
+              <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Policy
+                      </th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Grant
+                      </th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Starts
+                      </th>
+                      <th className="px-6 py-4 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Status
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {policies.length === 0 ? (
+                      <tr>
+                        <td colSpan={4} className="px-6 py-8 text-center text-sm text-gray-500">
+                          No accrual policies yet
+                        </td>
+                      </tr>
+                    ) : (
+                      policies.map((policy) => (
+                        <tr key={policy.id}>
+                          <td className="px-6 py-4">
+                            <div className="text-sm font-medium text-gray-900">{policy.name}</div>
+                            <div className="text-xs text-gray-500 mt-1">{policy.leave_type_name}</div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {formatDays(policy.days_per_period)} per {policy.frequency === 'monthly' ? 'month' : 'year'}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{policy.starts_on}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right">
+                            <button
+                              onClick={() => togglePolicy(policy)}
+                              className={`px-3 py-1 text-xs font-semibold rounded-full transition ${
+                                policy.is_active ? 'bg-green-100 text-green-800 hover:bg-green-200' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                              }`}
+                            >
+                              {policy.is_active ? 'Active' : 'Paused'}
+                            </button>
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Policy Form */}
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                <h3 className="text-lg font-bold text-gray-900 mb-4">Add Policy</h3>
+                <form onSubmit={handleCreate} className="space-y-4">
+                  <input
+                    type="text"
+                    placeholder="Name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                  <select
+                    value={leaveTypeId ?? ''}
+                    onChange={(e) => setLeaveTypeId(Number(e.target.value))}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  >
+                    {leaveTypes.map((type) => (
+                      <option key={type.id} value={type.id}>{type.name}</option>
+                    ))}
+                  </select>
+                  <div className="flex gap-3">
+                    <input
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      placeholder="Days"
+                      value={daysPerPeriod}
+                      onChange={(e) => setDaysPerPeriod(e.target.value)}
+                      className="w-28 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      required
+                    />
+                    <select
+                      value={frequency}
+                      onChange={(e) => setFrequency(e.target.value as AccrualFrequency)}
+                      className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="monthly">per month</option>
+                      <option value="yearly">per year</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Accrue from</label>
+                    <input
+                      type="date"
+                      value={startsOn}
+                      onChange={(e) => setStartsOn(e.target.value)}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      required
+                    />
+                  </div>
+
+                  {error && (
+                    <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                      {error}
+                    </div>
+                  )}
+
+                  <button
+                    type="submit"
+                    className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition"
+                  >
+                    Add
+                  </button>
+                </form>
+              </div>
+            </div>
+
+            {/* Preview & Run */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <div className="flex flex-wrap items-end gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Accruals due as of</label>
+                  <input
+                    type="date"
+                    value={asOf}
+                    onChange={(e) => setAsOf(e.target.value)}
+                    className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <button
+                  onClick={handlePreview}
+                  className="px-6 py-2 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition"
+                >
+                  Preview
+                </button>
+                <button
+                  onClick={handleRun}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition"
+                >
+                  Post Now
+                </button>
+              </div>
+
+              {runMessage && (
+                <div className="mt-4 bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded-lg text-sm">
+                  {runMessage}
+                </div>
+              )}
+
+              {preview && (
+                <div className="mt-6">
+                  <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                    {preview.entries.length} accruals due ({formatDays(preview.total_days)})
+                  </h3>
+                  {preview.entries.length > 0 && (
+                    <AccrualTable entries={preview.entries} />
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Recent Postings */}
+            <div>
+              <h3 className="text-lg font-bold text-gray-900 mb-4">Recent Postings</h3>
+              {postings.length === 0 ? (
+                <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8 text-center text-sm text-gray-500">
+                  Nothing has been posted yet
+                </div>
+              ) : (
+                <AccrualTable entries={postings} />
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function AccrualTable({ entries }: { entries: AccrualEntry[] }) {
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Employee</th>
+            <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Leave Type</th>
+            <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Period</th>
+            <th className="px-6 py-3 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">Days</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {entries.map((entry) => (
+            <tr key={`${entry.policy_id}-${entry.user_id}-${entry.period_start}`}>
+              <td className="px-6 py-3 text-sm text-gray-900">{entry.user_name}</td>
+              <td className="px-6 py-3 text-sm text-gray-600">{entry.leave_type_name}</td>
+              <td className="px-6 py-3 text-sm text-gray-600">{entry.period_start} – {entry.period_end}</td>
+              <td className="px-6 py-3 text-sm text-gray-900 text-right">{formatDays(entry.days)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -1,12 +1,13 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
 import api from '../api/axios';
+import ManagerHeader from '../components/ManagerHeader';
 
 interface AnalyticsData {
   totalRequests: number;
   pendingRequests: number;
   approvedRequests: number;
   rejectedRequests: number;
+  cancelledRequests: number;
   averageApprovalTime: number;
   requestsByMonth: Array<{ month: string; count: number }>;
   topRequesters: Array<{ user_name: string; request_count: number }>;
@@ -21,7 +22,6 @@ interface AnalyticsData {
 export default function ManagerAnalytics() {
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
   const [loading, setLoading] = useState(true);
-  const navigate = useNavigate();
 
   useEffect(() => {
     fetchAnalytics();
@@ -38,11 +38,6 @@ export default function ManagerAnalytics() {
     }
   };
 
-  const handleLogout = () => {
-    localStorage.clear();
-    navigate('/');
-  };
-
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -57,52 +52,14 @@ export default function ManagerAnalytics() {
 
   return (
     <div className="min-h-screen bg-gray-50">
-      {/* Header */}
-      <div className="bg-white shadow-sm border-b border-gray-200">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <div className="flex justify-between items-center h-16">
-            <div className="flex items-center gap-6">
-              <h1 className="text-2xl font-bold text-gray-900">Vacation Portal</h1>
-              <nav className="flex gap-4">
-                <button
-                  onClick={() => navigate('/manager/users')}
-                  className="px-3 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
-                >
-                  Users
-                </button>
-                <button
-                  onClick={() => navigate('/manager/requests')}
-                  className="px-3 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
-                >
-                  Vacation Requests
-                </button>
-                <button
-                  onClick={() => navigate('/manager/analytics')}
-                  className="px-3 py-2 text-sm bg-blue-100 text-blue-800 font-medium rounded-lg"
-                >
-                  Analytics
-                </button>
-              </nav>
-              <span className="px-3 py-1 bg-blue-100 text-blue-800 text-sm font-medium rounded-full">
-                Manager
-              </span>
-            </div>
-            <button
-              onClick={handleLogout}
-              className="px-4 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
-            >
-              Sign Out
-            </button>
-          </div>
-        </div>
-      </div>
+      <ManagerHeader />
 
       {/* Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <h2 className="text-2xl font-bold text-gray-900 mb-6">Analytics Dashboard</h2>
 
         {/* Stats Grid */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6 mb-8">
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
             <div className="text-sm font-medium text-gray-600 mb-1">Total Requests</div>
             <div className="text-3xl font-bold text-gray-900">{analytics.totalRequests}</div>
@@ -119,6 +76,10 @@ export default function ManagerAnalytics() {
             <div className="text-sm font-medium text-gray-600 mb-1">Rejected</div>
             <div className="text-3xl font-bold text-red-600">{analytics.rejectedRequests}</div>
           </div>
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <div className="text-sm font-medium text-gray-600 mb-1">Cancelled</div>
+            <div className="text-3xl font-bold text-gray-500">{analytics.cancelledRequests}</div>
+          </div>
         </div>
 
         {/* Average Approval Time */}
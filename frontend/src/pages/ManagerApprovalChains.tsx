@@ -0,0 +1,279 @@
+import { useState, useEffect } from 'react';
+import api, { getErrorMessage } from '../api/axios';
+import ManagerHeader from '../components/ManagerHeader';
+import { formatDays } from '../utils/format';
+import type { ApprovalChain, ApprovalChainStep, LeaveType, User } from '../types';
+
+// A step's approver as a select value: 'line_manager' or the approving manager's ID
+const LINE_MANAGER = 'line_manager';
+
+function describeStep(step: ApprovalChainStep): string {
+  return step.approver_kind === 'line_manager' ? 'Line manager' : step.approver_name ?? 'Deleted user';
+}
+
+export default function ManagerApprovalChains() {
+  const [chains, setChains] = useState<ApprovalChain[]>([]);
+  const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
+  const [managers, setManagers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [leaveTypeId, setLeaveTypeId] = useState('');
+  const [minDays, setMinDays] = useState('0');
+  const [steps, setSteps] = useState<string[]>([LINE_MANAGER]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchChains();
+    Promise.all([api.get('/leave-types'), api.get('/users')])
+      .then(([leaveTypesRes, usersRes]) => {
+        setLeaveTypes(leaveTypesRes.data.data);
+        setManagers(usersRes.data.data.filter((user: User) => user.role === 'manager'));
+      })
+      .catch((error) => console.error('Failed to fetch leave types and managers:', error));
+  }, []);
+
+  const fetchChains = async () => {
+    try {
+      const response = await api.get('/approval-chains');
+      setChains(response.data.data);
+    } catch (error) {
+      console.error('Failed to fetch approval chains:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setName('');
+    setLeaveTypeId('');
+    setMinDays('0');
+    setSteps([LINE_MANAGER]);
+    setError('');
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      await api.post('/approval-chains', {
+        name,
+        leave_type_id: leaveTypeId ? Number(leaveTypeId) : null,
+        min_days: Number(minDays),
+        steps: steps.map((step) =>
+          step === LINE_MANAGER
+            ? { approver_kind: 'line_manager' }
+            : { approver_kind: 'user', approver_id: Number(step) }
+        ),
+      });
+      resetForm();
+      fetchChains();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create approval chain'));
+    }
+  };
+
+  const handleToggleActive = async (chain: ApprovalChain) => {
+    try {
+      await api.put(`/approval-chains/${chain.id}`, { is_active: !chain.is_active });
+      fetchChains();
+    } catch (err) {
+      alert(getErrorMessage(err, 'Failed to update approval chain'));
+    }
+  };
+
+  const handleDelete = async (chain: ApprovalChain) => {
+    if (!confirm(`Delete the ${chain.name} approval chain? Requests already submitted keep their steps.`)) return;
+
+    try {
+      await api.delete(`/approval-chains/${chain.id}`);
+      fetchChains();
+    } catch (err) {
+      alert(getErrorMessage(err, 'Failed to delete approval chain'));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <ManagerHeader />
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">Approval Chains</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            Requests go through the most specific chain they match, one sign-off after another; requests no chain
+            matches only need their line manager
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            {loading ? (
+              <div className="text-center py-12">
+                <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                <p className="mt-2 text-gray-600">Loading approval chains...</p>
+              </div>
+            ) : (
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Chain
+                      </th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Applies To
+                      </th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Steps
+                      </th>
+                      <th className="px-6 py-4 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {chains.length === 0 ? (
+                      <tr>
+                        <td colSpan={4} className="px-6 py-8 text-center text-sm text-gray-500">
+                          No approval chains yet; every request goes to the requester's line manager
+                        </td>
+                      </tr>
+                    ) : (
+                      chains.map((chain) => (
+                        <tr key={chain.id} className={chain.is_active ? '' : 'bg-gray-50 opacity-60'}>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm font-medium text-gray-900">{chain.name}</div>
+                            <label className="mt-1 flex items-center gap-2 text-xs text-gray-500">
+                              <input
+                                type="checkbox"
+                                checked={chain.is_active}
+                                onChange={() => handleToggleActive(chain)}
+                              />
+                              Active
+                            </label>
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-600">
+                            {chain.leave_type_name ?? 'All leave types'}
+                            {chain.min_days > 0 && <div className="text-xs text-gray-500">{formatDays(chain.min_days)} or more</div>}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-900">
+                            <ol className="list-decimal list-inside space-y-1">
+                              {chain.steps.map((step) => (
+                                <li key={step.step_order}>{describeStep(step)}</li>
+                              ))}
+                            </ol>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                            <button
+                              onClick={() => handleDelete(chain)}
+                              className="text-red-600 hover:text-red-900 transition"
+                            >
+                              Delete
+                            </button>
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* Approval Chain Form */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 h-fit">
+            <h3 className="text-lg font-bold text-gray-900 mb-4">Add Approval Chain</h3>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Long leave"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                />
+              </div>
+              <div className="flex gap-3">
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Leave Type</label>
+                  <select
+                    value={leaveTypeId}
+                    onChange={(e) => setLeaveTypeId(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Any</option>
+                    {leaveTypes.map((leaveType) => (
+                      <option key={leaveType.id} value={leaveType.id}>{leaveType.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="w-28">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Min. days</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={minDays}
+                    onChange={(e) => setMinDays(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2 pt-2 border-t border-gray-100">
+                <p className="text-sm font-medium text-gray-700">Sign-offs, in order</p>
+                {steps.map((step, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <span className="w-5 text-sm text-gray-500">{index + 1}.</span>
+                    <select
+                      value={step}
+                      onChange={(e) => setSteps(steps.map((s, i) => (i === index ? e.target.value : s)))}
+                      className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value={LINE_MANAGER}>Line manager</option>
+                      {managers.map((manager) => (
+                        <option key={manager.id} value={manager.id}>{manager.name}</option>
+                      ))}
+                    </select>
+                    {steps.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => setSteps(steps.filter((_, i) => i !== index))}
+                        className="text-red-600 hover:text-red-900 transition"
+                      >
+                        ✗
+                      </button>
+                    )}
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setSteps([...steps, managers[0] ? String(managers[0].id) : LINE_MANAGER])}
+                  className="text-sm text-blue-600 hover:text-blue-900 transition"
+                >
+                  + Add step
+                </button>
+              </div>
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition"
+              >
+                Add
+              </button>
+            </form>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
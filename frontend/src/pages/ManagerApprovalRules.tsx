@@ -0,0 +1,330 @@
+import { useState, useEffect } from 'react';
+import api, { getErrorMessage } from '../api/axios';
+import ManagerHeader from '../components/ManagerHeader';
+import { formatDays } from '../utils/format';
+import type { ApprovalRule, ApprovalRuleAction, LeaveType, User } from '../types';
+
+// The conditions a rule sets, as short phrases
+function describeConditions(rule: ApprovalRule): string[] {
+  const conditions: string[] = [];
+  if (rule.max_days !== null) conditions.push(`${formatDays(rule.max_days)} or fewer`);
+  if (rule.min_notice_days !== null) conditions.push(`booked ${formatDays(rule.min_notice_days)} or more ahead`);
+  if (rule.min_balance_after !== null) conditions.push(`leaves at least ${formatDays(rule.min_balance_after)} of balance`);
+  if (rule.max_team_absent !== null) {
+    conditions.push(rule.max_team_absent === 0 ? 'nobody else in the team off' : `at most ${rule.max_team_absent} of the team off`);
+  }
+  return conditions;
+}
+
+// An optional numeric condition from a form field (empty = no condition)
+function optionalNumber(value: string): number | null {
+  return value === '' ? null : Number(value);
+}
+
+export default function ManagerApprovalRules() {
+  const [rules, setRules] = useState<ApprovalRule[]>([]);
+  const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
+  const [managers, setManagers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [priority, setPriority] = useState('100');
+  const [action, setAction] = useState<ApprovalRuleAction>('auto_approve');
+  const [routeToId, setRouteToId] = useState('');
+  const [leaveTypeId, setLeaveTypeId] = useState('');
+  const [maxDays, setMaxDays] = useState('');
+  const [minNoticeDays, setMinNoticeDays] = useState('');
+  const [minBalanceAfter, setMinBalanceAfter] = useState('');
+  const [maxTeamAbsent, setMaxTeamAbsent] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchRules();
+    Promise.all([api.get('/leave-types'), api.get('/users')])
+      .then(([leaveTypesRes, usersRes]) => {
+        setLeaveTypes(leaveTypesRes.data.data);
+        setManagers(usersRes.data.data.filter((user: User) => user.role === 'manager'));
+      })
+      .catch((error) => console.error('Failed to fetch leave types and managers:', error));
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      const response = await api.get('/approval-rules');
+      setRules(response.data.data);
+    } catch (error) {
+      console.error('Failed to fetch approval rules:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setName('');
+    setPriority('100');
+    setAction('auto_approve');
+    setRouteToId('');
+    setLeaveTypeId('');
+    setMaxDays('');
+    setMinNoticeDays('');
+    setMinBalanceAfter('');
+    setMaxTeamAbsent('');
+    setError('');
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      await api.post('/approval-rules', {
+        name,
+        priority: Number(priority),
+        action,
+        route_to_id: action === 'route' ? Number(routeToId) : null,
+        leave_type_id: leaveTypeId ? Number(leaveTypeId) : null,
+        max_days: optionalNumber(maxDays),
+        min_notice_days: optionalNumber(minNoticeDays),
+        min_balance_after: optionalNumber(minBalanceAfter),
+        max_team_absent: optionalNumber(maxTeamAbsent),
+      });
+      resetForm();
+      fetchRules();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create approval rule'));
+    }
+  };
+
+  const handleToggleActive = async (rule: ApprovalRule) => {
+    try {
+      await api.put(`/approval-rules/${rule.id}`, { is_active: !rule.is_active });
+      fetchRules();
+    } catch (err) {
+      alert(getErrorMessage(err, 'Failed to update approval rule'));
+    }
+  };
+
+  const handleDelete = async (rule: ApprovalRule) => {
+    if (!confirm(`Delete the ${rule.name} rule? Requests it already handled keep its name.`)) return;
+
+    try {
+      await api.delete(`/approval-rules/${rule.id}`);
+      fetchRules();
+    } catch (err) {
+      alert(getErrorMessage(err, 'Failed to delete approval rule'));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <ManagerHeader />
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">Approval Rules</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            Submitted requests are checked against the active rules in priority order; the first one they meet
+            approves them straight away or sends them to one manager instead of their approval chain
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            {loading ? (
+              <div className="text-center py-12">
+                <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                <p className="mt-2 text-gray-600">Loading approval rules...</p>
+              </div>
+            ) : (
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Rule
+                      </th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        When
+                      </th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Then
+                      </th>
+                      <th className="px-6 py-4 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {rules.length === 0 ? (
+                      <tr>
+                        <td colSpan={4} className="px-6 py-8 text-center text-sm text-gray-500">
+                          No approval rules yet; every request follows its approval chain
+                        </td>
+                      </tr>
+                    ) : (
+                      rules.map((rule) => (
+                        <tr key={rule.id} className={rule.is_active ? '' : 'bg-gray-50 opacity-60'}>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm font-medium text-gray-900">{rule.name}</div>
+                            <div className="text-xs text-gray-500">Priority {rule.priority}</div>
+                            <label className="mt-1 flex items-center gap-2 text-xs text-gray-500">
+                              <input
+                                type="checkbox"
+                                checked={rule.is_active}
+                                onChange={() => handleToggleActive(rule)}
+                              />
+                              Active
+                            </label>
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-600">
+                            {rule.leave_type_name ?? 'Any leave type'}
+                            {describeConditions(rule).map((condition) => (
+                              <div key={condition} className="text-xs text-gray-500">{condition}</div>
+                            ))}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-900">
+                            {rule.action === 'auto_approve' ? (
+                              <span className="px-3 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                                Approve automatically
+                              </span>
+                            ) : (
+                              <>Send to {rule.route_to_name}</>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                            <button
+                              onClick={() => handleDelete(rule)}
+                              className="text-red-600 hover:text-red-900 transition"
+                            >
+                              Delete
+                            </button>
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* Approval Rule Form */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 h-fit">
+            <h3 className="text-lg font-bold text-gray-900 mb-4">Add Approval Rule</h3>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="flex gap-3">
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="e.g. Short leave"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                </div>
+                <div className="w-24">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Priority</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={priority}
+                    onChange={(e) => setPriority(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-3 pt-2 border-t border-gray-100">
+                <p className="text-sm font-medium text-gray-700">When the request (leave blank to skip)</p>
+                <select
+                  value={leaveTypeId}
+                  onChange={(e) => setLeaveTypeId(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">is for any leave type</option>
+                  {leaveTypes.map((leaveType) => (
+                    <option key={leaveType.id} value={leaveType.id}>is for {leaveType.name}</option>
+                  ))}
+                </select>
+                <ConditionField label="is at most (days)" value={maxDays} onChange={setMaxDays} step="0.5" min="0.25" />
+                <ConditionField label="starts at least (days from now)" value={minNoticeDays} onChange={setMinNoticeDays} min="0" />
+                <ConditionField label="leaves a balance of at least" value={minBalanceAfter} onChange={setMinBalanceAfter} step="0.5" />
+                <ConditionField label="overlaps at most (teammates off)" value={maxTeamAbsent} onChange={setMaxTeamAbsent} min="0" />
+              </div>
+
+              <div className="space-y-3 pt-2 border-t border-gray-100">
+                <p className="text-sm font-medium text-gray-700">Then</p>
+                <select
+                  value={action}
+                  onChange={(e) => setAction(e.target.value as ApprovalRuleAction)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="auto_approve">Approve it automatically</option>
+                  <option value="route">Send it to one manager</option>
+                </select>
+                {action === 'route' && (
+                  <select
+                    value={routeToId}
+                    onChange={(e) => setRouteToId(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  >
+                    <option value="">Select a manager</option>
+                    {managers.map((manager) => (
+                      <option key={manager.id} value={manager.id}>{manager.name}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition"
+              >
+                Add
+              </button>
+            </form>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// An optional numeric condition with its label beside it
+function ConditionField({
+  label,
+  value,
+  onChange,
+  step = '1',
+  min,
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  step?: string;
+  min?: string;
+}) {
+  return (
+    <div className="flex items-center gap-3">
+      <span className="flex-1 text-sm text-gray-600">{label}</span>
+      <input
+        type="number"
+        step={step}
+        min={min}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+    </div>
+  );
+}
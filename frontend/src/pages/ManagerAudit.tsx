@@ -0,0 +1,320 @@
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import api from '../api/axios';
+import ManagerHeader from '../components/ManagerHeader';
+import type { AuditEntityType, AuditEntry, AuditLogPage, User } from '../types';
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  user: 'User',
+  balance: 'Balance',
+  team: 'Team',
+  request: 'Request',
+  request_comment: 'Request Comment',
+  request_attachment: 'Request Attachment',
+  leave_type: 'Leave Type',
+  holiday: 'Holiday',
+  accrual_policy: 'Accrual Policy',
+  accrual_run: 'Accrual Run',
+  year_close: 'Year Close',
+  approval_chain: 'Approval Chain',
+  approval_rule: 'Approval Rule',
+  blackout: 'Blackout',
+  delegation: 'Delegation',
+  calendar_feed: 'Calendar Feed',
+};
+
+const PAGE_SIZE = 50;
+
+const EMPTY_FILTERS = {
+  entity_type: '',
+  actor_id: '',
+  subject_id: '',
+  action: '',
+  from: '',
+  to: '',
+};
+
+export default function ManagerAudit() {
+  const [log, setLog] = useState<AuditLogPage | null>(null);
+  const [users, setUsers] = useState<User[]>([]);
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    api.get('/users')
+      .then((response) => setUsers(response.data.data))
+      .catch((error) => console.error('Failed to fetch users:', error));
+  }, []);
+
+  const fetchLog = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(page), page_size: String(PAGE_SIZE) });
+      for (const [key, value] of Object.entries(filters)) {
+        if (value) params.append(key, value);
+      }
+      const response = await api.get(`/audit?${params.toString()}`);
+      setLog(response.data.data);
+    } catch (error) {
+      console.error('Failed to fetch audit log:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    fetchLog();
+  }, [fetchLog]);
+
+  const updateFilter = (field: keyof typeof EMPTY_FILTERS, value: string) => {
+    if (filters[field] === value) return;
+    setFilters((current) => ({ ...current, [field]: value }));
+    setPage(1);
+    setExpandedId(null);
+  };
+
+  const changePage = (next: number) => {
+    setPage(next);
+    setExpandedId(null);
+  };
+
+  const pageCount = log ? Math.max(1, Math.ceil(log.total / log.page_size)) : 1;
+  const selectClass = 'px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <ManagerHeader />
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">Audit Log</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            Every change made through the portal, who made it and what it changed
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="mb-6 flex flex-wrap gap-4 items-end">
+          <select
+            value={filters.entity_type}
+            onChange={(e) => updateFilter('entity_type', e.target.value)}
+            className={selectClass}
+          >
+            <option value="">All Entities</option>
+            {Object.entries(ENTITY_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>{label}</option>
+            ))}
+          </select>
+          <select
+            value={filters.actor_id}
+            onChange={(e) => updateFilter('actor_id', e.target.value)}
+            className={selectClass}
+          >
+            <option value="">Changed by anyone</option>
+            {users.map((user) => (
+              <option key={user.id} value={user.id}>{user.name}</option>
+            ))}
+          </select>
+          <select
+            value={filters.subject_id}
+            onChange={(e) => updateFilter('subject_id', e.target.value)}
+            className={selectClass}
+          >
+            <option value="">Concerning anyone</option>
+            {users.map((user) => (
+              <option key={user.id} value={user.id}>{user.name}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder="Action (e.g. approve)"
+            defaultValue={filters.action}
+            onKeyDown={(e) => e.key === 'Enter' && updateFilter('action', e.currentTarget.value.trim())}
+            onBlur={(e) => updateFilter('action', e.target.value.trim())}
+            className={selectClass}
+          />
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => updateFilter('from', e.target.value)}
+              className={selectClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+            <input
+              type="date"
+              value={filters.to}
+              min={filters.from || undefined}
+              onChange={(e) => updateFilter('to', e.target.value)}
+              className={selectClass}
+            />
+          </div>
+        </div>
+
+        {loading && !log ? (
+          <div className="text-center py-12">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            <p className="mt-2 text-gray-600">Loading audit log...</p>
+          </div>
+        ) : log && (
+          <>
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Time</th>
+                    <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Changed By</th>
+                    <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Action</th>
+                    <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Entity</th>
+                    <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Concerning</th>
+                    <th className="px-6 py-3 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider"></th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {log.entries.length === 0 ? (
+                    <tr>
+                      <td colSpan={6} className="px-6 py-8 text-center text-sm text-gray-500">
+                        No changes recorded
+                      </td>
+                    </tr>
+                  ) : (
+                    log.entries.map((entry) => (
+                      <Fragment key={entry.id}>
+                        <tr>
+                          <td className="px-6 py-3 text-sm text-gray-600 whitespace-nowrap">
+                            {new Date(entry.created_at).toLocaleString()}
+                          </td>
+                          <td className="px-6 py-3 text-sm text-gray-900">{entry.actor_name ?? '—'}</td>
+                          <td className="px-6 py-3 text-sm text-gray-900 font-mono">{entry.action}</td>
+                          <td className="px-6 py-3 text-sm text-gray-600">
+                            {ENTITY_LABELS[entry.entity_type]}
+                            {entry.entity_id !== null && ` #${entry.entity_id}`}
+                          </td>
+                          <td className="px-6 py-3 text-sm text-gray-600">{entry.subject_name ?? '—'}</td>
+                          <td className="px-6 py-3 text-right">
+                            <button
+                              onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                              className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+                            >
+                              {expandedId === entry.id ? 'Hide' : 'Details'}
+                            </button>
+                          </td>
+                        </tr>
+                        {expandedId === entry.id && (
+                          <tr>
+                            <td colSpan={6} className="px-6 py-4 bg-gray-50">
+                              <AuditDetails entry={entry} />
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="mt-4 flex justify-between items-center text-sm text-gray-600">
+              <span>
+                {log.total === 0
+                  ? 'No entries'
+                  : `Showing ${(log.page - 1) * log.page_size + 1}–${Math.min(log.page * log.page_size, log.total)} of ${log.total}`}
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => changePage(page - 1)}
+                  disabled={page <= 1}
+                  className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => changePage(page + 1)}
+                  disabled={page >= pageCount}
+                  className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Where a change came from and the fields it changed, before and after
+function AuditDetails({ entry }: { entry: AuditEntry }) {
+  const { before, after, metadata } = entry;
+  const snapshots: Array<[string, unknown]> = [['Before', before], ['After', after]];
+
+  let changes: Array<[string, unknown, unknown]> | null = null;
+  if ((isRecord(before) || before === null) && (isRecord(after) || after === null) && (before || after)) {
+    const fields = [...new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])];
+    changes = fields
+      .map((field): [string, unknown, unknown] => [field, before?.[field], after?.[field]])
+      .filter(([, old, current]) => JSON.stringify(old) !== JSON.stringify(current));
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <p className="text-gray-600">
+        <span className="font-mono">{metadata.method} {metadata.path}</span>
+        {metadata.ip && ` from ${metadata.ip}`}
+        {metadata.message && <span className="text-gray-500"> — {metadata.message}</span>}
+      </p>
+
+      {changes ? (
+        changes.length === 0 ? (
+          <p className="text-gray-500">No fields changed</p>
+        ) : (
+          <table className="min-w-full">
+            <thead>
+              <tr>
+                <th className="pr-4 py-1 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Field</th>
+                <th className="pr-4 py-1 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Before</th>
+                <th className="py-1 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {changes.map(([field, old, current]) => (
+                <tr key={field} className="align-top">
+                  <td className="pr-4 py-1 font-mono text-gray-700">{field}</td>
+                  <td className="pr-4 py-1 text-red-700 break-all">{formatValue(old)}</td>
+                  <td className="py-1 text-green-700 break-all">{formatValue(current)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )
+      ) : (
+        <div className="grid grid-cols-2 gap-4">
+          {snapshots.map(([label, value]) => (
+            <div key={label}>
+              <p className="text-xs font-semibold text-gray-600 uppercase tracking-wider mb-1">{label}</p>
+              <pre className="bg-white border border-gray-200 rounded-lg p-3 text-xs text-gray-700 overflow-auto max-h-64">
+                {value === null || value === undefined ? '—' : JSON.stringify(value, null, 2)}
+              </pre>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
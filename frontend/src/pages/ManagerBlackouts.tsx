@@ -0,0 +1,259 @@
+import { useState, useEffect } from 'react';
+import api, { getErrorMessage } from '../api/axios';
+import ManagerHeader from '../components/ManagerHeader';
+import type { BlackoutMode, BlackoutPeriod, Team, User } from '../types';
+
+export default function ManagerBlackouts() {
+  const [blackouts, setBlackouts] = useState<BlackoutPeriod[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [managers, setManagers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [teamId, setTeamId] = useState('');
+  const [startsOn, setStartsOn] = useState('');
+  const [endsOn, setEndsOn] = useState('');
+  const [mode, setMode] = useState<BlackoutMode>('block');
+  const [approverId, setApproverId] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchBlackouts();
+    Promise.all([api.get('/teams'), api.get('/users')])
+      .then(([teamsRes, usersRes]) => {
+        setTeams(teamsRes.data.data);
+        setManagers(usersRes.data.data.filter((user: User) => user.role === 'manager'));
+      })
+      .catch((error) => console.error('Failed to fetch teams and managers:', error));
+  }, []);
+
+  const fetchBlackouts = async () => {
+    try {
+      const response = await api.get('/blackouts');
+      setBlackouts(response.data.data);
+    } catch (error) {
+      console.error('Failed to fetch blackout periods:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setName('');
+    setTeamId('');
+    setStartsOn('');
+    setEndsOn('');
+    setMode('block');
+    setApproverId('');
+    setError('');
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      await api.post('/blackouts', {
+        name,
+        team_id: teamId ? Number(teamId) : null,
+        starts_on: startsOn,
+        ends_on: endsOn,
+        mode,
+        approver_id: mode === 'extra_approval' && approverId ? Number(approverId) : null,
+      });
+      resetForm();
+      fetchBlackouts();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create blackout period'));
+    }
+  };
+
+  const handleDelete = async (blackout: BlackoutPeriod) => {
+    if (!confirm(`Delete the ${blackout.name} blackout period?`)) return;
+
+    try {
+      await api.delete(`/blackouts/${blackout.id}`);
+      fetchBlackouts();
+    } catch (err) {
+      alert(getErrorMessage(err, 'Failed to delete blackout period'));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <ManagerHeader />
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">Blackout Periods</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            Dates when leave needing approval is refused, or needs an extra sign-off, for the whole company or one team
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            {loading ? (
+              <div className="text-center py-12">
+                <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                <p className="mt-2 text-gray-600">Loading blackout periods...</p>
+              </div>
+            ) : (
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Period
+                      </th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Applies To
+                      </th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Leave
+                      </th>
+                      <th className="px-6 py-4 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {blackouts.length === 0 ? (
+                      <tr>
+                        <td colSpan={4} className="px-6 py-8 text-center text-sm text-gray-500">
+                          No blackout periods
+                        </td>
+                      </tr>
+                    ) : (
+                      blackouts.map((blackout) => (
+                        <tr key={blackout.id}>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm font-medium text-gray-900">{blackout.name}</div>
+                            <div className="text-xs text-gray-500">{blackout.starts_on} → {blackout.ends_on}</div>
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-600">{blackout.team_name ?? 'Whole company'}</td>
+                          <td className="px-6 py-4 text-sm">
+                            {blackout.mode === 'block' ? (
+                              <span className="px-3 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">
+                                Blocked
+                              </span>
+                            ) : (
+                              <span className="text-gray-900">
+                                Extra sign-off by {blackout.approver_name ?? 'a super-admin'}
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                            <button
+                              onClick={() => handleDelete(blackout)}
+                              className="text-red-600 hover:text-red-900 transition"
+                            >
+                              Delete
+                            </button>
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* Blackout Period Form */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 h-fit">
+            <h3 className="text-lg font-bold text-gray-900 mb-4">Add Blackout Period</h3>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Quarter-end close"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Team</label>
+                <select
+                  value={teamId}
+                  onChange={(e) => setTeamId(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Whole company</option>
+                  {teams.map((team) => (
+                    <option key={team.id} value={team.id}>{team.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex gap-3">
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+                  <input
+                    type="date"
+                    value={startsOn}
+                    onChange={(e) => setStartsOn(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                </div>
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+                  <input
+                    type="date"
+                    value={endsOn}
+                    min={startsOn}
+                    onChange={(e) => setEndsOn(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Leave During the Period</label>
+                <select
+                  value={mode}
+                  onChange={(e) => setMode(e.target.value as BlackoutMode)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="block">Blocked</option>
+                  <option value="extra_approval">Needs an extra approval</option>
+                </select>
+              </div>
+              {mode === 'extra_approval' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Extra Approver</label>
+                  <select
+                    value={approverId}
+                    onChange={(e) => setApproverId(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Any super-admin</option>
+                    {managers.map((manager) => (
+                      <option key={manager.id} value={manager.id}>{manager.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition"
+              >
+                Add
+              </button>
+            </form>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import CalendarSubscribe from '../components/CalendarSubscribe';
+import ManagerHeader from '../components/ManagerHeader';
+import TeamCalendar from '../components/TeamCalendar';
+
+export default function ManagerCalendar() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <ManagerHeader />
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6 flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Absence Calendar</h2>
+            <p className="mt-1 text-sm text-gray-600">
+              Who is off when, for the whole company or one team
+            </p>
+          </div>
+          <CalendarSubscribe canPickTeam />
+        </div>
+
+        <TeamCalendar canPickTeam />
+      </div>
+    </div>
+  );
+}
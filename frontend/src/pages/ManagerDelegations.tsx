@@ -0,0 +1,226 @@
+import { useState, useEffect } from 'react';
+import api, { getErrorMessage } from '../api/axios';
+import ManagerHeader from '../components/ManagerHeader';
+import type { Delegation, User } from '../types';
+
+export default function ManagerDelegations() {
+  const [delegations, setDelegations] = useState<Delegation[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [delegateId, setDelegateId] = useState('');
+  const [startsOn, setStartsOn] = useState('');
+  const [endsOn, setEndsOn] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchDelegations();
+    Promise.all([api.get('/users'), api.get('/auth/me')])
+      .then(([usersRes, meRes]) => {
+        setCurrentUser(meRes.data.data);
+        setUsers(usersRes.data.data.filter((user: User) => user.id !== meRes.data.data.id));
+      })
+      .catch((error) => console.error('Failed to fetch users:', error));
+  }, []);
+
+  const fetchDelegations = async () => {
+    try {
+      const response = await api.get('/delegations');
+      setDelegations(response.data.data);
+    } catch (error) {
+      console.error('Failed to fetch delegations:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      await api.post('/delegations', {
+        delegate_id: Number(delegateId),
+        starts_on: startsOn,
+        ends_on: endsOn,
+        note: note || undefined,
+      });
+      setDelegateId('');
+      setStartsOn('');
+      setEndsOn('');
+      setNote('');
+      fetchDelegations();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delegate approvals'));
+    }
+  };
+
+  const handleRevoke = async (delegation: Delegation) => {
+    if (!confirm(`Revoke ${delegation.delegate_name}'s approval rights for ${delegation.delegator_name}?`)) return;
+
+    try {
+      await api.delete(`/delegations/${delegation.id}`);
+      fetchDelegations();
+    } catch (err) {
+      alert(getErrorMessage(err, 'Failed to revoke delegation'));
+    }
+  };
+
+  const today = new Date().toISOString().split('T')[0];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <ManagerHeader />
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">Delegation</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            While you are away, a delegate can approve or reject the requests waiting on you; each decision records
+            both of you
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            {loading ? (
+              <div className="text-center py-12">
+                <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                <p className="mt-2 text-gray-600">Loading delegations...</p>
+              </div>
+            ) : (
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Approvals Of
+                      </th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Delegated To
+                      </th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Dates
+                      </th>
+                      <th className="px-6 py-4 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {delegations.length === 0 ? (
+                      <tr>
+                        <td colSpan={4} className="px-6 py-8 text-center text-sm text-gray-500">
+                          No current or upcoming delegations
+                        </td>
+                      </tr>
+                    ) : (
+                      delegations.map((delegation) => (
+                        <tr key={delegation.id}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                            {delegation.delegator_name}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-900">
+                            {delegation.delegate_name}
+                            {delegation.note && <div className="text-xs text-gray-500">{delegation.note}</div>}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                            {delegation.starts_on} → {delegation.ends_on}
+                            {delegation.starts_on <= today && (
+                              <span className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                                active
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                            {(delegation.delegator_id === currentUser?.id || currentUser?.is_super_admin) && (
+                              <button
+                                onClick={() => handleRevoke(delegation)}
+                                className="text-red-600 hover:text-red-900 transition"
+                              >
+                                Revoke
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* Delegation Form */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 h-fit">
+            <h3 className="text-lg font-bold text-gray-900 mb-4">Delegate My Approvals</h3>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Delegate</label>
+                <select
+                  value={delegateId}
+                  onChange={(e) => setDelegateId(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                >
+                  <option value="">Select a user</option>
+                  {users.map((user) => (
+                    <option key={user.id} value={user.id}>{user.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex gap-3">
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+                  <input
+                    type="date"
+                    value={startsOn}
+                    onChange={(e) => setStartsOn(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                </div>
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+                  <input
+                    type="date"
+                    value={endsOn}
+                    min={startsOn || today}
+                    onChange={(e) => setEndsOn(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Note</label>
+                <input
+                  type="text"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="e.g. On annual leave"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition"
+              >
+                Delegate
+              </button>
+            </form>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,368 @@
+import { useState, useEffect, useCallback } from 'react';
+import api, { getErrorMessage } from '../api/axios';
+import ManagerHeader from '../components/ManagerHeader';
+import type { Holiday } from '../types';
+
+export default function ManagerHolidays() {
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [countryFilter, setCountryFilter] = useState('GR');
+  const [yearFilter, setYearFilter] = useState(String(new Date().getFullYear()));
+  const [editingHoliday, setEditingHoliday] = useState<Holiday | null>(null);
+  const [name, setName] = useState('');
+  const [holidayDate, setHolidayDate] = useState('');
+  const [countryCode, setCountryCode] = useState('GR');
+  const [region, setRegion] = useState('');
+  const [isRecurring, setIsRecurring] = useState(false);
+  const [error, setError] = useState('');
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importCountry, setImportCountry] = useState('GR');
+  const [importRegion, setImportRegion] = useState('');
+  const [importMessage, setImportMessage] = useState('');
+
+  const fetchHolidays = useCallback(async () => {
+    try {
+      const params = new URLSearchParams();
+      if (countryFilter) params.append('country', countryFilter);
+      if (yearFilter) params.append('year', yearFilter);
+
+      const url = params.toString() ? `/holidays?${params.toString()}` : '/holidays';
+      const response = await api.get(url);
+      setHolidays(response.data.data);
+    } catch (error) {
+      console.error('Failed to fetch holidays:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [countryFilter, yearFilter]);
+
+  useEffect(() => {
+    fetchHolidays();
+  }, [fetchHolidays]);
+
+  const resetForm = () => {
+    setEditingHoliday(null);
+    setName('');
+    setHolidayDate('');
+    setCountryCode('GR');
+    setRegion('');
+    setIsRecurring(false);
+    setError('');
+  };
+
+  const openEdit = (holiday: Holiday) => {
+    setEditingHoliday(holiday);
+    setName(holiday.name);
+    setHolidayDate(holiday.holiday_date);
+    setCountryCode(holiday.country_code);
+    setRegion(holiday.region || '');
+    setIsRecurring(holiday.is_recurring);
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const data = {
+      name,
+      holiday_date: holidayDate,
+      country_code: countryCode,
+      region: region || undefined,
+      is_recurring: isRecurring,
+    };
+
+    try {
+      if (editingHoliday) {
+        await api.put(`/holidays/${editingHoliday.id}`, data);
+      } else {
+        await api.post('/holidays', data);
+      }
+      resetForm();
+      fetchHolidays();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save holiday'));
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!confirm('Are you sure you want to delete this holiday?')) return;
+
+    try {
+      await api.delete(`/holidays/${id}`);
+      fetchHolidays();
+    } catch (err) {
+      alert(getErrorMessage(err, 'Failed to delete holiday'));
+    }
+  };
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!importFile) return;
+    const form = e.currentTarget as HTMLFormElement;
+    setImportMessage('');
+
+    try {
+      const content = await importFile.text();
+      const response = await api.post('/holidays/import', {
+        content,
+        country_code: importCountry,
+        region: importRegion || undefined,
+      });
+      setImportMessage(response.data.message);
+      setImportFile(null);
+      form.reset();
+      fetchHolidays();
+    } catch (err) {
+      setImportMessage(getErrorMessage(err, 'Failed to import calendar'));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <ManagerHeader />
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">Public Holidays</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            Holidays are excluded from vacation day counts for employees in the matching country and region
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            {/* Filters */}
+            <div className="mb-4 flex gap-4">
+              <input
+                type="text"
+                placeholder="Country (e.g. GR)"
+                value={countryFilter}
+                onChange={(e) => setCountryFilter(e.target.value.toUpperCase())}
+                maxLength={2}
+                className="w-40 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <input
+                type="number"
+                placeholder="Year"
+                value={yearFilter}
+                onChange={(e) => setYearFilter(e.target.value)}
+                className="w-32 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={fetchHolidays}
+                className="px-6 py-2 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition"
+              >
+                Filter
+              </button>
+            </div>
+
+            {loading ? (
+              <div className="text-center py-12">
+                <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                <p className="mt-2 text-gray-600">Loading holidays...</p>
+              </div>
+            ) : holidays.length === 0 ? (
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
+                <h3 className="text-sm font-medium text-gray-900">No holidays found</h3>
+                <p className="mt-1 text-sm text-gray-500">Add a holiday or import an iCalendar file.</p>
+              </div>
+            ) : (
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Date
+                      </th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Name
+                      </th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Location
+                      </th>
+                      <th className="px-6 py-4 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {holidays.map((holiday) => (
+                      <tr key={holiday.id} className="hover:bg-gray-50 transition">
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm text-gray-900">
+                            {holiday.is_recurring ? holiday.holiday_date.slice(5) : holiday.holiday_date}
+                          </div>
+                          {holiday.is_recurring && (
+                            <div className="text-xs text-blue-600 mt-1">Every year</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4">
+                          <div className="text-sm font-medium text-gray-900">{holiday.name}</div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm text-gray-600">
+                            {holiday.country_code}
+                            {holiday.region && ` / ${holiday.region}`}
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                          <button
+                            onClick={() => openEdit(holiday)}
+                            className="text-blue-600 hover:text-blue-900 mr-4 transition"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleDelete(holiday.id)}
+                            className="text-red-600 hover:text-red-900 transition"
+                          >
+                            Delete
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-6">
+            {/* Holiday Form */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-bold text-gray-900 mb-4">
+                {editingHoliday ? 'Edit Holiday' : 'Add Holiday'}
+              </h3>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Date</label>
+                  <input
+                    type="date"
+                    value={holidayDate}
+                    onChange={(e) => setHolidayDate(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                </div>
+                <div className="flex gap-3">
+                  <div className="w-24">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Country</label>
+                    <input
+                      type="text"
+                      value={countryCode}
+                      onChange={(e) => setCountryCode(e.target.value.toUpperCase())}
+                      maxLength={2}
+                      pattern="[A-Za-z]{2}"
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      required
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Region <span className="text-gray-500 font-normal">(optional)</span>
+                    </label>
+                    <input
+                      type="text"
+                      value={region}
+                      onChange={(e) => setRegion(e.target.value)}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={isRecurring}
+                    onChange={(e) => setIsRecurring(e.target.checked)}
+                  />
+                  Repeats every year on this date
+                </label>
+
+                {error && (
+                  <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                    {error}
+                  </div>
+                )}
+
+                <div className="flex gap-3">
+                  <button
+                    type="submit"
+                    className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition"
+                  >
+                    {editingHoliday ? 'Update' : 'Add'}
+                  </button>
+                  {editingHoliday && (
+                    <button
+                      type="button"
+                      onClick={resetForm}
+                      className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              </form>
+            </div>
+
+            {/* iCalendar Import */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-bold text-gray-900 mb-4">Import from iCalendar</h3>
+              <form onSubmit={handleImport} className="space-y-4">
+                <input
+                  type="file"
+                  accept=".ics,text/calendar"
+                  onChange={(e) => setImportFile(e.target.files?.[0] || null)}
+                  className="w-full text-sm text-gray-700"
+                  required
+                />
+                <div className="flex gap-3">
+                  <input
+                    type="text"
+                    placeholder="Country"
+                    value={importCountry}
+                    onChange={(e) => setImportCountry(e.target.value.toUpperCase())}
+                    maxLength={2}
+                    pattern="[A-Za-z]{2}"
+                    className="w-24 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                  <input
+                    type="text"
+                    placeholder="Region (optional)"
+                    value={importRegion}
+                    onChange={(e) => setImportRegion(e.target.value)}
+                    className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                {importMessage && (
+                  <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded-lg text-sm">
+                    {importMessage}
+                  </div>
+                )}
+                <button
+                  type="submit"
+                  disabled={!importFile}
+                  className="w-full px-4 py-2 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition"
+                >
+                  Import
+                </button>
+              </form>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
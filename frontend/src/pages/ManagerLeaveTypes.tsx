@@ -0,0 +1,343 @@
+import { useState, useEffect } from 'react';
+import api, { getErrorMessage } from '../api/axios';
+import ManagerHeader from '../components/ManagerHeader';
+import type { LeaveType } from '../types';
+
+type LeaveTypeFlag = 'is_paid' | 'tracks_balance' | 'requires_approval' | 'requires_attachment' | 'is_active';
+
+const FLAG_LABELS: Array<[LeaveTypeFlag, string]> = [
+  ['is_paid', 'Paid'],
+  ['tracks_balance', 'Balance tracked'],
+  ['requires_approval', 'Requires approval'],
+  ['requires_attachment', 'Requires attachment'],
+  ['is_active', 'Active'],
+];
+
+export default function ManagerLeaveTypes() {
+  const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [defaultDays, setDefaultDays] = useState('0');
+  const [isPaid, setIsPaid] = useState(true);
+  const [tracksBalance, setTracksBalance] = useState(true);
+  const [requiresApproval, setRequiresApproval] = useState(true);
+  const [requiresAttachment, setRequiresAttachment] = useState(false);
+  const [carryOverMax, setCarryOverMax] = useState('0');
+  const [carryOverExpiryMonths, setCarryOverExpiryMonths] = useState('');
+  const [payoutUnused, setPayoutUnused] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchLeaveTypes();
+  }, []);
+
+  const fetchLeaveTypes = async () => {
+    try {
+      const response = await api.get('/leave-types');
+      setLeaveTypes(response.data.data);
+    } catch (error) {
+      console.error('Failed to fetch leave types:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setCode('');
+    setName('');
+    setDefaultDays('0');
+    setIsPaid(true);
+    setTracksBalance(true);
+    setRequiresApproval(true);
+    setRequiresAttachment(false);
+    setCarryOverMax('0');
+    setCarryOverExpiryMonths('');
+    setPayoutUnused(false);
+    setError('');
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      await api.post('/leave-types', {
+        code,
+        name,
+        default_days: Number(defaultDays),
+        is_paid: isPaid,
+        tracks_balance: tracksBalance,
+        requires_approval: requiresApproval,
+        requires_attachment: requiresAttachment,
+        carry_over_max: tracksBalance ? Number(carryOverMax) : 0,
+        carry_over_expiry_months: carryOverExpiryMonths === '' ? null : Number(carryOverExpiryMonths),
+        payout_unused: payoutUnused,
+      });
+      resetForm();
+      fetchLeaveTypes();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create leave type'));
+    }
+  };
+
+  const handleUpdate = async (leaveType: LeaveType, data: Partial<LeaveType>) => {
+    try {
+      await api.put(`/leave-types/${leaveType.id}`, data);
+      fetchLeaveTypes();
+    } catch (err) {
+      alert(getErrorMessage(err, 'Failed to update leave type'));
+    }
+  };
+
+  const handleDefaultDaysChange = (leaveType: LeaveType, value: string) => {
+    const days = Number(value);
+    if (value === '' || isNaN(days) || days === leaveType.default_days) return;
+    handleUpdate(leaveType, { default_days: days });
+  };
+
+  const handleCarryOverMaxChange = (leaveType: LeaveType, value: string) => {
+    const days = Number(value);
+    if (value === '' || isNaN(days) || days === leaveType.carry_over_max) return;
+    handleUpdate(leaveType, { carry_over_max: days });
+  };
+
+  // An empty expiry means carried days never expire
+  const handleExpiryMonthsChange = (leaveType: LeaveType, value: string) => {
+    const months = value === '' ? null : Number(value);
+    if (months === leaveType.carry_over_expiry_months || (months !== null && isNaN(months))) return;
+    handleUpdate(leaveType, { carry_over_expiry_months: months });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <ManagerHeader />
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">Leave Types</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            Configure which kinds of leave employees can request and how each one is handled
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            {loading ? (
+              <div className="text-center py-12">
+                <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                <p className="mt-2 text-gray-600">Loading leave types...</p>
+              </div>
+            ) : (
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Leave Type
+                      </th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Default Days
+                      </th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Carry-over
+                      </th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Settings
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {leaveTypes.map((leaveType) => (
+                      <tr key={leaveType.id} className={leaveType.is_active ? '' : 'bg-gray-50 opacity-60'}>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm font-medium text-gray-900">{leaveType.name}</div>
+                          <div className="text-xs text-gray-500 mt-1">{leaveType.code}</div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.5"
+                            defaultValue={leaveType.default_days}
+                            onBlur={(e) => handleDefaultDaysChange(leaveType, e.target.value)}
+                            disabled={!leaveType.tracks_balance}
+                            className="w-24 px-3 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                          />
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          {leaveType.tracks_balance ? (
+                            <div className="space-y-2 text-sm text-gray-700">
+                              <label className="flex items-center gap-2">
+                                Up to
+                                <input
+                                  type="number"
+                                  min="0"
+                                  step="0.5"
+                                  defaultValue={leaveType.carry_over_max}
+                                  onBlur={(e) => handleCarryOverMaxChange(leaveType, e.target.value)}
+                                  className="w-20 px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                                days
+                              </label>
+                              <label className="flex items-center gap-2">
+                                Expire after
+                                <input
+                                  type="number"
+                                  min="1"
+                                  max="12"
+                                  placeholder="never"
+                                  defaultValue={leaveType.carry_over_expiry_months ?? ''}
+                                  onBlur={(e) => handleExpiryMonthsChange(leaveType, e.target.value)}
+                                  className="w-20 px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                                months
+                              </label>
+                              <label className="flex items-center gap-2">
+                                <input
+                                  type="checkbox"
+                                  checked={leaveType.payout_unused}
+                                  onChange={(e) => handleUpdate(leaveType, { payout_unused: e.target.checked })}
+                                />
+                                Pay out the rest
+                              </label>
+                            </div>
+                          ) : (
+                            <span className="text-sm text-gray-400">—</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4">
+                          <div className="flex flex-wrap gap-x-4 gap-y-2">
+                            {FLAG_LABELS.map(([flag, label]) => (
+                              <label key={flag} className="flex items-center gap-2 text-sm text-gray-700">
+                                <input
+                                  type="checkbox"
+                                  checked={leaveType[flag]}
+                                  onChange={(e) => handleUpdate(leaveType, { [flag]: e.target.checked })}
+                                />
+                                {label}
+                              </label>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* Leave Type Form */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 h-fit">
+            <h3 className="text-lg font-bold text-gray-900 mb-4">Add Leave Type</h3>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                />
+              </div>
+              <div className="flex gap-3">
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Code</label>
+                  <input
+                    type="text"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value.toLowerCase())}
+                    pattern="[a-z0-9_]+"
+                    placeholder="e.g. study"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                </div>
+                <div className="w-28">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Days</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={defaultDays}
+                    onChange={(e) => setDefaultDays(e.target.value)}
+                    disabled={!tracksBalance}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={isPaid} onChange={(e) => setIsPaid(e.target.checked)} />
+                  Paid
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={tracksBalance} onChange={(e) => setTracksBalance(e.target.checked)} />
+                  Balance tracked
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={requiresApproval} onChange={(e) => setRequiresApproval(e.target.checked)} />
+                  Requires approval
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={requiresAttachment} onChange={(e) => setRequiresAttachment(e.target.checked)} />
+                  Requires attachment
+                </label>
+              </div>
+              {tracksBalance && (
+                <div className="space-y-2 pt-2 border-t border-gray-100">
+                  <p className="text-sm font-medium text-gray-700">Year-end carry-over</p>
+                  <div className="flex gap-3">
+                    <div className="flex-1">
+                      <label className="block text-xs text-gray-500 mb-1">Max days</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        value={carryOverMax}
+                        onChange={(e) => setCarryOverMax(e.target.value)}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div className="flex-1">
+                      <label className="block text-xs text-gray-500 mb-1">Expires after (months)</label>
+                      <input
+                        type="number"
+                        min="1"
+                        max="12"
+                        placeholder="never"
+                        value={carryOverExpiryMonths}
+                        onChange={(e) => setCarryOverExpiryMonths(e.target.value)}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  </div>
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input type="checkbox" checked={payoutUnused} onChange={(e) => setPayoutUnused(e.target.checked)} />
+                    Pay out days above the cap
+                  </label>
+                </div>
+              )}
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition"
+              >
+                Add
+              </button>
+            </form>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,12 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import api from '../api/axios';
-import type { VacationRequest } from '../types';
+import api, { getErrorMessage } from '../api/axios';
+import CalendarSubscribe from '../components/CalendarSubscribe';
+import ExportButtons from '../components/ExportButtons';
+import ManagerHeader from '../components/ManagerHeader';
+import RequestAttachments from '../components/RequestAttachments';
+import RequestComments from '../components/RequestComments';
+import { formatDays, formatRequestDates } from '../utils/format';
+import type { BulkReviewResult, CoverageCheck, RequestApprovalStep, RequestRevision, VacationRequest } from '../types';
 
 export default function ManagerRequests() {
   const [requests, setRequests] = useState<VacationRequest[]>([]);
@@ -10,9 +15,13 @@ export default function ManagerRequests() {
   const [selectedRequest, setSelectedRequest] = useState<VacationRequest | null>(null);
   const [actionType, setActionType] = useState<'approve' | 'reject'>('approve');
   const [managerNotes, setManagerNotes] = useState('');
+  const [coverage, setCoverage] = useState<CoverageCheck | null>(null);
+  const [overrideNote, setOverrideNote] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('');
   const [searchTerm, setSearchTerm] = useState('');
-  const navigate = useNavigate();
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [bulkAction, setBulkAction] = useState<'approve' | 'reject' | null>(null);
+  const [historyRequest, setHistoryRequest] = useState<VacationRequest | null>(null);
 
   useEffect(() => {
     fetchRequests();
@@ -38,7 +47,15 @@ export default function ManagerRequests() {
     setSelectedRequest(request);
     setActionType(action);
     setManagerNotes('');
+    setCoverage(null);
+    setOverrideNote('');
     setShowNotesModal(true);
+
+    if (action === 'approve') {
+      api.get(`/requests/${request.id}/coverage`)
+        .then((response) => setCoverage(response.data.data))
+        .catch((error) => console.error('Failed to fetch team coverage:', error));
+    }
   };
 
   const handleSubmitAction = async () => {
@@ -47,66 +64,53 @@ export default function ManagerRequests() {
     try {
       const endpoint = actionType === 'approve' ? 'approve' : 'reject';
       await api.put(`/requests/${selectedRequest.id}/${endpoint}`, {
-        manager_notes: managerNotes || undefined
+        manager_notes: managerNotes || undefined,
+        override_note: actionType === 'approve' && coverage?.breaches_minimum ? overrideNote : undefined
       });
       setShowNotesModal(false);
       setSelectedRequest(null);
       setManagerNotes('');
+      setOverrideNote('');
       fetchRequests();
-    } catch (error) {
-      alert(`Failed to ${actionType} request`);
+    } catch (err) {
+      alert(getErrorMessage(err, `Failed to ${actionType} request`));
+    }
+  };
+
+  const handleCancellation = async (request: VacationRequest, decision: 'confirm' | 'decline') => {
+    const question = decision === 'confirm'
+      ? `Cancel ${request.user_name}'s leave and refund ${formatDays(request.days_requested)}?`
+      : `Decline ${request.user_name}'s cancellation request? The leave stays approved.`;
+    if (!confirm(question)) return;
+
+    try {
+      await api.put(`/requests/${request.id}/cancel/${decision}`);
+      fetchRequests();
+    } catch (err) {
+      alert(getErrorMessage(err, `Failed to ${decision} cancellation`));
     }
   };
 
-  const handleLogout = () => {
-    localStorage.clear();
-    navigate('/');
+  const toggleSelected = (id: number) => {
+    setSelectedIds((ids) => (ids.includes(id) ? ids.filter((selected) => selected !== id) : [...ids, id]));
+  };
+
+  const closeBulkReview = (reviewed: boolean) => {
+    setBulkAction(null);
+    if (reviewed) {
+      setSelectedIds([]);
+      fetchRequests();
+    }
   };
 
   const pendingRequests = requests.filter(r => r.status === 'pending');
+  const selectedRequests = pendingRequests.filter((request) => selectedIds.includes(request.id));
+  const cancellationRequests = requests.filter(r => r.status === 'approved' && r.cancellation_requested_at);
   const processedRequests = requests.filter(r => r.status !== 'pending');
 
   return (
     <div className="min-h-screen bg-gray-50">
-      {/* Header */}
-      <div className="bg-white shadow-sm border-b border-gray-200">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <div className="flex justify-between items-center h-16">
-            <div className="flex items-center gap-6">
-              <h1 className="text-2xl font-bold text-gray-900">Vacation Portal</h1>
-              <nav className="flex gap-4">
-                <button
-                  onClick={() => navigate('/manager/users')}
-                  className="px-3 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
-                >
-                  Users
-                </button>
-                <button
-                  onClick={() => navigate('/manager/requests')}
-                  className="px-3 py-2 text-sm bg-blue-100 text-blue-800 font-medium rounded-lg"
-                >
-                  Vacation Requests
-                </button>
-                <button
-                  onClick={() => navigate('/manager/analytics')}
-                  className="px-3 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
-                >
-                  Analytics
-                </button>
-              </nav>
-              <span className="px-3 py-1 bg-blue-100 text-blue-800 text-sm font-medium rounded-full">
-                Manager
-              </span>
-            </div>
-            <button
-              onClick={handleLogout}
-              className="px-4 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
-            >
-              Sign Out
-            </button>
-          </div>
-        </div>
-      </div>
+      <ManagerHeader />
 
       {/* Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -121,6 +125,7 @@ export default function ManagerRequests() {
             <option value="pending">Pending</option>
             <option value="approved">Approved</option>
             <option value="rejected">Rejected</option>
+            <option value="cancelled">Cancelled</option>
           </select>
           <input
             type="text"
@@ -136,15 +141,26 @@ export default function ManagerRequests() {
           >
             Search
           </button>
+          <ExportButtons
+            path="/requests/export"
+            fileName="vacation-requests"
+            params={{
+              ...(statusFilter && { status: statusFilter }),
+              ...(searchTerm && { search: searchTerm }),
+            }}
+          />
         </div>
 
         {/* Pending Requests Section */}
         <div className="mb-8">
-          <div className="mb-6">
-            <h2 className="text-2xl font-bold text-gray-900">Pending Requests</h2>
-            <p className="mt-1 text-sm text-gray-600">
-              Review and approve or reject vacation requests
-            </p>
+          <div className="mb-6 flex justify-between items-center">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Pending Requests</h2>
+              <p className="mt-1 text-sm text-gray-600">
+                Review and approve or reject vacation requests
+              </p>
+            </div>
+            <CalendarSubscribe canPickTeam />
           </div>
 
           {loading ? (
@@ -162,9 +178,42 @@ export default function ManagerRequests() {
             </div>
           ) : (
             <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              {selectedRequests.length > 0 && (
+                <div className="px-6 py-3 bg-blue-50 border-b border-blue-100 flex items-center gap-3">
+                  <span className="text-sm font-medium text-blue-900 flex-1">
+                    {selectedRequests.length} selected
+                  </span>
+                  <button
+                    onClick={() => setBulkAction('approve')}
+                    className="px-3 py-1.5 bg-green-600 text-white rounded-lg text-sm font-medium hover:bg-green-700 transition"
+                  >
+                    ✓ Approve Selected
+                  </button>
+                  <button
+                    onClick={() => setBulkAction('reject')}
+                    className="px-3 py-1.5 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 transition"
+                  >
+                    ✗ Reject Selected
+                  </button>
+                  <button
+                    onClick={() => setSelectedIds([])}
+                    className="text-sm text-gray-600 hover:text-gray-900 transition"
+                  >
+                    Clear
+                  </button>
+                </div>
+              )}
               <table className="min-w-full divide-y divide-gray-200">
                 <thead className="bg-gray-50">
                   <tr>
+                    <th className="pl-6 py-4 text-left">
+                      <input
+                        type="checkbox"
+                        aria-label="Select all pending requests"
+                        checked={selectedRequests.length === pendingRequests.length}
+                        onChange={(e) => setSelectedIds(e.target.checked ? pendingRequests.map((request) => request.id) : [])}
+                      />
+                    </th>
                     <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
                       Employee
                     </th>
@@ -177,6 +226,9 @@ export default function ManagerRequests() {
                     <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
                       Reason
                     </th>
+                    <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                      Approval
+                    </th>
                     <th className="px-6 py-4 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">
                       Actions
                     </th>
@@ -185,6 +237,14 @@ export default function ManagerRequests() {
                 <tbody className="bg-white divide-y divide-gray-200">
                   {pendingRequests.map((request) => (
                     <tr key={request.id} className="hover:bg-gray-50 transition">
+                      <td className="pl-6 py-4">
+                        <input
+                          type="checkbox"
+                          aria-label={`Select ${request.user_name}'s request`}
+                          checked={selectedIds.includes(request.id)}
+                          onChange={() => toggleSelected(request.id)}
+                        />
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="text-sm font-medium text-gray-900">{request.user_name}</div>
                         <div className="text-sm text-gray-500">{request.user_email}</div>
@@ -200,18 +260,45 @@ export default function ManagerRequests() {
                       </td>
                       <td className="px-6 py-4">
                         <div className="text-sm text-gray-900">
-                          {request.start_date} → {request.end_date}
+                          {formatRequestDates(request)}
                         </div>
                         <div className="text-xs text-gray-500 mt-1">
-                          {Math.ceil((new Date(request.end_date).getTime() - new Date(request.start_date).getTime()) / (1000 * 60 * 60 * 24)) + 1} days
+                          {formatDays(request.days_requested)}
+                          {request.leave_type_name && (
+                            <span className="ml-2 px-2 py-0.5 bg-blue-50 text-blue-700 rounded-full">
+                              {request.leave_type_name}
+                            </span>
+                          )}
                         </div>
+                        {(request.revision_count ?? 0) > 1 && (
+                          <button
+                            onClick={() => setHistoryRequest(request)}
+                            className="mt-1 px-2 py-0.5 bg-amber-100 text-amber-800 text-xs font-medium rounded-full hover:bg-amber-200 transition"
+                          >
+                            Modified since submission
+                          </button>
+                        )}
                       </td>
                       <td className="px-6 py-4">
                         <div className="text-sm text-gray-600 max-w-xs truncate">
                           {request.reason || <span className="text-gray-400 italic">No reason provided</span>}
                         </div>
                       </td>
+                      <td className="px-6 py-4">
+                        <ApprovalProgress steps={request.approval_steps ?? []} />
+                        {request.applied_rule_name && (
+                          <div className="text-xs text-gray-500 mt-1">Routed by the {request.applied_rule_name} rule</div>
+                        )}
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <span className="mr-3">
+                          <RequestComments request={request} />
+                        </span>
+                        {(request.attachment_count ?? 0) > 0 && (
+                          <span className="mr-3">
+                            <RequestAttachments request={request} isOwner={false} />
+                          </span>
+                        )}
                         <button
                           onClick={() => openNotesModal(request, 'approve')}
                           className="inline-flex items-center px-3 py-1.5 bg-green-600 text-white rounded-lg hover:bg-green-700 transition mr-2"
@@ -233,6 +320,81 @@ export default function ManagerRequests() {
           )}
         </div>
 
+        {/* Cancellation Requests Section */}
+        {cancellationRequests.length > 0 && (
+          <div className="mb-8">
+            <div className="mb-6">
+              <h2 className="text-xl font-bold text-gray-900">Cancellation Requests</h2>
+              <p className="mt-1 text-sm text-gray-600">
+                Approved leave employees no longer need; confirming refunds the days
+              </p>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                      Employee
+                    </th>
+                    <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                      Dates
+                    </th>
+                    <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                      Reason for Cancelling
+                    </th>
+                    <th className="px-6 py-4 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {cancellationRequests.map((request) => (
+                    <tr key={request.id} className="hover:bg-gray-50 transition">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{request.user_name}</div>
+                        <div className="text-sm text-gray-500">{request.user_email}</div>
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="text-sm text-gray-900">
+                          {formatRequestDates(request)}
+                        </div>
+                        <div className="text-xs text-gray-500 mt-1">
+                          {formatDays(request.days_requested)}
+                          {request.leave_type_name && (
+                            <span className="ml-2 px-2 py-0.5 bg-blue-50 text-blue-700 rounded-full">
+                              {request.leave_type_name}
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="text-sm text-gray-600 max-w-xs truncate">
+                          {request.cancellation_reason || <span className="text-gray-400 italic">No reason provided</span>}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <button
+                          onClick={() => handleCancellation(request, 'confirm')}
+                          className="inline-flex items-center px-3 py-1.5 bg-green-600 text-white rounded-lg hover:bg-green-700 transition mr-2"
+                        >
+                          ✓ Cancel Leave
+                        </button>
+                        <button
+                          onClick={() => handleCancellation(request, 'decline')}
+                          className="inline-flex items-center px-3 py-1.5 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition"
+                        >
+                          Keep
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
         {/* Processed Requests Section */}
         {processedRequests.length > 0 && (
           <div>
@@ -269,8 +431,11 @@ export default function ManagerRequests() {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="text-sm text-gray-900">
-                          {request.start_date} → {request.end_date}
+                          {formatRequestDates(request)}
                         </div>
+                        {request.leave_type_name && (
+                          <div className="text-xs text-gray-500 mt-1">{request.leave_type_name}</div>
+                        )}
                       </td>
                       <td className="px-6 py-4">
                         <div className="text-sm text-gray-600 max-w-xs truncate">
@@ -279,10 +444,36 @@ export default function ManagerRequests() {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span className={`px-3 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                          request.status === 'approved' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                          request.status === 'approved' ? 'bg-green-100 text-green-800' :
+                          request.status === 'cancelled' ? 'bg-gray-100 text-gray-600' :
+                          'bg-red-100 text-red-800'
                         }`}>
                           {request.status}
                         </span>
+                        {!request.approved_by_name && request.status === 'approved' && request.applied_rule_name && (
+                          <div className="text-xs text-gray-500 mt-1">by the {request.applied_rule_name} rule</div>
+                        )}
+                        {request.approved_by_name && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            by {request.approved_by_name}
+                            {request.approved_on_behalf_of_name && ` on behalf of ${request.approved_on_behalf_of_name}`}
+                          </div>
+                        )}
+                        {request.staffing_override_note && (
+                          <div className="text-xs text-amber-700 mt-1" title={request.staffing_override_note}>
+                            Understaffing overridden
+                          </div>
+                        )}
+                        {(request.comment_count ?? 0) > 0 && (
+                          <div className="mt-1">
+                            <RequestComments request={request} />
+                          </div>
+                        )}
+                        {(request.attachment_count ?? 0) > 0 && (
+                          <div className="mt-1">
+                            <RequestAttachments request={request} isOwner={false} />
+                          </div>
+                        )}
                       </td>
                     </tr>
                   ))}
@@ -304,12 +495,35 @@ export default function ManagerRequests() {
             <div className="mb-4 p-4 bg-gray-50 rounded-lg">
               <div className="text-sm text-gray-600 mb-1">Employee</div>
               <div className="font-medium text-gray-900">{selectedRequest.user_name}</div>
+              {selectedRequest.leave_type_name && (
+                <>
+                  <div className="text-sm text-gray-600 mt-2">Leave Type</div>
+                  <div className="font-medium text-gray-900">{selectedRequest.leave_type_name}</div>
+                </>
+              )}
               <div className="text-sm text-gray-600 mt-2">Dates</div>
               <div className="font-medium text-gray-900">
-                {selectedRequest.start_date} → {selectedRequest.end_date}
+                {formatRequestDates(selectedRequest)}
               </div>
             </div>
 
+            {actionType === 'approve' && coverage && <CoverageSummary coverage={coverage} />}
+
+            {actionType === 'approve' && coverage?.breaches_minimum && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Override note (required)
+                </label>
+                <textarea
+                  value={overrideNote}
+                  onChange={(e) => setOverrideNote(e.target.value)}
+                  rows={2}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition resize-none"
+                  placeholder="Why this leave can be approved despite the team being understaffed..."
+                />
+              </div>
+            )}
+
             <div className="mb-4">
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Notes (optional)
@@ -326,7 +540,8 @@ export default function ManagerRequests() {
             <div className="flex gap-3">
               <button
                 onClick={handleSubmitAction}
-                className={`flex-1 px-4 py-2 rounded-lg font-semibold text-white transition ${
+                disabled={actionType === 'approve' && coverage?.breaches_minimum && overrideNote.trim() === ''}
+                className={`flex-1 px-4 py-2 rounded-lg font-semibold text-white transition disabled:opacity-50 disabled:cursor-not-allowed ${
                   actionType === 'approve'
                     ? 'bg-green-600 hover:bg-green-700'
                     : 'bg-red-600 hover:bg-red-700'
@@ -339,6 +554,7 @@ export default function ManagerRequests() {
                   setShowNotesModal(false);
                   setSelectedRequest(null);
                   setManagerNotes('');
+                  setOverrideNote('');
                 }}
                 className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition"
               >
@@ -348,6 +564,293 @@ export default function ManagerRequests() {
           </div>
         </div>
       )}
+
+      {bulkAction && (
+        <BulkReviewModal action={bulkAction} requests={selectedRequests} onClose={closeBulkReview} />
+      )}
+
+      {historyRequest && (
+        <RequestHistoryModal request={historyRequest} onClose={() => setHistoryRequest(null)} />
+      )}
+    </div>
+  );
+}
+
+// Which step a pending request is waiting on and who has already signed off
+function ApprovalProgress({ steps }: { steps: RequestApprovalStep[] }) {
+  const current = steps.find((step) => !step.approved_at);
+  if (!current) {
+    return <span className="text-sm text-gray-500">Line manager</span>;
+  }
+
+  return (
+    <div className="text-sm space-y-1">
+      <div className="text-gray-900">
+        {steps.length > 1 && <span className="text-gray-500">Step {current.step_order} of {steps.length}: </span>}
+        {current.approver_name ?? 'Super-admin'}
+        {current.approver_kind === 'line_manager' && <span className="text-gray-500"> (line manager)</span>}
+      </div>
+      {steps.filter((step) => step.approved_at).map((step) => (
+        <div key={step.step_order} className="text-xs text-green-700">
+          ✓ {step.approved_by_name ?? 'Signed off'}
+          {step.on_behalf_of_name && ` on behalf of ${step.on_behalf_of_name}`}, {new Date(step.approved_at as string).toLocaleDateString()}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Teammates already off during a request and whether approving it leaves the team understaffed
+function CoverageSummary({ coverage }: { coverage: CoverageCheck }) {
+  if (coverage.team_id === null) return null;
+
+  return (
+    <div className={`mb-4 p-4 rounded-lg border text-sm ${
+      coverage.breaches_minimum ? 'bg-red-50 border-red-200 text-red-700' : 'bg-gray-50 border-gray-200 text-gray-700'
+    }`}>
+      {coverage.breaches_minimum && (
+        <div className="font-semibold mb-1">
+          Only {coverage.lowest_staffing} of {coverage.team_name} would be at work, below the minimum of {coverage.min_staffing}
+          {' '}({coverage.breached_dates.join(', ')})
+        </div>
+      )}
+      {coverage.absences.length === 0 ? (
+        <div>No one else in {coverage.team_name} is off at the same time</div>
+      ) : (
+        <>
+          <div>Already off in {coverage.team_name}:</div>
+          <ul className="mt-1 list-disc list-inside">
+            {coverage.absences.map((absence) => (
+              <li key={absence.request_id}>
+                {absence.user_name}, {absence.start_date} → {absence.end_date}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Approve or reject the selected requests with one note, then show what happened to each
+function BulkReviewModal({
+  action,
+  requests,
+  onClose,
+}: {
+  action: 'approve' | 'reject';
+  requests: VacationRequest[];
+  onClose: (reviewed: boolean) => void;
+}) {
+  const [managerNotes, setManagerNotes] = useState('');
+  const [overrideNote, setOverrideNote] = useState('');
+  const [results, setResults] = useState<BulkReviewResult[] | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const label = action === 'approve' ? 'Approve' : 'Reject';
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+
+    try {
+      const response = await api.post('/requests/bulk', {
+        action,
+        ids: requests.map((request) => request.id),
+        manager_notes: managerNotes || undefined,
+        override_note: action === 'approve' && overrideNote.trim() ? overrideNote : undefined,
+      });
+      setResults(response.data.data);
+    } catch (err) {
+      alert(getErrorMessage(err, `Failed to ${action} requests`));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const failures = results?.filter((result) => !result.success) ?? [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full mx-4 p-6">
+        <h3 className="text-xl font-bold text-gray-900 mb-4">
+          {label} {requests.length} {requests.length === 1 ? 'Request' : 'Requests'}
+        </h3>
+
+        {results ? (
+          <>
+            <div className="mb-4 p-4 bg-gray-50 rounded-lg text-sm text-gray-900">
+              {results.length - failures.length} of {results.length} requests {action === 'approve' ? 'approved' : 'rejected'}.
+            </div>
+            {failures.length > 0 && (
+              <div className="mb-4 max-h-64 overflow-y-auto bg-red-50 border border-red-200 rounded-lg p-4 space-y-2">
+                {failures.map((failure) => {
+                  const request = requests.find((r) => r.id === failure.id);
+                  return (
+                    <div key={failure.id} className="text-sm text-red-800">
+                      <span className="font-medium">
+                        {request ? `${request.user_name}, ${formatRequestDates(request)}` : `Request ${failure.id}`}:
+                      </span>{' '}
+                      {failure.error}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            <button
+              onClick={() => onClose(true)}
+              className="w-full px-4 py-2 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition"
+            >
+              Done
+            </button>
+          </>
+        ) : (
+          <>
+            <div className="mb-4 max-h-40 overflow-y-auto p-4 bg-gray-50 rounded-lg space-y-1">
+              {requests.map((request) => (
+                <div key={request.id} className="text-sm text-gray-900">
+                  <span className="font-medium">{request.user_name}</span>
+                  <span className="text-gray-600"> · {formatRequestDates(request)}</span>
+                </div>
+              ))}
+            </div>
+
+            {action === 'approve' && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Override note (only used for requests that would leave a team understaffed)
+                </label>
+                <textarea
+                  value={overrideNote}
+                  onChange={(e) => setOverrideNote(e.target.value)}
+                  rows={2}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition resize-none"
+                  placeholder="Leave empty to skip requests that would breach minimum staffing..."
+                />
+              </div>
+            )}
+
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Notes (optional, shared by all requests)
+              </label>
+              <textarea
+                value={managerNotes}
+                onChange={(e) => setManagerNotes(e.target.value)}
+                rows={3}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition resize-none"
+                placeholder="Add optional notes for the employees..."
+              />
+            </div>
+
+            <div className="flex gap-3">
+              <button
+                onClick={handleSubmit}
+                disabled={submitting}
+                className={`flex-1 px-4 py-2 rounded-lg font-semibold text-white transition disabled:opacity-50 disabled:cursor-not-allowed ${
+                  action === 'approve' ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'
+                }`}
+              >
+                {submitting ? 'Working...' : label}
+              </button>
+              <button
+                onClick={() => onClose(false)}
+                disabled={submitting}
+                className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition"
+              >
+                Cancel
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// The parts of a revision a reviewer compares, by label
+function revisionFields(revision: RequestRevision): Array<[string, string]> {
+  return [
+    ['Dates', formatRequestDates(revision)],
+    ['Days', formatDays(revision.days_requested)],
+    ['Leave type', revision.leave_type_name],
+    ['Reason', revision.reason || '—'],
+  ];
+}
+
+// How a request changed since it was submitted: the original and current dates, then each edit
+function RequestHistoryModal({ request, onClose }: { request: VacationRequest; onClose: () => void }) {
+  const [revisions, setRevisions] = useState<RequestRevision[] | null>(null);
+
+  useEffect(() => {
+    api.get(`/requests/${request.id}/history`)
+      .then((response) => setRevisions(response.data.data))
+      .catch((error) => {
+        console.error('Failed to fetch request history:', error);
+        setRevisions([]);
+      });
+  }, [request.id]);
+
+  const original = revisions?.[0];
+  const current = revisions?.[revisions.length - 1];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full mx-4 p-6 max-h-[90vh] flex flex-col">
+        <h3 className="text-xl font-bold text-gray-900 mb-4">
+          Changes to {request.user_name}'s Request
+        </h3>
+
+        {!revisions ? (
+          <p className="text-sm text-gray-600">Loading history...</p>
+        ) : !original || !current ? (
+          <p className="text-sm text-gray-600">No history recorded for this request.</p>
+        ) : (
+          <div className="overflow-y-auto space-y-4">
+            <div className="p-4 bg-gray-50 rounded-lg text-sm">
+              <div className="text-gray-600">Submitted as</div>
+              <div className={formatRequestDates(original) !== formatRequestDates(current) ? 'text-red-700 line-through' : 'text-gray-900'}>
+                {formatRequestDates(original)} ({formatDays(original.days_requested)})
+              </div>
+              <div className="mt-2 text-gray-600">Now</div>
+              <div className="text-green-700 font-medium">
+                {formatRequestDates(current)} ({formatDays(current.days_requested)})
+              </div>
+            </div>
+
+            {revisions.slice(1).map((revision, index) => {
+              const previous = revisionFields(revisions[index]);
+              const changes = revisionFields(revision)
+                .map(([label, value], field) => [label, previous[field][1], value])
+                .filter(([, before, after]) => before !== after);
+              return (
+                <div key={revision.id} className="border border-gray-200 rounded-lg p-4">
+                  <div className="text-xs text-gray-500 mb-2">
+                    Edited {new Date(revision.created_at).toLocaleString()}
+                  </div>
+                  {changes.length === 0 ? (
+                    <div className="text-sm text-gray-500">Saved without changes</div>
+                  ) : (
+                    changes.map(([label, before, after]) => (
+                      <div key={label} className="text-sm">
+                        <span className="text-gray-600">{label}: </span>
+                        <span className="text-red-700 line-through">{before}</span>
+                        {' → '}
+                        <span className="text-green-700">{after}</span>
+                      </div>
+                    ))
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <button
+          onClick={onClose}
+          className="mt-6 w-full px-4 py-2 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition"
+        >
+          Close
+        </button>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,213 @@
+import { useState, useEffect } from 'react';
+import api, { getErrorMessage } from '../api/axios';
+import ManagerHeader from '../components/ManagerHeader';
+import type { Team } from '../types';
+
+export default function ManagerTeams() {
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [minStaffing, setMinStaffing] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchTeams();
+  }, []);
+
+  const fetchTeams = async () => {
+    try {
+      const response = await api.get('/teams');
+      setTeams(response.data.data);
+    } catch (error) {
+      console.error('Failed to fetch teams:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      await api.post('/teams', { name, min_staffing: minStaffing === '' ? null : Number(minStaffing) });
+      setName('');
+      setMinStaffing('');
+      fetchTeams();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create team'));
+    }
+  };
+
+  const handleRename = async (team: Team, value: string) => {
+    const newName = value.trim();
+    if (newName === '' || newName === team.name) return;
+
+    try {
+      await api.put(`/teams/${team.id}`, { name: newName });
+      fetchTeams();
+    } catch (err) {
+      alert(getErrorMessage(err, 'Failed to rename team'));
+    }
+  };
+
+  const handleMinStaffing = async (team: Team, value: string) => {
+    const minimum = value.trim() === '' ? null : Number(value);
+    if (minimum === team.min_staffing || (minimum !== null && (!Number.isInteger(minimum) || minimum < 0))) return;
+
+    try {
+      await api.put(`/teams/${team.id}`, { min_staffing: minimum });
+      fetchTeams();
+    } catch (err) {
+      alert(getErrorMessage(err, 'Failed to update minimum staffing'));
+    }
+  };
+
+  const handleDelete = async (team: Team) => {
+    const members = team.member_count > 0 ? ` Its ${team.member_count} members will be left without a team.` : '';
+    if (!confirm(`Are you sure you want to delete ${team.name}?${members}`)) return;
+
+    try {
+      await api.delete(`/teams/${team.id}`);
+      fetchTeams();
+    } catch (err) {
+      alert(getErrorMessage(err, 'Failed to delete team'));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <ManagerHeader />
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">Teams</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            Group users into teams and set how many must stay at work; who approves a request is set by each user's reporting line
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            {loading ? (
+              <div className="text-center py-12">
+                <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                <p className="mt-2 text-gray-600">Loading teams...</p>
+              </div>
+            ) : (
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Team
+                      </th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Members
+                      </th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Min. Staffing
+                      </th>
+                      <th className="px-6 py-4 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {teams.length === 0 ? (
+                      <tr>
+                        <td colSpan={4} className="px-6 py-8 text-center text-sm text-gray-500">
+                          No teams yet
+                        </td>
+                      </tr>
+                    ) : (
+                      teams.map((team) => (
+                        <tr key={team.id}>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <input
+                              type="text"
+                              defaultValue={team.name}
+                              onBlur={(e) => handleRename(team, e.target.value)}
+                              className="w-64 px-3 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{team.member_count}</td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <input
+                              type="number"
+                              min="0"
+                              step="1"
+                              defaultValue={team.min_staffing ?? ''}
+                              onBlur={(e) => handleMinStaffing(team, e.target.value)}
+                              placeholder="None"
+                              className="w-24 px-3 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                            <button
+                              onClick={() => handleDelete(team)}
+                              className="text-red-600 hover:text-red-900 transition"
+                            >
+                              Delete
+                            </button>
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* Team Form */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 h-fit">
+            <h3 className="text-lg font-bold text-gray-900 mb-4">Add Team</h3>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Engineering"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Minimum Staffing</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={minStaffing}
+                  onChange={(e) => setMinStaffing(e.target.value)}
+                  placeholder="No minimum"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Approving leave that leaves fewer members at work needs an override note
+                </p>
+              </div>
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition"
+              >
+                Add
+              </button>
+            </form>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,14 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import api from '../api/axios';
-import type { User } from '../types';
+import ManagerHeader from '../components/ManagerHeader';
+import ExportButtons from '../components/ExportButtons';
+import UserImport from '../components/UserImport';
+import type { Team, User } from '../types';
 
 export default function ManagerUsers() {
   const [users, setUsers] = useState<User[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
   const [loading, setLoading] = useState(true);
   const navigate = useNavigate();
 
@@ -14,8 +18,9 @@ export default function ManagerUsers() {
 
   const fetchUsers = async () => {
     try {
-      const response = await api.get('/users');
-      setUsers(response.data.data);
+      const [usersRes, teamsRes] = await Promise.all([api.get('/users'), api.get('/teams')]);
+      setUsers(usersRes.data.data);
+      setTeams(teamsRes.data.data);
     } catch (error) {
       console.error('Failed to fetch users:', error);
     } finally {
@@ -34,52 +39,9 @@ export default function ManagerUsers() {
     }
   };
 
-  const handleLogout = () => {
-    localStorage.clear();
-    navigate('/');
-  };
-
   return (
     <div className="min-h-screen bg-gray-50">
-      {/* Header */}
-      <div className="bg-white shadow-sm border-b border-gray-200">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <div className="flex justify-between items-center h-16">
-            <div className="flex items-center gap-6">
-              <h1 className="text-2xl font-bold text-gray-900">Vacation Portal</h1>
-              <nav className="flex gap-4">
-                <button
-                  onClick={() => navigate('/manager/users')}
-                  className="px-3 py-2 text-sm bg-blue-100 text-blue-800 font-medium rounded-lg"
-                >
-                  Users
-                </button>
-                <button
-                  onClick={() => navigate('/manager/requests')}
-                  className="px-3 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
-                >
-                  Vacation Requests
-                </button>
-                <button
-                  onClick={() => navigate('/manager/analytics')}
-                  className="px-3 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
-                >
-                  Analytics
-                </button>
-              </nav>
-              <span className="px-3 py-1 bg-blue-100 text-blue-800 text-sm font-medium rounded-full">
-                Manager
-              </span>
-            </div>
-            <button
-              onClick={handleLogout}
-              className="px-4 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
-            >
-              Sign Out
-            </button>
-          </div>
-        </div>
-      </div>
+      <ManagerHeader />
 
       {/* Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -90,12 +52,16 @@ export default function ManagerUsers() {
               Manage employee and manager accounts
             </p>
           </div>
-          <button
-            onClick={() => navigate('/manager/users/create')}
-            className="px-6 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition"
-          >
-            + Create User
-          </button>
+          <div className="flex gap-3">
+            <ExportButtons path="/users/export" fileName="users" />
+            <UserImport onImported={fetchUsers} />
+            <button
+              onClick={() => navigate('/manager/users/create')}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition"
+            >
+              + Create User
+            </button>
+          </div>
         </div>
 
         {loading ? (
@@ -120,6 +86,12 @@ export default function ManagerUsers() {
                   <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
                     Role
                   </th>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                    Team
+                  </th>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                    Reports To
+                  </th>
                   <th className="px-6 py-4 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">
                     Actions
                   </th>
@@ -145,6 +117,21 @@ export default function ManagerUsers() {
                       }`}>
                         {user.role}
                       </span>
+                      {user.is_super_admin && (
+                        <span className="ml-2 px-3 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
+                          super-admin
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-600">
+                        {teams.find((team) => team.id === user.team_id)?.name ?? '—'}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-600">
+                        {users.find((manager) => manager.id === user.manager_id)?.name ?? '—'}
+                      </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                       <button
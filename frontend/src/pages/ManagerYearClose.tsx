@@ -0,0 +1,180 @@
+import { useState, useEffect, useCallback } from 'react';
+import api, { getErrorMessage } from '../api/axios';
+import ManagerHeader from '../components/ManagerHeader';
+import { formatDays } from '../utils/format';
+import type { YearClose, YearCloseReport } from '../types';
+
+const TOTAL_CARDS: Array<[keyof YearCloseReport['totals'], string, string]> = [
+  ['days_unused', 'Unused', 'text-gray-900'],
+  ['days_carried', 'Carried Over', 'text-blue-600'],
+  ['days_forfeited', 'Forfeited', 'text-red-600'],
+  ['days_paid_out', 'Paid Out', 'text-green-600'],
+];
+
+export default function ManagerYearClose() {
+  const [year, setYear] = useState(new Date().getFullYear() - 1);
+  const [report, setReport] = useState<YearCloseReport | null>(null);
+  const [closes, setCloses] = useState<YearClose[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState('');
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [reportRes, closesRes] = await Promise.all([
+        api.get(`/year-close/${year}`),
+        api.get('/year-close'),
+      ]);
+      setReport(reportRes.data.data);
+      setCloses(closesRes.data.data);
+    } catch (error) {
+      console.error('Failed to fetch year close report:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [year]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const handleClose = async () => {
+    if (!confirm(`Close ${year}? Unused days will be carried over, forfeited or paid out as shown. This cannot be undone.`)) return;
+
+    try {
+      const response = await api.post('/year-close', { year });
+      setMessage(response.data.message);
+      fetchReport();
+    } catch (err) {
+      setMessage(getErrorMessage(err, 'Failed to close year'));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <ManagerHeader />
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6 flex flex-wrap justify-between items-end gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Year Close</h2>
+            <p className="mt-1 text-sm text-gray-600">
+              Carry unused days into the next year up to each leave type's cap; the rest is paid out or forfeited
+            </p>
+          </div>
+          <div className="flex items-end gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Year</label>
+              <input
+                type="number"
+                min="2000"
+                max={new Date().getFullYear() - 1}
+                value={year}
+                onChange={(e) => {
+                  setMessage('');
+                  setYear(Number(e.target.value));
+                }}
+                className="w-28 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            {report && !report.close && (
+              <button
+                onClick={handleClose}
+                className="px-6 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition"
+              >
+                Close {year}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {message && (
+          <div className="mb-6 bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded-lg text-sm">
+            {message}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            <p className="mt-2 text-gray-600">Loading report...</p>
+          </div>
+        ) : report && (
+          <div className="space-y-6">
+            <p className="text-sm text-gray-600">
+              {report.close
+                ? `Closed on ${new Date(report.close.closed_at).toLocaleDateString()}${report.close.closed_by_name ? ` by ${report.close.closed_by_name}` : ''}`
+                : `${report.year} is still open. The figures below are a preview of what closing it would do.`}
+            </p>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {TOTAL_CARDS.map(([field, label, color]) => (
+                <div key={field} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                  <p className="text-sm text-gray-600">{label}</p>
+                  <p className={`mt-2 text-3xl font-bold ${color}`}>{report.totals[field]}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Employee</th>
+                    <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Leave Type</th>
+                    <th className="px-6 py-3 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">Unused</th>
+                    <th className="px-6 py-3 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">Carried</th>
+                    <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Expires</th>
+                    <th className="px-6 py-3 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">Forfeited</th>
+                    <th className="px-6 py-3 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">Paid Out</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {report.items.length === 0 ? (
+                    <tr>
+                      <td colSpan={7} className="px-6 py-8 text-center text-sm text-gray-500">
+                        No balances for {report.year}
+                      </td>
+                    </tr>
+                  ) : (
+                    report.items.map((item) => (
+                      <tr key={`${item.user_id}-${item.leave_type_id}`}>
+                        <td className="px-6 py-3 text-sm text-gray-900">{item.user_name}</td>
+                        <td className="px-6 py-3 text-sm text-gray-600">{item.leave_type_name}</td>
+                        <td className="px-6 py-3 text-sm text-gray-900 text-right">{formatDays(item.days_unused)}</td>
+                        <td className="px-6 py-3 text-sm text-blue-600 text-right">{formatDays(item.days_carried)}</td>
+                        <td className="px-6 py-3 text-sm text-gray-600">{item.carry_expires_on ?? '—'}</td>
+                        <td className="px-6 py-3 text-sm text-red-600 text-right">{formatDays(item.days_forfeited)}</td>
+                        <td className="px-6 py-3 text-sm text-green-600 text-right">{formatDays(item.days_paid_out)}</td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {closes.length > 0 && (
+              <div>
+                <h3 className="text-lg font-bold text-gray-900 mb-4">Closed Years</h3>
+                <div className="flex flex-wrap gap-2">
+                  {closes.map((close) => (
+                    <button
+                      key={close.id}
+                      onClick={() => setYear(close.year)}
+                      className={`px-4 py-2 text-sm font-semibold rounded-lg transition ${
+                        close.year === year ? 'bg-blue-600 text-white' : 'bg-white border border-gray-200 text-gray-700 hover:bg-gray-100'
+                      }`}
+                    >
+                      {close.year}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,41 +1,108 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import api from '../api/axios';
-import type { User } from '../types';
+import api, { getErrorMessage } from '../api/axios';
+import DurationFields from '../components/DurationFields';
+import { ATTACHMENT_ACCEPT, uploadAttachment } from '../utils/attachments';
+import { DEFAULT_DURATION, durationPayload, type DurationValue } from '../utils/duration';
+import type { BlackoutPeriod, CoverageCheck, LeaveBalance, LeaveType } from '../types';
 
 export default function RequestForm() {
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
+  const [duration, setDuration] = useState<DurationValue>(DEFAULT_DURATION);
   const [reason, setReason] = useState('');
+  const [file, setFile] = useState<File | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
-  const [user, setUser] = useState<User | null>(null);
+  const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
+  const [leaveTypeId, setLeaveTypeId] = useState<number | null>(null);
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [daysNeeded, setDaysNeeded] = useState(0);
+  const [blackouts, setBlackouts] = useState<BlackoutPeriod[]>([]);
+  const [coverage, setCoverage] = useState<CoverageCheck | null>(null);
   const navigate = useNavigate();
 
+  // Half-day and hourly requests cover a single date
+  const effectiveEndDate = duration.durationType === 'full_day' ? endDate : startDate;
+
   useEffect(() => {
-    fetchUser();
+    fetchLeaveOptions();
   }, []);
 
-  const fetchUser = async () => {
+  useEffect(() => {
+    if (!startDate || !effectiveEndDate || effectiveEndDate < startDate) {
+      setDaysNeeded(0);
+      return;
+    }
+    fetchWorkingDays(startDate, effectiveEndDate, duration);
+  }, [startDate, effectiveEndDate, duration]);
+
+  useEffect(() => {
+    if (!startDate || !effectiveEndDate || effectiveEndDate < startDate) {
+      setCoverage(null);
+      return;
+    }
+    fetchCoverage(startDate, effectiveEndDate);
+  }, [startDate, effectiveEndDate]);
+
+  const fetchLeaveOptions = async () => {
     try {
-      const response = await api.get('/auth/me');
-      setUser(response.data.data);
+      const [typesRes, userRes, blackoutsRes] = await Promise.all([
+        api.get('/leave-types'),
+        api.get('/auth/me'),
+        api.get('/blackouts')
+      ]);
+      const types: LeaveType[] = typesRes.data.data;
+      setLeaveTypes(types);
+      setBlackouts(blackoutsRes.data.data);
+      setLeaveTypeId((types.find((type) => type.code === 'annual') || types[0])?.id ?? null);
+      const balancesRes = await api.get(`/users/${userRes.data.data.id}/balances`);
+      setBalances(balancesRes.data.data);
     } catch (error) {
-      console.error('Failed to fetch user:', error);
+      console.error('Failed to fetch leave types:', error);
     }
   };
 
-  const calculateDays = () => {
-    if (!startDate || !endDate) return 0;
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    const diffTime = Math.abs(end.getTime() - start.getTime());
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    return diffDays + 1;
+  // Ask the backend so the preview matches what approval will deduct (weekends and holidays excluded)
+  const fetchWorkingDays = async (start: string, end: string, value: DurationValue) => {
+    try {
+      const params = new URLSearchParams({ start_date: start, end_date: end });
+      Object.entries(durationPayload(value)).forEach(([key, fieldValue]) => {
+        if (fieldValue) params.append(key, fieldValue);
+      });
+      const response = await api.get(`/requests/working-days?${params.toString()}`);
+      setDaysNeeded(response.data.data.days);
+    } catch (error) {
+      console.error('Failed to calculate working days:', error);
+    }
+  };
+
+  // Preview of the staffing check run when the request is approved
+  const fetchCoverage = async (start: string, end: string) => {
+    try {
+      const params = new URLSearchParams({ start_date: start, end_date: end });
+      const response = await api.get(`/requests/coverage?${params.toString()}`);
+      setCoverage(response.data.data);
+    } catch (error) {
+      console.error('Failed to check team coverage:', error);
+    }
   };
 
-  const daysNeeded = calculateDays();
-  const remainingDays = user ? user.vacation_days_total - user.vacation_days_used : 0;
+  const teammatesOff = new Set(coverage?.absences.map((absence) => absence.user_id)).size;
+
+  const leaveType = leaveTypes.find((type) => type.id === leaveTypeId);
+  const balance = balances.find((entry) => entry.leave_type_id === leaveTypeId);
+  const remainingDays = balance ? balance.days_available : 0;
+
+  // Blackouts only restrict leave types that need approval
+  const today = new Date().toISOString().slice(0, 10);
+  const upcomingBlackouts = leaveType?.requires_approval
+    ? blackouts.filter((blackout) => blackout.ends_on >= today)
+    : [];
+  const overlappingBlackouts = startDate && effectiveEndDate
+    ? upcomingBlackouts.filter((blackout) => blackout.starts_on <= effectiveEndDate && blackout.ends_on >= startDate)
+    : [];
+  const blockingBlackout = overlappingBlackouts.find((blackout) => blackout.mode === 'block');
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -43,12 +110,23 @@ export default function RequestForm() {
     setLoading(true);
 
     try {
-      await api.post('/requests', {
+      const response = await api.post('/requests', {
+        leave_type_id: leaveTypeId ?? undefined,
         start_date: startDate,
-        end_date: endDate,
+        end_date: effectiveEndDate,
+        ...durationPayload(duration),
         reason: reason || undefined,
       });
-      
+
+      // The request stands without its document; it can be attached again from the requests page
+      if (file) {
+        try {
+          await uploadAttachment(response.data.data.id, file);
+        } catch (err) {
+          alert(`Your request was submitted, but the document could not be attached: ${getErrorMessage(err, 'Upload failed')}`);
+        }
+      }
+
       navigate('/employee/requests');
     } catch (err: any) {
       setError(err.response?.data?.error || 'Failed to create request');
@@ -81,22 +159,23 @@ export default function RequestForm() {
 
       {/* Content */}
       <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {/* Vacation Balance Info */}
-        {user && (
+        {/* Leave Balance Info */}
+        {balance && (
           <div className="mb-6 bg-blue-50 border border-blue-200 rounded-xl p-4">
             <div className="flex justify-between items-center">
               <div>
-                <h3 className="text-sm font-semibold text-blue-900">Available Vacation Days</h3>
+                <h3 className="text-sm font-semibold text-blue-900">Available {balance.leave_type_name} Days</h3>
                 <p className="text-2xl font-bold text-blue-600 mt-1">
                   {remainingDays} days
                 </p>
                 <p className="text-xs text-blue-700 mt-1">
-                  {user.vacation_days_used} of {user.vacation_days_total} used
+                  {balance.days_used} of {balance.days_total} used
+                  {balance.days_pending > 0 && `, ${balance.days_pending} reserved by pending requests`}
                 </p>
               </div>
-              {daysNeeded > 0 && (
+              {startDate && effectiveEndDate && (
                 <div className="text-right">
-                  <p className="text-sm text-gray-600">Requesting</p>
+                  <p className="text-sm text-gray-600">Requesting (working days)</p>
                   <p className={`text-2xl font-bold ${
                     daysNeeded > remainingDays ? 'text-red-600' : 'text-green-600'
                   }`}>
@@ -111,38 +190,119 @@ export default function RequestForm() {
           </div>
         )}
 
+        {/* Blackout Periods */}
+        {upcomingBlackouts.length > 0 && (
+          <div className="mb-6 bg-amber-50 border border-amber-200 rounded-xl p-4">
+            <h3 className="text-sm font-semibold text-amber-900">Blackout Periods</h3>
+            <ul className="mt-2 space-y-1 text-sm text-amber-800">
+              {upcomingBlackouts.map((blackout) => (
+                <li key={blackout.id}>
+                  {blackout.starts_on} → {blackout.ends_on}: {blackout.name}
+                  <span className="text-amber-700">
+                    {blackout.mode === 'block'
+                      ? ' (no leave)'
+                      : ` (needs extra approval by ${blackout.approver_name ?? 'a super-admin'})`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
           <h2 className="text-2xl font-bold text-gray-900 mb-6">New Vacation Request</h2>
 
           <form onSubmit={handleSubmit} className="space-y-6">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Start Date
+                Leave Type
               </label>
-              <input
-                type="date"
-                value={startDate}
-                onChange={(e) => setStartDate(e.target.value)}
+              <select
+                value={leaveTypeId ?? ''}
+                onChange={(e) => setLeaveTypeId(Number(e.target.value))}
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition"
                 required
-              />
+              >
+                {leaveTypes.map((type) => (
+                  <option key={type.id} value={type.id}>
+                    {type.name}{type.is_paid ? '' : ' (unpaid)'}
+                  </option>
+                ))}
+              </select>
+              {leaveType && !leaveType.tracks_balance && (
+                <p className="mt-1 text-sm text-gray-500">This leave type does not use a balance.</p>
+              )}
+              {leaveType && !leaveType.requires_approval && (
+                <p className="mt-1 text-sm text-gray-500">Requests of this type are approved automatically.</p>
+              )}
+              {leaveType?.requires_attachment && (
+                <p className="mt-1 text-sm text-amber-600">Supporting documentation is required for this leave type.</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Duration
+              </label>
+              <DurationFields value={duration} onChange={setDuration} />
             </div>
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                End Date
+                {duration.durationType === 'full_day' ? 'Start Date' : 'Date'}
               </label>
               <input
                 type="date"
-                value={endDate}
-                onChange={(e) => setEndDate(e.target.value)}
-                min={startDate}
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition"
                 required
               />
-              <p className="mt-1 text-sm text-gray-500">End date must be on or after start date</p>
             </div>
 
+            {duration.durationType === 'full_day' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  End Date
+                </label>
+                <input
+                  type="date"
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  min={startDate}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition"
+                  required
+                />
+                <p className="mt-1 text-sm text-gray-500">End date must be on or after start date</p>
+              </div>
+            )}
+
+            {blockingBlackout ? (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                Leave cannot be taken during {blockingBlackout.name} ({blockingBlackout.starts_on} to {blockingBlackout.ends_on}).
+                Please choose other dates.
+              </div>
+            ) : overlappingBlackouts.length > 0 && (
+              <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm">
+                These dates fall in {overlappingBlackouts.map((blackout) => blackout.name).join(', ')}; the request
+                needs an extra approval.
+              </div>
+            )}
+
+            {leaveType?.requires_approval && coverage && coverage.team_id !== null && (
+              coverage.breaches_minimum ? (
+                <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm">
+                  {teammatesOff} of {coverage.team_name} already off at the same time; only{' '}
+                  {coverage.lowest_staffing} would be at work, below the minimum of {coverage.min_staffing}. Your
+                  manager will need to override the minimum to approve this request.
+                </div>
+              ) : teammatesOff > 0 && (
+                <p className="text-sm text-gray-500">
+                  {teammatesOff} of {coverage.team_name} already off at the same time
+                </p>
+              )
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Reason <span className="text-gray-500 font-normal">(optional)</span>
@@ -156,6 +316,21 @@ export default function RequestForm() {
               />
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Supporting Document{' '}
+                {!leaveType?.requires_attachment && <span className="text-gray-500 font-normal">(optional)</span>}
+              </label>
+              <input
+                type="file"
+                accept={ATTACHMENT_ACCEPT}
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                className="w-full text-sm text-gray-700"
+                required={leaveType?.requires_attachment}
+              />
+              <p className="mt-1 text-sm text-gray-500">PDF, JPEG or PNG, e.g. a medical certificate</p>
+            </div>
+
             {error && (
               <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
                 {error}
@@ -165,7 +340,7 @@ export default function RequestForm() {
             <div className="flex gap-3 pt-4">
               <button
                 type="submit"
-                disabled={loading}
+                disabled={loading || Boolean(blockingBlackout)}
                 className="px-6 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition"
               >
                 {loading ? 'Submitting...' : 'Submit Request'}
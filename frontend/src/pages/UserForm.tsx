@@ -1,12 +1,23 @@
 import { useState, useEffect } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import api from '../api/axios';
+import type { Team, User } from '../types';
 
 export default function UserForm() {
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
   const [employeeCode, setEmployeeCode] = useState('');
   const [password, setPassword] = useState('');
+  const [countryCode, setCountryCode] = useState('GR');
+  const [region, setRegion] = useState('');
+  const [hireDate, setHireDate] = useState(new Date().toISOString().slice(0, 10));
+  const [role, setRole] = useState<User['role']>('employee');
+  const [teamId, setTeamId] = useState('');
+  const [managerId, setManagerId] = useState('');
+  const [isSuperAdmin, setIsSuperAdmin] = useState(false);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [managers, setManagers] = useState<User[]>([]);
+  const [canGrantSuperAdmin, setCanGrantSuperAdmin] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const navigate = useNavigate();
@@ -19,6 +30,16 @@ export default function UserForm() {
     }
   }, [id]);
 
+  useEffect(() => {
+    Promise.all([api.get('/teams'), api.get('/users'), api.get('/auth/me')])
+      .then(([teamsRes, usersRes, meRes]) => {
+        setTeams(teamsRes.data.data);
+        setManagers(usersRes.data.data.filter((user: User) => user.role === 'manager'));
+        setCanGrantSuperAdmin(meRes.data.data.is_super_admin);
+      })
+      .catch((error) => console.error('Failed to fetch teams and managers:', error));
+  }, []);
+
   const fetchUser = async () => {
     try {
       const response = await api.get(`/users/${id}`);
@@ -26,6 +47,13 @@ export default function UserForm() {
       setName(user.name);
       setEmail(user.email);
       setEmployeeCode(user.employee_code);
+      setCountryCode(user.country_code);
+      setRegion(user.region || '');
+      setHireDate(user.hire_date);
+      setRole(user.role);
+      setTeamId(user.team_id ? String(user.team_id) : '');
+      setManagerId(user.manager_id ? String(user.manager_id) : '');
+      setIsSuperAdmin(user.is_super_admin);
     } catch (error) {
       setError('Failed to load user');
     }
@@ -37,13 +65,25 @@ export default function UserForm() {
     setLoading(true);
 
     try {
-      const data: any = { name, email };
+      const data: any = {
+        name,
+        email,
+        country_code: countryCode,
+        region,
+        hire_date: hireDate,
+        team_id: teamId ? Number(teamId) : null,
+        manager_id: managerId ? Number(managerId) : null,
+      };
       if (!isEdit) {
         data.employee_code = employeeCode;
         data.password = password;
+        data.role = role;
       } else if (password) {
         data.password = password;
       }
+      if (canGrantSuperAdmin) {
+        data.is_super_admin = role === 'manager' && isSuperAdmin;
+      }
 
       if (isEdit) {
         await api.put(`/users/${id}`, data);
@@ -136,6 +176,114 @@ export default function UserForm() {
               </div>
             )}
 
+            {!isEdit && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Role
+                </label>
+                <select
+                  value={role}
+                  onChange={(e) => setRole(e.target.value as User['role'])}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition"
+                >
+                  <option value="employee">Employee</option>
+                  <option value="manager">Manager</option>
+                </select>
+              </div>
+            )}
+
+            <div className="flex gap-4">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Team <span className="text-gray-500 font-normal">(optional)</span>
+                </label>
+                <select
+                  value={teamId}
+                  onChange={(e) => setTeamId(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition"
+                >
+                  <option value="">No team</option>
+                  {teams.map((team) => (
+                    <option key={team.id} value={team.id}>{team.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Reports To <span className="text-gray-500 font-normal">(optional)</span>
+                </label>
+                <select
+                  value={managerId}
+                  onChange={(e) => setManagerId(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition"
+                >
+                  <option value="">Nobody</option>
+                  {managers
+                    .filter((manager) => String(manager.id) !== id)
+                    .map((manager) => (
+                      <option key={manager.id} value={manager.id}>{manager.name}</option>
+                    ))}
+                </select>
+              </div>
+            </div>
+            <p className="-mt-4 text-sm text-gray-500">The manager this user reports to approves their requests</p>
+
+            {canGrantSuperAdmin && role === 'manager' && (
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={isSuperAdmin}
+                  onChange={(e) => setIsSuperAdmin(e.target.checked)}
+                />
+                Super-admin: can see and review every request, not just their own reports'
+              </label>
+            )}
+
+            <div className="flex gap-4">
+              <div className="w-32">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Country
+                </label>
+                <input
+                  type="text"
+                  value={countryCode}
+                  onChange={(e) => setCountryCode(e.target.value.toUpperCase())}
+                  maxLength={2}
+                  pattern="[A-Za-z]{2}"
+                  placeholder="GR"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition"
+                  required
+                />
+              </div>
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Region <span className="text-gray-500 font-normal">(optional)</span>
+                </label>
+                <input
+                  type="text"
+                  value={region}
+                  onChange={(e) => setRegion(e.target.value)}
+                  placeholder="Attica"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition"
+                />
+              </div>
+            </div>
+            <p className="-mt-4 text-sm text-gray-500">Determines which public holidays are excluded from vacation days</p>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Hire Date
+              </label>
+              <input
+                type="date"
+                value={hireDate}
+                onChange={(e) => setHireDate(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition"
+                required
+              />
+              <p className="mt-1 text-sm text-gray-500">Leave accruals are pro-rated from this date</p>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Password {isEdit && <span className="text-gray-500 font-normal">(leave blank to keep current)</span>}
@@ -0,0 +1,18 @@
+import api from '../api/axios';
+import type { RequestAttachment } from '../types';
+
+// File picker hint; the server decides which types it accepts
+export const ATTACHMENT_ACCEPT = '.pdf,.jpg,.jpeg,.png,application/pdf,image/jpeg,image/png';
+
+// Types the browser can show in the page instead of downloading
+export const PREVIEWABLE_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'image/gif'];
+
+// Attach a file to a request
+export async function uploadAttachment(requestId: number, file: File): Promise<RequestAttachment> {
+  const form = new FormData();
+  form.append('file', file);
+  const response = await api.post(`/requests/${requestId}/attachments`, form, {
+    headers: { 'Content-Type': 'multipart/form-data' },
+  });
+  return response.data.data;
+}
@@ -0,0 +1,25 @@
+import type { DayPeriod, DurationType } from '../types';
+
+export interface DurationValue {
+  durationType: DurationType;
+  halfDayPeriod: DayPeriod;
+  startTime: string;
+  endTime: string;
+}
+
+export const DEFAULT_DURATION: DurationValue = {
+  durationType: 'full_day',
+  halfDayPeriod: 'am',
+  startTime: '09:00',
+  endTime: '13:00',
+};
+
+// Request payload fields for a duration
+export function durationPayload(value: DurationValue) {
+  return {
+    duration_type: value.durationType,
+    half_day_period: value.durationType === 'half_day' ? value.halfDayPeriod : null,
+    start_time: value.durationType === 'hours' ? value.startTime : null,
+    end_time: value.durationType === 'hours' ? value.endTime : null,
+  };
+}
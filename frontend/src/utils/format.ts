@@ -0,0 +1,28 @@
+import type { VacationRequest } from '../types';
+
+const PERIOD_LABELS = { am: 'Morning', pm: 'Afternoon' };
+
+// Human-readable dates of a request, including the half-day period or hours
+export function formatRequestDates(
+  request: Pick<VacationRequest, 'start_date' | 'end_date' | 'duration_type' | 'half_day_period' | 'start_time' | 'end_time'>
+): string {
+  if (request.duration_type === 'half_day' && request.half_day_period) {
+    return `${request.start_date} (${PERIOD_LABELS[request.half_day_period]})`;
+  }
+  if (request.duration_type === 'hours') {
+    return `${request.start_date} ${request.start_time}–${request.end_time}`;
+  }
+  return `${request.start_date} → ${request.end_date}`;
+}
+
+// File size in B, KB or MB
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${Math.round((bytes / 1024 / 1024) * 10) / 10} MB`;
+}
+
+// Day count with singular/plural label, keeping fractions such as 0.5 or 0.25
+export function formatDays(days: number): string {
+  return `${days} ${days === 1 ? 'day' : 'days'}`;
+}